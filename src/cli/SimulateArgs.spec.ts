@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+
+import { CliUsageError, parseSimulateArgs } from './SimulateArgs';
+
+describe('parseSimulateArgs', () => {
+  it('applies defaults', () => {
+    expect(parseSimulateArgs([])).toEqual({
+      turns: 10,
+      seed: 'sim',
+      aiTowns: {},
+      format: 'csv',
+      help: false,
+    });
+  });
+
+  it('parses every option in both --flag value and --flag=value forms', () => {
+    const args = parseSimulateArgs([
+      '--',
+      '--turns',
+      '25',
+      '--seed=abc',
+      '--load',
+      'save.json',
+      '--config=balance.json',
+      '--player',
+      'riverdale',
+      '--ai',
+      'random',
+      '--ai',
+      'ironforge=greedy',
+      '--format=json',
+      '--out',
+      'run.json',
+    ]);
+
+    expect(args).toEqual({
+      turns: 25,
+      seed: 'abc',
+      load: 'save.json',
+      config: 'balance.json',
+      player: 'riverdale',
+      aiDefault: 'random',
+      aiTowns: { ironforge: 'greedy' },
+      format: 'json',
+      out: 'run.json',
+      help: false,
+    });
+  });
+
+  it('recognizes help flags', () => {
+    expect(parseSimulateArgs(['-h']).help).toBe(true);
+    expect(parseSimulateArgs(['--help']).help).toBe(true);
+  });
+
+  it('rejects unknown options, missing values and invalid values', () => {
+    expect(() => parseSimulateArgs(['--fast'])).toThrow(CliUsageError);
+    expect(() => parseSimulateArgs(['--turns'])).toThrow('Missing value for --turns');
+    expect(() => parseSimulateArgs(['--turns', '1.5'])).toThrow('nonnegative integer');
+    expect(() => parseSimulateArgs(['--format', 'xml'])).toThrow('csv or json');
+    expect(() => parseSimulateArgs(['--ai', '=greedy'])).toThrow('<town>=<profile>');
+  });
+});
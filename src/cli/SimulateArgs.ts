@@ -0,0 +1,166 @@
+/**
+ * Error thrown for invalid command line arguments.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/** Output formats supported by the simulator */
+export type SimulateFormat = 'csv' | 'json';
+
+/**
+ * Parsed arguments for the simulate command.
+ */
+export interface SimulateArgs {
+  /** Number of turns to run */
+  turns: number;
+  /** RNG seed for a new game (ignored when loading a save) */
+  seed: string;
+  /** Path to a saved game JSON file to start from */
+  load?: string;
+  /** Path to a JSON file with balance overrides */
+  config?: string;
+  /** ID of the player's town */
+  player?: string;
+  /** Profile for every AI town without an explicit assignment */
+  aiDefault?: string;
+  /** Profile per AI town */
+  aiTowns: Record<string, string>;
+  /** Output format */
+  format: SimulateFormat;
+  /** Path to write the report to (stdout if omitted) */
+  out?: string;
+  /** Print usage and exit */
+  help: boolean;
+}
+
+export const SIMULATE_USAGE = `Usage: pnpm simulate [options]
+
+Runs the turn loop headlessly and prints per-turn prices, stocks, treasuries
+and raw stats for every town.
+
+Options:
+  --turns <n>          Number of turns to run (default: 10)
+  --seed <seed>        RNG seed for a new game (default: "sim")
+  --load <file>        Start from a saved game JSON file instead of a new game
+  --config <file>      JSON balance overrides:
+                       { aiProfiles, production, stats, map, shipping }
+  --player <town>      The player's town (default: first town)
+  --ai <profile>       AI profile for every AI town
+  --ai <town>=<profile>
+                       AI profile for one town (repeatable)
+  --format <csv|json>  Output format (default: csv)
+  --out <file>         Write the report to a file instead of stdout
+  -h, --help           Show this help
+`;
+
+const VALUE_FLAGS = new Set([
+  '--turns',
+  '--seed',
+  '--load',
+  '--config',
+  '--player',
+  '--ai',
+  '--format',
+  '--out',
+]);
+
+/**
+ * Parses simulate command line arguments (without the node/script prefix).
+ * Accepts both `--flag value` and `--flag=value`.
+ *
+ * @param argv - Arguments to parse
+ * @returns The parsed arguments with defaults applied
+ * @throws CliUsageError for unknown flags, missing values or invalid values
+ */
+export function parseSimulateArgs(argv: readonly string[]): SimulateArgs {
+  const args: SimulateArgs = {
+    turns: 10,
+    seed: 'sim',
+    aiTowns: {},
+    format: 'csv',
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+
+    // pnpm forwards a literal "--" separator before script arguments
+    if (arg === '--') {
+      continue;
+    }
+
+    if (arg === '-h' || arg === '--help') {
+      args.help = true;
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    const flag = arg.startsWith('--') && eq !== -1 ? arg.slice(0, eq) : arg;
+    if (!VALUE_FLAGS.has(flag)) {
+      throw new CliUsageError(`Unknown option: ${arg}`);
+    }
+
+    let value: string | undefined;
+    if (flag !== arg) {
+      value = arg.slice(eq + 1);
+    } else {
+      value = argv[i + 1];
+      i++;
+    }
+    if (value === undefined || value === '') {
+      throw new CliUsageError(`Missing value for ${flag}`);
+    }
+
+    switch (flag) {
+      case '--turns': {
+        const turns = Number(value);
+        if (!Number.isInteger(turns) || turns < 0) {
+          throw new CliUsageError(`--turns must be a nonnegative integer, got ${value}`);
+        }
+        args.turns = turns;
+        break;
+      }
+      case '--seed':
+        args.seed = value;
+        break;
+      case '--load':
+        args.load = value;
+        break;
+      case '--config':
+        args.config = value;
+        break;
+      case '--player':
+        args.player = value;
+        break;
+      case '--ai': {
+        const sep = value.indexOf('=');
+        if (sep === -1) {
+          args.aiDefault = value;
+        } else {
+          const town = value.slice(0, sep);
+          const profile = value.slice(sep + 1);
+          if (!town || !profile) {
+            throw new CliUsageError(`--ai expects <profile> or <town>=<profile>, got ${value}`);
+          }
+          args.aiTowns[town] = profile;
+        }
+        break;
+      }
+      case '--format':
+        if (value !== 'csv' && value !== 'json') {
+          throw new CliUsageError(`--format must be csv or json, got ${value}`);
+        }
+        args.format = value;
+        break;
+      case '--out':
+        args.out = value;
+        break;
+    }
+  }
+
+  return args;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { initGameState } from '../core/initGameState';
+import { serializeGameState } from '../core/serialize';
+
+import type { CliIO } from './SimulateCli';
+import { runSimulateCli } from './SimulateCli';
+
+describe('runSimulateCli', () => {
+  let files: Record<string, string>;
+  let out: string;
+  let err: string;
+  let io: CliIO;
+
+  beforeEach(() => {
+    files = {};
+    out = '';
+    err = '';
+    io = {
+      readFile: path => {
+        const contents = files[path];
+        if (contents === undefined) throw new Error('ENOENT');
+        return contents;
+      },
+      writeFile: (path, contents) => {
+        files[path] = contents;
+      },
+      stdout: text => {
+        out += text;
+      },
+      stderr: text => {
+        err += text;
+      },
+    };
+  });
+
+  it('prints a CSV report for a new seeded game', async () => {
+    const code = await runSimulateCli(['--turns', '2', '--seed', 'cli'], io);
+
+    const lines = out.trim().split('\n');
+    expect(code).toBe(0);
+    expect(lines[0]).toBe(
+      'turn,town,treasury,militaryRaw,prosperityRaw,price_fish,price_wood,price_ore,stock_fish,stock_wood,stock_ore',
+    );
+    // Header plus three towns for turns 0, 1 and 2
+    expect(lines).toHaveLength(10);
+  });
+
+  it('produces identical output for the same seed', async () => {
+    await runSimulateCli(['--turns', '4', '--seed', 'same'], io);
+    const first = out;
+    out = '';
+    await runSimulateCli(['--turns', '4', '--seed', 'same'], io);
+
+    expect(out).toBe(first);
+  });
+
+  it('starts from a saved game and writes JSON to a file', async () => {
+    files['save.json'] = serializeGameState({ ...initGameState({ rngSeed: 's' }), turn: 7 });
+
+    const code = await runSimulateCli(
+      ['--load', 'save.json', '--turns', '1', '--format', 'json', '--out', 'run.json'],
+      io,
+    );
+
+    expect(code).toBe(0);
+    expect(out).toBe('');
+    const report = JSON.parse(files['run.json']!) as Array<{ turn: number }>;
+    expect(report.map(s => s.turn)).toEqual([7, 8]);
+  });
+
+  it('accepts a save slot record and a config file', async () => {
+    const state = initGameState({ rngSeed: 's' });
+    files['slot.json'] = JSON.stringify({ slot: 'a', savedAt: 0, turn: 0, version: 1, state });
+    files['balance.json'] = JSON.stringify({ stats: { revealInterval: 1 } });
+
+    const code = await runSimulateCli(
+      ['--load', 'slot.json', '--config', 'balance.json', '--turns', '1'],
+      io,
+    );
+
+    expect(code).toBe(0);
+    expect(err).toBe('');
+  });
+
+  it('returns 2 with usage for bad arguments and 1 for runtime errors', async () => {
+    expect(await runSimulateCli(['--turns', 'many'], io)).toBe(2);
+    expect(err).toContain('Usage: pnpm simulate');
+
+    err = '';
+    expect(await runSimulateCli(['--load', 'missing.json'], io)).toBe(1);
+    expect(err).toContain('Cannot read missing.json');
+
+    err = '';
+    files['bad.json'] = JSON.stringify({ turn: 0 });
+    expect(await runSimulateCli(['--load', 'bad.json'], io)).toBe(1);
+    expect(err).toContain('Invalid saved game in bad.json');
+  });
+});
@@ -0,0 +1,113 @@
+import { loadGoodsRegistry } from '../core/goods/GoodsRegistry';
+import { initGameState } from '../core/initGameState';
+import { restoreGameState } from '../core/save/SaveManager';
+import { formatSnapshotsCsv, formatSnapshotsJson } from '../core/sim/Report';
+import { parseSimulationConfig, runSimulation } from '../core/sim/Simulator';
+import type { SimulationConfig } from '../core/sim/Simulator';
+import type { GameState } from '../types/GameState';
+
+import { CliUsageError, SIMULATE_USAGE, parseSimulateArgs } from './SimulateArgs';
+
+/**
+ * File and console access used by the CLI, injectable for tests.
+ */
+export interface CliIO {
+  readFile(path: string): string;
+  writeFile(path: string, contents: string): void;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (
+    error !== null &&
+    typeof error === 'object' &&
+    'path' in error &&
+    'message' in error &&
+    typeof error.path === 'string' &&
+    typeof error.message === 'string'
+  ) {
+    return `${error.path}: ${error.message}`;
+  }
+  return String(error);
+}
+
+function readJson(io: CliIO, path: string): unknown {
+  try {
+    return JSON.parse(io.readFile(path));
+  } catch (error) {
+    throw new Error(`Cannot read ${path}: ${describeError(error)}`);
+  }
+}
+
+/**
+ * Loads a saved game from either a serialized GameState or a save slot record
+ * (`{ slot, savedAt, turn, version, state }`), migrating older versions.
+ */
+function loadSavedState(io: CliIO, path: string): GameState {
+  const raw = readJson(io, path);
+  const state =
+    raw !== null && typeof raw === 'object' && 'slot' in raw && 'state' in raw ? raw.state : raw;
+
+  try {
+    return restoreGameState(state);
+  } catch (error) {
+    throw new Error(`Invalid saved game in ${path}: ${describeError(error)}`);
+  }
+}
+
+/**
+ * Runs the simulate command.
+ *
+ * @param argv - Command line arguments (without the node/script prefix)
+ * @param io - File and console access
+ * @returns Process exit code (0 on success, 1 on runtime errors, 2 on usage errors)
+ */
+export async function runSimulateCli(argv: readonly string[], io: CliIO): Promise<number> {
+  try {
+    const args = parseSimulateArgs(argv);
+    if (args.help) {
+      io.stdout(SIMULATE_USAGE);
+      return 0;
+    }
+
+    const initialState = args.load
+      ? loadSavedState(io, args.load)
+      : initGameState({ rngSeed: args.seed });
+    const config: SimulationConfig = args.config
+      ? parseSimulationConfig(readJson(io, args.config))
+      : {};
+
+    const { snapshots } = await runSimulation(initialState, {
+      turns: args.turns,
+      config,
+      ai: {
+        ...(args.aiDefault !== undefined && { default: args.aiDefault }),
+        towns: args.aiTowns,
+      },
+      ...(args.player !== undefined && { playerTownId: args.player }),
+    });
+
+    const report =
+      args.format === 'json'
+        ? formatSnapshotsJson(snapshots)
+        : formatSnapshotsCsv(snapshots, loadGoodsRegistry().ids);
+
+    if (args.out) {
+      io.writeFile(args.out, report);
+    } else {
+      io.stdout(report);
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr(`${error.message}\n\n${SIMULATE_USAGE}`);
+      return 2;
+    }
+    io.stderr(`simulate: ${describeError(error)}\n`);
+    return 1;
+  }
+}
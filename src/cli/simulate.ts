@@ -0,0 +1,15 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import process from 'node:process';
+
+import { runSimulateCli } from './SimulateCli';
+
+// Node entry point for the headless simulator (see `pnpm simulate --help`)
+
+runSimulateCli(process.argv.slice(2), {
+  readFile: path => readFileSync(path, 'utf8'),
+  writeFile: (path, contents) => writeFileSync(path, contents, 'utf8'),
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+}).then(code => {
+  process.exitCode = code;
+});
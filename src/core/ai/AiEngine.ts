@@ -1,5 +1,8 @@
 import type { GameState } from '../../types/GameState';
 import type { GoodId, GoodConfig } from '../../types/Goods';
+import type { TownGraph } from '../map/TownGraph';
+import type { TradeQuoter } from '../pricing/Slippage';
+import type { SpreadConfig } from '../pricing/Spread';
 import type { TradeRequest } from '../trade/TradeTypes';
 
 import type { AiTrace } from './AiTelemetry';
@@ -20,12 +23,15 @@ export function quoteToTradeRequest(q: Quote): TradeRequest {
     side: 'buy',
     goodId: q.goodId,
     quantity: q.quantity,
-    pricePerUnit: q.unitSellPrice, // buyer pays seller's price (validation rule)
+    pricePerUnit: q.unitSellPrice, // buyer pays seller's ask (validation rule)
   };
 }
 
 /**
- * Decides on AI trade actions based on current market state and AI profile
+ * Decides on AI trade actions based on current market state and AI profile.
+ * With a town graph, candidate spreads are net of transport costs; with a quote
+ * function, they are priced unit by unit along both towns' curves. With a bid/ask
+ * spread, the buyer pays the seller's ask and values the goods at its own bid.
  */
 export function decideAiTrade(
   state: GameState,
@@ -34,10 +40,15 @@ export function decideAiTrade(
   goods: Record<GoodId, GoodConfig>,
   seed: string,
   cooldownState?: CooldownState,
+  graph?: TownGraph,
+  quote?: TradeQuoter,
+  spread?: SpreadConfig,
 ): AiDecision {
-  const market = snapshotMarket(state);
+  const market = snapshotMarket(state, spread);
   const candidates = generateCandidates(market, goods, {
     maxQuantityPerTrade: profile.maxQuantityPerTrade,
+    ...(graph && { graph }),
+    ...(quote && { quote: request => quote(state, request) }),
   });
 
   // Filter candidates so AI only acts for itself
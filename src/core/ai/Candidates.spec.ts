@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 
 import type { GoodConfig, GoodId } from '../../types/Goods';
+import { createTownGraph } from '../map/TownGraph';
+import type { QuoteRequest } from '../pricing/Slippage';
 
 import { generateCandidates } from './Candidates';
 import type { MarketSnapshot } from './Market';
@@ -84,7 +86,7 @@ describe('generateCandidates', () => {
 
     candidates.forEach(candidate => {
       const seller = market.towns.find(t => t.id === candidate.sellerId)!;
-      expect(candidate.quantity).toBeLessThanOrEqual(seller.stock[candidate.goodId]);
+      expect(candidate.quantity).toBeLessThanOrEqual(seller.stock[candidate.goodId]!);
     });
   });
 
@@ -190,6 +192,90 @@ describe('generateCandidates', () => {
     expect(candidatesToB).toEqual([]);
   });
 
+  it('nets transport costs out of the spread', () => {
+    const market = createMockMarket();
+    // townA-townB is 500 apart (2.5 per unit), townC is 1000 away from both (5 per unit)
+    const graph = createTownGraph({
+      costPerUnitDistance: 0.005,
+      towns: { townA: { x: 0, y: 0 }, townB: { x: 300, y: 400 }, townC: { x: 0, y: 1000 } },
+      routes: [{ from: 'townB', to: 'townC', distance: 1000 }],
+    });
+
+    const without = generateCandidates(market, mockGoods, { maxQuantityPerTrade: 50 });
+    const withTransport = generateCandidates(market, mockGoods, { maxQuantityPerTrade: 50, graph });
+
+    // C→A ore spread is 2, less than the 5 per unit transport
+    const isCToAOre = (c: { sellerId: string; buyerId: string; goodId: GoodId }) =>
+      c.sellerId === 'townC' && c.buyerId === 'townA' && c.goodId === 'ore';
+    expect(without.some(isCToAOre)).toBe(true);
+    expect(withTransport.some(isCToAOre)).toBe(false);
+
+    withTransport.forEach(candidate => {
+      expect(candidate.unitTransportCost).toBeGreaterThan(0);
+      expect(candidate.unitSellPrice + candidate.unitTransportCost!).toBeLessThan(
+        candidate.unitBuyPrice,
+      );
+    });
+  });
+
+  it('keeps the buyer able to pay for goods and transport', () => {
+    const market = createMockMarket();
+    const graph = createTownGraph({
+      costPerUnitDistance: 0.005,
+      towns: { townA: { x: 0, y: 0 }, townB: { x: 300, y: 400 }, townC: { x: 0, y: 1000 } },
+    });
+
+    const candidates = generateCandidates(market, mockGoods, { maxQuantityPerTrade: 1000, graph });
+
+    candidates.forEach(candidate => {
+      const buyer = market.towns.find(t => t.id === candidate.buyerId)!;
+      const transport = graph.transportCost(
+        candidate.buyerId,
+        candidate.sellerId,
+        candidate.quantity,
+      );
+      expect(candidate.quantity * candidate.unitSellPrice + transport).toBeLessThanOrEqual(
+        buyer.treasury,
+      );
+    });
+  });
+
+  it('stops at the first unit that is no longer profitable along the curves', () => {
+    const market = createMockMarket();
+    // Each unit bought costs one more and each unit delivered is worth one less
+    const quote = (request: QuoteRequest) => {
+      const town = market.towns.find(t => t.id === request.toTownId)!;
+      const price = town.prices[request.goodId]!;
+      const step = request.side === 'buy' ? 1 : -1;
+      const unitPrices = Array.from({ length: request.quantity }, (_, i) => price + step * i);
+      const totalCost = unitPrices.reduce((sum, unit) => sum + unit, 0);
+      return { unitPrices, totalCost, averagePrice: totalCost / request.quantity };
+    };
+
+    const candidates = generateCandidates(market, mockGoods, { maxQuantityPerTrade: 50, quote });
+
+    // A→B fish: costs 10, 11, 12 against values 15, 14, 13; the fourth unit costs 13 for 12
+    const fish = candidates.find(
+      c => c.sellerId === 'townA' && c.buyerId === 'townB' && c.goodId === 'fish',
+    );
+    expect(fish).toMatchObject({ quantity: 3, totalSellCost: 33, totalBuyValue: 42 });
+  });
+
+  it("buys at the seller's ask and values goods at the buyer's bid", () => {
+    const market = createMockMarket();
+    // townC's fish ask (9) is still below townB's bid (14); its ore ask (30) is not below townB's (33)
+    market.towns[1] = { ...market.towns[1]!, bids: { fish: 14, wood: 14, ore: 29 } };
+    market.towns[2] = { ...market.towns[2]!, asks: { fish: 9, wood: 26, ore: 30 } };
+
+    const fromC = generateCandidates(market, mockGoods, { maxQuantityPerTrade: 10 }).filter(
+      candidate => candidate.sellerId === 'townC' && candidate.buyerId === 'townB',
+    );
+
+    expect(fromC).toEqual([
+      expect.objectContaining({ goodId: 'fish', unitSellPrice: 9, unitBuyPrice: 14 }),
+    ]);
+  });
+
   it('produces deterministic results', () => {
     const market = createMockMarket();
     const opts = { maxQuantityPerTrade: 50 };
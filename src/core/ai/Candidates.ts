@@ -1,4 +1,6 @@
 import type { GoodConfig, GoodId } from '../../types/Goods';
+import type { TownGraph } from '../map/TownGraph';
+import type { QuoteRequest, TradeQuote } from '../pricing/Slippage';
 
 import type { MarketSnapshot } from './Market';
 import type { Quote } from './Valuation';
@@ -9,16 +11,26 @@ import type { Quote } from './Valuation';
 export interface CandidateOptions {
   /** Maximum quantity that can be traded in a single transaction */
   maxQuantityPerTrade: number;
+  /** Optional town graph; the buyer pays transport, which is netted out of the spread */
+  graph?: TownGraph;
+  /**
+   * Optional quote function; when given, each unit is priced along both towns' curves
+   * and the quantity is cut to the units that are still profitable and affordable
+   */
+  quote?: (request: QuoteRequest) => TradeQuote;
 }
 
 /**
  * Generates feasible trade candidates from a market snapshot.
  *
- * For each ordered pair of towns (A != B) and each good:
- * - Skips trades where priceA >= priceB (no profit direction A→B)
+ * For each ordered pair of towns (A != B) and each good, the buyer B pays A's ask and
+ * values the goods at its own bid, so a town never profits from its own spread:
+ * - Skips trades where askA + unit transport cost >= bidB (no profit direction A→B)
  * - Respects seller's available stock
- * - Respects buyer's available treasury
+ * - Respects buyer's available treasury, including transport
  * - Caps quantity at maxQuantityPerTrade
+ * - With a quote function, stops at the first unit whose price along the seller's
+ *   curve (plus transport) reaches its value along the buyer's curve
  *
  * @param market - Current market snapshot
  * @param goods - Configuration for all goods
@@ -43,20 +55,63 @@ export function generateCandidates(
       // TypeScript safety check - these should never be undefined in this loop
       if (!seller || !buyer) continue;
 
+      // Cost of moving one unit from the seller to the buyer
+      const unitTransport = opts.graph?.unitTransportCost(buyer.id, seller.id) ?? 0;
+
       // For each good
       for (const goodId of Object.keys(goods) as GoodId[]) {
-        const priceA = seller.prices[goodId];
-        const priceB = buyer.prices[goodId];
+        const priceA = seller.asks?.[goodId] ?? seller.prices[goodId];
+        const priceB = buyer.bids?.[goodId] ?? buyer.prices[goodId];
+
+        // Skip goods either town does not quote
+        if (priceA === undefined || priceB === undefined) continue;
 
-        // Skip if no profit direction A→B
-        if (priceA >= priceB) continue;
+        // Skip if no profit direction A→B once transport is paid
+        if (priceA + unitTransport >= priceB) continue;
 
         // Calculate maximum quantity constraints
-        const maxQtyByStock = seller.stock[goodId];
-        const maxQtyByBuyerCash = Math.floor(buyer.treasury / priceA); // buyer pays seller's unit price
+        const maxQtyByStock = seller.stock[goodId] ?? 0;
+        // buyer pays seller's unit price plus transport
+        const maxQtyByBuyerCash = Math.floor(buyer.treasury / (priceA + unitTransport));
 
         // Determine feasible quantity
-        const qty = Math.min(opts.maxQuantityPerTrade, maxQtyByStock, maxQtyByBuyerCash);
+        let qty = Math.min(opts.maxQuantityPerTrade, maxQtyByStock, maxQtyByBuyerCash);
+
+        // Transport is rounded per trade, so make sure the buyer can cover the rounded total
+        while (
+          qty > 0 &&
+          opts.graph &&
+          qty * priceA + opts.graph.transportCost(buyer.id, seller.id, qty) > buyer.treasury
+        ) {
+          qty--;
+        }
+
+        // Price each unit along both curves: buying moves the seller's stock down and
+        // the buyer's stock up, so later units cost more and are worth less
+        let totals: { totalSellCost: number; totalBuyValue: number } | undefined;
+        if (qty > 0 && opts.quote) {
+          const cost = opts.quote({ toTownId: seller.id, goodId, side: 'buy', quantity: qty });
+          const value = opts.quote({ toTownId: buyer.id, goodId, side: 'sell', quantity: qty });
+          let totalSellCost = 0;
+          let totalBuyValue = 0;
+          let profitable = 0;
+          for (let unit = 0; unit < qty; unit++) {
+            const unitCost = cost.unitPrices[unit] ?? priceA;
+            const unitValue = value.unitPrices[unit] ?? priceB;
+            const transport = opts.graph?.transportCost(buyer.id, seller.id, unit + 1) ?? 0;
+            if (
+              unitCost + unitTransport >= unitValue ||
+              totalSellCost + unitCost + transport > buyer.treasury
+            ) {
+              break;
+            }
+            totalSellCost += unitCost;
+            totalBuyValue += unitValue;
+            profitable++;
+          }
+          qty = profitable;
+          totals = { totalSellCost, totalBuyValue };
+        }
 
         // Only add candidate if quantity > 0
         if (qty > 0) {
@@ -67,6 +122,8 @@ export function generateCandidates(
             unitSellPrice: priceA,
             unitBuyPrice: priceB,
             quantity: qty,
+            ...(unitTransport > 0 && { unitTransportCost: unitTransport }),
+            ...totals,
           });
         }
       }
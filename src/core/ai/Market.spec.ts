@@ -90,6 +90,8 @@ describe('Market', () => {
       expect(snapshot.towns[0]).toEqual({
         id: 'test-town-1',
         prices: { fish: 2, wood: 3, ore: 1 },
+        bids: { fish: 2, wood: 3, ore: 1 },
+        asks: { fish: 2, wood: 3, ore: 1 },
         stock: { fish: 10, wood: 5, ore: 0 },
         treasury: 1000,
       });
@@ -98,6 +100,8 @@ describe('Market', () => {
       expect(snapshot.towns[1]).toEqual({
         id: 'test-town-2',
         prices: { fish: 3, wood: 2, ore: 4 },
+        bids: { fish: 3, wood: 2, ore: 4 },
+        asks: { fish: 3, wood: 2, ore: 4 },
         stock: { fish: 20, wood: 15, ore: 8 },
         treasury: 2000,
       });
@@ -106,11 +110,21 @@ describe('Market', () => {
       expect(snapshot.towns[2]).toEqual({
         id: 'test-town-3',
         prices: { fish: 5, wood: 4, ore: 6 },
+        bids: { fish: 5, wood: 4, ore: 6 },
+        asks: { fish: 5, wood: 4, ore: 6 },
         stock: { fish: 0, wood: 0, ore: 0 },
         treasury: 500,
       });
     });
 
+    it('should split prices into bids and asks with a spread', () => {
+      const snapshot = snapshotMarket(deepFreeze({ ...baseState }), { margin: 0.5 });
+
+      expect(snapshot.towns[0]!.prices).toEqual({ fish: 2, wood: 3, ore: 1 });
+      expect(snapshot.towns[0]!.bids).toEqual({ fish: 1, wood: 1, ore: 0 });
+      expect(snapshot.towns[0]!.asks).toEqual({ fish: 3, wood: 5, ore: 2 });
+    });
+
     it('should not mutate the input state', () => {
       const originalState = { ...baseState };
       const frozenState = deepFreeze({ ...baseState });
@@ -230,8 +244,8 @@ describe('Market', () => {
       const aiTreasury = 200;
 
       // Calculate what AI can actually afford and trade
-      const affordableQty = maxAffordable(50, fishPrice, aiTreasury);
-      const tradableQty = maxTradableStock(affordableQty, fishStock);
+      const affordableQty = maxAffordable(50, fishPrice!, aiTreasury);
+      const tradableQty = maxTradableStock(affordableQty, fishStock!);
 
       // AI wants 50 fish, can afford 100 (200/2), but only requests 50
       expect(affordableQty).toBe(50); // min(50, 200/2) = 50
@@ -250,16 +264,16 @@ describe('Market', () => {
 
       // Check all goods in town 2
       const fishTrade = maxTradableStock(
-        maxAffordable(30, town2.prices.fish, aiTreasury),
-        town2.stock.fish,
+        maxAffordable(30, town2.prices.fish!, aiTreasury),
+        town2.stock.fish!,
       );
       const woodTrade = maxTradableStock(
-        maxAffordable(30, town2.prices.wood, aiTreasury),
-        town2.stock.wood,
+        maxAffordable(30, town2.prices.wood!, aiTreasury),
+        town2.stock.wood!,
       );
       const oreTrade = maxTradableStock(
-        maxAffordable(30, town2.prices.ore, aiTreasury),
-        town2.stock.ore,
+        maxAffordable(30, town2.prices.ore!, aiTreasury),
+        town2.stock.ore!,
       );
 
       // fish: price 3, stock 20, treasury 100 -> can afford 33, trade 20
@@ -1,5 +1,7 @@
 import type { GameState } from '../../types/GameState';
 import type { GoodId } from '../../types/Goods';
+import { townBidAsk } from '../pricing/Spread';
+import type { SpreadConfig } from '../pricing/Spread';
 
 /**
  * Represents a town's market view for AI decision making.
@@ -11,6 +13,12 @@ export interface MarketTownView {
   /** Current price for each good (nonnegative integers only) */
   prices: Record<GoodId, number>;
 
+  /** Price the town pays for each good when others sell to it (defaults to `prices`) */
+  bids?: Record<GoodId, number>;
+
+  /** Price the town charges for each good when others buy from it (defaults to `prices`) */
+  asks?: Record<GoodId, number>;
+
   /** Current stock/quantity available for each good (nonnegative integers only) */
   stock: Record<GoodId, number>;
 
@@ -31,15 +39,29 @@ export interface MarketSnapshot {
  * This function does not mutate the input state and returns a new object.
  *
  * @param state - The current game state
+ * @param spread - Optional bid/ask spread; without one, bids and asks are the curve prices
  * @returns A snapshot of the market state
  */
-export function snapshotMarket(state: GameState): MarketSnapshot {
-  const towns: MarketTownView[] = state.towns.map(town => ({
-    id: town.id,
-    prices: { ...town.prices },
-    stock: { ...town.resources },
-    treasury: town.treasury,
-  }));
+export function snapshotMarket(state: GameState, spread?: SpreadConfig): MarketSnapshot {
+  const towns: MarketTownView[] = state.towns.map(town => {
+    const bids: Record<GoodId, number> = {};
+    const asks: Record<GoodId, number> = {};
+    for (const goodId of Object.keys(town.prices) as GoodId[]) {
+      const quote = townBidAsk(town, goodId, spread);
+      if (quote) {
+        bids[goodId] = quote.bid;
+        asks[goodId] = quote.ask;
+      }
+    }
+    return {
+      id: town.id,
+      prices: { ...town.prices },
+      bids,
+      asks,
+      stock: { ...town.resources },
+      treasury: town.treasury,
+    };
+  });
 
   return { towns };
 }
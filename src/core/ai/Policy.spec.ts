@@ -171,7 +171,7 @@ describe('Policy', () => {
         // Calculate expected scores
         const scores = mockCandidates.map(c => {
           const base = (c.unitBuyPrice - c.unitSellPrice) * c.quantity;
-          const effects = mockGoods[c.goodId].effects;
+          const effects = mockGoods[c.goodId]!.effects;
           const statBonus =
             greedyProfile.weights.prosperity * effects.prosperityDelta +
             greedyProfile.weights.military * effects.militaryDelta;
@@ -66,6 +66,26 @@ describe('Valuation', () => {
       expect(largeScore).toBeGreaterThan(smallScore);
     });
 
+    it('should subtract transport costs from the price spread', () => {
+      const transportQuote: Quote = { ...baseQuote, unitTransportCost: 2 };
+
+      const baseScore = scoreQuote(baseQuote, mockGoods, mockProfile);
+      const transportScore = scoreQuote(transportQuote, mockGoods, mockProfile);
+
+      // 2 per unit * 5 units, weighted by priceSpread
+      expect(baseScore - transportScore).toBeCloseTo(0.7 * 10);
+    });
+
+    it('should score curve-priced totals instead of unit prices when given', () => {
+      // Flat pricing earns (15 - 10) * 5 = 25; along the curves only 62 - 54 = 8
+      const curveQuote: Quote = { ...baseQuote, totalSellCost: 54, totalBuyValue: 62 };
+
+      const flatScore = scoreQuote(baseQuote, mockGoods, mockProfile);
+      const curveScore = scoreQuote(curveQuote, mockGoods, mockProfile);
+
+      expect(flatScore - curveScore).toBeCloseTo(0.7 * (25 - 8));
+    });
+
     it('should include prosperity effects in scoring', () => {
       const prosperityProfile: AiProfile = {
         ...mockProfile,
@@ -18,6 +18,12 @@ export interface Quote {
   unitBuyPrice: number;
   /** Quantity of goods being traded */
   quantity: number;
+  /** Cost of moving one unit from seller to buyer, paid by the buyer (default 0) */
+  unitTransportCost?: number;
+  /** Cost of the whole quantity along the seller's price curve (default unitSellPrice × quantity) */
+  totalSellCost?: number;
+  /** Value of the whole quantity along the buyer's price curve (default unitBuyPrice × quantity) */
+  totalBuyValue?: number;
 }
 
 /**
@@ -26,7 +32,8 @@ export interface Quote {
  * The scoring formula is:
  * score = profile.weights.priceSpread * base + statBonus
  * where:
- * - base = (unitBuyPrice - unitSellPrice) * quantity
+ * - base = totalBuyValue - totalSellCost - unitTransportCost * quantity
+ *   (the totals default to the unit prices times quantity)
  * - statBonus = profile.weights.prosperity * prosperityDelta + profile.weights.military * militaryDelta
  *
  * @param q - The trade quote to score
@@ -39,11 +46,17 @@ export function scoreQuote(
   goods: Record<GoodId, GoodConfig>,
   profile: AiProfile,
 ): number {
-  // Base score from price spread
-  const base = (q.unitBuyPrice - q.unitSellPrice) * q.quantity;
+  // Base score from price spread, net of transport
+  const value = q.totalBuyValue ?? q.unitBuyPrice * q.quantity;
+  const cost = q.totalSellCost ?? q.unitSellPrice * q.quantity;
+  const base = value - cost - (q.unitTransportCost ?? 0) * q.quantity;
 
   // Stat bonus from good effects
-  const effects = goods[q.goodId].effects;
+  const goodConfig = goods[q.goodId];
+  if (!goodConfig) {
+    throw new Error(`No configuration found for good: ${q.goodId}`);
+  }
+  const effects = goodConfig.effects;
   const statBonus =
     profile.weights.prosperity * effects.prosperityDelta +
     profile.weights.military * effects.militaryDelta;
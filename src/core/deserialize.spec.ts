@@ -66,7 +66,7 @@ describe('deserializeGameState', () => {
       expect(result.turn).toBe(0);
       expect(result.towns).toHaveLength(1);
       expect(result.towns[0]?.id).toBe('town1');
-      expect(result.goods.fish.name).toBe('Fish');
+      expect(result.goods.fish!.name).toBe('Fish');
     });
   });
 
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  checkGoodsDataConsistency,
+  createGoodsRegistry,
+  GoodsConfigError,
+  loadGoodsRegistry,
+} from './GoodsRegistry';
+
+const catalog = [
+  { id: 'fish', name: 'Fish', effects: { prosperityDelta: 2, militaryDelta: 1 } },
+  { id: 'salt', name: 'Salt', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+];
+
+function captureError(fn: () => void): GoodsConfigError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof GoodsConfigError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected GoodsConfigError to be thrown');
+}
+
+describe('GoodsRegistry', () => {
+  describe('loadGoodsRegistry', () => {
+    it('loads the goods catalog from goods.json in file order', () => {
+      const registry = loadGoodsRegistry();
+
+      expect(registry.ids).toEqual(['fish', 'wood', 'ore']);
+      expect(registry.configs.fish?.name).toBe('Fish');
+      expect(registry.get('ore').effects.militaryDelta).toBe(3);
+    });
+  });
+
+  describe('createGoodsRegistry', () => {
+    it('accepts goods beyond the original three', () => {
+      const registry = createGoodsRegistry(catalog);
+
+      expect(registry.ids).toEqual(['fish', 'salt']);
+      expect(registry.has('salt')).toBe(true);
+      expect(registry.has('ore')).toBe(false);
+      expect(registry.get('salt').name).toBe('Salt');
+    });
+
+    it('throws for unknown goods on get', () => {
+      const registry = createGoodsRegistry(catalog);
+
+      const error = captureError(() => registry.get('ore'));
+      expect(error.path).toBe('goods.ore');
+      expect(error.message).toContain("Unknown good ID: 'ore'");
+    });
+
+    it('rejects non-array and empty catalogs', () => {
+      expect(captureError(() => createGoodsRegistry({})).path).toBe('goods');
+      expect(captureError(() => createGoodsRegistry([])).path).toBe('goods');
+    });
+
+    it('rejects duplicate IDs with the offending index', () => {
+      const error = captureError(() => createGoodsRegistry([catalog[0], catalog[0]]));
+
+      expect(error.path).toBe('goods[1].id');
+      expect(error.message).toContain("Duplicate good ID: 'fish'");
+    });
+
+    it('rejects malformed entries with precise paths', () => {
+      expect(
+        captureError(() =>
+          createGoodsRegistry([{ id: '', name: 'X', effects: catalog[0]!.effects }]),
+        ).path,
+      ).toBe('goods[0].id');
+      expect(
+        captureError(() => createGoodsRegistry([{ id: 'x', effects: catalog[0]!.effects }])).path,
+      ).toBe('goods[0].name');
+      expect(
+        captureError(() =>
+          createGoodsRegistry([
+            { id: 'x', name: 'X', effects: { prosperityDelta: 1.5, militaryDelta: 0 } },
+          ]),
+        ).path,
+      ).toBe('goods[0].effects.prosperityDelta');
+    });
+  });
+
+  describe('checkGoodsDataConsistency', () => {
+    const registry = createGoodsRegistry(catalog);
+    const curve = { basePrice: 10, targetStock: 20, elasticity: 0.8 };
+    const town = {
+      id: 'port',
+      resources: { fish: 1, salt: 2 },
+      prices: { fish: 3, salt: 4 },
+    };
+
+    it('passes for the bundled data files', () => {
+      expect(() => checkGoodsDataConsistency()).not.toThrow();
+    });
+
+    it('passes when every file covers every good', () => {
+      expect(() =>
+        checkGoodsDataConsistency(registry, {
+          priceCurves: { fish: curve, salt: curve },
+          production: { base: { fish: 3, salt: 1 } },
+          towns: [town],
+        }),
+      ).not.toThrow();
+    });
+
+    it('reports a good missing from the price curves', () => {
+      const error = captureError(() =>
+        checkGoodsDataConsistency(registry, { priceCurves: { fish: curve } }),
+      );
+
+      expect(error.path).toBe('priceCurves.salt');
+      expect(error.message).toContain("Missing entry for good 'salt'");
+    });
+
+    it('reports goods in data files that are not in the catalog', () => {
+      const error = captureError(() =>
+        checkGoodsDataConsistency(registry, {
+          production: { base: { fish: 3, salt: 1, tools: 1 } },
+        }),
+      );
+
+      expect(error.path).toBe('production.base.tools');
+      expect(error.message).toContain('Unknown good: tools');
+    });
+
+    it('reports towns that do not stock or price every good', () => {
+      const error = captureError(() =>
+        checkGoodsDataConsistency(registry, {
+          towns: [town, { ...town, prices: { fish: 3 } }],
+        }),
+      );
+
+      expect(error.path).toBe('towns[1].prices.salt');
+    });
+
+    it('reports curve overrides for towns that are not in the towns data', () => {
+      const towns = { port: { basePrice: 12 }, prot: { basePrice: 8 } };
+      const error = captureError(() =>
+        checkGoodsDataConsistency(registry, {
+          priceCurves: { fish: { ...curve, towns }, salt: curve },
+          towns: [town],
+        }),
+      );
+
+      expect(error.path).toBe('priceCurves.fish.towns.prot');
+      expect(error.message).toContain('Unknown town: prot');
+    });
+  });
+});
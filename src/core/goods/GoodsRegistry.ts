@@ -0,0 +1,220 @@
+import goodsData from '../../data/goods.json';
+import priceCurvesData from '../../data/priceCurves.json';
+import productionData from '../../data/production.json';
+import townsData from '../../data/towns.json';
+import type { GoodConfig, GoodId } from '../../types/Goods';
+
+/**
+ * Error thrown when the goods catalog, or data that refers to it, is invalid.
+ * Includes the path to the problematic value (e.g. "goods[2].id", "priceCurves.salt").
+ */
+export class GoodsConfigError extends Error {
+  public path: string;
+
+  constructor(path: string, msg: string) {
+    super(msg);
+    this.name = 'GoodsConfigError';
+    this.path = path;
+  }
+}
+
+/**
+ * Data-driven catalog of every good in the game.
+ * All systems that need to enumerate goods read the list from here.
+ */
+export interface GoodsRegistry {
+  /** Good IDs in catalog order (stable order for UI and processing) */
+  ids: readonly GoodId[];
+  /** Configuration for every good, keyed by ID */
+  configs: Record<GoodId, GoodConfig>;
+  /** Whether the catalog contains the given good ID */
+  has(id: string): id is GoodId;
+  /**
+   * Gets the configuration for a good.
+   * @throws GoodsConfigError if the good is not in the catalog
+   */
+  get(id: string): GoodConfig;
+}
+
+/**
+ * Data files that must agree with the goods catalog.
+ */
+export interface GoodsDataSources {
+  /** Price curve table keyed by good ID (priceCurves.json) */
+  priceCurves?: unknown;
+  /** Production configuration with a `base` table keyed by good ID (production.json) */
+  production?: unknown;
+  /** Town list with `resources` and `prices` keyed by good ID (towns.json) */
+  towns?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validates a single catalog entry.
+ */
+function validateGoodEntry(value: unknown, path: string): GoodConfig {
+  if (!isObject(value)) {
+    throw new GoodsConfigError(path, 'Expected object');
+  }
+
+  if (typeof value.id !== 'string' || value.id.trim() === '') {
+    throw new GoodsConfigError(`${path}.id`, `Expected non-empty string, got ${String(value.id)}`);
+  }
+
+  if (typeof value.name !== 'string') {
+    throw new GoodsConfigError(`${path}.name`, `Expected string, got ${typeof value.name}`);
+  }
+
+  if (!isObject(value.effects)) {
+    throw new GoodsConfigError(`${path}.effects`, 'Expected object');
+  }
+
+  for (const key of ['prosperityDelta', 'militaryDelta'] as const) {
+    const delta = value.effects[key];
+    if (typeof delta !== 'number' || !Number.isInteger(delta)) {
+      throw new GoodsConfigError(`${path}.effects.${key}`, `Expected integer, got ${delta}`);
+    }
+  }
+
+  return value as unknown as GoodConfig;
+}
+
+/**
+ * Creates a goods registry from a catalog array (the shape of goods.json).
+ *
+ * @param catalog - Array of good configurations
+ * @returns A validated goods registry
+ * @throws GoodsConfigError if an entry is malformed or an ID is duplicated
+ */
+export function createGoodsRegistry(catalog: unknown): GoodsRegistry {
+  if (!Array.isArray(catalog)) {
+    throw new GoodsConfigError('goods', 'Expected array of good configurations');
+  }
+
+  if (catalog.length === 0) {
+    throw new GoodsConfigError('goods', 'Catalog must contain at least one good');
+  }
+
+  const ids: GoodId[] = [];
+  const configs: Record<GoodId, GoodConfig> = {};
+
+  catalog.forEach((entry, index) => {
+    const good = validateGoodEntry(entry, `goods[${index}]`);
+    if (good.id in configs) {
+      throw new GoodsConfigError(`goods[${index}].id`, `Duplicate good ID: '${good.id}'`);
+    }
+    ids.push(good.id);
+    configs[good.id] = good;
+  });
+
+  return {
+    ids,
+    configs,
+    has(id: string): id is GoodId {
+      return Object.prototype.hasOwnProperty.call(configs, id);
+    },
+    get(id: string): GoodConfig {
+      const config = configs[id];
+      if (!config) {
+        throw new GoodsConfigError(`goods.${id}`, `Unknown good ID: '${id}'`);
+      }
+      return config;
+    },
+  };
+}
+
+/**
+ * Loads the goods registry from goods.json.
+ * @throws GoodsConfigError if the catalog is invalid
+ */
+export function loadGoodsRegistry(): GoodsRegistry {
+  return createGoodsRegistry(goodsData);
+}
+
+/**
+ * Checks that a table keyed by good ID covers exactly the goods in the registry.
+ */
+function checkGoodKeys(table: unknown, path: string, registry: GoodsRegistry): void {
+  if (!isObject(table)) {
+    throw new GoodsConfigError(path, 'Expected object keyed by good ID');
+  }
+
+  for (const goodId of registry.ids) {
+    if (!(goodId in table)) {
+      throw new GoodsConfigError(`${path}.${goodId}`, `Missing entry for good '${goodId}'`);
+    }
+  }
+
+  for (const key of Object.keys(table)) {
+    if (!registry.has(key)) {
+      throw new GoodsConfigError(`${path}.${key}`, `Unknown good: ${key}`);
+    }
+  }
+}
+
+/**
+ * Cross-checks the data files against the goods catalog so that adding a good
+ * to goods.json without updating the other files fails loudly at startup.
+ *
+ * Checks that:
+ * - priceCurves has a curve for every good and none for unknown goods
+ * - production.base has a rate for every good and none for unknown goods
+ * - every town lists every good in `resources` and `prices`
+ * - per-town curve overrides in priceCurves only name towns in the towns data
+ *
+ * @param registry - Goods registry to check against (defaults to goods.json)
+ * @param sources - Data to check (defaults to the bundled JSON files)
+ * @throws GoodsConfigError describing the first inconsistency found
+ */
+export function checkGoodsDataConsistency(
+  registry: GoodsRegistry = loadGoodsRegistry(),
+  sources: GoodsDataSources = {
+    priceCurves: priceCurvesData,
+    production: productionData,
+    towns: townsData,
+  },
+): void {
+  if (sources.priceCurves !== undefined) {
+    checkGoodKeys(sources.priceCurves, 'priceCurves', registry);
+  }
+
+  if (sources.production !== undefined) {
+    const production = sources.production;
+    if (!isObject(production)) {
+      throw new GoodsConfigError('production', 'Expected object');
+    }
+    checkGoodKeys(production.base, 'production.base', registry);
+  }
+
+  if (sources.towns !== undefined) {
+    if (!Array.isArray(sources.towns)) {
+      throw new GoodsConfigError('towns', 'Expected array');
+    }
+    sources.towns.forEach((town: unknown, index) => {
+      if (!isObject(town)) {
+        throw new GoodsConfigError(`towns[${index}]`, 'Expected object');
+      }
+      checkGoodKeys(town.resources, `towns[${index}].resources`, registry);
+      checkGoodKeys(town.prices, `towns[${index}].prices`, registry);
+    });
+
+    // A misspelled town in a curve override would otherwise never be applied
+    if (isObject(sources.priceCurves)) {
+      const townIds = sources.towns.map(town => (isObject(town) ? town.id : undefined));
+      for (const [goodId, curve] of Object.entries(sources.priceCurves)) {
+        const overrides = isObject(curve) ? curve.towns : undefined;
+        for (const townId of Object.keys(isObject(overrides) ? overrides : {})) {
+          if (!townIds.includes(townId)) {
+            throw new GoodsConfigError(
+              `priceCurves.${goodId}.towns.${townId}`,
+              `Unknown town: ${townId}`,
+            );
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,7 @@
+export {
+  createGoodsRegistry,
+  loadGoodsRegistry,
+  checkGoodsDataConsistency,
+  GoodsConfigError,
+} from './GoodsRegistry';
+export type { GoodsRegistry, GoodsDataSources } from './GoodsRegistry';
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState, LedgerEntry, PriceBar } from '../../types/GameState';
+import type { PriceChangeTrace } from '../pricing/Telemetry';
+
+import {
+  averageClose,
+  createPriceHistoryRecorder,
+  latestBar,
+  priceBars,
+  priceMomentum,
+  recordPriceBars,
+} from './PriceHistory';
+
+const start: GameState = {
+  turn: 3,
+  version: 1,
+  rngSeed: 'history',
+  goods: {
+    fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+  },
+  towns: [
+    {
+      id: 'town-a',
+      name: 'Town A',
+      resources: { fish: 40 },
+      prices: { fish: 10 },
+      militaryRaw: 0,
+      prosperityRaw: 0,
+      treasury: 1000,
+      revealed: { militaryTier: 'militia', prosperityTier: 'modest', lastUpdatedTurn: 0 },
+    },
+    {
+      id: 'town-b',
+      name: 'Town B',
+      resources: { fish: 60 },
+      prices: { fish: 20 },
+      militaryRaw: 0,
+      prosperityRaw: 0,
+      treasury: 1000,
+      revealed: { militaryTier: 'militia', prosperityTier: 'modest', lastUpdatedTurn: 0 },
+    },
+  ],
+};
+
+// Turn 4: town A sold 5 fish to town B; A's price spiked to 14 and drifted back to 12
+const end: GameState = {
+  ...start,
+  turn: 4,
+  towns: [
+    { ...start.towns[0]!, resources: { fish: 35 }, prices: { fish: 12 } },
+    { ...start.towns[1]!, resources: { fish: 65 }, prices: { fish: 18 } },
+  ],
+  ledger: [
+    {
+      turn: 3,
+      fromTownId: 'town-a',
+      toTownId: 'town-b',
+      goodId: 'fish',
+      quantity: 7,
+      unitPrice: 10,
+      side: 'sell',
+      initiator: { type: 'player' },
+    },
+    {
+      turn: 4,
+      fromTownId: 'town-a',
+      toTownId: 'town-b',
+      goodId: 'fish',
+      quantity: 5,
+      unitPrice: 19,
+      side: 'sell',
+      initiator: { type: 'player' },
+    } satisfies LedgerEntry,
+  ],
+};
+
+const trace = (townId: string, final: number): PriceChangeTrace => ({
+  townId,
+  goodId: 'fish',
+  oldPrice: 0,
+  curvePrice: final,
+  smoothed: final,
+  final,
+  stock: 0,
+  target: 0,
+  elasticity: 0,
+  prosperityTier: 'modest',
+  prosperityFactor: 1,
+  sizeFactor: 1,
+  cause: 'post-trade',
+});
+
+const bar = (turn: number, open: number, close: number): PriceBar => ({
+  turn,
+  open,
+  high: Math.max(open, close),
+  low: Math.min(open, close),
+  close,
+  volume: 0,
+  stock: 50,
+});
+
+describe('recordPriceBars', () => {
+  it('records open, high, low, close, volume and stock for each town and good', () => {
+    const result = recordPriceBars(start, end, [trace('town-a', 14), trace('town-b', 17)]);
+
+    expect(result.priceHistory).toEqual({
+      'town-a': {
+        fish: [{ turn: 4, open: 10, high: 14, low: 10, close: 12, volume: 5, stock: 35 }],
+      },
+      'town-b': {
+        fish: [{ turn: 4, open: 20, high: 20, low: 17, close: 18, volume: 5, stock: 65 }],
+      },
+    });
+  });
+
+  it('appends to the existing history and keeps only the last maxBars', () => {
+    const history = { 'town-a': { fish: [bar(1, 8, 9), bar(2, 9, 9), bar(3, 9, 10)] } };
+
+    const result = recordPriceBars(start, { ...end, priceHistory: history }, [], { maxBars: 3 });
+
+    expect(result.priceHistory?.['town-a']?.fish?.map(b => b.turn)).toEqual([2, 3, 4]);
+    expect(history['town-a'].fish).toHaveLength(3);
+  });
+
+  it('opens at the close for goods the town did not quote at the start', () => {
+    const unquoted = { ...start, towns: [{ ...start.towns[0]!, prices: {} }, start.towns[1]!] };
+
+    const result = recordPriceBars(unquoted, end);
+
+    expect(latestBar(result, 'town-a', 'fish')).toMatchObject({ open: 12, high: 12, low: 12 });
+  });
+
+  it('rejects a history length that is not a positive integer', () => {
+    expect(() => recordPriceBars(start, end, [], { maxBars: 0 })).toThrow(
+      'Price history length must be a positive integer, got 0',
+    );
+  });
+});
+
+describe('createPriceHistoryRecorder', () => {
+  it('uses the traces collected since the last record', () => {
+    const recorder = createPriceHistoryRecorder();
+    recorder.onPriceTrace(trace('town-a', 30));
+    recorder.record(start, end);
+    recorder.onPriceTrace(trace('town-a', 13));
+
+    const result = recorder.record(start, end);
+
+    expect(latestBar(result, 'town-a', 'fish')?.high).toBe(13);
+  });
+
+  it('drops discarded traces', () => {
+    const recorder = createPriceHistoryRecorder();
+    recorder.onPriceTrace(trace('town-a', 30));
+    recorder.discard();
+
+    expect(latestBar(recorder.record(start, end), 'town-a', 'fish')?.high).toBe(12);
+  });
+});
+
+describe('price history queries', () => {
+  const state: GameState = {
+    ...start,
+    turn: 5,
+    priceHistory: {
+      'town-a': { fish: [bar(2, 8, 10), bar(3, 10, 9), bar(4, 9, 11), bar(5, 11, 12)] },
+    },
+  };
+
+  it('gets bars oldest first, optionally from the last N turns', () => {
+    expect(priceBars(state, 'town-a', 'fish').map(b => b.turn)).toEqual([2, 3, 4, 5]);
+    expect(priceBars(state, 'town-a', 'fish', { lastTurns: 2 }).map(b => b.turn)).toEqual([4, 5]);
+    expect(priceBars(state, 'town-b', 'fish')).toEqual([]);
+  });
+
+  it('gets the latest bar', () => {
+    expect(latestBar(state, 'town-a', 'fish')?.turn).toBe(5);
+    expect(latestBar(state, 'town-a', 'wood')).toBeUndefined();
+  });
+
+  it('measures momentum from the first open to the last close', () => {
+    expect(priceMomentum(priceBars(state, 'town-a', 'fish'))).toBe(0.5);
+    expect(priceMomentum(priceBars(state, 'town-a', 'fish', { lastTurns: 3 }))).toBeCloseTo(0.2);
+    expect(priceMomentum([])).toBe(0);
+  });
+
+  it('averages closing prices', () => {
+    expect(averageClose(priceBars(state, 'town-a', 'fish'))).toBe(10.5);
+    expect(averageClose([])).toBeUndefined();
+  });
+});
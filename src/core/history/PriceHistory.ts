@@ -0,0 +1,208 @@
+import type { GameState, PriceBar, PriceHistory } from '../../types/GameState';
+import type { GoodId } from '../../types/Goods';
+import type { PriceChangeTrace } from '../pricing/Telemetry';
+
+/** Default number of turns kept per town and good */
+export const DEFAULT_HISTORY_LENGTH = 50;
+
+/**
+ * Options for recording price history.
+ */
+export interface PriceHistoryOptions {
+  /** Number of most recent bars kept per town and good (default: DEFAULT_HISTORY_LENGTH) */
+  maxBars?: number;
+}
+
+/**
+ * Collects a turn's price changes and turns them into price bars when the turn ends.
+ */
+export interface PriceHistoryRecorder {
+  /** Price tracer to pass to the pricing strategy */
+  onPriceTrace(trace: PriceChangeTrace): void;
+  /**
+   * Adds a bar per town and good for the completed turn and starts the next one.
+   * @param start - State the turn started from
+   * @param end - State the turn produced
+   * @returns The end state with the new bars (the oldest dropped past `maxBars`)
+   */
+  record(start: GameState, end: GameState): GameState;
+  /** Drops the price changes collected since the last record (e.g. after a failed turn) */
+  discard(): void;
+}
+
+/**
+ * Filters for querying price history. All filters are optional and combine.
+ */
+export interface PriceHistoryQuery {
+  /** Only bars from the last N turns, counting the current one */
+  lastTurns?: number;
+}
+
+function historyLength(options: PriceHistoryOptions): number {
+  const maxBars = options.maxBars ?? DEFAULT_HISTORY_LENGTH;
+  if (!Number.isInteger(maxBars) || maxBars < 1) {
+    throw new Error(`Price history length must be a positive integer, got ${maxBars}`);
+  }
+  return maxBars;
+}
+
+/**
+ * Builds the bars for a completed turn and appends them to the state's history.
+ *
+ * Each town that quotes a good at the end of the turn gets one bar: it opens at the
+ * price the turn started with and closes at the final price, and its high and low
+ * also cover every price change traced during the turn. Volume counts the units the
+ * town traded in the turn's ledger entries, in either role; stock is the closing stock.
+ *
+ * @param start - State the turn started from
+ * @param end - State the turn produced (its turn number labels the bars)
+ * @param traces - Price changes made during the turn, in any order
+ * @param options - Optional history length
+ * @returns The end state with the new bars appended
+ * @throws Error if `maxBars` is not a positive integer
+ */
+export function recordPriceBars(
+  start: GameState,
+  end: GameState,
+  traces: readonly PriceChangeTrace[] = [],
+  options: PriceHistoryOptions = {},
+): GameState {
+  const maxBars = historyLength(options);
+
+  const key = (townId: string, goodId: GoodId) => `${townId}:${goodId}`;
+
+  const traced = new Map<string, number[]>();
+  for (const trace of traces) {
+    const k = key(trace.townId, trace.goodId);
+    const finals = traced.get(k) ?? [];
+    finals.push(trace.final);
+    traced.set(k, finals);
+  }
+
+  const volume = new Map<string, number>();
+  const addVolume = (townId: string, goodId: GoodId, quantity: number) =>
+    volume.set(key(townId, goodId), (volume.get(key(townId, goodId)) ?? 0) + quantity);
+  for (const entry of end.ledger ?? []) {
+    if (entry.turn === end.turn) {
+      addVolume(entry.fromTownId, entry.goodId, entry.quantity);
+      addVolume(entry.toTownId, entry.goodId, entry.quantity);
+    }
+  }
+
+  const history: PriceHistory = { ...end.priceHistory };
+  for (const town of end.towns) {
+    const opening = start.towns.find(t => t.id === town.id);
+    const series = { ...history[town.id] };
+    for (const [goodId, close] of Object.entries(town.prices) as [GoodId, number][]) {
+      const open = opening?.prices[goodId] ?? close;
+      const prices = [open, close, ...(traced.get(key(town.id, goodId)) ?? [])];
+      const bar: PriceBar = {
+        turn: end.turn,
+        open,
+        high: Math.max(...prices),
+        low: Math.min(...prices),
+        close,
+        volume: volume.get(key(town.id, goodId)) ?? 0,
+        stock: town.resources[goodId] ?? 0,
+      };
+      series[goodId] = [...(series[goodId] ?? []), bar].slice(-maxBars);
+    }
+    history[town.id] = series;
+  }
+
+  return { ...end, priceHistory: history };
+}
+
+/**
+ * Creates a recorder that keeps the state's price history up to date, one turn at a time.
+ *
+ * @param options - Optional history length
+ * @returns A recorder whose tracer should be wired into the pricing strategy
+ * @throws Error if `maxBars` is not a positive integer
+ */
+export function createPriceHistoryRecorder(
+  options: PriceHistoryOptions = {},
+): PriceHistoryRecorder {
+  const maxBars = historyLength(options);
+
+  let traces: PriceChangeTrace[] = [];
+
+  return {
+    onPriceTrace(trace) {
+      traces.push(trace);
+    },
+
+    record(start, end) {
+      const recorded = recordPriceBars(start, end, traces, { maxBars });
+      traces = [];
+      return recorded;
+    },
+
+    discard() {
+      traces = [];
+    },
+  };
+}
+
+/**
+ * Gets a town's bars for a good, oldest first.
+ *
+ * @param state - Current game state (its turn anchors `lastTurns`)
+ * @param townId - The town
+ * @param goodId - The good
+ * @param query - Filters to apply
+ * @returns Matching bars (empty if none were recorded)
+ */
+export function priceBars(
+  state: GameState,
+  townId: string,
+  goodId: GoodId,
+  query: PriceHistoryQuery = {},
+): PriceBar[] {
+  const bars = state.priceHistory?.[townId]?.[goodId] ?? [];
+  if (query.lastTurns === undefined) {
+    return [...bars];
+  }
+  const firstTurn = state.turn - query.lastTurns + 1;
+  return bars.filter(bar => bar.turn >= firstTurn);
+}
+
+/**
+ * Gets a town's most recent bar for a good.
+ *
+ * @returns The latest bar, or undefined if none was recorded
+ */
+export function latestBar(state: GameState, townId: string, goodId: GoodId): PriceBar | undefined {
+  return state.priceHistory?.[townId]?.[goodId]?.at(-1);
+}
+
+/**
+ * Measures price momentum over a run of bars: the relative change from the first
+ * bar's open to the last bar's close.
+ *
+ * Formula: momentum = ( lastClose - firstOpen ) / firstOpen
+ *
+ * @param bars - Bars oldest first, e.g. from `priceBars`
+ * @returns The change as a fraction (0.1 = up 10%), or 0 without bars or a zero open
+ */
+export function priceMomentum(bars: readonly PriceBar[]): number {
+  const first = bars[0];
+  const last = bars.at(-1);
+  if (!first || !last || first.open === 0) {
+    return 0;
+  }
+  return (last.close - first.open) / first.open;
+}
+
+/**
+ * Averages the closing prices of a run of bars.
+ *
+ * @param bars - Bars, e.g. from `priceBars`
+ * @returns The mean close, or undefined without bars
+ */
+export function averageClose(bars: readonly PriceBar[]): number | undefined {
+  if (bars.length === 0) {
+    return undefined;
+  }
+  return bars.reduce((sum, bar) => sum + bar.close, 0) / bars.length;
+}
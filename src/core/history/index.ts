@@ -0,0 +1,10 @@
+export {
+  averageClose,
+  createPriceHistoryRecorder,
+  DEFAULT_HISTORY_LENGTH,
+  latestBar,
+  priceBars,
+  priceMomentum,
+  recordPriceBars,
+} from './PriceHistory';
+export type { PriceHistoryOptions, PriceHistoryQuery, PriceHistoryRecorder } from './PriceHistory';
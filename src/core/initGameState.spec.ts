@@ -160,10 +160,10 @@ describe('initGameState', () => {
       const gameState2 = initGameState();
 
       // Modify a good in the first game state
-      gameState1.goods.fish.name = 'Modified Fish';
+      gameState1.goods.fish!.name = 'Modified Fish';
 
       // The second game state should be unaffected
-      expect(gameState2.goods.fish.name).not.toBe('Modified Fish');
+      expect(gameState2.goods.fish!.name).not.toBe('Modified Fish');
     });
   });
 
@@ -213,9 +213,9 @@ describe('initGameState', () => {
       Object.keys(gameState1.goods).forEach(goodId => {
         const good1 = gameState1.goods[goodId as keyof typeof gameState1.goods];
         const good2 = gameState2.goods[goodId as keyof typeof gameState2.goods];
-        expect(good1.id).toBe(good2.id);
-        expect(good1.name).toBe(good2.name);
-        expect(good1.effects).toEqual(good2.effects);
+        expect(good1!.id).toBe(good2!.id);
+        expect(good1!.name).toBe(good2!.name);
+        expect(good1!.effects).toEqual(good2!.effects);
       });
     });
 
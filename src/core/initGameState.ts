@@ -1,9 +1,11 @@
-import goodsData from '../data/goods.json';
 import townsData from '../data/towns.json';
 import type { GameState } from '../types/GameState';
 import type { GoodId, GoodConfig } from '../types/Goods';
 import type { Town } from '../types/Town';
 
+import { loadGoodsRegistry } from './goods/GoodsRegistry';
+import { CURRENT_STATE_VERSION } from './save/Migrations';
+
 /**
  * Options for initializing the game state.
  */
@@ -62,14 +64,15 @@ export function initGameState(opts: InitGameStateOptions = {}): GameState {
   // Deep clone towns data to avoid shared references
   const towns = deepClone(townsData) as Town[];
 
-  // Transform goods data from array to Record<GoodId, GoodConfig>
-  const goods: Record<GoodId, GoodConfig> = {} as Record<GoodId, GoodConfig>;
-  goodsData.forEach(good => {
-    goods[good.id as GoodId] = deepClone(good) as GoodConfig;
+  // Build the goods record from the data-driven catalog
+  const registry = loadGoodsRegistry();
+  const goods: Record<GoodId, GoodConfig> = {};
+  registry.ids.forEach(goodId => {
+    goods[goodId] = deepClone(registry.get(goodId));
   });
 
   // Validate that every town has every GoodId in resources and prices
-  const goodIds = Object.keys(goods) as GoodId[];
+  const goodIds = registry.ids;
 
   towns.forEach((town, townIndex) => {
     // Check resources
@@ -89,7 +92,7 @@ export function initGameState(opts: InitGameStateOptions = {}): GameState {
 
   return {
     turn: 0,
-    version: 1,
+    version: CURRENT_STATE_VERSION,
     rngSeed,
     towns,
     goods,
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState, LedgerEntry } from '../../types/GameState';
+import type { ProductionConfig } from '../../types/Production';
+import { initGameState } from '../initGameState';
+import { recordTrades } from '../ledger/TradeLedger';
+import { DEFAULT_SPREAD, sidePrice } from '../pricing/Spread';
+import { TurnPhase } from '../turn/TurnPhase';
+import { createTurnController } from '../turn/TurnService';
+
+import { checkConservation, ConservationError } from './Conservation';
+
+const townIndex = (state: GameState, townId: string) => state.towns.findIndex(t => t.id === townId);
+
+// Applies per-town changes to stock and treasury
+function adjust(
+  state: GameState,
+  changes: Record<string, { resources?: Record<string, number>; treasury?: number }>,
+): GameState {
+  return {
+    ...state,
+    towns: state.towns.map(town => {
+      const change = changes[town.id];
+      if (!change) {
+        return town;
+      }
+      const resources = { ...town.resources };
+      for (const [goodId, amount] of Object.entries(change.resources ?? {})) {
+        resources[goodId as keyof typeof resources] =
+          (resources[goodId as keyof typeof resources] ?? 0) + amount;
+      }
+      return { ...town, resources, treasury: town.treasury + (change.treasury ?? 0) };
+    }),
+  };
+}
+
+const sale: LedgerEntry = {
+  turn: 1,
+  fromTownId: 'riverdale',
+  toTownId: 'forestburg',
+  goodId: 'fish',
+  quantity: 4,
+  unitPrice: 12.5,
+  side: 'sell',
+  initiator: { type: 'player' },
+};
+
+describe('checkConservation', () => {
+  const state = initGameState({ rngSeed: 'conservation-seed' });
+
+  it('accepts trades that move goods and currency between the two parties', () => {
+    const after = recordTrades(
+      adjust(state, {
+        riverdale: { resources: { fish: -4 }, treasury: 50 - 3 },
+        forestburg: { resources: { fish: 4 }, treasury: -50 },
+      }),
+      [{ ...sale, transportCost: 3 }],
+    );
+
+    expect(checkConservation(TurnPhase.PlayerAction, state, after)).toEqual([]);
+  });
+
+  it('moves no currency for barters', () => {
+    const after = recordTrades(
+      adjust(state, {
+        riverdale: { resources: { fish: -4, wood: 2 } },
+        forestburg: { resources: { fish: 4, wood: -2 } },
+      }),
+      [
+        { ...sale, via: 'barter' },
+        { ...sale, goodId: 'wood', quantity: 2, side: 'buy', unitPrice: 25, via: 'barter' },
+      ],
+    );
+
+    expect(checkConservation(TurnPhase.PlayerAction, state, after)).toEqual([]);
+  });
+
+  it('counts goods in transit as held by the buyer', () => {
+    const after = recordTrades(
+      {
+        ...adjust(state, {
+          riverdale: { resources: { fish: -4 }, treasury: 50 },
+          forestburg: { treasury: -50 },
+        }),
+        caravans: [
+          {
+            id: 'c1',
+            originId: 'riverdale',
+            destinationId: 'forestburg',
+            goodId: 'fish',
+            quantity: 4,
+            departedTurn: 1,
+            arrivalTurn: 3,
+          },
+        ],
+      },
+      [sale],
+    );
+
+    expect(checkConservation(TurnPhase.PlayerAction, state, after)).toEqual([]);
+  });
+
+  it('reports goods and currency no trade accounts for, with town paths', () => {
+    const riverdale = townIndex(state, 'riverdale');
+    const forestburg = townIndex(state, 'forestburg');
+    const after = adjust(state, {
+      riverdale: { resources: { fish: -4 }, treasury: 50 },
+      forestburg: { resources: { fish: 3 } },
+    });
+
+    const violations = checkConservation(TurnPhase.AiActions, state, after);
+
+    expect(violations.map(v => v.path)).toEqual([
+      `towns[${riverdale}].resources.fish`,
+      `towns[${riverdale}].treasury`,
+      `towns[${forestburg}].resources.fish`,
+    ]);
+    expect(violations[0]!.message).toContain('4 fish destroyed');
+    expect(violations[1]!.message).toContain('50 currency created');
+    expect(violations[2]!.message).toContain('3 fish created');
+  });
+
+  it('allows up to one turn of production during UpdateStats only', () => {
+    const productionConfig: ProductionConfig = { base: { fish: 3 } };
+    const produced = adjust(state, { riverdale: { resources: { fish: 3 } } });
+    const overproduced = adjust(state, { riverdale: { resources: { fish: 4 } } });
+
+    expect(checkConservation(TurnPhase.UpdateStats, state, produced, { productionConfig })).toEqual(
+      [],
+    );
+    expect(
+      checkConservation(TurnPhase.UpdateStats, state, overproduced, { productionConfig }),
+    ).toHaveLength(1);
+    expect(checkConservation(TurnPhase.End, state, produced, { productionConfig })).toHaveLength(1);
+    expect(checkConservation(TurnPhase.UpdateStats, state, produced)).toHaveLength(1);
+  });
+
+  it('reports ledger entries that were changed or dropped', () => {
+    const before = recordTrades(state, [sale]);
+
+    expect(checkConservation(TurnPhase.End, before, state)).toEqual([
+      { path: 'ledger', message: 'Recorded trades were changed during end' },
+    ]);
+  });
+
+  it('lets the End phase drop trades of earlier turns only', () => {
+    const before = { ...recordTrades(state, [sale]), turn: 2 };
+    const pruned = { ...before, ledger: [] };
+
+    expect(checkConservation(TurnPhase.End, before, pruned)).toEqual([]);
+    expect(checkConservation(TurnPhase.UpdateStats, before, pruned)).toEqual([
+      { path: 'ledger', message: 'Recorded trades were changed during updateStats' },
+    ]);
+  });
+});
+
+describe('conservation checks in TurnService', () => {
+  it('passes full turns of player, AI and order trades with transport and shipping', async () => {
+    const state = initGameState({ rngSeed: 'conservation-seed' });
+    const { controller, playerQ } = createTurnController(state, {
+      playerTownId: 'riverdale',
+      playerActionBudget: 2,
+      shipping: { travelTurns: 2 },
+      conservation: true,
+    });
+    const forestburg = state.towns.find(t => t.id === 'forestburg')!;
+    playerQ.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId: 'wood',
+        quantity: 2,
+        side: 'buy',
+        pricePerUnit: sidePrice(forestburg, 'wood', 'buy', DEFAULT_SPREAD)!,
+      },
+    });
+    playerQ.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        side: 'barter',
+        goodId: 'fish',
+        quantity: 10,
+        wantGoodId: 'wood',
+      },
+    });
+
+    let current = state;
+    for (let turn = 0; turn < 4; turn++) {
+      current = (await controller.runTurn(current)).state;
+    }
+
+    expect(current.ledger?.length).toBeGreaterThan(2);
+  });
+
+  it('fails the turn with a ConservationError when a system creates goods', async () => {
+    const state = initGameState({ rngSeed: 'conservation-seed' });
+    const { controller } = createTurnController(state, {
+      aiProfiles: {},
+      conservation: true,
+      configurePipeline: pipeline =>
+        pipeline.register(s => adjust(s, { ironforge: { resources: { ore: 100 } } }), {
+          id: 'windfall',
+        }),
+    });
+
+    const error = await controller.runTurn(state).catch((e: unknown) => e);
+
+    const cause = (error as { cause: unknown }).cause;
+    expect(cause).toBeInstanceOf(ConservationError);
+    expect((cause as ConservationError).phase).toBe(TurnPhase.UpdateStats);
+    expect((cause as ConservationError).violations).toEqual([
+      expect.objectContaining({ path: `towns[${townIndex(state, 'ironforge')}].resources.ore` }),
+    ]);
+  });
+});
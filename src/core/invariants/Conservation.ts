@@ -0,0 +1,183 @@
+import type { GameState, LedgerEntry } from '../../types/GameState';
+import type { GoodId } from '../../types/Goods';
+import type { ProductionConfig } from '../../types/Production';
+import { previewProduction } from '../production/ProductionSystem';
+import { TurnPhase } from '../turn/TurnPhase';
+import type { ValidationError } from '../validation';
+
+/** Tolerance for treasury sums, which pick up float error from fractional unit prices */
+const CURRENCY_EPSILON = 1e-6;
+
+/**
+ * Options for checking conservation across a phase.
+ */
+export interface ConservationOptions {
+  /**
+   * Production config the UpdateStats phase runs with. Up to one turn of its
+   * production may appear in that phase; without it, no goods may appear at all.
+   */
+  productionConfig?: ProductionConfig;
+}
+
+/**
+ * Receives the violations found after a phase.
+ */
+export type ConservationReporter = (phase: TurnPhase, violations: ValidationError[]) => void;
+
+/**
+ * Error thrown when a phase breaks conservation of goods or currency.
+ * Carries every violation found, each with the path of the town value at fault.
+ */
+export class ConservationError extends Error {
+  constructor(
+    public readonly phase: TurnPhase,
+    public readonly violations: ValidationError[],
+  ) {
+    super(
+      `Conservation violated during ${phase}: ${violations.map(v => `${v.path}: ${v.message}`).join('; ')}`,
+    );
+
+    // Maintain proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, ConservationError.prototype);
+
+    this.name = 'ConservationError';
+  }
+}
+
+type TownAmounts = Map<string, Map<GoodId, number>>;
+
+function addAmount(amounts: TownAmounts, townId: string, goodId: GoodId, amount: number): void {
+  const town = amounts.get(townId) ?? new Map<GoodId, number>();
+  town.set(goodId, (town.get(goodId) ?? 0) + amount);
+  amounts.set(townId, town);
+}
+
+// A town's holdings of each good: its stock plus what is travelling to it
+function holdings(state: GameState): TownAmounts {
+  const amounts: TownAmounts = new Map();
+  for (const town of state.towns) {
+    for (const [goodId, amount] of Object.entries(town.resources) as [GoodId, number][]) {
+      addAmount(amounts, town.id, goodId, amount);
+    }
+  }
+  for (const caravan of state.caravans ?? []) {
+    addAmount(amounts, caravan.destinationId, caravan.goodId, caravan.quantity);
+  }
+  return amounts;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+/**
+ * Checks that a phase conserved goods and currency.
+ *
+ * Every change to a town's holdings (stock plus goods in transit to it) and treasury
+ * must be explained by the trades the phase added to the ledger: the buyer gains
+ * what the seller loses, the seller is paid what the buyer pays (barters move no
+ * currency), and the initiating town pays the transport cost. In the UpdateStats
+ * phase, holdings may also grow by up to one turn of production. The ledger itself
+ * must only be appended to, except that the End phase may drop trades from earlier
+ * turns that fell out of the ledger's retention.
+ *
+ * @param phase - The phase that ran
+ * @param before - State before the phase
+ * @param after - State after the phase
+ * @param options - Optional production config for the UpdateStats phase
+ * @returns Violations with town and good paths; empty if the phase conserved everything
+ */
+export function checkConservation(
+  phase: TurnPhase,
+  before: GameState,
+  after: GameState,
+  options: ConservationOptions = {},
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const newLedger = after.ledger ?? [];
+
+  // Only the End phase may drop the oldest trades (ledger retention), and never
+  // those of the turn just played
+  const dropped =
+    phase === TurnPhase.End ? Math.max(0, (before.ledger ?? []).length - newLedger.length) : 0;
+  const oldLedger = (before.ledger ?? []).slice(dropped);
+
+  // Recorded trades are never rewritten or dropped otherwise
+  if (
+    (before.ledger ?? []).slice(0, dropped).some(entry => entry.turn >= after.turn) ||
+    newLedger.length < oldLedger.length ||
+    oldLedger.some(
+      (entry, i) =>
+        entry !== newLedger[i] && JSON.stringify(entry) !== JSON.stringify(newLedger[i]),
+    )
+  ) {
+    errors.push({ path: 'ledger', message: `Recorded trades were changed during ${phase}` });
+  }
+
+  // What this phase's trades account for
+  const traded: TownAmounts = new Map();
+  const paid = new Map<string, number>();
+  const pay = (townId: string, amount: number) =>
+    paid.set(townId, (paid.get(townId) ?? 0) + amount);
+  for (const entry of newLedger.slice(oldLedger.length) as LedgerEntry[]) {
+    const buyer = entry.side === 'buy' ? entry.fromTownId : entry.toTownId;
+    const seller = entry.side === 'buy' ? entry.toTownId : entry.fromTownId;
+    addAmount(traded, buyer, entry.goodId, entry.quantity);
+    addAmount(traded, seller, entry.goodId, -entry.quantity);
+    if (entry.via !== 'barter') {
+      pay(buyer, -entry.quantity * entry.unitPrice);
+      pay(seller, entry.quantity * entry.unitPrice);
+    }
+    pay(entry.fromTownId, -(entry.transportCost ?? 0));
+  }
+
+  // Turn and seed do not change within UpdateStats, so the preview matches what ran
+  const produced =
+    phase === TurnPhase.UpdateStats && options.productionConfig
+      ? previewProduction(before, options.productionConfig)
+      : {};
+
+  const held = holdings(before);
+  const nowHeld = holdings(after);
+
+  after.towns.forEach((town, i) => {
+    const previous = before.towns.find(t => t.id === town.id);
+    if (!previous) {
+      errors.push({ path: `towns[${i}]`, message: `Town '${town.id}' appeared during ${phase}` });
+      return;
+    }
+
+    const goods = new Set<GoodId>([
+      ...(held.get(town.id)?.keys() ?? []),
+      ...(nowHeld.get(town.id)?.keys() ?? []),
+      ...(traded.get(town.id)?.keys() ?? []),
+    ]);
+    for (const goodId of goods) {
+      const change =
+        (nowHeld.get(town.id)?.get(goodId) ?? 0) - (held.get(town.id)?.get(goodId) ?? 0);
+      const expected = traded.get(town.id)?.get(goodId) ?? 0;
+      const rate = produced[town.id]?.[goodId]?.delta ?? 0;
+      const unexplained = change - expected;
+      if (unexplained >= Math.min(0, rate) && unexplained <= Math.max(0, rate)) {
+        continue;
+      }
+      const production = rate !== 0 ? ` and production for up to ${rate}` : '';
+      errors.push({
+        path: `towns[${i}].resources.${goodId}`,
+        message: `${Math.abs(unexplained)} ${goodId} ${unexplained > 0 ? 'created' : 'destroyed'} in '${town.name}' during ${phase}: holdings changed by ${change}, trades account for ${expected}${production}`,
+      });
+    }
+
+    const change = town.treasury - previous.treasury;
+    const expected = paid.get(town.id) ?? 0;
+    const unexplained = change - expected;
+    if (Math.abs(unexplained) > CURRENCY_EPSILON * Math.max(1, Math.abs(town.treasury))) {
+      errors.push({
+        path: `towns[${i}].treasury`,
+        message: `${round(Math.abs(unexplained))} currency ${unexplained > 0 ? 'created' : 'destroyed'} in '${town.name}' during ${phase}: treasury changed by ${round(change)}, trades account for ${round(expected)}`,
+      });
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,2 @@
+export { checkConservation, ConservationError } from './Conservation';
+export type { ConservationOptions, ConservationReporter } from './Conservation';
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import { initGameState } from '../initGameState';
+import { loadTownGraph } from '../map/TownGraph';
+import type { TownGraph } from '../map/TownGraph';
+import { DEFAULT_SPREAD, sidePrice } from '../pricing/Spread';
+import { travelTurnsByDistance } from '../trade/Caravans';
+import type { PlayerAction } from '../turn/PlayerAction';
+import { createTurnController } from '../turn/TurnService';
+
+import { replayJournal } from './Replayer';
+import { createJournalRecorder, parseTurnJournal } from './TurnJournal';
+import type { JournalShipping, TurnJournal } from './TurnJournal';
+
+/**
+ * Plays a few turns with player trades, recording a journal.
+ * Each turn buys a different good so quoted prices are always current.
+ * With shipping, the goods travel as caravans on the given map, as in the game.
+ */
+async function recordGame(
+  initial: GameState,
+  shipped?: { townGraph: TownGraph; shipping: JournalShipping },
+): Promise<{ journal: TurnJournal; finalState: GameState }> {
+  const recorder = createJournalRecorder(initial, {
+    playerTownId: 'riverdale',
+    playerActionBudget: 2,
+    ...(shipped && { shipping: shipped.shipping }),
+  });
+  const { controller, playerQ } = createTurnController(initial, {
+    playerTownId: 'riverdale',
+    playerActionBudget: 2,
+    journal: recorder,
+    ...(shipped && {
+      townGraph: shipped.townGraph,
+      shipping: {
+        travelTurns: travelTurnsByDistance(shipped.townGraph, shipped.shipping.distancePerTurn),
+      },
+    }),
+  });
+
+  let state = initial;
+  for (const goodId of ['wood', 'ore', 'fish']) {
+    const seller = state.towns.find(t => t.id === 'forestburg')!;
+    const action: PlayerAction = {
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId,
+        quantity: 2,
+        side: 'buy',
+        pricePerUnit: sidePrice(seller, goodId, 'buy', DEFAULT_SPREAD)!,
+      },
+    };
+    playerQ.enqueue(action);
+    state = (await controller.runTurn(state)).state;
+    recorder.commit(state);
+  }
+
+  return { journal: recorder.getJournal(), finalState: state };
+}
+
+describe('replayJournal', () => {
+  it('rebuilds the exact final state from the initial state and journal', async () => {
+    const initial = initGameState({ rngSeed: 'replay' });
+    const { journal, finalState } = await recordGame(initial);
+
+    expect(journal.turns.map(turn => turn.actions.length)).toEqual([1, 1, 1]);
+    expect(journal.turns[0]!.priceTraces.length).toBeGreaterThan(0);
+
+    // Journals survive a JSON round trip, as when attached to a bug report
+    const loaded = parseTurnJournal(JSON.parse(JSON.stringify(journal)));
+    const result = await replayJournal(initial, loaded);
+
+    expect(result.divergence).toBeUndefined();
+    expect(result.turnsReplayed).toBe(3);
+    expect(result.state).toStrictEqual(finalState);
+    expect(result.journal.turns.map(turn => turn.checksum)).toEqual(
+      journal.turns.map(turn => turn.checksum),
+    );
+  });
+
+  it('replays shipped trades with the shipping settings from the journal', async () => {
+    const initial = initGameState({ rngSeed: 'replay' });
+    const townGraph = loadTownGraph();
+    const { journal, finalState } = await recordGame(initial, {
+      townGraph,
+      shipping: { distancePerTurn: 250 },
+    });
+
+    expect(journal.shipping).toEqual({ distancePerTurn: 250 });
+    expect(finalState.caravans?.length).toBeGreaterThan(0);
+
+    const loaded = parseTurnJournal(JSON.parse(JSON.stringify(journal)));
+    const result = await replayJournal(initial, loaded, { townGraph });
+
+    expect(result.divergence).toBeUndefined();
+    expect(result.turnsReplayed).toBe(3);
+    expect(result.state).toStrictEqual(finalState);
+
+    // Without the shipping header, the goods would arrive instantly
+    const instant: TurnJournal = { ...loaded };
+    delete instant.shipping;
+    const diverged = await replayJournal(initial, instant, { townGraph });
+    expect(diverged.divergence).toMatchObject({ turnIndex: 0 });
+  });
+
+  it('flags the first turn that diverges', async () => {
+    const initial = initGameState({ rngSeed: 'replay' });
+    const { journal } = await recordGame(initial);
+
+    // Change the quantity the player bought on the second turn
+    const tampered: TurnJournal = JSON.parse(JSON.stringify(journal));
+    const action = tampered.turns[1]!.actions[0]!;
+    if (action.type === 'trade') action.payload.quantity = 1;
+
+    const result = await replayJournal(initial, tampered);
+
+    expect(result.turnsReplayed).toBe(1);
+    expect(result.state.turn).toBe(journal.turns[0]!.turn);
+    expect(result.divergence).toMatchObject({
+      turn: journal.turns[1]!.turn,
+      turnIndex: 1,
+      expectedChecksum: journal.turns[1]!.checksum,
+    });
+    expect(result.divergence!.eventIndex).toBeGreaterThanOrEqual(0);
+  });
+
+  it('flags a different initial state before replaying', async () => {
+    const { journal } = await recordGame(initGameState({ rngSeed: 'replay' }));
+
+    const result = await replayJournal(initGameState({ rngSeed: 'other' }), journal);
+
+    expect(result.turnsReplayed).toBe(0);
+    expect(result.divergence).toMatchObject({ turnIndex: -1, turn: 0 });
+  });
+});
@@ -0,0 +1,166 @@
+import type { GameState } from '../../types/GameState';
+import { loadTownGraph } from '../map/TownGraph';
+import { travelTurnsByDistance } from '../trade/Caravans';
+import { TurnPhase } from '../turn/TurnPhase';
+import { createTurnController } from '../turn/TurnService';
+import type { TurnServiceOptions } from '../turn/TurnService';
+
+import { createJournalRecorder, stateChecksum } from './TurnJournal';
+import type { TurnJournal, TurnRecord } from './TurnJournal';
+
+/**
+ * Options for replaying a journal: the same balance settings the game was
+ * recorded with. The player town, action budget and shipping come from the journal.
+ */
+export type ReplayOptions = Omit<
+  TurnServiceOptions,
+  'playerTownId' | 'playerActionBudget' | 'shipping' | 'journal' | 'autosave'
+>;
+
+/**
+ * The first point where a replay stopped matching its journal.
+ */
+export interface ReplayDivergence {
+  /** Turn number of the first state that differs (the initial turn if the initial state differs) */
+  turn: number;
+  /** Index into `journal.turns`, or -1 if the initial state differs */
+  turnIndex: number;
+  /** Checksum recorded in the journal */
+  expectedChecksum: string;
+  /** Checksum of the replayed state (empty if the turn failed) */
+  actualChecksum: string;
+  /** Index of the first event that differs from the recorded one, if any */
+  eventIndex?: number;
+  /** Error message if the replayed turn failed */
+  error?: string;
+}
+
+/**
+ * Result of replaying a journal.
+ */
+export interface ReplayResult {
+  /** State after the last turn that matched the journal */
+  state: GameState;
+  /** Number of turns replayed and matched */
+  turnsReplayed: number;
+  /** Journal recorded during the replay, for comparison with the original */
+  journal: TurnJournal;
+  /** Where the replay first diverged; absent if every turn matched */
+  divergence?: ReplayDivergence;
+}
+
+/**
+ * Finds the first recorded event that differs in the replay. End-phase events
+ * are skipped since they depend on autosave settings rather than game state.
+ */
+function firstEventMismatch(expected: TurnRecord, actual: TurnRecord): number | undefined {
+  const length = Math.max(expected.events.length, actual.events.length);
+  for (let i = 0; i < length; i++) {
+    const a = expected.events[i];
+    const b = actual.events[i];
+    if (a?.phase === TurnPhase.End && b?.phase === TurnPhase.End) continue;
+    if (JSON.stringify(a) !== JSON.stringify(b)) return i;
+  }
+  return undefined;
+}
+
+/**
+ * Replays a journal from its initial state by feeding each turn's recorded player
+ * actions back through a fresh TurnController, checking the resulting state
+ * against the recorded checksum after every turn. Stops at the first divergence.
+ * Journals recorded with shipping measure caravan travel on `options.townGraph`,
+ * or the bundled map if none is given.
+ *
+ * @param initialState - State the journal was recorded from
+ * @param journal - Recorded journal
+ * @param options - Balance settings the journal was recorded with
+ * @returns The replayed state and, if the replay diverged, where
+ */
+export async function replayJournal(
+  initialState: GameState,
+  journal: TurnJournal,
+  options: ReplayOptions = {},
+): Promise<ReplayResult> {
+  const recorder = createJournalRecorder(initialState, {
+    playerTownId: journal.playerTownId,
+    playerActionBudget: journal.playerActionBudget,
+    ...(journal.shipping && { shipping: journal.shipping }),
+  });
+
+  const initialChecksum = stateChecksum(initialState);
+  if (initialChecksum !== journal.initialChecksum) {
+    return {
+      state: initialState,
+      turnsReplayed: 0,
+      journal: recorder.getJournal(),
+      divergence: {
+        turn: initialState.turn,
+        turnIndex: -1,
+        expectedChecksum: journal.initialChecksum,
+        actualChecksum: initialChecksum,
+      },
+    };
+  }
+
+  const { controller, playerQ } = createTurnController(initialState, {
+    ...options,
+    playerTownId: journal.playerTownId,
+    playerActionBudget: journal.playerActionBudget,
+    ...(journal.shipping && {
+      shipping: {
+        travelTurns: travelTurnsByDistance(
+          options.townGraph ?? loadTownGraph(),
+          journal.shipping.distancePerTurn,
+        ),
+      },
+    }),
+    journal: recorder,
+  });
+
+  let state = initialState;
+  for (const [turnIndex, expected] of journal.turns.entries()) {
+    playerQ.clear();
+    expected.actions.forEach(action => playerQ.enqueue(action));
+
+    let next: GameState;
+    let actual: TurnRecord;
+    try {
+      next = (await controller.runTurn(state)).state;
+      actual = recorder.commit(next);
+    } catch (error) {
+      recorder.discard();
+      return {
+        state,
+        turnsReplayed: turnIndex,
+        journal: recorder.getJournal(),
+        divergence: {
+          turn: expected.turn,
+          turnIndex,
+          expectedChecksum: expected.checksum,
+          actualChecksum: '',
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    if (actual.checksum !== expected.checksum) {
+      const eventIndex = firstEventMismatch(expected, actual);
+      return {
+        state,
+        turnsReplayed: turnIndex,
+        journal: recorder.getJournal(),
+        divergence: {
+          turn: expected.turn,
+          turnIndex,
+          expectedChecksum: expected.checksum,
+          actualChecksum: actual.checksum,
+          ...(eventIndex !== undefined && { eventIndex }),
+        },
+      };
+    }
+
+    state = next;
+  }
+
+  return { state, turnsReplayed: journal.turns.length, journal: recorder.getJournal() };
+}
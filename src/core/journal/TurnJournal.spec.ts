@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+
+import { initGameState } from '../initGameState';
+import { TurnPhase } from '../turn/TurnPhase';
+
+import {
+  createJournalRecorder,
+  JournalError,
+  parseTurnJournal,
+  stateChecksum,
+} from './TurnJournal';
+
+describe('TurnJournal', () => {
+  describe('stateChecksum', () => {
+    it('ignores key order but not values', () => {
+      const state = initGameState({ rngSeed: 'checksum' });
+      const reordered = Object.fromEntries(Object.entries(state).reverse()) as typeof state;
+
+      expect(stateChecksum(reordered)).toBe(stateChecksum(state));
+      expect(stateChecksum({ ...state, turn: 1 })).not.toBe(stateChecksum(state));
+    });
+  });
+
+  describe('createJournalRecorder', () => {
+    const initial = initGameState({ rngSeed: 'journal' });
+    const trade = {
+      type: 'trade' as const,
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId: 'wood',
+        quantity: 1,
+        side: 'buy' as const,
+        pricePerUnit: 10,
+      },
+    };
+
+    it('records consumed actions, events and price traces per turn', () => {
+      const recorder = createJournalRecorder(initial, { playerTownId: 'riverdale' });
+
+      recorder.onPhase(TurnPhase.Start);
+      recorder.onPhase(TurnPhase.PlayerAction, { action: trade, actionIndex: 0, rejected: true });
+      recorder.onPhase(TurnPhase.UpdateStats, {
+        ran: 1,
+        systems: [{ id: 'stats', skipped: false, durationMs: 3, changes: [] }],
+      });
+      const record = recorder.commit({ ...initial, turn: 1 });
+
+      expect(record.turn).toBe(1);
+      expect(record.actions).toEqual([trade]);
+      expect(record.events).toEqual([
+        { phase: TurnPhase.Start },
+        {
+          phase: TurnPhase.PlayerAction,
+          detail: { action: trade, actionIndex: 0, rejected: true },
+        },
+        {
+          phase: TurnPhase.UpdateStats,
+          detail: { ran: 1, systems: [{ id: 'stats', skipped: false, changes: [] }] },
+        },
+      ]);
+      expect(record.checksum).toBe(stateChecksum({ ...initial, turn: 1 }));
+
+      const journal = recorder.getJournal();
+      expect(journal.initialChecksum).toBe(stateChecksum(initial));
+      expect(journal.playerActionBudget).toBe(1);
+      expect(journal.turns).toEqual([record]);
+    });
+
+    it('records the shipping settings in the header only when shipping', () => {
+      const shipping = { distancePerTurn: 250 };
+
+      expect(
+        createJournalRecorder(initial, { playerTownId: 'riverdale', shipping }).getJournal(),
+      ).toMatchObject({ shipping });
+      expect(
+        createJournalRecorder(initial, { playerTownId: 'riverdale' }).getJournal(),
+      ).not.toHaveProperty('shipping');
+    });
+
+    it('records clamps only for turns that had any', () => {
+      const recorder = createJournalRecorder(initial, { playerTownId: 'riverdale' });
+      const clamp = {
+        source: 'production' as const,
+        townId: 'riverdale',
+        goodId: 'wood',
+        field: 'resource' as const,
+        value: 120,
+        clamped: 100,
+      };
+
+      recorder.onClamp(clamp);
+      expect(recorder.commit({ ...initial, turn: 1 }).clamps).toEqual([clamp]);
+      expect(recorder.commit({ ...initial, turn: 2 })).not.toHaveProperty('clamps');
+    });
+
+    it('does not record the synthesized none action as consumed', () => {
+      const recorder = createJournalRecorder(initial, { playerTownId: 'riverdale' });
+
+      recorder.onPhase(TurnPhase.PlayerAction, { action: { type: 'none' } });
+
+      expect(recorder.commit(initial).actions).toEqual([]);
+    });
+
+    it('drops the pending turn on discard', () => {
+      const recorder = createJournalRecorder(initial, { playerTownId: 'riverdale' });
+
+      recorder.onPhase(TurnPhase.Start);
+      recorder.discard();
+
+      expect(recorder.commit(initial).events).toEqual([]);
+    });
+  });
+
+  describe('parseTurnJournal', () => {
+    const journal = createJournalRecorder(initGameState(), { playerTownId: 'riverdale' });
+    journal.commit(initGameState());
+    const valid = JSON.parse(JSON.stringify(journal.getJournal())) as Record<string, unknown>;
+
+    const capture = (raw: unknown): string => {
+      try {
+        parseTurnJournal(raw);
+      } catch (error) {
+        if (error instanceof JournalError) return error.path;
+        throw error;
+      }
+      throw new Error('Expected JournalError');
+    };
+
+    it('accepts a round-tripped journal', () => {
+      expect(parseTurnJournal(valid)).toEqual(journal.getJournal());
+    });
+
+    it('reports the path of malformed values', () => {
+      expect(capture(null)).toBe('root');
+      expect(capture({ ...valid, version: 99 })).toBe('version');
+      expect(capture({ ...valid, playerTownId: 3 })).toBe('playerTownId');
+      expect(
+        capture({ ...valid, turns: [{ turn: 1, checksum: 'x', actions: [{ type: 'fly' }] }] }),
+      ).toBe('turns[0].actions[0]');
+      expect(
+        capture({
+          ...valid,
+          turns: [{ turn: 1, checksum: 'x', actions: [], events: [], priceTraces: [], clamps: 3 }],
+        }),
+      ).toBe('turns[0].clamps');
+      expect(capture({ ...valid, shipping: 250 })).toBe('shipping');
+      expect(capture({ ...valid, shipping: { distancePerTurn: 0 } })).toBe(
+        'shipping.distancePerTurn',
+      );
+    });
+
+    it('accepts limit order actions', () => {
+      const actions = [
+        { type: 'cancelOrder', payload: { orderId: 'order-1-0' } },
+        { type: 'amendOrder', payload: { orderId: 'order-1-0', changes: { quantity: 2 } } },
+      ];
+      const turns = [{ turn: 1, checksum: 'x', actions, events: [], priceTraces: [] }];
+
+      expect(parseTurnJournal({ ...valid, turns }).turns[0]!.actions).toEqual(actions);
+    });
+  });
+});
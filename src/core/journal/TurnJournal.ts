@@ -0,0 +1,296 @@
+import type { GameState } from '../../types/GameState';
+import type { PriceChangeTrace } from '../pricing/Telemetry';
+import type { ClampEvent } from '../trade/TradeLimits';
+import type { PlayerAction, PlayerActionType } from '../turn/PlayerAction';
+import { TurnPhase } from '../turn/TurnPhase';
+
+/** Current journal format version */
+export const JOURNAL_VERSION = 1;
+
+const PLAYER_ACTION_TYPES: readonly string[] = [
+  'none',
+  'trade',
+  'placeOrder',
+  'amendOrder',
+  'cancelOrder',
+] satisfies PlayerActionType[];
+
+/**
+ * One `onPhase` notification, as recorded in the journal.
+ */
+export interface JournalEvent {
+  phase: TurnPhase;
+  detail?: unknown;
+}
+
+/**
+ * Everything that happened during one completed turn.
+ */
+export interface TurnRecord {
+  /** Turn number of the state the turn produced */
+  turn: number;
+  /** Player actions consumed during the PlayerAction phase, including rejected ones */
+  actions: PlayerAction[];
+  /**
+   * Phase notifications in emission order: player action results, AI decisions
+   * and traces, trade deltas and update pipeline reports
+   */
+  events: JournalEvent[];
+  /** Price changes made during the turn, in order */
+  priceTraces: PriceChangeTrace[];
+  /** Values clamped to the game limits during the turn, in order (omitted if none) */
+  clamps?: ClampEvent[];
+  /** Checksum of the state the turn produced */
+  checksum: string;
+}
+
+/**
+ * Caravan shipping settings during recording, in a form that survives serialization.
+ */
+export interface JournalShipping {
+  /** Map distance a caravan covers per turn (see `travelTurnsByDistance`) */
+  distancePerTurn: number;
+}
+
+/**
+ * A serializable log of played turns that, together with the initial state,
+ * is enough to replay a game exactly.
+ */
+export interface TurnJournal {
+  version: number;
+  /** Turn number of the initial state */
+  initialTurn: number;
+  /** Checksum of the initial state */
+  initialChecksum: string;
+  /** The player's town during recording */
+  playerTownId: string;
+  /** Player action budget during recording */
+  playerActionBudget: number;
+  /** Caravan shipping during recording (omitted if traded goods arrived instantly) */
+  shipping?: JournalShipping;
+  /** Completed turns in order */
+  turns: TurnRecord[];
+}
+
+/**
+ * Error thrown when a journal file is malformed.
+ * Includes the path to the problematic value (e.g. "turns[3].actions").
+ */
+export class JournalError extends Error {
+  constructor(
+    public path: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'JournalError';
+  }
+}
+
+/**
+ * Collects `onPhase` notifications, price traces and clamps into a journal, one turn at a time.
+ */
+export interface JournalRecorder {
+  /** Phase hook to pass to the TurnController */
+  onPhase(phase: TurnPhase, detail?: unknown): void;
+  /** Price tracer to pass to the pricing service */
+  onPriceTrace(trace: PriceChangeTrace): void;
+  /** Clamp reporter to pass to the game limits */
+  onClamp(event: ClampEvent): void;
+  /**
+   * Closes the current turn and appends it to the journal.
+   * @param state - The state the turn produced
+   * @returns The recorded turn
+   */
+  commit(state: GameState): TurnRecord;
+  /** Drops everything recorded since the last commit (e.g. after a failed turn) */
+  discard(): void;
+  /** Gets the journal recorded so far */
+  getJournal(): TurnJournal;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * JSON with object keys sorted, so equal states always serialize identically.
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (!isObject(v)) return v;
+    return Object.fromEntries(
+      Object.keys(v)
+        .sort()
+        .map(key => [key, v[key]]),
+    );
+  });
+}
+
+/**
+ * Computes a short, stable checksum of a game state (FNV-1a over canonical JSON).
+ * Equal states always have equal checksums, regardless of key order.
+ */
+export function stateChecksum(state: GameState): string {
+  const json = canonicalJson(state);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Copies an event detail into plain JSON data. Update pipeline timings are
+ * dropped because they differ from run to run.
+ */
+function toJournalDetail(phase: TurnPhase, detail: unknown): unknown {
+  const copy: unknown = JSON.parse(JSON.stringify(detail));
+  if (phase === TurnPhase.UpdateStats && isObject(copy) && Array.isArray(copy.systems)) {
+    for (const report of copy.systems) {
+      if (isObject(report)) delete report.durationMs;
+    }
+  }
+  return copy;
+}
+
+/**
+ * Creates a recorder for a game starting from the given state.
+ *
+ * @param initialState - State the first recorded turn starts from
+ * @param options - Player town, action budget and shipping settings the controller runs with
+ * @returns A recorder whose hooks should be wired into the turn controller
+ */
+export function createJournalRecorder(
+  initialState: GameState,
+  options: { playerTownId: string; playerActionBudget?: number; shipping?: JournalShipping },
+): JournalRecorder {
+  const journal: TurnJournal = {
+    version: JOURNAL_VERSION,
+    initialTurn: initialState.turn,
+    initialChecksum: stateChecksum(initialState),
+    playerTownId: options.playerTownId,
+    playerActionBudget: options.playerActionBudget ?? 1,
+    ...(options.shipping && { shipping: { ...options.shipping } }),
+    turns: [],
+  };
+
+  let actions: PlayerAction[] = [];
+  let events: JournalEvent[] = [];
+  let priceTraces: PriceChangeTrace[] = [];
+  let clamps: ClampEvent[] = [];
+
+  const discard = (): void => {
+    actions = [];
+    events = [];
+    priceTraces = [];
+    clamps = [];
+  };
+
+  return {
+    onPhase(phase, detail) {
+      const event: JournalEvent =
+        detail === undefined ? { phase } : { phase, detail: toJournalDetail(phase, detail) };
+      events.push(event);
+
+      // Consumed actions carry an index; the synthesized 'none' for an empty queue does not
+      if (phase === TurnPhase.PlayerAction && isObject(detail) && 'actionIndex' in detail) {
+        actions.push(JSON.parse(JSON.stringify(detail.action)) as PlayerAction);
+      }
+    },
+
+    onPriceTrace(trace) {
+      priceTraces.push({ ...trace });
+    },
+
+    onClamp(event) {
+      clamps.push({ ...event });
+    },
+
+    commit(state) {
+      const record: TurnRecord = {
+        turn: state.turn,
+        actions,
+        events,
+        priceTraces,
+        ...(clamps.length > 0 && { clamps }),
+        checksum: stateChecksum(state),
+      };
+      journal.turns.push(record);
+      discard();
+      return record;
+    },
+
+    discard,
+
+    getJournal() {
+      return journal;
+    },
+  };
+}
+
+/**
+ * Validates a parsed journal file. Only the parts the replayer relies on are
+ * checked; event details are kept as recorded.
+ *
+ * @param raw - Parsed JSON
+ * @returns The validated journal
+ * @throws JournalError if the journal is malformed
+ */
+export function parseTurnJournal(raw: unknown): TurnJournal {
+  if (!isObject(raw)) {
+    throw new JournalError('root', 'Expected object');
+  }
+  if (raw.version !== JOURNAL_VERSION) {
+    throw new JournalError('version', `Unsupported journal version: ${String(raw.version)}`);
+  }
+  for (const key of ['initialTurn', 'playerActionBudget'] as const) {
+    if (typeof raw[key] !== 'number' || !Number.isInteger(raw[key])) {
+      throw new JournalError(key, 'Expected integer');
+    }
+  }
+  for (const key of ['initialChecksum', 'playerTownId'] as const) {
+    if (typeof raw[key] !== 'string') {
+      throw new JournalError(key, 'Expected string');
+    }
+  }
+  if (raw.shipping !== undefined) {
+    if (!isObject(raw.shipping)) {
+      throw new JournalError('shipping', 'Expected object');
+    }
+    const { distancePerTurn } = raw.shipping;
+    if (typeof distancePerTurn !== 'number' || !(distancePerTurn > 0)) {
+      throw new JournalError('shipping.distancePerTurn', 'Expected positive number');
+    }
+  }
+  if (!Array.isArray(raw.turns)) {
+    throw new JournalError('turns', 'Expected array');
+  }
+
+  raw.turns.forEach((turn: unknown, index) => {
+    const path = `turns[${index}]`;
+    if (!isObject(turn)) {
+      throw new JournalError(path, 'Expected object');
+    }
+    if (typeof turn.turn !== 'number' || typeof turn.checksum !== 'string') {
+      throw new JournalError(path, 'Expected numeric turn and string checksum');
+    }
+    if (!Array.isArray(turn.actions)) {
+      throw new JournalError(`${path}.actions`, 'Expected array');
+    }
+    turn.actions.forEach((action: unknown, actionIdx) => {
+      if (!isObject(action) || !PLAYER_ACTION_TYPES.includes(action.type as string)) {
+        throw new JournalError(`${path}.actions[${actionIdx}]`, 'Expected player action');
+      }
+    });
+    if (!Array.isArray(turn.events) || !Array.isArray(turn.priceTraces)) {
+      throw new JournalError(path, 'Expected events and priceTraces arrays');
+    }
+    // Journals recorded before clamps were reported have none
+    if (turn.clamps !== undefined && !Array.isArray(turn.clamps)) {
+      throw new JournalError(`${path}.clamps`, 'Expected array');
+    }
+  });
+
+  return raw as unknown as TurnJournal;
+}
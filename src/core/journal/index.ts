@@ -0,0 +1,17 @@
+export {
+  createJournalRecorder,
+  JOURNAL_VERSION,
+  JournalError,
+  parseTurnJournal,
+  stateChecksum,
+} from './TurnJournal';
+export type {
+  JournalEvent,
+  JournalRecorder,
+  JournalShipping,
+  TurnJournal,
+  TurnRecord,
+} from './TurnJournal';
+
+export { replayJournal } from './Replayer';
+export type { ReplayDivergence, ReplayOptions, ReplayResult } from './Replayer';
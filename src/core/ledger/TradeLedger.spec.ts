@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState, LedgerEntry } from '../../types/GameState';
+import { initGameState } from '../initGameState';
+
+import { pruneLedger, queryLedger, recordTrades, sideFor, volumeByGood } from './TradeLedger';
+
+describe('TradeLedger', () => {
+  const entry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+    turn: 1,
+    fromTownId: 'riverdale',
+    toTownId: 'forestburg',
+    goodId: 'wood',
+    quantity: 5,
+    unitPrice: 10,
+    side: 'buy',
+    initiator: { type: 'player' },
+    ...overrides,
+  });
+
+  const ledger: LedgerEntry[] = [
+    entry({ turn: 1 }),
+    entry({ turn: 2, goodId: 'fish', quantity: 3, side: 'sell' }),
+    entry({
+      turn: 3,
+      fromTownId: 'forestburg',
+      toTownId: 'ironforge',
+      goodId: 'ore',
+      quantity: 2,
+      initiator: { type: 'ai', profileId: 'greedy' },
+    }),
+    entry({
+      turn: 4,
+      fromTownId: 'ironforge',
+      toTownId: 'riverdale',
+      quantity: 4,
+      side: 'sell',
+      initiator: { type: 'ai', profileId: 'random' },
+    }),
+  ];
+
+  const state: GameState = { ...initGameState({ rngSeed: 'ledger' }), turn: 4, ledger };
+
+  describe('recordTrades', () => {
+    it('appends entries without changing existing ones', () => {
+      const first = recordTrades(initGameState(), [ledger[0]!]);
+      const second = recordTrades(first, [ledger[1]!, ledger[2]!]);
+
+      expect(first.ledger).toEqual([ledger[0]]);
+      expect(second.ledger).toEqual(ledger.slice(0, 3));
+    });
+
+    it('returns the same state when there is nothing to record', () => {
+      const initial = initGameState();
+
+      expect(recordTrades(initial, [])).toBe(initial);
+    });
+  });
+
+  describe('pruneLedger', () => {
+    it('keeps the trades of the last turns, counting the current one', () => {
+      expect(pruneLedger(state, { maxTurns: 2 }).ledger).toEqual(ledger.slice(2));
+      expect(pruneLedger({ ...state, turn: 10 }, { maxTurns: 2 }).ledger).toEqual([]);
+    });
+
+    it('returns the same state when nothing is old enough to drop', () => {
+      expect(pruneLedger(state, { maxTurns: 4 })).toBe(state);
+      expect(pruneLedger(state)).toBe(state);
+    });
+
+    it('rejects a retention that is not a positive number of turns', () => {
+      expect(() => pruneLedger(state, { maxTurns: 0 })).toThrow('got 0');
+      expect(() => pruneLedger(state, { maxTurns: 1.5 })).toThrow('got 1.5');
+    });
+  });
+
+  describe('sideFor', () => {
+    it('flips the side for the counterparty', () => {
+      expect(sideFor(ledger[0]!, 'riverdale')).toBe('buy');
+      expect(sideFor(ledger[0]!, 'forestburg')).toBe('sell');
+    });
+  });
+
+  describe('queryLedger', () => {
+    it('returns every entry without filters', () => {
+      expect(queryLedger(state)).toEqual(ledger);
+      expect(queryLedger(initGameState())).toEqual([]);
+    });
+
+    it('finds trades a town took part in on either side', () => {
+      expect(queryLedger(state, { townId: 'riverdale' })).toEqual([
+        ledger[0],
+        ledger[1],
+        ledger[3],
+      ]);
+    });
+
+    it('limits trades to the last N turns, counting the current one', () => {
+      expect(queryLedger(state, { townId: 'riverdale', lastTurns: 3 })).toEqual([
+        ledger[1],
+        ledger[3],
+      ]);
+      expect(queryLedger(state, { lastTurns: 1 })).toEqual([ledger[3]]);
+    });
+
+    it("filters by side from the queried town's point of view", () => {
+      // Ironforge sold wood to riverdale on turn 4, so riverdale bought it
+      expect(queryLedger(state, { townId: 'riverdale', side: 'buy' })).toEqual([
+        ledger[0],
+        ledger[3],
+      ]);
+      expect(queryLedger(state, { side: 'sell' })).toEqual([ledger[1], ledger[3]]);
+    });
+
+    it('filters by good and initiator', () => {
+      expect(queryLedger(state, { goodId: 'wood' })).toEqual([ledger[0], ledger[3]]);
+      expect(queryLedger(state, { initiator: 'ai' })).toEqual([ledger[2], ledger[3]]);
+    });
+  });
+
+  describe('volumeByGood', () => {
+    it('totals the quantity traded per good', () => {
+      expect(volumeByGood(ledger)).toEqual({ wood: 9, fish: 3, ore: 2 });
+      expect(volumeByGood([])).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import type { GameState, LedgerEntry, TradeInitiator } from '../../types/GameState';
+import type { GoodId } from '../../types/Goods';
+
+/** Default number of turns whose trades are kept in the ledger */
+export const DEFAULT_LEDGER_TURNS = 50;
+
+/**
+ * Options for keeping the ledger, which is saved with the game, from growing without bound.
+ */
+export interface LedgerRetention {
+  /** Number of most recent turns whose trades are kept (default: DEFAULT_LEDGER_TURNS) */
+  maxTurns?: number;
+}
+
+/**
+ * Filters for querying the trade ledger. All filters are optional and combine.
+ */
+export interface LedgerQuery {
+  /** Only trades this town took part in, as initiator or counterparty */
+  townId?: string;
+  /** Only trades of this good */
+  goodId?: GoodId;
+  /**
+   * Only buys or only sells, seen from `townId` when it is given (a town that
+   * was sold to bought), otherwise from the initiating town
+   */
+  side?: 'buy' | 'sell';
+  /** Only trades from the last N turns, counting the current one */
+  lastTurns?: number;
+  /** Only trades started by the player, or only by AI towns */
+  initiator?: TradeInitiator['type'];
+}
+
+/**
+ * Appends completed trades to the game's ledger. Existing entries are never changed.
+ *
+ * @param state - Current game state
+ * @param entries - Trades to record, oldest first
+ * @returns New state with the entries appended (the same state if there are none)
+ */
+export function recordTrades(state: GameState, entries: LedgerEntry[]): GameState {
+  if (entries.length === 0) {
+    return state;
+  }
+  return { ...state, ledger: [...(state.ledger ?? []), ...entries] };
+}
+
+/**
+ * Validates ledger retention options.
+ *
+ * @param retention - Retention options
+ * @returns The number of turns kept
+ * @throws Error if `maxTurns` is not a positive integer
+ */
+export function validateLedgerRetention(retention: LedgerRetention): number {
+  const maxTurns = retention.maxTurns ?? DEFAULT_LEDGER_TURNS;
+  if (!Number.isInteger(maxTurns) || maxTurns < 1) {
+    throw new Error(`Ledger retention must be a positive number of turns, got ${maxTurns}`);
+  }
+  return maxTurns;
+}
+
+/**
+ * Drops the trades of turns that fell out of the retention window. The trades of
+ * the last `maxTurns` turns, counting the current one, are kept unchanged.
+ *
+ * @param state - Current game state (its turn anchors the window)
+ * @param retention - Retention options
+ * @returns New state without the old entries (the same state if none were dropped)
+ * @throws Error if `maxTurns` is not a positive integer
+ */
+export function pruneLedger(state: GameState, retention: LedgerRetention = {}): GameState {
+  const firstTurn = state.turn - validateLedgerRetention(retention) + 1;
+  const ledger = state.ledger ?? [];
+  // Entries are appended turn by turn, so the old ones form a prefix
+  const kept = ledger.findIndex(entry => entry.turn >= firstTurn);
+  if (kept === 0 || ledger.length === 0) {
+    return state;
+  }
+  return { ...state, ledger: kept === -1 ? [] : ledger.slice(kept) };
+}
+
+/**
+ * Gets the side of a trade as seen from one of its towns: the counterparty of a
+ * sale bought, and the counterparty of a purchase sold.
+ *
+ * @param entry - Ledger entry
+ * @param townId - ID of the initiating town or the counterparty
+ * @returns Whether the town bought or sold
+ */
+export function sideFor(entry: LedgerEntry, townId: string): 'buy' | 'sell' {
+  if (townId === entry.fromTownId) {
+    return entry.side;
+  }
+  return entry.side === 'buy' ? 'sell' : 'buy';
+}
+
+/**
+ * Finds the ledger entries matching a query, oldest first.
+ *
+ * @param state - Current game state (its turn anchors `lastTurns`)
+ * @param query - Filters to apply
+ * @returns Matching entries
+ */
+export function queryLedger(state: GameState, query: LedgerQuery = {}): LedgerEntry[] {
+  const { townId, goodId, side, lastTurns, initiator } = query;
+  const firstTurn = lastTurns !== undefined ? state.turn - lastTurns + 1 : -Infinity;
+
+  return (state.ledger ?? []).filter(
+    entry =>
+      entry.turn >= firstTurn &&
+      (townId === undefined || entry.fromTownId === townId || entry.toTownId === townId) &&
+      (goodId === undefined || entry.goodId === goodId) &&
+      (side === undefined || sideFor(entry, townId ?? entry.fromTownId) === side) &&
+      (initiator === undefined || entry.initiator.type === initiator),
+  );
+}
+
+/**
+ * Totals the quantity traded per good.
+ *
+ * @param entries - Ledger entries, e.g. from `queryLedger`
+ * @returns Units traded per good (goods that were not traded are absent)
+ */
+export function volumeByGood(entries: readonly LedgerEntry[]): Partial<Record<GoodId, number>> {
+  const volume: Partial<Record<GoodId, number>> = {};
+  for (const entry of entries) {
+    volume[entry.goodId] = (volume[entry.goodId] ?? 0) + entry.quantity;
+  }
+  return volume;
+}
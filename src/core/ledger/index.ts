@@ -0,0 +1,10 @@
+export {
+  DEFAULT_LEDGER_TURNS,
+  pruneLedger,
+  queryLedger,
+  recordTrades,
+  sideFor,
+  validateLedgerRetention,
+  volumeByGood,
+} from './TradeLedger';
+export type { LedgerQuery, LedgerRetention } from './TradeLedger';
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+
+import townsData from '../../data/towns.json';
+
+import { createTownGraph, loadTownGraph, TownGraphError } from './TownGraph';
+
+function captureError(fn: () => void): TownGraphError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof TownGraphError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected TownGraphError to be thrown');
+}
+
+describe('TownGraph', () => {
+  const config = {
+    costPerUnitDistance: 0.01,
+    towns: {
+      a: { x: 0, y: 0 },
+      b: { x: 300, y: 400 },
+      c: { x: 600, y: 0 },
+    },
+    routes: [{ from: 'c', to: 'a', distance: 1000 }],
+  };
+
+  describe('loadTownGraph', () => {
+    it('places every town from towns.json on the map', () => {
+      const graph = loadTownGraph();
+
+      for (const town of townsData) {
+        expect(graph.has(town.id)).toBe(true);
+      }
+      expect(graph.costPerUnitDistance).toBeGreaterThan(0);
+    });
+  });
+
+  describe('distance', () => {
+    it('uses the straight-line distance between positions', () => {
+      const graph = createTownGraph(config);
+
+      expect(graph.distance('a', 'b')).toBe(500);
+      expect(graph.distance('b', 'a')).toBe(500);
+      expect(graph.distance('b', 'b')).toBe(0);
+    });
+
+    it('uses route overrides in both directions', () => {
+      const graph = createTownGraph(config);
+
+      expect(graph.distance('a', 'c')).toBe(1000);
+      expect(graph.distance('c', 'a')).toBe(1000);
+    });
+
+    it('throws for towns not on the map', () => {
+      const graph = createTownGraph(config);
+
+      expect(captureError(() => graph.distance('a', 'ghost')).path).toBe('towns.ghost');
+    });
+
+    it('does not find towns on the object prototype', () => {
+      const graph = createTownGraph(config);
+
+      expect(graph.has('constructor')).toBe(false);
+      expect(captureError(() => graph.distance('toString', 'a')).path).toBe('towns.toString');
+      expect(graph.transportCost('a', 'constructor', 5)).toBe(0);
+    });
+  });
+
+  describe('transport costs', () => {
+    it('scales with distance and quantity', () => {
+      const graph = createTownGraph(config);
+
+      expect(graph.unitTransportCost('a', 'b')).toBe(5);
+      expect(graph.transportCost('a', 'b', 3)).toBe(15);
+      expect(graph.transportCost('a', 'c', 2)).toBe(20);
+    });
+
+    it('rounds totals to whole currency', () => {
+      const graph = createTownGraph({ ...config, costPerUnitDistance: 0.0031 });
+
+      // 500 * 0.0031 = 1.55 per unit
+      expect(graph.transportCost('a', 'b', 1)).toBe(2);
+      expect(graph.transportCost('a', 'b', 3)).toBe(5);
+    });
+
+    it('charges nothing for towns not on the map', () => {
+      const graph = createTownGraph(config);
+
+      expect(graph.unitTransportCost('a', 'ghost')).toBe(0);
+      expect(graph.transportCost('ghost', 'b', 10)).toBe(0);
+    });
+  });
+
+  describe('validation', () => {
+    it.each([
+      [{ ...config, costPerUnitDistance: -1 }, 'costPerUnitDistance'],
+      [{ ...config, towns: [] }, 'towns'],
+      [{ ...config, towns: { a: { x: 'left', y: 0 } } }, 'towns.a.x'],
+      [{ ...config, routes: {} }, 'routes'],
+      [{ ...config, routes: [{ from: 'a', to: 'ghost', distance: 1 }] }, 'routes[0].to'],
+      [{ ...config, routes: [{ from: 'constructor', to: 'a', distance: 1 }] }, 'routes[0].from'],
+      [{ ...config, routes: [{ from: 'a', to: 'b', distance: NaN }] }, 'routes[0].distance'],
+    ])('rejects invalid config at %#', (raw, path) => {
+      expect(captureError(() => createTownGraph(raw)).path).toBe(path);
+    });
+
+    it('rejects non-object config', () => {
+      expect(captureError(() => createTownGraph(null)).path).toBe('root');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import mapData from '../../data/map.json';
+
+/**
+ * Position of a town on the map, in the 1000x1000 map coordinate system.
+ */
+export interface TownPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * A route whose distance differs from the straight line between its towns
+ * (e.g. a mountain pass or a river). Routes are symmetric.
+ */
+export interface RouteConfig {
+  from: string;
+  to: string;
+  distance: number;
+}
+
+/**
+ * Map configuration (the shape of map.json).
+ */
+export interface MapConfig {
+  /** Transport cost per unit of goods per unit of distance */
+  costPerUnitDistance: number;
+  /** Town positions keyed by town ID */
+  towns: Record<string, TownPosition>;
+  /** Optional distance overrides between pairs of towns */
+  routes?: RouteConfig[];
+}
+
+/**
+ * Error thrown when the map configuration is invalid or refers to unknown towns.
+ * Includes the path to the problematic value (e.g. "towns.riverdale.x", "routes[0].to").
+ */
+export class TownGraphError extends Error {
+  constructor(
+    public path: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'TownGraphError';
+  }
+}
+
+/**
+ * Town graph with distances and transport costs between every pair of towns.
+ */
+export interface TownGraph {
+  /** Town positions keyed by town ID */
+  positions: Readonly<Record<string, TownPosition>>;
+  /** Transport cost per unit of goods per unit of distance */
+  costPerUnitDistance: number;
+  /** Whether the town has a position on the map */
+  has(townId: string): boolean;
+  /**
+   * Distance between two towns: the route distance if one is configured,
+   * otherwise the straight-line distance between their positions.
+   * @throws TownGraphError if either town is not on the map
+   */
+  distance(fromId: string, toId: string): number;
+  /**
+   * Transport cost of moving one unit between two towns (not rounded).
+   * Towns that are not on the map are treated as having no transport cost.
+   */
+  unitTransportCost(fromId: string, toId: string): number;
+  /**
+   * Transport cost of moving `quantity` units between two towns, rounded to
+   * whole currency so treasuries stay integral.
+   */
+  transportCost(fromId: string, toId: string, quantity: number): number;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateNonNegative(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new TownGraphError(path, `Expected nonnegative number, got ${String(value)}`);
+  }
+  return value;
+}
+
+function routeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Creates a town graph from a map configuration.
+ *
+ * @param config - Map configuration (the shape of map.json)
+ * @returns A validated town graph
+ * @throws TownGraphError if the configuration is malformed
+ */
+export function createTownGraph(config: unknown): TownGraph {
+  if (!isObject(config)) {
+    throw new TownGraphError('root', 'Expected object');
+  }
+
+  const costPerUnitDistance = validateNonNegative(
+    config.costPerUnitDistance,
+    'costPerUnitDistance',
+  );
+
+  if (!isObject(config.towns)) {
+    throw new TownGraphError('towns', 'Expected object keyed by town ID');
+  }
+  const positions: Record<string, TownPosition> = {};
+  for (const [townId, position] of Object.entries(config.towns)) {
+    if (!isObject(position)) {
+      throw new TownGraphError(`towns.${townId}`, 'Expected object');
+    }
+    positions[townId] = {
+      x: validateNonNegative(position.x, `towns.${townId}.x`),
+      y: validateNonNegative(position.y, `towns.${townId}.y`),
+    };
+  }
+
+  const routes = new Map<string, number>();
+  const rawRoutes = config.routes ?? [];
+  if (!Array.isArray(rawRoutes)) {
+    throw new TownGraphError('routes', 'Expected array');
+  }
+  rawRoutes.forEach((route: unknown, index) => {
+    const path = `routes[${index}]`;
+    if (!isObject(route)) {
+      throw new TownGraphError(path, 'Expected object');
+    }
+    for (const key of ['from', 'to'] as const) {
+      const townId = route[key];
+      if (typeof townId !== 'string' || !Object.hasOwn(positions, townId)) {
+        throw new TownGraphError(`${path}.${key}`, `Unknown town: ${String(townId)}`);
+      }
+    }
+    const distance = validateNonNegative(route.distance, `${path}.distance`);
+    routes.set(routeKey(route.from as string, route.to as string), distance);
+  });
+
+  // Own keys only, so IDs like 'constructor' are not found on the object prototype
+  const has = (townId: string): boolean => Object.hasOwn(positions, townId);
+
+  const distance = (fromId: string, toId: string): number => {
+    const from = has(fromId) ? positions[fromId] : undefined;
+    const to = has(toId) ? positions[toId] : undefined;
+    if (!from) throw new TownGraphError(`towns.${fromId}`, `Town not on map: ${fromId}`);
+    if (!to) throw new TownGraphError(`towns.${toId}`, `Town not on map: ${toId}`);
+    if (fromId === toId) return 0;
+    return routes.get(routeKey(fromId, toId)) ?? Math.hypot(to.x - from.x, to.y - from.y);
+  };
+
+  const unitTransportCost = (fromId: string, toId: string): number =>
+    has(fromId) && has(toId) ? distance(fromId, toId) * costPerUnitDistance : 0;
+
+  return {
+    positions,
+    costPerUnitDistance,
+    has,
+    distance,
+    unitTransportCost,
+    transportCost: (fromId, toId, quantity) =>
+      Math.round(quantity * unitTransportCost(fromId, toId)),
+  };
+}
+
+/**
+ * Loads the town graph from map.json.
+ * @throws TownGraphError if the map is invalid
+ */
+export function loadTownGraph(): TownGraph {
+  return createTownGraph(mapData);
+}
@@ -0,0 +1,2 @@
+export { createTownGraph, loadTownGraph, TownGraphError } from './TownGraph';
+export type { MapConfig, RouteConfig, TownGraph, TownPosition } from './TownGraph';
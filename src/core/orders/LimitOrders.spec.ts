@@ -0,0 +1,285 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState, LimitOrder } from '../../types/GameState';
+import type { GoodId } from '../../types/Goods';
+import { createTownGraph } from '../map/TownGraph';
+import { createPricingService } from '../pricing/PricingService';
+
+import { amendOrder, cancelOrder, fillOrders, OrderError, placeOrder } from './LimitOrders';
+import type { LimitOrderRequest } from './LimitOrders';
+
+describe('LimitOrders', () => {
+  const mockGoods = {
+    fish: {
+      id: 'fish' as GoodId,
+      name: 'Fish',
+      effects: { prosperityDelta: 2, militaryDelta: 1 },
+    },
+    wood: {
+      id: 'wood' as GoodId,
+      name: 'Wood',
+      effects: { prosperityDelta: 1, militaryDelta: 3 },
+    },
+    ore: {
+      id: 'ore' as GoodId,
+      name: 'Ore',
+      effects: { prosperityDelta: -1, militaryDelta: 5 },
+    },
+  };
+
+  const createState = (orders?: LimitOrder[], treasury = 1000): GameState => ({
+    turn: 3,
+    version: 1,
+    rngSeed: 'test-seed',
+    towns: [
+      {
+        id: 'town1',
+        name: 'Port Town',
+        resources: { fish: 100, wood: 50, ore: 25 },
+        treasury,
+        prices: { fish: 10, wood: 20, ore: 50 },
+        prosperityRaw: 50,
+        militaryRaw: 30,
+        revealed: { militaryTier: 'militia', prosperityTier: 'modest', lastUpdatedTurn: 1 },
+      },
+      {
+        id: 'town2',
+        name: 'Mining Town',
+        resources: { fish: 25, wood: 100, ore: 75 },
+        treasury: 800,
+        prices: { fish: 12, wood: 18, ore: 45 },
+        prosperityRaw: 40,
+        militaryRaw: 45,
+        revealed: { militaryTier: 'garrison', prosperityTier: 'modest', lastUpdatedTurn: 1 },
+      },
+    ],
+    goods: mockGoods,
+    ...(orders && { orders }),
+  });
+
+  const request = (overrides: Partial<LimitOrderRequest> = {}): LimitOrderRequest => ({
+    townId: 'town1',
+    counterpartyId: 'town2',
+    goodId: 'wood',
+    side: 'buy',
+    quantity: 10,
+    limitPrice: 20,
+    expiresTurn: 5,
+    ...overrides,
+  });
+
+  const order = (overrides: Partial<LimitOrder> = {}): LimitOrder => ({
+    id: 'order-1-0',
+    ...request(),
+    placedTurn: 1,
+    ...overrides,
+  });
+
+  const deps = { pricingService: createPricingService(), goods: mockGoods };
+
+  const town = (state: GameState, id: string) => state.towns.find(t => t.id === id)!;
+
+  describe('placeOrder', () => {
+    it('stores the order with an ID and placement turn', () => {
+      const first = placeOrder(createState(), request());
+      const second = placeOrder(first.state, request({ limitPrice: 15 }));
+
+      expect(first.order).toEqual({ id: 'order-3-0', ...request(), placedTurn: 3 });
+      expect(second.order.id).toBe('order-3-1');
+      expect(second.state.orders).toEqual([first.order, second.order]);
+    });
+
+    it.each([
+      [{ townId: 'ghost' }, 'townId'],
+      [{ counterpartyId: 'ghost' }, 'counterpartyId'],
+      [{ counterpartyId: 'town1' }, 'counterpartyId'],
+      [{ goodId: 'gold' }, 'goodId'],
+      [{ side: 'hold' as LimitOrder['side'] }, 'side'],
+      [{ quantity: 0 }, 'quantity'],
+      [{ quantity: 1.5 }, 'quantity'],
+      [{ limitPrice: -1 }, 'limitPrice'],
+      [{ limitPrice: NaN }, 'limitPrice'],
+      [{ expiresTurn: 2 }, 'expiresTurn'],
+    ])('rejects %o with path %s', (overrides, path) => {
+      try {
+        placeOrder(createState(), request(overrides));
+        expect.fail('Expected OrderError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(OrderError);
+        expect((error as OrderError).path).toBe(path);
+      }
+    });
+  });
+
+  describe('amendOrder and cancelOrder', () => {
+    it('changes only the given fields', () => {
+      const { state, order: amended } = amendOrder(createState([order()]), 'order-1-0', {
+        limitPrice: 25,
+      });
+
+      expect(amended).toEqual(order({ limitPrice: 25 }));
+      expect(state.orders).toEqual([amended]);
+    });
+
+    it('validates changes', () => {
+      expect(() => amendOrder(createState([order()]), 'order-1-0', { quantity: 0 })).toThrow(
+        OrderError,
+      );
+      expect(() => amendOrder(createState([order()]), 'order-1-0', { expiresTurn: 1 })).toThrow(
+        'Expected integer >= 3',
+      );
+    });
+
+    it('removes a cancelled order', () => {
+      const state = cancelOrder(createState([order(), order({ id: 'order-2-0' })]), 'order-1-0');
+
+      expect(state.orders).toEqual([order({ id: 'order-2-0' })]);
+    });
+
+    it('rejects unknown order IDs', () => {
+      expect(() => cancelOrder(createState(), 'order-9-9')).toThrow(
+        "Order with ID 'order-9-9' not found",
+      );
+      expect(() => amendOrder(createState([order()]), 'order-9-9', {})).toThrow(OrderError);
+    });
+  });
+
+  describe('fillOrders', () => {
+    it('returns the state unchanged when there are no orders', async () => {
+      const state = createState();
+
+      const result = await fillOrders(state, deps);
+
+      expect(result.state).toBe(state);
+      expect(result.fills).toEqual([]);
+    });
+
+    it('buys when the price is at or below the limit', async () => {
+      const result = await fillOrders(createState([order({ quantity: 5 })]), deps);
+
+      expect(result.fills).toEqual([
+        { orderId: 'order-1-0', quantity: 5, unitPrice: 18, remaining: 0, closed: 'filled' },
+      ]);
+      expect(town(result.state, 'town1').resources.wood).toBe(55);
+      expect(town(result.state, 'town1').treasury).toBe(910);
+      expect(result.state.orders).toEqual([]);
+    });
+
+    it('stops buying once the price climbs past the limit along the curve', async () => {
+      const result = await fillOrders(createState([order()]), deps);
+
+      // The eighth unit would cost 23
+      expect(result.fills[0]).toMatchObject({ quantity: 7, unitPrice: 18, remaining: 3 });
+      expect(result.state.orders).toEqual([order({ quantity: 3 })]);
+    });
+
+    it('sells when the price is at or above the limit', async () => {
+      const sell = order({ goodId: 'fish', side: 'sell', limitPrice: 10 });
+
+      const result = await fillOrders(createState([sell]), deps);
+
+      // Later units fetch less as the buyer's stock grows: 109 for 10 fish
+      expect(result.fills[0]).toMatchObject({ quantity: 10, unitPrice: 10.9, closed: 'filled' });
+      expect(town(result.state, 'town1').resources.fish).toBe(90);
+      expect(town(result.state, 'town2').resources.fish).toBe(35);
+    });
+
+    it('keeps waiting while the price is not reached', async () => {
+      const waiting = order({ limitPrice: 15 });
+
+      const result = await fillOrders(createState([waiting]), deps);
+
+      expect(result.fills).toEqual([{ orderId: 'order-1-0', quantity: 0, remaining: 10 }]);
+      expect(result.state.orders).toEqual([waiting]);
+      expect(town(result.state, 'town1').resources.wood).toBe(50);
+    });
+
+    it("triggers on the counterparty's ask with a spread", async () => {
+      const spread = { margin: 0.1 };
+      const spreadDeps = { ...deps, pricingService: createPricingService({ spread }), spread };
+      const buy = order({ quantity: 1, limitPrice: 19 });
+
+      // The curve price of 18 is within the limit, but the ask of 20 is not
+      const waiting = await fillOrders(createState([buy]), spreadDeps);
+      const filled = await fillOrders(createState([order({ quantity: 1 })]), spreadDeps);
+
+      expect(waiting.fills).toEqual([{ orderId: 'order-1-0', quantity: 0, remaining: 1 }]);
+      expect(filled.fills[0]).toMatchObject({ quantity: 1, unitPrice: 20, closed: 'filled' });
+    });
+
+    it('partially fills up to the seller stock', async () => {
+      const result = await fillOrders(
+        createState([order({ quantity: 150, limitPrice: 1000 })], 10000),
+        deps,
+      );
+
+      expect(result.fills[0]).toMatchObject({ quantity: 100, remaining: 50 });
+      expect(result.state.orders).toEqual([order({ quantity: 50, limitPrice: 1000 })]);
+    });
+
+    it('partially fills up to what the buyer can afford, including transport', async () => {
+      const graph = createTownGraph({
+        costPerUnitDistance: 0.01,
+        towns: { town1: { x: 0, y: 0 }, town2: { x: 300, y: 400 } },
+      });
+
+      const plain = await fillOrders(createState([order()], 60), deps);
+      const shipped = await fillOrders(createState([order()], 60), { ...deps, graph });
+
+      expect(plain.fills[0]).toMatchObject({ quantity: 3, remaining: 7 });
+      // Transport costs 5 per unit over this distance, so only two units are affordable
+      expect(shipped.fills[0]).toMatchObject({ quantity: 2, remaining: 8 });
+      expect(town(shipped.state, 'town1').treasury).toBe(60 - 2 * 18 - 10);
+    });
+
+    it('fills orders in placement order against the updated state', async () => {
+      const first = order({ quantity: 80, limitPrice: 1000 });
+      const second = order({ id: 'order-2-0', quantity: 80, limitPrice: 1000 });
+
+      const result = await fillOrders(createState([first, second], 10000), deps);
+
+      expect(result.fills.map(fill => fill.quantity)).toEqual([80, 20]);
+      expect(result.state.orders).toEqual([{ ...second, quantity: 60 }]);
+    });
+
+    it('removes orders on their expiry turn and never trades past it', async () => {
+      const lastChance = order({ limitPrice: 15, expiresTurn: 3 });
+      const stale = order({ id: 'order-0-0', expiresTurn: 2 });
+
+      const result = await fillOrders(createState([lastChance, stale]), deps);
+
+      expect(result.fills).toEqual([
+        { orderId: 'order-1-0', quantity: 0, remaining: 10, closed: 'expired' },
+        { orderId: 'order-0-0', quantity: 0, remaining: 10, closed: 'expired' },
+      ]);
+      expect(result.state.orders).toEqual([]);
+      expect(town(result.state, 'town1').resources.wood).toBe(50);
+    });
+
+    it('keeps the order open when the trade is rejected', async () => {
+      const goodsWithoutWood: Partial<typeof mockGoods> = { ...mockGoods };
+      delete goodsWithoutWood.wood;
+
+      const result = await fillOrders(createState([order()]), {
+        ...deps,
+        goods: goodsWithoutWood as typeof mockGoods,
+      });
+
+      expect(result.fills[0]).toMatchObject({ quantity: 0, remaining: 10 });
+      expect(result.fills[0]!.error).toContain('wood');
+      expect(result.state.orders).toEqual([order()]);
+    });
+
+    it('ships filled goods by caravan in shipping mode', async () => {
+      const result = await fillOrders(createState([order({ quantity: 5 })]), {
+        ...deps,
+        shipping: { travelTurns: 2 },
+      });
+
+      expect(town(result.state, 'town1').resources.wood).toBe(50);
+      expect(result.state.caravans).toMatchObject([
+        { originId: 'town2', destinationId: 'town1', goodId: 'wood', quantity: 5 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import type { GameState, LimitOrder } from '../../types/GameState';
+import type { GoodConfig, GoodId } from '../../types/Goods';
+import type { Town } from '../../types/Town';
+import type { TownGraph } from '../map/TownGraph';
+import type { PricingStrategy } from '../pricing/PricingStrategy';
+import { sidePrice } from '../pricing/Spread';
+import type { SpreadConfig } from '../pricing/Spread';
+import type { ShippingOptions } from '../trade/Caravans';
+import type { TradeLimits } from '../trade/TradeLimits';
+import { performTrade } from '../trade/TradeService';
+
+/**
+ * Everything needed to place an order; the ID and placement turn are assigned.
+ */
+export type LimitOrderRequest = Omit<LimitOrder, 'id' | 'placedTurn'>;
+
+/**
+ * Fields of an open order that can be changed after it is placed.
+ */
+export type LimitOrderChanges = Partial<
+  Pick<LimitOrder, 'quantity' | 'limitPrice' | 'expiresTurn'>
+>;
+
+/**
+ * What happened to one open order when orders were checked.
+ */
+export interface OrderFill {
+  /** ID of the order */
+  orderId: string;
+  /** Quantity traded this turn (0 if the price was not reached or nothing could trade) */
+  quantity: number;
+  /** Unit price of the trade, if one happened */
+  unitPrice?: number;
+  /** Transport cost the placing town paid for the trade, if any */
+  transportCost?: number;
+  /** Quantity still open after this turn */
+  remaining: number;
+  /** Why the order closed this turn, if it did */
+  closed?: 'filled' | 'expired';
+  /** Error message if the trade was rejected */
+  error?: string;
+}
+
+/**
+ * Dependencies for executing order trades; the same ones the turn controller trades with.
+ */
+export interface OrderFillDeps {
+  pricingService: PricingStrategy;
+  goods: Record<GoodId, GoodConfig>;
+  /** Optional town graph for transport costs */
+  graph?: TownGraph;
+  /** Optional shipping options; when set, filled goods travel by caravan */
+  shipping?: ShippingOptions;
+  /** Optional game limits applied to the filled trades */
+  limits?: TradeLimits;
+  /** Optional bid/ask spread; orders trigger on the counterparty's ask (buy) or bid (sell) */
+  spread?: SpreadConfig;
+}
+
+/**
+ * Error thrown when an order request or change is invalid.
+ * Includes the path to the problematic field (e.g. "limitPrice", "orderId").
+ */
+export class OrderError extends Error {
+  constructor(
+    public path: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'OrderError';
+  }
+}
+
+function validateInteger(value: unknown, path: string, min: number): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new OrderError(path, `Expected integer >= ${min}, got ${String(value)}`);
+  }
+}
+
+function validateOrderFields(state: GameState, order: LimitOrderChanges): void {
+  if (order.quantity !== undefined) {
+    validateInteger(order.quantity, 'quantity', 1);
+  }
+  if (order.limitPrice !== undefined) {
+    if (!Number.isFinite(order.limitPrice) || order.limitPrice < 0) {
+      throw new OrderError('limitPrice', `Expected nonnegative number, got ${order.limitPrice}`);
+    }
+  }
+  if (order.expiresTurn !== undefined) {
+    validateInteger(order.expiresTurn, 'expiresTurn', state.turn);
+  }
+}
+
+/**
+ * Validates an order request against the current state.
+ *
+ * @throws OrderError if a town or good is unknown, the towns are the same, or a
+ *   quantity, price or expiry turn is out of range (orders cannot expire in the past)
+ */
+export function validateOrderRequest(state: GameState, request: LimitOrderRequest): void {
+  if (!state.towns.some(town => town.id === request.townId)) {
+    throw new OrderError('townId', `Town with ID '${request.townId}' not found`);
+  }
+  if (!state.towns.some(town => town.id === request.counterpartyId)) {
+    throw new OrderError('counterpartyId', `Town with ID '${request.counterpartyId}' not found`);
+  }
+  if (request.counterpartyId === request.townId) {
+    throw new OrderError('counterpartyId', 'A town cannot trade with itself');
+  }
+  if (!(request.goodId in state.goods)) {
+    throw new OrderError('goodId', `Unknown good '${request.goodId}'`);
+  }
+  if (request.side !== 'buy' && request.side !== 'sell') {
+    throw new OrderError('side', `Expected 'buy' or 'sell', got ${String(request.side)}`);
+  }
+  validateOrderFields(state, request);
+}
+
+/**
+ * Next free order ID for the current turn ("order-<turn>-<n>").
+ */
+function nextOrderId(orders: readonly LimitOrder[], turn: number): string {
+  const prefix = `order-${turn}-`;
+  const used = orders
+    .filter(order => order.id.startsWith(prefix))
+    .map(order => Number(order.id.slice(prefix.length)));
+  return `${prefix}${used.length > 0 ? Math.max(...used) + 1 : 0}`;
+}
+
+/**
+ * Places a new limit order.
+ *
+ * @param state - Current game state
+ * @param request - The order to place
+ * @returns The new state and the placed order
+ * @throws OrderError if the request is invalid
+ */
+export function placeOrder(
+  state: GameState,
+  request: LimitOrderRequest,
+): { state: GameState; order: LimitOrder } {
+  validateOrderRequest(state, request);
+
+  const orders = state.orders ?? [];
+  const order: LimitOrder = {
+    id: nextOrderId(orders, state.turn),
+    townId: request.townId,
+    counterpartyId: request.counterpartyId,
+    goodId: request.goodId,
+    side: request.side,
+    quantity: request.quantity,
+    limitPrice: request.limitPrice,
+    placedTurn: state.turn,
+    expiresTurn: request.expiresTurn,
+  };
+
+  return { state: { ...state, orders: [...orders, order] }, order };
+}
+
+function findOrder(state: GameState, orderId: string): LimitOrder {
+  const order = state.orders?.find(candidate => candidate.id === orderId);
+  if (!order) {
+    throw new OrderError('orderId', `Order with ID '${orderId}' not found`);
+  }
+  return order;
+}
+
+/**
+ * Changes the quantity, limit price or expiry turn of an open order.
+ *
+ * @param state - Current game state
+ * @param orderId - ID of the order to change
+ * @param changes - Fields to change
+ * @returns The new state and the updated order
+ * @throws OrderError if the order does not exist or a change is invalid
+ */
+export function amendOrder(
+  state: GameState,
+  orderId: string,
+  changes: LimitOrderChanges,
+): { state: GameState; order: LimitOrder } {
+  const existing = findOrder(state, orderId);
+  validateOrderFields(state, changes);
+
+  const order: LimitOrder = { ...existing, ...changes };
+  return {
+    state: {
+      ...state,
+      orders: (state.orders ?? []).map(candidate => (candidate.id === orderId ? order : candidate)),
+    },
+    order,
+  };
+}
+
+/**
+ * Cancels an open order.
+ *
+ * @param state - Current game state
+ * @param orderId - ID of the order to cancel
+ * @returns The new state without the order
+ * @throws OrderError if the order does not exist
+ */
+export function cancelOrder(state: GameState, orderId: string): GameState {
+  findOrder(state, orderId);
+  return {
+    ...state,
+    orders: (state.orders ?? []).filter(order => order.id !== orderId),
+  };
+}
+
+/**
+ * Largest quantity of an order that can trade now: every unit must be priced
+ * within the limit along the counterparty's curve, and the quantity is further
+ * limited by the seller's stock and the buyer's treasury (including transport).
+ */
+function fillableQuantity(
+  state: GameState,
+  order: LimitOrder,
+  town: Town,
+  counterparty: Town,
+  deps: OrderFillDeps,
+): number {
+  const transport = (qty: number) =>
+    deps.graph?.transportCost(order.townId, order.counterpartyId, qty) ?? 0;
+  const seller = order.side === 'buy' ? counterparty : town;
+  const maxQty = Math.min(order.quantity, seller.resources[order.goodId] ?? 0);
+  if (maxQty <= 0) {
+    return 0;
+  }
+
+  const { unitPrices } = deps.pricingService.quote(state, {
+    toTownId: order.counterpartyId,
+    goodId: order.goodId,
+    side: order.side,
+    quantity: maxQty,
+  });
+
+  let qty = 0;
+  let total = 0;
+  for (const unitPrice of unitPrices) {
+    const withinLimit =
+      order.side === 'buy' ? unitPrice <= order.limitPrice : unitPrice >= order.limitPrice;
+    const affordable =
+      order.side === 'buy'
+        ? total + unitPrice + transport(qty + 1) <= town.treasury
+        : total + unitPrice <= counterparty.treasury &&
+          town.treasury + total + unitPrice >= transport(qty + 1);
+    if (!withinLimit || !affordable) {
+      break;
+    }
+    total += unitPrice;
+    qty++;
+  }
+  return qty;
+}
+
+/**
+ * Checks every open order against current prices, in the order they were placed.
+ * An order trades when the counterparty's price is at or below its limit (buy) or
+ * at or above it (sell), through `performTrade`, for as many units as stay within
+ * the limit as the trade moves along the price curve and as stock and treasury allow.
+ * The limit travels with the trade as its price tolerance. Filled orders are removed,
+ * as are orders whose expiry turn has been reached; rejected trades leave the order open.
+ *
+ * @param state - Current game state (after price drift)
+ * @param deps - Pricing service, goods and optional town graph and shipping options
+ * @returns The new state and one report per order that was open
+ */
+export async function fillOrders(
+  state: GameState,
+  deps: OrderFillDeps,
+): Promise<{ state: GameState; fills: OrderFill[] }> {
+  const orders = state.orders ?? [];
+  if (orders.length === 0) {
+    return { state, fills: [] };
+  }
+
+  let currentState = state;
+  const open: LimitOrder[] = [];
+  const fills: OrderFill[] = [];
+
+  for (const order of orders) {
+    const report: OrderFill = { orderId: order.id, quantity: 0, remaining: order.quantity };
+    let remaining = order.quantity;
+
+    const town = currentState.towns.find(t => t.id === order.townId);
+    const counterparty = currentState.towns.find(t => t.id === order.counterpartyId);
+    const price = counterparty && sidePrice(counterparty, order.goodId, order.side, deps.spread);
+    const priceReached =
+      price !== undefined &&
+      (order.side === 'buy' ? price <= order.limitPrice : price >= order.limitPrice);
+
+    if (order.expiresTurn >= currentState.turn && town && counterparty && priceReached) {
+      const qty = fillableQuantity(currentState, order, town, counterparty, deps);
+      if (qty > 0) {
+        try {
+          const result = await performTrade(
+            currentState,
+            {
+              fromTownId: order.townId,
+              toTownId: order.counterpartyId,
+              goodId: order.goodId,
+              quantity: qty,
+              side: order.side,
+              ...(order.side === 'buy'
+                ? { maxPricePerUnit: order.limitPrice }
+                : { minPricePerUnit: order.limitPrice }),
+            },
+            deps.pricingService,
+            deps.goods,
+            deps.limits,
+            deps.graph,
+            deps.shipping,
+          );
+          currentState = result.state;
+          remaining -= qty;
+          report.quantity = qty;
+          report.unitPrice = result.unitPriceApplied;
+          if (result.transportCost > 0) {
+            report.transportCost = result.transportCost;
+          }
+          report.remaining = remaining;
+        } catch (error) {
+          report.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+    }
+
+    if (remaining === 0) {
+      report.closed = 'filled';
+    } else if (order.expiresTurn <= currentState.turn) {
+      report.closed = 'expired';
+    } else {
+      open.push(remaining === order.quantity ? order : { ...order, quantity: remaining });
+    }
+    fills.push(report);
+  }
+
+  return { state: { ...currentState, orders: open }, fills };
+}
@@ -0,0 +1,9 @@
+export {
+  amendOrder,
+  cancelOrder,
+  fillOrders,
+  OrderError,
+  placeOrder,
+  validateOrderRequest,
+} from './LimitOrders';
+export type { LimitOrderChanges, LimitOrderRequest, OrderFill, OrderFillDeps } from './LimitOrders';
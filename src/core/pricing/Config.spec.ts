@@ -16,25 +16,25 @@ describe('Config', () => {
       expect(result.ore).toBeDefined();
 
       // Validate fish configuration
-      expect(result.fish.basePrice).toBe(12);
-      expect(result.fish.targetStock).toBe(40);
-      expect(result.fish.elasticity).toBe(0.8);
-      expect(result.fish.minPrice).toBe(3);
-      expect(result.fish.maxPrice).toBe(60);
+      expect(result.fish!.basePrice).toBe(12);
+      expect(result.fish!.targetStock).toBe(40);
+      expect(result.fish!.elasticity).toBe(0.8);
+      expect(result.fish!.minPrice).toBe(3);
+      expect(result.fish!.maxPrice).toBe(60);
 
       // Validate wood configuration
-      expect(result.wood.basePrice).toBe(10);
-      expect(result.wood.targetStock).toBe(30);
-      expect(result.wood.elasticity).toBe(0.7);
-      expect(result.wood.minPrice).toBe(2);
-      expect(result.wood.maxPrice).toBe(50);
+      expect(result.wood!.basePrice).toBe(10);
+      expect(result.wood!.targetStock).toBe(30);
+      expect(result.wood!.elasticity).toBe(0.7);
+      expect(result.wood!.minPrice).toBe(2);
+      expect(result.wood!.maxPrice).toBe(50);
 
       // Validate ore configuration
-      expect(result.ore.basePrice).toBe(15);
-      expect(result.ore.targetStock).toBe(20);
-      expect(result.ore.elasticity).toBe(0.9);
-      expect(result.ore.minPrice).toBe(5);
-      expect(result.ore.maxPrice).toBe(80);
+      expect(result.ore!.basePrice).toBe(15);
+      expect(result.ore!.targetStock).toBe(20);
+      expect(result.ore!.elasticity).toBe(0.9);
+      expect(result.ore!.minPrice).toBe(5);
+      expect(result.ore!.maxPrice).toBe(80);
     });
 
     it('should apply default values for optional minPrice and maxPrice', () => {
@@ -43,12 +43,12 @@ describe('Config', () => {
       const result = loadPriceCurves();
 
       // All goods should have minPrice and maxPrice set
-      expect(result.fish.minPrice).toBeDefined();
-      expect(result.fish.maxPrice).toBeDefined();
-      expect(result.wood.minPrice).toBeDefined();
-      expect(result.wood.maxPrice).toBeDefined();
-      expect(result.ore.minPrice).toBeDefined();
-      expect(result.ore.maxPrice).toBeDefined();
+      expect(result.fish!.minPrice).toBeDefined();
+      expect(result.fish!.maxPrice).toBeDefined();
+      expect(result.wood!.minPrice).toBeDefined();
+      expect(result.wood!.maxPrice).toBeDefined();
+      expect(result.ore!.minPrice).toBeDefined();
+      expect(result.ore!.maxPrice).toBeDefined();
     });
 
     it('should validate that basePrice is within minPrice and maxPrice bounds', () => {
@@ -81,6 +81,138 @@ describe('Config', () => {
     });
   });
 
+  describe('custom goods catalog', () => {
+    const curve = { basePrice: 10, targetStock: 20, elasticity: 0.8 };
+
+    it('should load curves for every good in the given catalog', () => {
+      const result = loadPriceCurves(['fish', 'cloth'], { fish: curve, cloth: curve });
+
+      expect(Object.keys(result)).toEqual(['fish', 'cloth']);
+      expect(result.cloth).toEqual({ kind: 'logRatio', ...curve });
+    });
+
+    it('should reject a catalog good without a curve', () => {
+      expect(() => loadPriceCurves(['fish', 'cloth'], { fish: curve })).toThrow(
+        'Missing or invalid configuration for good: cloth',
+      );
+    });
+
+    it('should reject curves for goods outside the catalog', () => {
+      try {
+        loadPriceCurves(['fish'], { fish: curve, tools: curve });
+        expect.fail('Expected loadPriceCurves to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PriceCurveConfigError);
+        expect((error as PriceCurveConfigError).path).toBe('tools');
+      }
+    });
+  });
+
+  describe('curve families', () => {
+    const curve = { basePrice: 10, targetStock: 20, elasticity: 0.8, minPrice: 2, maxPrice: 50 };
+    const pathOf = (data: unknown): string | undefined => {
+      try {
+        loadPriceCurves(['fish'], data);
+      } catch (error) {
+        return (error as PriceCurveConfigError).path;
+      }
+      return undefined;
+    };
+
+    it('should load each curve family', () => {
+      const breakpoints = [
+        { stock: 0, price: 40 },
+        { stock: 30, price: 5 },
+      ];
+
+      expect(loadPriceCurves(['fish'], { fish: { ...curve, kind: 'logistic' } }).fish!.kind).toBe(
+        'logistic',
+      );
+      expect(
+        loadPriceCurves(['fish'], {
+          fish: { basePrice: 10, targetStock: 20, kind: 'piecewise', breakpoints },
+        }).fish,
+      ).toEqual({
+        kind: 'piecewise',
+        basePrice: 10,
+        targetStock: 20,
+        elasticity: 0,
+        breakpoints,
+      });
+    });
+
+    it('should reject unknown kinds', () => {
+      expect(pathOf({ fish: { ...curve, kind: 'cubic' } })).toBe('fish.kind');
+    });
+
+    it('should reject logistic curves with basePrice on a bound', () => {
+      expect(pathOf({ fish: { ...curve, kind: 'logistic', basePrice: 2 } })).toBe('fish.basePrice');
+    });
+
+    it('should reject bad piecewise breakpoints with the path of the point', () => {
+      const piecewise = { ...curve, kind: 'piecewise' };
+
+      expect(pathOf({ fish: piecewise })).toBe('fish.breakpoints');
+      expect(pathOf({ fish: { ...piecewise, breakpoints: [{ stock: 0, price: 20 }] } })).toBe(
+        'fish.breakpoints',
+      );
+      expect(
+        pathOf({
+          fish: {
+            ...piecewise,
+            breakpoints: [
+              { stock: 10, price: 20 },
+              { stock: 10, price: 15 },
+            ],
+          },
+        }),
+      ).toBe('fish.breakpoints[1].stock');
+      expect(
+        pathOf({
+          fish: {
+            ...piecewise,
+            breakpoints: [
+              { stock: 0, price: 80 },
+              { stock: 10, price: 15 },
+            ],
+          },
+        }),
+      ).toBe('fish.breakpoints[0].price');
+    });
+
+    it('should reject breakpoints on other kinds', () => {
+      expect(pathOf({ fish: { ...curve, breakpoints: [] } })).toBe('fish.breakpoints');
+    });
+  });
+
+  describe('per-town overrides', () => {
+    const curve = { basePrice: 10, targetStock: 20, elasticity: 0.8, minPrice: 2, maxPrice: 50 };
+    const pathOf = (towns: unknown): string | undefined => {
+      try {
+        loadPriceCurves(['fish'], { fish: { ...curve, towns } });
+      } catch (error) {
+        return (error as PriceCurveConfigError).path;
+      }
+      return undefined;
+    };
+
+    it('should load overrides keyed by town', () => {
+      const towns = { ironforge: { targetStock: 60, basePrice: 20 } };
+
+      expect(loadPriceCurves(['fish'], { fish: { ...curve, towns } }).fish!.towns).toEqual(towns);
+    });
+
+    it('should reject fields that cannot be overridden', () => {
+      expect(pathOf({ ironforge: { minPrice: 1 } })).toBe('fish.towns.ironforge.minPrice');
+    });
+
+    it('should reject invalid values and base prices outside the bounds', () => {
+      expect(pathOf({ ironforge: { elasticity: -1 } })).toBe('fish.towns.ironforge.elasticity');
+      expect(pathOf({ ironforge: { basePrice: 60 } })).toBe('fish.towns.ironforge.basePrice');
+      expect(pathOf([])).toBe('fish.towns');
+    });
+  });
+
   describe('validation edge cases', () => {
     it('should handle all required goods being present', () => {
       const result = loadPriceCurves();
@@ -88,9 +220,9 @@ describe('Config', () => {
 
       for (const good of expectedGoods) {
         expect(result[good]).toBeDefined();
-        expect(result[good].basePrice).toBeGreaterThan(0);
-        expect(result[good].targetStock).toBeGreaterThan(0);
-        expect(result[good].elasticity).toBeGreaterThan(0);
+        expect(result[good]!.basePrice).toBeGreaterThan(0);
+        expect(result[good]!.targetStock).toBeGreaterThan(0);
+        expect(result[good]!.elasticity).toBeGreaterThan(0);
       }
     });
 
@@ -1,7 +1,14 @@
 import priceCurvesData from '../../data/priceCurves.json';
 import type { GoodId } from '../../types/Goods';
+import { loadGoodsRegistry } from '../goods/GoodsRegistry';
 
-import type { PriceCurveConfig } from './PriceCurve';
+import { PRICE_CURVE_KINDS } from './PriceCurve';
+import type {
+  PriceBreakpoint,
+  PriceCurveConfig,
+  PriceCurveKind,
+  PriceCurveOverride,
+} from './PriceCurve';
 
 export type PriceCurveTable = Record<GoodId, PriceCurveConfig>;
 
@@ -35,18 +42,139 @@ function isValidOptionalNumber(value: unknown, path: string, defaultValue: numbe
   return isValidNumber(value, path);
 }
 
+/**
+ * Validates a curve family name, defaulting to 'logRatio'
+ */
+function isValidKind(value: unknown, path: string): PriceCurveKind {
+  if (value === undefined) {
+    return 'logRatio';
+  }
+  if (!PRICE_CURVE_KINDS.includes(value as PriceCurveKind)) {
+    throw new PriceCurveConfigError(
+      path,
+      `Expected one of ${PRICE_CURVE_KINDS.join(', ')}, got ${String(value)}`,
+    );
+  }
+  return value as PriceCurveKind;
+}
+
+/**
+ * Validates piecewise breakpoints: at least two, in strictly increasing stock
+ * order, with prices inside the curve's bounds
+ */
+function isValidBreakpoints(
+  value: unknown,
+  path: string,
+  minPrice: number,
+  maxPrice: number,
+): PriceBreakpoint[] {
+  if (!Array.isArray(value) || value.length < 2) {
+    throw new PriceCurveConfigError(path, 'Expected an array of at least two breakpoints');
+  }
+  return value.map((entry: unknown, i) => {
+    const point = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const stock = isValidNumber(point.stock, `${path}[${i}].stock`);
+    const price = isValidNumber(point.price, `${path}[${i}].price`);
+    const previous = value[i - 1] as PriceBreakpoint | undefined;
+    if (previous && stock <= previous.stock) {
+      throw new PriceCurveConfigError(
+        `${path}[${i}].stock`,
+        `Breakpoint stock (${stock}) must be greater than the previous one (${previous.stock})`,
+      );
+    }
+    if (price < minPrice || price > maxPrice) {
+      throw new PriceCurveConfigError(
+        `${path}[${i}].price`,
+        `Breakpoint price (${price}) must be between minPrice (${minPrice}) and maxPrice (${maxPrice})`,
+      );
+    }
+    return { stock, price };
+  });
+}
+
+const OVERRIDE_FIELDS = ['basePrice', 'targetStock', 'elasticity'] as const;
+
+/**
+ * Validates per-town curve overrides. Overridden base prices must stay within the
+ * curve's bounds, strictly so for logistic curves.
+ */
+function isValidTownOverrides(
+  value: unknown,
+  path: string,
+  kind: PriceCurveKind,
+  minPrice: number,
+  maxPrice: number,
+): Record<string, PriceCurveOverride> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new PriceCurveConfigError(path, 'Expected object keyed by town ID');
+  }
+
+  const result: Record<string, PriceCurveOverride> = {};
+  for (const [townId, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new PriceCurveConfigError(`${path}.${townId}`, 'Expected object of curve overrides');
+    }
+
+    const override: PriceCurveOverride = {};
+    for (const [field, fieldValue] of Object.entries(entry as Record<string, unknown>)) {
+      if (!(OVERRIDE_FIELDS as readonly string[]).includes(field)) {
+        throw new PriceCurveConfigError(
+          `${path}.${townId}.${field}`,
+          `Only ${OVERRIDE_FIELDS.join(', ')} can be overridden per town`,
+        );
+      }
+      override[field as keyof PriceCurveOverride] = isValidNumber(
+        fieldValue,
+        `${path}.${townId}.${field}`,
+      );
+    }
+
+    const { basePrice } = override;
+    if (
+      basePrice !== undefined &&
+      (kind === 'logistic'
+        ? basePrice <= minPrice || basePrice >= maxPrice
+        : basePrice < minPrice || basePrice > maxPrice)
+    ) {
+      throw new PriceCurveConfigError(
+        `${path}.${townId}.basePrice`,
+        `basePrice (${basePrice}) must be between minPrice (${minPrice}) and maxPrice (${maxPrice})`,
+      );
+    }
+
+    result[townId] = override;
+  }
+  return result;
+}
+
 /**
  * Loads and validates price curves configuration from JSON
+ * @param goodIds - Goods that must have a curve (defaults to the goods registry)
+ * @param data - Raw price curve table (defaults to priceCurves.json)
  * @throws {PriceCurveConfigError} When validation fails
  */
-export function loadPriceCurves(): PriceCurveTable {
-  const result: PriceCurveTable = {} as PriceCurveTable;
+export function loadPriceCurves(
+  goodIds: readonly GoodId[] = loadGoodsRegistry().ids,
+  data: unknown = priceCurvesData,
+): PriceCurveTable {
+  const result: PriceCurveTable = {};
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new PriceCurveConfigError('root', 'Expected object keyed by good ID');
+  }
 
-  // Validate that all required goods are present
-  const requiredGoods: GoodId[] = ['fish', 'wood', 'ore'];
+  const table = data as Record<string, Record<string, unknown> | undefined>;
 
-  for (const goodId of requiredGoods) {
-    const goodData = priceCurvesData[goodId as keyof typeof priceCurvesData];
+  // Reject curves for goods that are not in the catalog
+  for (const key of Object.keys(table)) {
+    if (!goodIds.includes(key)) {
+      throw new PriceCurveConfigError(key, `Unknown good: ${key}`);
+    }
+  }
+
+  // Validate that all required goods are present
+  for (const goodId of goodIds) {
+    const goodData = table[goodId];
 
     if (!goodData || typeof goodData !== 'object') {
       throw new PriceCurveConfigError(
@@ -55,12 +183,17 @@ export function loadPriceCurves(): PriceCurveTable {
       );
     }
 
-    // Validate required fields
+    // Validate required fields; piecewise curves take their shape from breakpoints instead
+    const kind = isValidKind(goodData.kind, `${goodId}.kind`);
     const basePrice = isValidNumber(goodData.basePrice, `${goodId}.basePrice`);
     const targetStock = isValidNumber(goodData.targetStock, `${goodId}.targetStock`);
-    const elasticity = isValidNumber(goodData.elasticity, `${goodId}.elasticity`);
+    const elasticity =
+      kind === 'piecewise'
+        ? isValidOptionalNumber(goodData.elasticity, `${goodId}.elasticity`, 0)
+        : isValidNumber(goodData.elasticity, `${goodId}.elasticity`);
 
-    // Validate optional fields with defaults
+    // Validate optional fields; unset bounds are checked against the curve math's
+    // defaults but left unset, so in a turn they follow the game limits
     const minPrice = isValidOptionalNumber(goodData.minPrice, `${goodId}.minPrice`, 1);
     const maxPrice = isValidOptionalNumber(goodData.maxPrice, `${goodId}.maxPrice`, 9999);
 
@@ -80,12 +213,39 @@ export function loadPriceCurves(): PriceCurveTable {
       );
     }
 
+    // A logistic curve needs room on both sides of basePrice to pass through it
+    if (kind === 'logistic' && (basePrice <= minPrice || basePrice >= maxPrice)) {
+      throw new PriceCurveConfigError(
+        `${goodId}.basePrice`,
+        `basePrice (${basePrice}) of a logistic curve must be strictly between minPrice (${minPrice}) and maxPrice (${maxPrice})`,
+      );
+    }
+
+    if (kind !== 'piecewise' && goodData.breakpoints !== undefined) {
+      throw new PriceCurveConfigError(
+        `${goodId}.breakpoints`,
+        `breakpoints are only used by piecewise curves, not ${kind}`,
+      );
+    }
+
     result[goodId] = {
+      kind,
       basePrice,
       targetStock,
       elasticity,
-      minPrice,
-      maxPrice,
+      ...(goodData.minPrice !== undefined && { minPrice }),
+      ...(goodData.maxPrice !== undefined && { maxPrice }),
+      ...(kind === 'piecewise' && {
+        breakpoints: isValidBreakpoints(
+          goodData.breakpoints,
+          `${goodId}.breakpoints`,
+          minPrice,
+          maxPrice,
+        ),
+      }),
+      ...(goodData.towns !== undefined && {
+        towns: isValidTownOverrides(goodData.towns, `${goodId}.towns`, kind, minPrice, maxPrice),
+      }),
     };
   }
 
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+
+import type { ClampEvent, ClampSite, TradeLimits } from '../trade/TradeLimits';
+
+import { boundCurveConfig, curveClampReporter, limitCurvePrice } from './CurveBounds';
+import { createLogRatioPriceMath } from './Curves';
+import type { PriceCurveConfig } from './PriceCurve';
+
+describe('CurveBounds', () => {
+  const curve: PriceCurveConfig = { basePrice: 10, targetStock: 20, elasticity: 1 };
+  const at: ClampSite = { source: 'drift', townId: 'town-a', goodId: 'fish' };
+
+  const withLog = (limits: TradeLimits) => {
+    const clamps: ClampEvent[] = [];
+    return { clamps, limits: { ...limits, onClamp: (event: ClampEvent) => clamps.push(event) } };
+  };
+
+  describe('boundCurveConfig', () => {
+    it('takes unset bounds from the game limits', () => {
+      expect(boundCurveConfig(curve, { minPrice: 0, maxPrice: 20_000 })).toEqual({
+        ...curve,
+        minPrice: 0,
+        maxPrice: 20_000,
+      });
+    });
+
+    it("keeps the curve's own bounds", () => {
+      const bounded = { ...curve, minPrice: 2, maxPrice: 50 };
+
+      expect(boundCurveConfig(bounded, { minPrice: 0, maxPrice: 20_000 })).toBe(bounded);
+      expect(boundCurveConfig(curve)).toBe(curve);
+    });
+
+    it('lets prices above the default ceiling through when the rules allow them', () => {
+      const math = createLogRatioPriceMath();
+      const scarce = { stock: 1, price: 10 };
+      const steep = { ...curve, basePrice: 5000 };
+
+      expect(math.nextPrice(scarce, steep)).toBe(9999);
+      expect(math.nextPrice(scarce, boundCurveConfig(steep, { maxPrice: 200_000 }))).toBe(100_000);
+    });
+  });
+
+  describe('curveClampReporter', () => {
+    it("reports the curve math's clamps as price clamps at the site", () => {
+      const { clamps, limits } = withLog({});
+      const math = createLogRatioPriceMath();
+
+      math.nextPrice(
+        { stock: 1, price: 10 },
+        { ...curve, maxPrice: 50 },
+        curveClampReporter(limits, at),
+      );
+
+      expect(clamps).toEqual([{ ...at, field: 'price', value: 200, clamped: 50 }]);
+    });
+
+    it('is undefined without an observer', () => {
+      expect(curveClampReporter({ maxPrice: 50 }, at)).toBeUndefined();
+      expect(curveClampReporter(undefined, at)).toBeUndefined();
+    });
+  });
+
+  describe('limitCurvePrice', () => {
+    it("clamps to the curve's bounds, then to the rules, reporting both", () => {
+      const { clamps, limits } = withLog({ maxPrice: 40 });
+
+      expect(limitCurvePrice(70, { ...curve, maxPrice: 60 }, limits, at)).toBe(40);
+      expect(clamps.map(event => [event.value, event.clamped])).toEqual([
+        [70, 60],
+        [60, 40],
+      ]);
+    });
+
+    it('leaves prices within both bounds alone', () => {
+      const { clamps, limits } = withLog({ maxPrice: 100 });
+
+      expect(limitCurvePrice(30, { ...curve, minPrice: 2, maxPrice: 60 }, limits, at)).toBe(30);
+      expect(clamps).toEqual([]);
+    });
+
+    it('falls back to the default curve bounds without limits', () => {
+      expect(limitCurvePrice(0, curve, undefined, at)).toBe(1);
+      expect(limitCurvePrice(12_000, curve, undefined, at)).toBe(9999);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { limitPrice } from '../trade/TradeLimits';
+import type { ClampSite, TradeLimits } from '../trade/TradeLimits';
+
+import type { CurveClampReporter, PriceCurveConfig } from './PriceCurve';
+
+/**
+ * Fills in the price bounds a curve leaves unset from the game limits, so a curve
+ * without its own bounds follows the rules instead of the curve math's defaults.
+ *
+ * @param cfg - The town's price curve config
+ * @param limits - Optional game limits
+ * @returns The curve with both bounds set where the limits provide them
+ */
+export function boundCurveConfig(cfg: PriceCurveConfig, limits?: TradeLimits): PriceCurveConfig {
+  const minPrice = cfg.minPrice ?? limits?.minPrice;
+  const maxPrice = cfg.maxPrice ?? limits?.maxPrice;
+  if (minPrice === cfg.minPrice && maxPrice === cfg.maxPrice) {
+    return cfg;
+  }
+  return {
+    ...cfg,
+    ...(minPrice !== undefined && { minPrice }),
+    ...(maxPrice !== undefined && { maxPrice }),
+  };
+}
+
+/**
+ * Creates a reporter that passes the curve math's clamps on to `limits.onClamp`.
+ *
+ * @param limits - Optional game limits
+ * @param at - Site of the priced value
+ * @returns A reporter for `PriceMath.nextPrice`, or undefined if nobody listens
+ */
+export function curveClampReporter(
+  limits: TradeLimits | undefined,
+  at: ClampSite,
+): CurveClampReporter | undefined {
+  const onClamp = limits?.onClamp;
+  return onClamp && ((value, clamped) => onClamp({ ...at, field: 'price', value, clamped }));
+}
+
+/**
+ * Clamps an adjusted price to its curve's bounds, then to the game limits. Both
+ * clamps are reported to `limits.onClamp`.
+ *
+ * @param price - Price after smoothing and multipliers
+ * @param cfg - The town's curve, e.g. from `boundCurveConfig`
+ * @param limits - Optional game limits
+ * @param at - Site of the priced value
+ * @returns The bounded price
+ */
+export function limitCurvePrice(
+  price: number,
+  cfg: PriceCurveConfig,
+  limits: TradeLimits | undefined,
+  at: ClampSite,
+): number {
+  const curveLimits: TradeLimits = {
+    minPrice: cfg.minPrice ?? 1,
+    maxPrice: cfg.maxPrice ?? 9999,
+    ...(limits?.onClamp && { onClamp: limits.onClamp }),
+  };
+  const bounded = limitPrice(price, curveLimits, at);
+  return limits ? limitPrice(bounded, limits, at) : bounded;
+}
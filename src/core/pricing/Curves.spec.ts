@@ -1,6 +1,12 @@
 import { describe, it, expect } from 'vitest';
 
-import { createLogRatioPriceMath } from './Curves';
+import {
+  createCurvePriceMath,
+  createLinearPriceMath,
+  createLogisticPriceMath,
+  createLogRatioPriceMath,
+  createPiecewisePriceMath,
+} from './Curves';
 import type { PriceCurveConfig, TownPriceState } from './PriceCurve';
 
 describe('createLogRatioPriceMath', () => {
@@ -219,3 +225,93 @@ describe('createLogRatioPriceMath', () => {
     });
   });
 });
+
+describe('curve families', () => {
+  const config: PriceCurveConfig = {
+    basePrice: 20,
+    targetStock: 40,
+    elasticity: 0.5,
+    minPrice: 4,
+    maxPrice: 100,
+  };
+  const at = (stock: number): TownPriceState => ({ stock, price: 20 });
+
+  describe('createLinearPriceMath', () => {
+    const math = createLinearPriceMath();
+
+    it('should move the price by the same amount for each unit of stock', () => {
+      expect(math.nextPrice(at(40), config)).toBe(20);
+      expect(math.nextPrice(at(20), config)).toBe(25);
+      expect(math.nextPrice(at(60), config)).toBe(15);
+      expect(math.nextPrice(at(0), config)).toBe(30);
+    });
+
+    it('should reach the floor at a finite stock', () => {
+      expect(math.nextPrice(at(200), config)).toBe(4);
+    });
+  });
+
+  describe('createLogisticPriceMath', () => {
+    const math = createLogisticPriceMath();
+
+    it('should pass through basePrice at target', () => {
+      expect(math.nextPrice(at(40), config)).toBe(20);
+    });
+
+    it('should flatten out towards the bounds', () => {
+      const prices = [0, 40, 80, 120, 160].map(stock => math.nextPrice(at(stock), config));
+
+      expect(prices).toEqual([...prices].sort((a, b) => b - a));
+      expect(prices[3]! - prices[4]!).toBeLessThan(prices[1]! - prices[2]!);
+      expect(math.nextPrice(at(1000), { ...config, elasticity: 2 })).toBe(4);
+    });
+  });
+
+  describe('createPiecewisePriceMath', () => {
+    const math = createPiecewisePriceMath();
+    const piecewise: PriceCurveConfig = {
+      ...config,
+      kind: 'piecewise',
+      breakpoints: [
+        { stock: 10, price: 90 },
+        { stock: 30, price: 30 },
+        { stock: 50, price: 10 },
+      ],
+    };
+
+    it('should interpolate between breakpoints', () => {
+      expect(math.nextPrice(at(10), piecewise)).toBe(90);
+      expect(math.nextPrice(at(20), piecewise)).toBe(60);
+      expect(math.nextPrice(at(30), piecewise)).toBe(30);
+      expect(math.nextPrice(at(45), piecewise)).toBe(15);
+    });
+
+    it('should hold the end prices beyond the first and last breakpoints', () => {
+      expect(math.nextPrice(at(0), piecewise)).toBe(90);
+      expect(math.nextPrice(at(500), piecewise)).toBe(10);
+    });
+
+    it('should throw without breakpoints', () => {
+      expect(() => math.nextPrice(at(10), config)).toThrow('at least one breakpoint');
+    });
+  });
+
+  describe('createCurvePriceMath', () => {
+    it("should follow each config's kind, defaulting to logRatio", () => {
+      const math = createCurvePriceMath();
+      const state = at(20);
+
+      expect(math.nextPrice(state, config)).toBe(
+        createLogRatioPriceMath().nextPrice(state, config),
+      );
+      expect(math.nextPrice(state, { ...config, kind: 'linear' })).toBe(25);
+    });
+
+    it('should use overriding implementations', () => {
+      const math = createCurvePriceMath({ linear: { nextPrice: () => 42 } });
+
+      expect(math.nextPrice(at(20), { ...config, kind: 'linear' })).toBe(42);
+      expect(math.nextPrice(at(40), { ...config, kind: 'logistic' })).toBe(20);
+    });
+  });
+});
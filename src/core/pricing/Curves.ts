@@ -1,4 +1,30 @@
-import type { PriceCurveConfig, PriceMath, TownPriceState } from './PriceCurve';
+import type {
+  CurveClampReporter,
+  PriceCurveConfig,
+  PriceCurveKind,
+  PriceMath,
+  TownPriceState,
+} from './PriceCurve';
+
+// Rounds a curve price to an integer within the config's bounds, reporting a clamp
+function roundAndClamp(
+  price: number,
+  cfg: PriceCurveConfig,
+  onClamp: CurveClampReporter | undefined,
+): number {
+  const { minPrice = 1, maxPrice = 9999 } = cfg;
+  const rounded = Math.round(price);
+  const clamped = Math.max(minPrice, Math.min(maxPrice, rounded));
+  if (clamped !== rounded) {
+    onClamp?.(rounded, clamped);
+  }
+  return clamped;
+}
+
+// Stock as a fraction of target, with the target clamped to 1 like the log-ratio stock
+function stockRatio(state: TownPriceState, cfg: PriceCurveConfig): number {
+  return Math.max(0, state.stock) / Math.max(1, cfg.targetStock);
+}
 
 /**
  * Creates a log-ratio price math implementation.
@@ -17,8 +43,8 @@ import type { PriceCurveConfig, PriceMath, TownPriceState } from './PriceCurve';
  */
 export function createLogRatioPriceMath(): PriceMath {
   return {
-    nextPrice(state: TownPriceState, cfg: PriceCurveConfig): number {
-      const { basePrice, targetStock, elasticity, minPrice = 1, maxPrice = 9999 } = cfg;
+    nextPrice(state: TownPriceState, cfg: PriceCurveConfig, onClamp?: CurveClampReporter): number {
+      const { basePrice, targetStock, elasticity } = cfg;
 
       // Clamp stock to minimum of 1 to avoid division by zero and negative logarithms
       const stockClamped = Math.max(1, state.stock);
@@ -35,13 +61,117 @@ export function createLogRatioPriceMath(): PriceMath {
       // Calculate base price with exponential adjustment
       const adjustedPrice = basePrice * expFactor;
 
-      // Round to nearest integer
-      const roundedPrice = Math.round(adjustedPrice);
+      // Round to nearest integer and clamp between min and max prices
+      return roundAndClamp(adjustedPrice, cfg, onClamp);
+    },
+  };
+}
+
+/**
+ * Creates a linear price math implementation.
+ *
+ * p_next = clamp( round(base * (1 - k * (stock/target - 1))), minPrice, maxPrice )
+ *
+ * The price falls by the same amount for every unit of stock, so it reaches the
+ * bounds at finite stock levels instead of approaching them. Its slope at target
+ * matches the log-ratio curve with the same elasticity.
+ *
+ * @returns A PriceMath implementation using linear curves
+ */
+export function createLinearPriceMath(): PriceMath {
+  return {
+    nextPrice(state: TownPriceState, cfg: PriceCurveConfig, onClamp?: CurveClampReporter): number {
+      return roundAndClamp(
+        cfg.basePrice * (1 - cfg.elasticity * (stockRatio(state, cfg) - 1)),
+        cfg,
+        onClamp,
+      );
+    },
+  };
+}
+
+/**
+ * Creates a logistic price math implementation.
+ *
+ * An S-curve running from maxPrice at no stock down to minPrice at plenty, passing
+ * through basePrice at target:
+ * p_next = round( min + (max - min) / (1 + odds * exp(4k * (stock/target - 1))) )
+ * where odds = (max - base) / (base - min) and k = elasticity
+ *
+ * Prices barely move near the bounds and move fastest around target, which suits
+ * goods whose buyers only react once supply is clearly short or plentiful.
+ * Needs minPrice < basePrice < maxPrice.
+ *
+ * @returns A PriceMath implementation using logistic curves
+ */
+export function createLogisticPriceMath(): PriceMath {
+  return {
+    nextPrice(state: TownPriceState, cfg: PriceCurveConfig, onClamp?: CurveClampReporter): number {
+      const { basePrice, elasticity, minPrice = 1, maxPrice = 9999 } = cfg;
+      const odds = (maxPrice - basePrice) / (basePrice - minPrice);
+      // 4k makes the slope at target k for a curve centred between the bounds
+      const curve = 1 + odds * Math.exp(4 * elasticity * (stockRatio(state, cfg) - 1));
+      return roundAndClamp(minPrice + (maxPrice - minPrice) / curve, cfg, onClamp);
+    },
+  };
+}
+
+/**
+ * Creates a piecewise price math implementation.
+ *
+ * Interpolates linearly between the config's stock→price breakpoints, holding the
+ * first and last prices beyond either end. Ignores basePrice and elasticity.
+ *
+ * @returns A PriceMath implementation using piecewise curves
+ * @throws {Error} If the config has no breakpoints
+ */
+export function createPiecewisePriceMath(): PriceMath {
+  return {
+    nextPrice(state: TownPriceState, cfg: PriceCurveConfig, onClamp?: CurveClampReporter): number {
+      const points = cfg.breakpoints ?? [];
+      const first = points[0];
+      if (!first) {
+        throw new Error('Piecewise price curve needs at least one breakpoint');
+      }
+      // Find the segment the stock falls in; beyond either end the end price holds
+      const upper = points.findIndex(point => point.stock > state.stock);
+      if (upper === 0) {
+        return roundAndClamp(first.price, cfg, onClamp);
+      }
+      const low = points[(upper === -1 ? points.length : upper) - 1]!;
+      const high = points[upper];
+      const price = high
+        ? low.price +
+          ((high.price - low.price) * (state.stock - low.stock)) / (high.stock - low.stock)
+        : low.price;
+      return roundAndClamp(price, cfg, onClamp);
+    },
+  };
+}
 
-      // Clamp between min and max prices
-      const clampedPrice = Math.max(minPrice, Math.min(maxPrice, roundedPrice));
+/**
+ * Price math for each curve family.
+ */
+export const PRICE_MATH_REGISTRY: Readonly<Record<PriceCurveKind, PriceMath>> = {
+  logRatio: createLogRatioPriceMath(),
+  linear: createLinearPriceMath(),
+  logistic: createLogisticPriceMath(),
+  piecewise: createPiecewisePriceMath(),
+};
 
-      return clampedPrice;
+/**
+ * Creates price math that follows each config's own curve family.
+ *
+ * @param overrides - Optional implementations replacing registry entries
+ * @returns A PriceMath implementation dispatching on `cfg.kind` (default 'logRatio')
+ */
+export function createCurvePriceMath(
+  overrides: Partial<Record<PriceCurveKind, PriceMath>> = {},
+): PriceMath {
+  const registry = { ...PRICE_MATH_REGISTRY, ...overrides };
+  return {
+    nextPrice(state: TownPriceState, cfg: PriceCurveConfig, onClamp?: CurveClampReporter): number {
+      return registry[cfg.kind ?? 'logRatio'].nextPrice(state, cfg, onClamp);
     },
   };
 }
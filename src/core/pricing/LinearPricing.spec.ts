@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import type { ClampEvent } from '../trade/TradeLimits';
+import type { ValidatedTrade } from '../trade/TradeValidator';
+
+import { createLinearPricing } from './LinearPricing';
+import type { PriceChangeTrace } from './Telemetry';
+
+describe('createLinearPricing', () => {
+  const state: GameState = {
+    turn: 1,
+    version: 1,
+    rngSeed: 'linear',
+    goods: {
+      fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+    },
+    towns: [
+      {
+        id: 'town-a',
+        name: 'Town A',
+        resources: { fish: 40 },
+        prices: { fish: 10 },
+        militaryRaw: 0,
+        prosperityRaw: 0,
+        treasury: 1000,
+        revealed: { militaryTier: 'militia', prosperityTier: 'modest', lastUpdatedTurn: 0 },
+      },
+      {
+        id: 'town-b',
+        name: 'Town B',
+        resources: { fish: 60 },
+        prices: { fish: 20 },
+        militaryRaw: 0,
+        prosperityRaw: 0,
+        treasury: 1000,
+        revealed: { militaryTier: 'militia', prosperityTier: 'modest', lastUpdatedTurn: 0 },
+      },
+    ],
+  };
+
+  // Town A sells 5 fish to town B
+  const sale: ValidatedTrade = {
+    from: state.towns[0]!,
+    to: state.towns[1]!,
+    goodId: 'fish',
+    qty: 5,
+    unitPrice: 20,
+    side: 'sell',
+  };
+
+  describe('quote', () => {
+    it('prices every unit at the town price', () => {
+      const quote = createLinearPricing().quote(state, {
+        toTownId: 'town-b',
+        goodId: 'fish',
+        side: 'buy',
+        quantity: 3,
+      });
+
+      expect(quote).toEqual({ unitPrices: [20, 20, 20], totalCost: 60, averagePrice: 20 });
+    });
+
+    it('quotes the ask and bid with a spread', () => {
+      const pricing = createLinearPricing({ spread: { margin: 0.1 } });
+      const request = { toTownId: 'town-b', goodId: 'fish', quantity: 1 } as const;
+
+      expect(pricing.quote(state, { ...request, side: 'buy' }).averagePrice).toBe(22);
+      expect(pricing.quote(state, { ...request, side: 'sell' }).averagePrice).toBe(18);
+    });
+
+    it('throws for unknown towns', () => {
+      expect(() =>
+        createLinearPricing().quote(state, {
+          toTownId: 'nowhere',
+          goodId: 'fish',
+          side: 'buy',
+          quantity: 1,
+        }),
+      ).toThrow("Town with ID 'nowhere' not found");
+    });
+  });
+
+  describe('afterTrade', () => {
+    it('steps the seller up and the buyer down, reporting both', () => {
+      const traces: PriceChangeTrace[] = [];
+      const pricing = createLinearPricing({ baseStep: 2, onTrace: trace => traces.push(trace) });
+
+      const result = pricing.afterTrade(state, sale);
+
+      expect(result.towns.map(town => town.prices.fish)).toEqual([12, 18]);
+      expect(traces.map(t => [t.townId, t.oldPrice, t.final, t.cause])).toEqual([
+        ['town-a', 10, 12, 'post-trade'],
+        ['town-b', 20, 18, 'post-trade'],
+      ]);
+    });
+
+    it('clamps to the game limits and reports each clamp', () => {
+      const clamps: ClampEvent[] = [];
+      const pricing = createLinearPricing({
+        limits: { maxPrice: 10, onClamp: event => clamps.push(event) },
+      });
+
+      const result = pricing.afterTrade(state, sale);
+
+      expect(result.towns.map(town => town.prices.fish)).toEqual([10, 10]);
+      expect(clamps.map(event => [event.townId, event.value, event.clamped])).toEqual([
+        ['town-a', 11, 10],
+        ['town-b', 19, 10],
+      ]);
+    });
+    it("reports clamps at the strategy's own bounds", () => {
+      const clamps: ClampEvent[] = [];
+      const pricing = createLinearPricing({
+        max: 15,
+        limits: { maxPrice: 9999, onClamp: event => clamps.push(event) },
+      });
+
+      const result = pricing.afterTrade(
+        { ...state, towns: state.towns.map(town => ({ ...town, prices: { fish: 15 } })) },
+        sale,
+      );
+
+      expect(result.towns.map(town => town.prices.fish)).toEqual([15, 14]);
+      expect(clamps).toEqual([
+        expect.objectContaining({ townId: 'town-a', field: 'price', value: 16, clamped: 15 }),
+      ]);
+    });
+
+    it("takes unset bounds from the game limits rather than the model's defaults", () => {
+      const pricing = createLinearPricing({ limits: { maxPrice: 9999 } });
+
+      const result = pricing.afterTrade(
+        { ...state, towns: state.towns.map(town => ({ ...town, prices: { fish: 500 } })) },
+        sale,
+      );
+
+      expect(result.towns.map(town => town.prices.fish)).toEqual([501, 499]);
+    });
+  });
+
+  describe('perTurn', () => {
+    it('leaves prices alone between turns', () => {
+      expect(createLinearPricing().perTurn(state)).toBe(state);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { GameState } from '../../types/GameState';
+import { applyPostTradePricing } from '../trade/PriceAdjustment';
+import { createSimpleLinearPriceModel } from '../trade/PriceModel';
+import type { SimpleLinearPriceModelOptions } from '../trade/PriceModel';
+import { limitPrice } from '../trade/TradeLimits';
+import type { ClampSite, TradeLimits } from '../trade/TradeLimits';
+import type { ValidatedTrade } from '../trade/TradeValidator';
+
+import type { PricingOptions, PricingStrategy } from './PricingStrategy';
+import type { QuoteRequest, TradeQuote } from './Slippage';
+import { sidePrice } from './Spread';
+import { writeTownPrice } from './TownPriceIO';
+
+/**
+ * Options for the linear pricing strategy: the step and bounds of its price model.
+ */
+export type LinearPricingOptions = Omit<SimpleLinearPriceModelOptions, 'limits'>;
+
+/**
+ * Creates a pricing strategy on the simple linear price model, for simplified modes
+ * and tests that want prices that are easy to predict.
+ *
+ * - Quotes are flat: every unit trades at the town's price, or its ask/bid with a spread
+ * - After a trade, the selling town's price rises and the buying town's falls by one step
+ * - Stepped prices are clamped to `min`/`max`, then to the game limits, and both clamps
+ *   are reported to `limits.onClamp`. Unset bounds come from the game limits, and
+ *   without those from the model's defaults (0 and 100)
+ * - Prices do not move between turns
+ *
+ * Traces report the stepped price as the curve price; the model has no target stock
+ * or elasticity, so traces carry the town's stock as its target, an elasticity of 0
+ * and factors of 1.
+ *
+ * @param defaults - Options used by every call that does not pass its own, and the
+ *   model's step and bounds
+ * @returns A pricing strategy
+ */
+export function createLinearPricing(
+  defaults: PricingOptions & LinearPricingOptions = {},
+): PricingStrategy {
+  // The model steps without bounds so every clamp happens, and is reported, below
+  const model = createSimpleLinearPriceModel({
+    ...(defaults.baseStep !== undefined && { baseStep: defaults.baseStep }),
+    min: Number.NEGATIVE_INFINITY,
+    max: Number.POSITIVE_INFINITY,
+  });
+
+  const limitSteppedPrice = (price: number, limits: TradeLimits | undefined, at: ClampSite) => {
+    const bounds: TradeLimits = {
+      minPrice: defaults.min ?? limits?.minPrice ?? 0,
+      maxPrice: defaults.max ?? limits?.maxPrice ?? 100,
+      ...(limits?.onClamp && { onClamp: limits.onClamp }),
+    };
+    const bounded = limitPrice(price, bounds, at);
+    return limits ? limitPrice(bounded, limits, at) : bounded;
+  };
+
+  return {
+    quote: (state: GameState, request: QuoteRequest): TradeQuote => {
+      const town = state.towns.find(t => t.id === request.toTownId);
+      if (!town) {
+        throw new Error(`Town with ID '${request.toTownId}' not found`);
+      }
+      const price = sidePrice(town, request.goodId, request.side, defaults.spread) ?? 0;
+      const quantity = Math.max(0, request.quantity);
+      return {
+        unitPrices: Array.from({ length: quantity }, () => price),
+        totalCost: price * quantity,
+        averagePrice: quantity > 0 ? price : 0,
+      };
+    },
+
+    afterTrade: (state: GameState, vt: ValidatedTrade, options?: PricingOptions): GameState => {
+      const onTrace = options?.onTrace ?? defaults.onTrace;
+      const limits = options?.limits ?? defaults.limits;
+      const stepped = applyPostTradePricing(state, vt, model);
+
+      const towns = stepped.towns.map((town, i) => {
+        if (town.id !== vt.from.id && town.id !== vt.to.id) {
+          return town;
+        }
+        const oldPrice = state.towns[i]!.prices[vt.goodId] ?? 0;
+        const curvePrice = town.prices[vt.goodId] ?? 0;
+        const final = limitSteppedPrice(curvePrice, limits, {
+          source: 'post-trade',
+          townId: town.id,
+          goodId: vt.goodId,
+        });
+        onTrace?.({
+          townId: town.id,
+          goodId: vt.goodId,
+          oldPrice,
+          curvePrice,
+          smoothed: curvePrice,
+          final,
+          stock: town.resources[vt.goodId] ?? 0,
+          target: town.resources[vt.goodId] ?? 0,
+          elasticity: 0,
+          prosperityTier: town.revealed.prosperityTier,
+          prosperityFactor: 1,
+          sizeFactor: 1,
+          cause: 'post-trade',
+        });
+        return final === curvePrice ? town : writeTownPrice(town, vt.goodId, final);
+      });
+
+      return { ...stepped, towns };
+    },
+
+    perTurn: (state: GameState): GameState => state,
+  };
+}
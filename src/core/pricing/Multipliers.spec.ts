@@ -5,6 +5,9 @@ import type { ProsperityTier } from '../../types/Tiers';
 import {
   applyProsperityAndScale,
   DEFAULT_PROSPERITY_MULT,
+  DEFAULT_SIZE_PREMIUM,
+  scalePrice,
+  sizeFactor,
   type ProsperityMultipliers,
 } from './Multipliers';
 
@@ -160,4 +163,26 @@ describe('Multipliers', () => {
       expect(applyProsperityAndScale(9999, 'opulent' as ProsperityTier)).toBe(9999);
     });
   });
+
+  describe('scalePrice', () => {
+    it('applies both multipliers and rounds without clamping', () => {
+      expect(scalePrice(100, 'opulent' as ProsperityTier, DEFAULT_PROSPERITY_MULT, 1.5)).toBe(180);
+      expect(scalePrice(10000, 'opulent' as ProsperityTier)).toBe(12000);
+      expect(scalePrice(0, 'modest' as ProsperityTier)).toBe(0);
+    });
+  });
+
+  describe('sizeFactor', () => {
+    it('should be 1.0 for a typical town or one without a size', () => {
+      expect(sizeFactor({})).toBe(1);
+      expect(sizeFactor({ size: 1 })).toBe(1);
+    });
+
+    it('should raise prices in bigger towns and lower them in smaller ones', () => {
+      expect(sizeFactor({ size: 4 })).toBeCloseTo(4 ** DEFAULT_SIZE_PREMIUM);
+      expect(sizeFactor({ size: 4 })).toBeGreaterThan(1);
+      expect(sizeFactor({ size: 0.25 })).toBeLessThan(1);
+      expect(sizeFactor({ size: 4 }, 0.5)).toBe(2);
+    });
+  });
 });
@@ -2,13 +2,32 @@ import type { ProsperityTier } from '../../types/Tiers';
 
 /**
  * Represents town size information for scaling calculations.
- * Default size is 1.0, future implementations may derive this from town metadata.
+ * Satisfied by `Town`, whose optional `size` defaults to 1.0.
  */
 export interface TownScale {
-  /** Town size factor (default 1.0) */
+  /** Town size relative to a typical town (default 1.0) */
   size?: number;
 }
 
+/**
+ * Default exponent turning town size into a price factor: a town four times the
+ * typical size charges about 7% more, a quarter-size hamlet about 7% less.
+ */
+export const DEFAULT_SIZE_PREMIUM = 0.05;
+
+/**
+ * Gets the price factor for a town's size.
+ *
+ * Formula: sizeFactor = size ^ premium
+ *
+ * @param scale - The town's size
+ * @param premium - Size exponent (defaults to DEFAULT_SIZE_PREMIUM)
+ * @returns The size factor, 1.0 for a typical town
+ */
+export function sizeFactor(scale: TownScale, premium = DEFAULT_SIZE_PREMIUM): number {
+  return (scale.size ?? 1) ** premium;
+}
+
 /**
  * Multipliers for each prosperity tier to adjust prices.
  * Higher prosperity allows for higher prices, lower prosperity pushes prices down.
@@ -35,6 +54,30 @@ export const DEFAULT_PROSPERITY_MULT: ProsperityMultipliers = {
   opulent: 1.2,
 };
 
+/**
+ * Applies prosperity and town size multipliers to a price, without bounds.
+ *
+ * Formula: p'' = round( p' * prosperityFactor * sizeFactor )
+ *
+ * @param price - The base price to adjust
+ * @param prosperityTier - The town's prosperity tier
+ * @param mult - Prosperity multipliers (defaults to DEFAULT_PROSPERITY_MULT)
+ * @param sizeFactor - Town size factor (defaults to 1.0)
+ * @returns The adjusted price, to be bounded by the caller (e.g. with `limitCurvePrice`)
+ */
+export function scalePrice(
+  price: number,
+  prosperityTier: ProsperityTier,
+  mult: ProsperityMultipliers = DEFAULT_PROSPERITY_MULT,
+  sizeFactor = 1.0,
+): number {
+  // Get the prosperity multiplier for this tier
+  const prosperityFactor = mult[prosperityTier];
+
+  // Apply both multipliers and round to nearest integer
+  return Math.round(price * prosperityFactor * sizeFactor);
+}
+
 /**
  * Applies prosperity and town size multipliers to a price.
  *
@@ -56,15 +99,6 @@ export function applyProsperityAndScale(
   min = 1,
   max = 9999,
 ): number {
-  // Get the prosperity multiplier for this tier
-  const prosperityFactor = mult[prosperityTier];
-
-  // Apply both multipliers
-  const adjustedPrice = price * prosperityFactor * sizeFactor;
-
-  // Round to nearest integer
-  const roundedPrice = Math.round(adjustedPrice);
-
   // Clamp to valid range
-  return Math.max(min, Math.min(max, roundedPrice));
+  return Math.max(min, Math.min(max, scalePrice(price, prosperityTier, mult, sizeFactor)));
 }
@@ -96,8 +96,8 @@ export function demonstratePassiveDrift() {
   console.log(
     `- Wood: stock=${gameState.towns[0]?.resources.wood ?? 'N/A'}, price=${gameState.towns[0]?.prices.wood ?? 'N/A'}`,
   );
-  console.log(`- Target fish price: ${math.nextPrice({ stock: 80, price: 8 }, priceCurves.fish)}`);
-  console.log(`- Target wood price: ${math.nextPrice({ stock: 60, price: 8 }, priceCurves.wood)}`);
+  console.log(`- Target fish price: ${math.nextPrice({ stock: 80, price: 8 }, priceCurves.fish!)}`);
+  console.log(`- Target wood price: ${math.nextPrice({ stock: 60, price: 8 }, priceCurves.wood!)}`);
   console.log();
 
   // Apply passive drift for several turns
@@ -190,7 +190,7 @@ export function demonstrateDriftRates() {
     },
   };
 
-  const targetPrice = math.nextPrice({ stock: 80, price: 5 }, priceCurves.fish);
+  const targetPrice = math.nextPrice({ stock: 80, price: 5 }, priceCurves.fish!);
   console.log(`Starting fish price: ${gameState.towns[0]?.prices.fish ?? 'N/A'}`);
   console.log(`Target fish price: ${targetPrice}`);
   console.log();
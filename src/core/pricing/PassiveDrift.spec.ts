@@ -174,9 +174,9 @@ describe('PassiveDrift', () => {
 
     it('should handle missing price curve configs gracefully', () => {
       const incompleteCurves: PriceCurveTable = {
-        fish: mockPriceCurves.fish,
-        wood: mockPriceCurves.wood,
-        ore: mockPriceCurves.ore,
+        fish: mockPriceCurves.fish!,
+        wood: mockPriceCurves.wood!,
+        ore: mockPriceCurves.ore!,
       };
 
       const result = applyPassiveDrift(mockGameState, incompleteCurves, math);
@@ -235,6 +235,40 @@ describe('PassiveDrift', () => {
       expect(result.towns[0]!.prices.fish).toBe(9); // Adjusted by prosperity multipliers
     });
 
+    it('should need more stock in a bigger town before its price drops', () => {
+      const stocked = (size: number): GameState => ({
+        ...mockGameState,
+        towns: [
+          {
+            ...mockGameState.towns[0]!,
+            size,
+            resources: { fish: 200, wood: 50, ore: 75 },
+            revealed: { ...mockGameState.towns[0]!.revealed, prosperityTier: 'modest' },
+          },
+        ],
+      });
+      const city = applyPassiveDrift(stocked(2), mockPriceCurves, math);
+      const hamlet = applyPassiveDrift(stocked(0.5), mockPriceCurves, math);
+
+      // 200 fish is the city's target (2 × 100) but four times the hamlet's
+      expect(city.towns[0]!.prices.fish).toBe(10);
+      expect(hamlet.towns[0]!.prices.fish).toBeLessThan(10);
+    });
+
+    it('should apply per-town curve overrides', () => {
+      const curves: PriceCurveTable = {
+        ...mockPriceCurves,
+        fish: { ...mockPriceCurves.fish!, towns: { town2: { targetStock: 25 } } },
+      };
+
+      const result = applyPassiveDrift(mockGameState, curves, math);
+      const baseline = applyPassiveDrift(mockGameState, mockPriceCurves, math);
+
+      // Town 2 holds 50 fish: below the shared target but above its own
+      expect(result.towns[1]!.prices.fish).toBeLessThan(baseline.towns[1]!.prices.fish!);
+      expect(result.towns[0]!.prices.fish).toBe(baseline.towns[0]!.prices.fish);
+    });
+
     it('should produce integer prices', () => {
       const result = applyPassiveDrift(mockGameState, mockPriceCurves, math);
 
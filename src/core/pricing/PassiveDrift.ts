@@ -1,11 +1,14 @@
 import type { GameState } from '../../types/GameState';
 import type { GoodId } from '../../types/Goods';
+import type { ClampSite, TradeLimits } from '../trade/TradeLimits';
 
 import type { PriceCurveTable } from './Config';
-import { applyProsperityAndScale } from './Multipliers';
-import type { PriceMath } from './PriceCurve';
+import { boundCurveConfig, curveClampReporter, limitCurvePrice } from './CurveBounds';
+import { DEFAULT_PROSPERITY_MULT, scalePrice, sizeFactor } from './Multipliers';
+import type { PriceAdjustOptions, PriceMath } from './PriceCurve';
 import { smoothPrice, DEFAULT_SMOOTH } from './Smoothing';
 import type { PriceChangeTracer } from './Telemetry';
+import { townCurveConfig } from './TownCurves';
 
 /**
  * Configuration options for passive price drift behavior.
@@ -32,6 +35,10 @@ export const DEFAULT_DRIFT: Required<DriftOptions> = { rate: 0.15 };
  * @param math - Price math implementation for computing target prices
  * @param opts - Drift configuration options (defaults to DEFAULT_DRIFT)
  * @param onTrace - Optional callback for price change telemetry
+ * @param limits - Optional game limits; they fill in bounds the curve leaves unset and
+ *   clamp prices after the curve's own bounds. Every clamp, including the curve's, is
+ *   reported to `limits.onClamp`
+ * @param adjust - Optional smoothing, prosperity multipliers and size premium
  * @returns New game state with updated prices
  */
 export function applyPassiveDrift(
@@ -40,8 +47,15 @@ export function applyPassiveDrift(
   math: PriceMath,
   opts: DriftOptions = DEFAULT_DRIFT,
   onTrace?: PriceChangeTracer,
+  limits?: TradeLimits,
+  adjust: PriceAdjustOptions = {},
 ): GameState {
   const rate = opts.rate ?? DEFAULT_DRIFT.rate!;
+  const {
+    smoothing = DEFAULT_SMOOTH,
+    prosperityMultipliers = DEFAULT_PROSPERITY_MULT,
+    sizePremium,
+  } = adjust;
 
   // Validate rate is reasonable
   if (rate < 0 || rate > 1) {
@@ -59,18 +73,24 @@ export function applyPassiveDrift(
       const currentStock = town.resources[goodIdTyped] ?? 0;
 
       // Get price curve config for this good
-      const curveConfig = tables[goodIdTyped];
-      if (!curveConfig) {
+      const goodCurve = tables[goodIdTyped];
+      if (!goodCurve) {
         // No curve config, keep current price
         updatedPrices[goodIdTyped] = currentPrice;
         continue;
       }
+      const curveConfig = boundCurveConfig(townCurveConfig(goodCurve, town), limits);
+      const at: ClampSite = { source: 'drift', townId: town.id, goodId: goodIdTyped };
 
       // Compute target price from current stock using price curve
-      const targetPrice = math.nextPrice({ stock: currentStock, price: currentPrice }, curveConfig);
+      const targetPrice = math.nextPrice(
+        { stock: currentStock, price: currentPrice },
+        curveConfig,
+        curveClampReporter(limits, at),
+      );
 
       // Apply EMA smoothing before drift adjustments
-      const smoothedPrice = smoothPrice(currentPrice, targetPrice, DEFAULT_SMOOTH);
+      const smoothedPrice = smoothPrice(currentPrice, targetPrice, smoothing);
 
       // Apply drift: move smoothed price toward target by rate
       const priceDiff = targetPrice - smoothedPrice;
@@ -78,27 +98,19 @@ export function applyPassiveDrift(
       const newPrice = smoothedPrice + driftAmount;
 
       // Apply prosperity and scale multipliers to the drifted price
-      const adjustedPrice = applyProsperityAndScale(
+      const townSizeFactor = sizeFactor(town, sizePremium);
+      const scaledPrice = scalePrice(
         newPrice,
         town.revealed.prosperityTier,
-        undefined, // Use default multipliers
-        1.0, // Default size factor
-        curveConfig.minPrice ?? 1,
-        curveConfig.maxPrice ?? 9999,
+        prosperityMultipliers,
+        townSizeFactor,
       );
 
+      // Clamp to the curve's bounds, then to the game limits
+      const adjustedPrice = limitCurvePrice(scaledPrice, curveConfig, limits, at);
+
       // Emit telemetry if callback is provided and price actually changed
       if (onTrace && adjustedPrice !== currentPrice) {
-        // Get prosperity factor for telemetry
-        const prosperityFactor =
-          town.revealed.prosperityTier === 'struggling'
-            ? 0.9
-            : town.revealed.prosperityTier === 'modest'
-              ? 1.0
-              : town.revealed.prosperityTier === 'prosperous'
-                ? 1.1
-                : 1.2;
-
         onTrace({
           townId: town.id,
           goodId: goodIdTyped,
@@ -110,7 +122,8 @@ export function applyPassiveDrift(
           target: curveConfig.targetStock,
           elasticity: curveConfig.elasticity,
           prosperityTier: town.revealed.prosperityTier,
-          prosperityFactor,
+          prosperityFactor: prosperityMultipliers[town.revealed.prosperityTier],
+          sizeFactor: townSizeFactor,
           cause: 'drift',
         });
       }
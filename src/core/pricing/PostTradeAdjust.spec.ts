@@ -5,7 +5,9 @@ import type { ValidatedTrade } from '../trade/TradeValidator';
 
 import type { PriceCurveTable } from './Config';
 import { createLogRatioPriceMath } from './Curves';
+import { DEFAULT_SIZE_PREMIUM } from './Multipliers';
 import { applyPostTradeCurve } from './PostTradeAdjust';
+import type { PriceChangeTrace } from './Telemetry';
 
 describe('PostTradeAdjust', () => {
   // Test data setup
@@ -110,15 +112,15 @@ describe('PostTradeAdjust', () => {
       );
 
       // Seller's price should increase (stock decreased from 50 to 40)
-      expect(result.towns[0]!.prices.fish).toBeGreaterThan(mockGameState.towns[0]!.prices.fish);
+      expect(result.towns[0]!.prices.fish).toBeGreaterThan(mockGameState.towns[0]!.prices.fish!);
 
       // Buyer's price should decrease (stock increased from 20 to 30)
-      expect(result.towns[1]!.prices.fish).toBeLessThan(mockGameState.towns[1]!.prices.fish);
+      expect(result.towns[1]!.prices.fish).toBeLessThan(mockGameState.towns[1]!.prices.fish!);
 
       // Other goods' prices should remain unchanged
-      expect(result.towns[0]!.prices.wood).toBe(mockGameState.towns[0]!.prices.wood);
+      expect(result.towns[0]!.prices.wood).toBe(mockGameState.towns[0]!.prices.wood!);
       expect(result.towns[0]!.prices.ore).toBe(mockGameState.towns[0]!.prices.ore);
-      expect(result.towns[1]!.prices.wood).toBe(mockGameState.towns[1]!.prices.wood);
+      expect(result.towns[1]!.prices.wood).toBe(mockGameState.towns[1]!.prices.wood!);
       expect(result.towns[1]!.prices.ore).toBe(mockGameState.towns[1]!.prices.ore);
     });
 
@@ -146,10 +148,10 @@ describe('PostTradeAdjust', () => {
       const result = applyPostTradeCurve(stateAfterTrade, buyTrade, mockPriceCurves, math);
 
       // Seller's price should decrease (stock increased from 50 to 60)
-      expect(result.towns[0]!.prices.fish).toBeLessThan(mockGameState.towns[0]!.prices.fish);
+      expect(result.towns[0]!.prices.fish).toBeLessThan(mockGameState.towns[0]!.prices.fish!);
 
       // Buyer's price should increase (stock decreased from 20 to 10)
-      expect(result.towns[1]!.prices.fish).toBeGreaterThan(mockGameState.towns[1]!.prices.fish);
+      expect(result.towns[1]!.prices.fish).toBeGreaterThan(mockGameState.towns[1]!.prices.fish!);
     });
 
     it('should produce deterministic results for fixed inputs', () => {
@@ -208,19 +210,19 @@ describe('PostTradeAdjust', () => {
       const result = applyPostTradeCurve(stateAfterTrade, woodTrade, mockPriceCurves, math);
 
       // Wood prices should change
-      expect(result.towns[0]!.prices.wood).toBeGreaterThan(mockGameState.towns[0]!.prices.wood);
-      expect(result.towns[1]!.prices.wood).toBeLessThan(mockGameState.towns[1]!.prices.wood);
+      expect(result.towns[0]!.prices.wood).toBeGreaterThan(mockGameState.towns[0]!.prices.wood!);
+      expect(result.towns[1]!.prices.wood).toBeLessThan(mockGameState.towns[1]!.prices.wood!);
 
       // Fish prices should remain unchanged
-      expect(result.towns[0]!.prices.fish).toBe(mockGameState.towns[0]!.prices.fish);
-      expect(result.towns[1]!.prices.fish).toBe(mockGameState.towns[1]!.prices.fish);
+      expect(result.towns[0]!.prices.fish).toBe(mockGameState.towns[0]!.prices.fish!);
+      expect(result.towns[1]!.prices.fish).toBe(mockGameState.towns[1]!.prices.fish!);
     });
 
     it('should respect price bounds from configuration', () => {
       const extremeCurves: PriceCurveTable = {
         ...mockPriceCurves,
         fish: {
-          ...mockPriceCurves.fish,
+          ...mockPriceCurves.fish!,
           minPrice: 5,
           maxPrice: 20,
         },
@@ -298,8 +300,28 @@ describe('PostTradeAdjust', () => {
       const result = applyPostTradeCurve(stateAfterTrade, smallTrade, mockPriceCurves, math);
 
       // Even small changes should produce price adjustments
-      expect(result.towns[0]!.prices.fish).toBeGreaterThan(mockGameState.towns[0]!.prices.fish);
-      expect(result.towns[1]!.prices.fish).toBeLessThan(mockGameState.towns[1]!.prices.fish);
+      expect(result.towns[0]!.prices.fish).toBeGreaterThan(mockGameState.towns[0]!.prices.fish!);
+      expect(result.towns[1]!.prices.fish).toBeLessThan(mockGameState.towns[1]!.prices.fish!);
+    });
+
+    it('should price each town on its own size-scaled curve', () => {
+      const stateAfterTrade: GameState = {
+        ...mockGameState,
+        towns: [
+          { ...mockGameState.towns[0]!, size: 2 },
+          { ...mockGameState.towns[1]!, size: 0.5 },
+        ],
+      };
+      const traces: PriceChangeTrace[] = [];
+
+      applyPostTradeCurve(stateAfterTrade, mockValidatedTrade, mockPriceCurves, math, t =>
+        traces.push(t),
+      );
+
+      expect(traces.map(t => [t.townId, t.target, t.sizeFactor])).toEqual([
+        ['town1', 50, 2 ** DEFAULT_SIZE_PREMIUM],
+        ['town2', 12.5, 0.5 ** DEFAULT_SIZE_PREMIUM],
+      ]);
     });
   });
 });
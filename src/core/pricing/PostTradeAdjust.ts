@@ -1,11 +1,14 @@
 import type { GameState } from '../../types/GameState';
+import type { ClampSite, TradeLimits } from '../trade/TradeLimits';
 import type { ValidatedTrade } from '../trade/TradeValidator';
 
 import type { PriceCurveTable } from './Config';
-import { applyProsperityAndScale } from './Multipliers';
-import type { PriceMath } from './PriceCurve';
+import { boundCurveConfig, curveClampReporter, limitCurvePrice } from './CurveBounds';
+import { DEFAULT_PROSPERITY_MULT, scalePrice, sizeFactor } from './Multipliers';
+import type { PriceAdjustOptions, PriceMath } from './PriceCurve';
 import { smoothPrice, DEFAULT_SMOOTH } from './Smoothing';
 import type { PriceChangeTracer } from './Telemetry';
+import { townCurveConfig } from './TownCurves';
 import { readTownPriceState, writeTownPrice } from './TownPriceIO';
 
 /**
@@ -40,6 +43,10 @@ function withTownsUpdated(state: GameState, updatedTowns: GameState['towns']): G
  * @param tables - Price curve configuration tables
  * @param math - Price math implementation for computing next prices
  * @param onTrace - Optional callback for price change telemetry
+ * @param limits - Optional game limits; they fill in bounds the curve leaves unset and
+ *   clamp prices after the curve's own bounds. Every clamp, including the curve's, is
+ *   reported to `limits.onClamp`
+ * @param adjust - Optional smoothing, prosperity multipliers and size premium
  * @returns Updated game state with adjusted prices
  */
 export function applyPostTradeCurve(
@@ -48,8 +55,15 @@ export function applyPostTradeCurve(
   tables: PriceCurveTable,
   math: PriceMath,
   onTrace?: PriceChangeTracer,
+  limits?: TradeLimits,
+  adjust: PriceAdjustOptions = {},
 ): GameState {
   const { goodId, from, to } = vt;
+  const {
+    smoothing = DEFAULT_SMOOTH,
+    prosperityMultipliers = DEFAULT_PROSPERITY_MULT,
+    sizePremium,
+  } = adjust;
 
   // Get the price curve configuration for this good
   const cfg = tables[goodId];
@@ -57,61 +71,49 @@ export function applyPostTradeCurve(
     throw new Error(`No price curve configuration found for good: ${goodId}`);
   }
 
+  const fromTown = findTown(state, from.id);
+  const toTown = findTown(state, to.id);
+
   // Read current price states for both towns (stock already updated by executor)
-  const t1State = readTownPriceState(findTown(state, from.id), goodId);
-  const t2State = readTownPriceState(findTown(state, to.id), goodId);
+  const t1State = readTownPriceState(fromTown, goodId);
+  const t2State = readTownPriceState(toTown, goodId);
+
+  // Each town prices on the good's curve with its own overrides and size
+  const cfg1 = boundCurveConfig(townCurveConfig(cfg, fromTown), limits);
+  const cfg2 = boundCurveConfig(townCurveConfig(cfg, toTown), limits);
+  const at1: ClampSite = { source: 'post-trade', townId: from.id, goodId };
+  const at2: ClampSite = { source: 'post-trade', townId: to.id, goodId };
 
   // Compute next prices using the curve-based math
-  const next1 = math.nextPrice(t1State, cfg);
-  const next2 = math.nextPrice(t2State, cfg);
+  const next1 = math.nextPrice(t1State, cfg1, curveClampReporter(limits, at1));
+  const next2 = math.nextPrice(t2State, cfg2, curveClampReporter(limits, at2));
 
   // Apply EMA smoothing before prosperity/scale adjustments
-  const smoothed1 = smoothPrice(t1State.price, next1, DEFAULT_SMOOTH);
-  const smoothed2 = smoothPrice(t2State.price, next2, DEFAULT_SMOOTH);
+  const smoothed1 = smoothPrice(t1State.price, next1, smoothing);
+  const smoothed2 = smoothPrice(t2State.price, next2, smoothing);
 
   // Apply prosperity and scale multipliers to both smoothed prices
-  const adjusted1 = applyProsperityAndScale(
+  const size1 = sizeFactor(fromTown, sizePremium);
+  const size2 = sizeFactor(toTown, sizePremium);
+  const scaled1 = scalePrice(
     smoothed1,
-    findTown(state, from.id).revealed.prosperityTier,
-    undefined, // Use default multipliers
-    1.0, // Default size factor
-    cfg.minPrice ?? 1,
-    cfg.maxPrice ?? 9999,
+    fromTown.revealed.prosperityTier,
+    prosperityMultipliers,
+    size1,
   );
-
-  const adjusted2 = applyProsperityAndScale(
+  const scaled2 = scalePrice(
     smoothed2,
-    findTown(state, to.id).revealed.prosperityTier,
-    undefined, // Use default multipliers
-    1.0, // Default size factor
-    cfg.minPrice ?? 1,
-    cfg.maxPrice ?? 9999,
+    toTown.revealed.prosperityTier,
+    prosperityMultipliers,
+    size2,
   );
 
+  // Clamp to the curve's bounds, then to the game limits
+  const adjusted1 = limitCurvePrice(scaled1, cfg1, limits, at1);
+  const adjusted2 = limitCurvePrice(scaled2, cfg2, limits, at2);
+
   // Emit telemetry if callback is provided
   if (onTrace) {
-    const fromTown = findTown(state, from.id);
-    const toTown = findTown(state, to.id);
-
-    // Get prosperity factor for telemetry
-    const fromProsperityFactor =
-      fromTown.revealed.prosperityTier === 'struggling'
-        ? 0.9
-        : fromTown.revealed.prosperityTier === 'modest'
-          ? 1.0
-          : fromTown.revealed.prosperityTier === 'prosperous'
-            ? 1.1
-            : 1.2;
-
-    const toProsperityFactor =
-      toTown.revealed.prosperityTier === 'struggling'
-        ? 0.9
-        : toTown.revealed.prosperityTier === 'modest'
-          ? 1.0
-          : toTown.revealed.prosperityTier === 'prosperous'
-            ? 1.1
-            : 1.2;
-
     onTrace({
       townId: from.id,
       goodId,
@@ -120,10 +122,11 @@ export function applyPostTradeCurve(
       smoothed: smoothed1,
       final: adjusted1,
       stock: t1State.stock,
-      target: cfg.targetStock,
-      elasticity: cfg.elasticity,
+      target: cfg1.targetStock,
+      elasticity: cfg1.elasticity,
       prosperityTier: fromTown.revealed.prosperityTier,
-      prosperityFactor: fromProsperityFactor,
+      prosperityFactor: prosperityMultipliers[fromTown.revealed.prosperityTier],
+      sizeFactor: size1,
       cause: 'post-trade',
     });
 
@@ -135,10 +138,11 @@ export function applyPostTradeCurve(
       smoothed: smoothed2,
       final: adjusted2,
       stock: t2State.stock,
-      target: cfg.targetStock,
-      elasticity: cfg.elasticity,
+      target: cfg2.targetStock,
+      elasticity: cfg2.elasticity,
       prosperityTier: toTown.revealed.prosperityTier,
-      prosperityFactor: toProsperityFactor,
+      prosperityFactor: prosperityMultipliers[toTown.revealed.prosperityTier],
+      sizeFactor: size2,
       cause: 'post-trade',
     });
   }
@@ -1,17 +1,49 @@
+import type { ProsperityMultipliers } from './Multipliers';
+import type { Smoothing } from './Smoothing';
+
+/**
+ * Curve families a good's price can follow.
+ */
+export const PRICE_CURVE_KINDS = ['logRatio', 'linear', 'logistic', 'piecewise'] as const;
+
+export type PriceCurveKind = (typeof PRICE_CURVE_KINDS)[number];
+
+/**
+ * One point of a piecewise curve: the price a town quotes when it holds `stock`.
+ */
+export interface PriceBreakpoint {
+  stock: number;
+  price: number;
+}
+
+/**
+ * Per-town replacements for a curve's shape, e.g. a mining town that needs far more
+ * ore on hand before its price drops.
+ */
+export type PriceCurveOverride = Partial<
+  Pick<PriceCurveConfig, 'basePrice' | 'targetStock' | 'elasticity'>
+>;
+
 /**
  * Configuration for a price curve that determines how prices change based on supply/demand.
  */
 export interface PriceCurveConfig {
+  /** Curve family (default 'logRatio') */
+  kind?: PriceCurveKind;
   /** Starting price when stock == target */
   basePrice: number;
   /** Desired inventory per town for this good */
   targetStock: number;
   /** Sensitivity to supply/demand changes (>0); typical range 0.5–2 */
   elasticity: number;
-  /** Clamp floor (default 1) */
+  /** Clamp floor (default: the game's minPrice in a turn, otherwise 1) */
   minPrice?: number;
-  /** Clamp ceiling (default 9999) */
+  /** Clamp ceiling (default: the game's maxPrice in a turn, otherwise 9999) */
   maxPrice?: number;
+  /** Stock→price points of a 'piecewise' curve, in increasing stock order */
+  breakpoints?: PriceBreakpoint[];
+  /** Per-town overrides keyed by town ID, applied before town size scaling */
+  towns?: Record<string, PriceCurveOverride>;
 }
 
 /**
@@ -24,6 +56,11 @@ export interface TownPriceState {
   price: number;
 }
 
+/**
+ * Told when a curve price is held at the config's minPrice or maxPrice.
+ */
+export type CurveClampReporter = (value: number, clamped: number) => void;
+
 /**
  * Pure mathematical interface for computing price changes based on supply/demand curves.
  */
@@ -33,8 +70,21 @@ export interface PriceMath {
    *
    * @param state - Current town price state
    * @param cfg - Price curve configuration
+   * @param onClamp - Optional observer told when the price is held at the curve's bounds
    * @returns Next integer price
    */
 
-  nextPrice(state: TownPriceState, cfg: PriceCurveConfig): number;
+  nextPrice(state: TownPriceState, cfg: PriceCurveConfig, onClamp?: CurveClampReporter): number;
+}
+
+/**
+ * How a curve price is turned into a town's new price after a trade or drift.
+ */
+export interface PriceAdjustOptions {
+  /** EMA smoothing toward the curve price (default DEFAULT_SMOOTH) */
+  smoothing?: Smoothing;
+  /** Prosperity tier multipliers (default DEFAULT_PROSPERITY_MULT) */
+  prosperityMultipliers?: ProsperityMultipliers;
+  /** Town size exponent for the size factor (default DEFAULT_SIZE_PREMIUM) */
+  sizePremium?: number;
 }
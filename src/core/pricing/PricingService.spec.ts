@@ -1,9 +1,12 @@
 import { describe, it, expect } from 'vitest';
 
 import type { GameState } from '../../types/GameState';
+import type { ClampEvent, TradeLimits } from '../trade/TradeLimits';
 import type { ValidatedTrade } from '../trade/TradeValidator';
 
-import { createPricingService } from './PricingService';
+import { PriceCurveConfigError } from './Config';
+import { createPricingService, validatePricingConfig } from './PricingService';
+import type { PriceChangeTrace } from './Telemetry';
 
 describe('PricingService', () => {
   const mockState: GameState = {
@@ -75,7 +78,7 @@ describe('PricingService', () => {
       const service = createPricingService();
       expect(service).toBeDefined();
       expect(typeof service.afterTrade).toBe('function');
-      expect(typeof service.perTurnDrift).toBe('function');
+      expect(typeof service.perTurn).toBe('function');
     });
 
     it('should create a service with custom options', () => {
@@ -124,10 +127,10 @@ describe('PricingService', () => {
     });
   });
 
-  describe('perTurnDrift', () => {
+  describe('perTurn', () => {
     it('should apply passive drift to all towns and goods', () => {
       const service = createPricingService();
-      const result = service.perTurnDrift(mockState);
+      const result = service.perTurn(mockState);
 
       // Verify all towns are updated
       expect(result.towns).toHaveLength(2);
@@ -142,8 +145,8 @@ describe('PricingService', () => {
 
     it('should be deterministic for the same input', () => {
       const service = createPricingService();
-      const result1 = service.perTurnDrift(mockState);
-      const result2 = service.perTurnDrift(mockState);
+      const result1 = service.perTurn(mockState);
+      const result2 = service.perTurn(mockState);
 
       // All prices should be identical between runs
       result1.towns.forEach((town, index) => {
@@ -156,7 +159,7 @@ describe('PricingService', () => {
 
     it('should apply prosperity multipliers correctly', () => {
       const service = createPricingService();
-      const result = service.perTurnDrift(mockState);
+      const result = service.perTurn(mockState);
 
       const town1 = result.towns.find(t => t.id === 'town1')!; // modest
       const town2 = result.towns.find(t => t.id === 'town2')!; // prosperous
@@ -169,7 +172,7 @@ describe('PricingService', () => {
 
     it('should move prices toward curve-based target prices', () => {
       const service = createPricingService();
-      const result = service.perTurnDrift(mockState);
+      const result = service.perTurn(mockState);
 
       // Prices should move toward their curve-based targets
       // This is a basic verification that the drift is working
@@ -182,15 +185,157 @@ describe('PricingService', () => {
     });
   });
 
+  describe('market tuning', () => {
+    const flat = { struggling: 1, modest: 1, prosperous: 1, opulent: 1 };
+
+    it('keeps prices in place with no smoothing and flat multipliers', () => {
+      const service = createPricingService({
+        smoothing: { alpha: 0 },
+        prosperityMultipliers: flat,
+      });
+
+      const state = {
+        ...mockState,
+        towns: mockState.towns.map((town, i) => ({
+          ...town,
+          prices: { ...town.prices, fish: 20 + i },
+        })),
+      };
+
+      const result = service.afterTrade(state, mockTrade);
+
+      expect(result.towns.map(town => town.prices.fish)).toEqual([20, 21]);
+    });
+
+    it('prices on a custom PriceMath', () => {
+      const service = createPricingService({
+        math: { nextPrice: () => 42 },
+        smoothing: { alpha: 1 },
+        drift: { rate: 0 },
+        prosperityMultipliers: flat,
+      });
+
+      expect(service.afterTrade(mockState, mockTrade).towns.map(t => t.prices.fish)).toEqual([
+        42, 42,
+      ]);
+      expect(service.perTurn(mockState).towns[1]!.prices).toEqual({
+        fish: 42,
+        wood: 42,
+        ore: 42,
+      });
+    });
+
+    it('reports the configured prosperity factor in traces', () => {
+      const traces: PriceChangeTrace[] = [];
+      const service = createPricingService({
+        prosperityMultipliers: { ...flat, prosperous: 1.5 },
+        onTrace: trace => traces.push(trace),
+      });
+
+      service.afterTrade(mockState, mockTrade);
+
+      expect(traces.map(trace => trace.prosperityFactor)).toEqual([1, 1.5]);
+    });
+
+    it('rejects invalid settings with the path of the setting', () => {
+      const pathOf = (pricing: Parameters<typeof validatePricingConfig>[0]) => {
+        try {
+          validatePricingConfig(pricing);
+        } catch (error) {
+          expect(error).toBeInstanceOf(PriceCurveConfigError);
+          return (error as PriceCurveConfigError).path;
+        }
+        return undefined;
+      };
+
+      expect(pathOf({ smoothing: { alpha: 1.5 } })).toBe('smoothing.alpha');
+      expect(pathOf({ drift: { rate: -0.1 } })).toBe('drift.rate');
+      expect(pathOf({ prosperityMultipliers: { ...flat, opulent: 0 } })).toBe(
+        'prosperityMultipliers.opulent',
+      );
+      expect(pathOf({ sizePremium: NaN })).toBe('sizePremium');
+      expect(pathOf({ sizePremium: -0.05 })).toBe('sizePremium');
+      expect(pathOf({ sizePremium: 2 })).toBe('sizePremium');
+      expect(pathOf({ sizePremium: 1 })).toBeUndefined();
+      // A misspelled tier would otherwise be ignored while the real tier goes unset
+      expect(pathOf({ prosperityMultipliers: { ...flat, wealthy: 1.3 } as typeof flat })).toBe(
+        'prosperityMultipliers.wealthy',
+      );
+      const missing: Partial<typeof flat> = { ...flat };
+      delete missing.opulent;
+      expect(pathOf({ prosperityMultipliers: missing as typeof flat })).toBe(
+        'prosperityMultipliers.opulent',
+      );
+      expect(pathOf({ smoothing: { alpha: 0.3 }, drift: { rate: 0.5 } })).toBeUndefined();
+      expect(() => createPricingService({ smoothing: { alpha: -1 } })).toThrow(
+        PriceCurveConfigError,
+      );
+    });
+  });
+
+  describe('game limits', () => {
+    const limitsWithLog = () => {
+      const clamps: ClampEvent[] = [];
+      const limits: TradeLimits = { maxPrice: 50, onClamp: event => clamps.push(event) };
+      return { clamps, limits };
+    };
+
+    it('clamps drifted prices and reports each clamp', () => {
+      const { clamps, limits } = limitsWithLog();
+      const traces: PriceChangeTrace[] = [];
+      const service = createPricingService({ limits, onTrace: trace => traces.push(trace) });
+
+      const result = service.perTurn(mockState);
+
+      result.towns.forEach(town => {
+        Object.values(town.prices).forEach(price => expect(price).toBeLessThanOrEqual(50));
+      });
+      expect(clamps.length).toBeGreaterThan(0);
+      clamps.forEach(event => {
+        expect(event).toMatchObject({ source: 'drift', field: 'price', clamped: 50 });
+        expect(event.value).toBeGreaterThan(50);
+      });
+      // Traces show the clamped price as final
+      expect(traces.every(trace => trace.final <= 50)).toBe(true);
+    });
+
+    it('clamps post-trade prices for both towns', () => {
+      const { clamps, limits } = limitsWithLog();
+      const service = createPricingService({ limits });
+
+      const result = service.afterTrade(mockState, mockTrade);
+
+      expect(result.towns[0]!.prices.fish).toBe(50);
+      expect(result.towns[1]!.prices.fish).toBe(50);
+      // town2's curve price first hits the curve's own maxPrice of 60, then the rules
+      expect(
+        clamps.map(event => [event.source, event.townId, event.goodId, event.value, event.clamped]),
+      ).toEqual([
+        ['post-trade', 'town1', 'fish', 55, 50],
+        ['post-trade', 'town2', 'fish', 67, 60],
+        ['post-trade', 'town2', 'fish', 60, 50],
+      ]);
+    });
+
+    it('lets per-call limits override the service defaults', () => {
+      const { clamps, limits } = limitsWithLog();
+      const service = createPricingService({ limits });
+
+      service.afterTrade(mockState, mockTrade, { limits: { maxPrice: 9999 } });
+
+      expect(clamps).toEqual([]);
+    });
+  });
+
   describe('integration', () => {
-    it('should work consistently between afterTrade and perTurnDrift', () => {
+    it('should work consistently between afterTrade and perTurn', () => {
       const service = createPricingService();
 
       // First apply trade
       const afterTradeState = service.afterTrade(mockState, mockTrade);
 
       // Then apply drift
-      const afterDriftState = service.perTurnDrift(afterTradeState);
+      const afterDriftState = service.perTurn(afterTradeState);
 
       // Both operations should complete without errors
       expect(afterTradeState).toBeDefined();
@@ -208,4 +353,44 @@ describe('PricingService', () => {
       });
     });
   });
+
+  describe('quote', () => {
+    const service = createPricingService();
+    const request = { toTownId: 'town2', goodId: 'fish', side: 'buy' as const, quantity: 1 };
+
+    it('prices a single unit at the quoted price', () => {
+      expect(service.quote(mockState, request).totalCost).toBe(110);
+    });
+
+    it('charges more per unit for larger purchases', () => {
+      const quote = service.quote(mockState, { ...request, quantity: 20 });
+
+      expect(quote.unitPrices).toHaveLength(20);
+      expect(quote.unitPrices[0]).toBe(110);
+      expect(quote.averagePrice).toBeGreaterThan(110);
+    });
+
+    it('pays less per unit for larger sales', () => {
+      const quote = service.quote(mockState, { ...request, side: 'sell', quantity: 20 });
+
+      expect(quote.averagePrice).toBeLessThan(110);
+    });
+
+    it('starts from the ask for purchases and the bid for sales with a spread', () => {
+      const spreadService = createPricingService({ spread: { margin: 0.1 } });
+
+      expect(spreadService.quote(mockState, request).unitPrices).toEqual([121]);
+      expect(spreadService.quote(mockState, { ...request, side: 'sell' }).unitPrices).toEqual([99]);
+      const large = spreadService.quote(mockState, { ...request, quantity: 20 });
+      expect(large.averagePrice).toBeGreaterThan(
+        service.quote(mockState, { ...request, quantity: 20 }).averagePrice,
+      );
+    });
+
+    it('throws for unknown towns', () => {
+      expect(() => service.quote(mockState, { ...request, toTownId: 'ghost' })).toThrow(
+        "Town with ID 'ghost' not found",
+      );
+    });
+  });
 });
@@ -1,31 +1,122 @@
 import type { GameState } from '../../types/GameState';
+import { PROSPERITY_TIERS } from '../stats/TierConfig';
 import type { ValidatedTrade } from '../trade/TradeValidator';
 
 import * as config from './Config';
-import { createLogRatioPriceMath } from './Curves';
+import { PriceCurveConfigError } from './Config';
+import { createCurvePriceMath } from './Curves';
 import { applyPassiveDrift } from './PassiveDrift';
+import type { DriftOptions } from './PassiveDrift';
 import { applyPostTradeCurve } from './PostTradeAdjust';
-import type { PriceChangeTracer } from './Telemetry';
+import type { PriceAdjustOptions, PriceMath } from './PriceCurve';
+import type { PricingOptions, PricingStrategy } from './PricingStrategy';
+import { quoteAlongCurve } from './Slippage';
+import type { QuoteRequest, TradeQuote } from './Slippage';
+import { sidePrice } from './Spread';
+import { townCurveConfig } from './TownCurves';
+import { readTownPriceState } from './TownPriceIO';
 
-export interface PricingOptions {
-  /** Optional callback for price change telemetry */
-  onTrace?: PriceChangeTracer;
+export type { PricingOptions } from './PricingStrategy';
+
+/**
+ * Market tuning fixed when the pricing service is created: how far prices react to
+ * trades and stock, and how quickly they settle.
+ */
+export interface PricingConfig extends PriceAdjustOptions {
+  /** Per-turn drift toward the curve price (default DEFAULT_DRIFT) */
+  drift?: DriftOptions;
+  /** Price math for every good (default: each good's curve family from priceCurves.json) */
+  math?: PriceMath;
 }
 
-export function createPricingService(): {
-  afterTrade: (state: GameState, vt: ValidatedTrade, options?: PricingOptions) => GameState;
-  perTurnDrift: (state: GameState, options?: PricingOptions) => GameState;
-} {
+/**
+ * Validates a pricing config.
+ * @throws {PriceCurveConfigError} With the path of the first invalid setting
+ */
+export function validatePricingConfig(pricing: PricingConfig): void {
+  const check = (value: unknown, path: string, valid: (n: number) => boolean, range: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || !valid(value)) {
+      throw new PriceCurveConfigError(path, `Expected ${range}, got ${value}`);
+    }
+  };
+  const fraction = (n: number) => n >= 0 && n <= 1;
+
+  if (pricing.smoothing) {
+    check(pricing.smoothing.alpha, 'smoothing.alpha', fraction, 'a number from 0 to 1');
+  }
+  if (pricing.drift?.rate !== undefined) {
+    check(pricing.drift.rate, 'drift.rate', fraction, 'a number from 0 to 1');
+  }
+  if (pricing.prosperityMultipliers) {
+    const multipliers: Record<string, unknown> = { ...pricing.prosperityMultipliers };
+    for (const tier of Object.keys(multipliers)) {
+      if (!(PROSPERITY_TIERS as readonly string[]).includes(tier)) {
+        throw new PriceCurveConfigError(
+          `prosperityMultipliers.${tier}`,
+          `Unknown prosperity tier: ${tier} (expected ${PROSPERITY_TIERS.join(', ')})`,
+        );
+      }
+    }
+    for (const tier of PROSPERITY_TIERS) {
+      check(multipliers[tier], `prosperityMultipliers.${tier}`, n => n > 0, 'a positive number');
+    }
+  }
+  if (pricing.sizePremium !== undefined) {
+    // 0 ignores town size; 1 makes prices grow in proportion to it
+    check(pricing.sizePremium, 'sizePremium', fraction, 'a number from 0 to 1');
+  }
+  if (pricing.math !== undefined && typeof pricing.math.nextPrice !== 'function') {
+    throw new PriceCurveConfigError('math', 'Expected a PriceMath with a nextPrice function');
+  }
+}
+
+/**
+ * Creates the pricing service: the game's default pricing strategy, which prices
+ * along each good's supply/demand curve and drifts prices toward it every turn.
+ * @param defaults - Options used by every call that does not pass its own, and the
+ *   service's market tuning
+ * @throws {PriceCurveConfigError} If the market tuning is invalid
+ */
+export function createPricingService(
+  defaults: PricingOptions & PricingConfig = {},
+): PricingStrategy {
+  validatePricingConfig(defaults);
   const tables = config.loadPriceCurves();
-  const math = createLogRatioPriceMath();
+  const math = defaults.math ?? createCurvePriceMath();
 
   return {
     afterTrade: (state: GameState, vt: ValidatedTrade, options?: PricingOptions): GameState => {
-      return applyPostTradeCurve(state, vt, tables, math, options?.onTrace);
+      const onTrace = options?.onTrace ?? defaults.onTrace;
+      const limits = options?.limits ?? defaults.limits;
+      return applyPostTradeCurve(state, vt, tables, math, onTrace, limits, defaults);
+    },
+
+    // Drifts every town's prices toward their curves
+    perTurn: (state: GameState, options?: PricingOptions): GameState => {
+      const onTrace = options?.onTrace ?? defaults.onTrace;
+      const limits = options?.limits ?? defaults.limits;
+      return applyPassiveDrift(state, tables, math, defaults.drift, onTrace, limits, defaults);
     },
 
-    perTurnDrift: (state: GameState, options?: PricingOptions): GameState => {
-      return applyPassiveDrift(state, tables, math, undefined, options?.onTrace);
+    // Prices a trade unit by unit along the quoting town's curve, from the side it trades at
+    quote: (state: GameState, request: QuoteRequest): TradeQuote => {
+      const town = state.towns.find(t => t.id === request.toTownId);
+      if (!town) {
+        throw new Error(`Town with ID '${request.toTownId}' not found`);
+      }
+      const cfg = tables[request.goodId];
+      if (!cfg) {
+        throw new Error(`No price curve configuration found for good: ${request.goodId}`);
+      }
+      const current = readTownPriceState(town, request.goodId);
+      const price = sidePrice(town, request.goodId, request.side, defaults.spread);
+      return quoteAlongCurve(
+        { ...current, ...(price !== undefined && { price }) },
+        request.side,
+        request.quantity,
+        townCurveConfig(cfg, town),
+        math,
+      );
     },
   };
 }
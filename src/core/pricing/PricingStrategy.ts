@@ -0,0 +1,66 @@
+import type { GameState } from '../../types/GameState';
+import type { TradeLimits } from '../trade/TradeLimits';
+import type { ValidatedTrade } from '../trade/TradeValidator';
+
+import type { QuoteRequest, TradeQuote } from './Slippage';
+import type { SpreadConfig } from './Spread';
+import type { PriceChangeTracer } from './Telemetry';
+
+export interface PricingOptions {
+  /** Optional callback for price change telemetry */
+  onTrace?: PriceChangeTracer;
+  /**
+   * Optional game limits; post-trade and drifted prices are clamped to them after
+   * the strategy's own bounds, and each clamp is reported to `limits.onClamp`
+   */
+  limits?: TradeLimits;
+  /**
+   * Optional bid/ask spread; quotes start from the town's ask when the counterparty
+   * buys and its bid when it sells, instead of the town's price
+   */
+  spread?: SpreadConfig;
+}
+
+/**
+ * A way of pricing the markets: what trades cost, and how prices move after each
+ * trade and each turn. Trades, the turn controller and the UI previews all take one
+ * by injection, so a game mode can swap the curve-based pricing service for the
+ * simple linear model.
+ *
+ * Every price change made by `afterTrade` and `perTurn` is reported to the
+ * `onTrace` tracer in effect for the call.
+ */
+export interface PricingStrategy {
+  /**
+   * Prices a trade against the current state, from the side the counterparty trades at.
+   *
+   * @param state - Current game state
+   * @param request - The quoting town, good, side and quantity
+   * @returns Unit prices, total cost and average price
+   */
+  quote(state: GameState, request: QuoteRequest): TradeQuote;
+
+  /**
+   * Adjusts both towns' prices after an executed trade.
+   *
+   * @param state - Game state after the trade executed
+   * @param vt - The executed trade
+   * @param options - Optional per-call tracer and limits, overriding the strategy's own
+   * @returns Game state with adjusted prices
+   */
+  afterTrade(state: GameState, vt: ValidatedTrade, options?: PricingOptions): GameState;
+
+  /**
+   * Moves prices once per turn, e.g. drifting them toward their curves.
+   *
+   * @param state - Current game state
+   * @param options - Optional per-call tracer and limits, overriding the strategy's own
+   * @returns Game state with this turn's prices
+   */
+  perTurn(state: GameState, options?: PricingOptions): GameState;
+}
+
+/**
+ * Creates a pricing strategy from the tracer, limits and spread the game wires up.
+ */
+export type PricingStrategyFactory = (defaults: PricingOptions) => PricingStrategy;
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+
+import { createLogRatioPriceMath } from './Curves';
+import type { PriceCurveConfig, PriceMath } from './PriceCurve';
+import { quoteAlongCurve } from './Slippage';
+
+describe('quoteAlongCurve', () => {
+  const cfg: PriceCurveConfig = { basePrice: 12, targetStock: 40, elasticity: 0.8 };
+  // Curve that loses one coin per unit of stock, so expected prices are easy to follow
+  const linear: PriceMath = { nextPrice: ({ stock }) => 100 - stock };
+
+  it('prices the first unit at the quoted price', () => {
+    expect(quoteAlongCurve({ stock: 40, price: 50 }, 'buy', 1, cfg, linear)).toEqual({
+      unitPrices: [50],
+      totalCost: 50,
+      averagePrice: 50,
+    });
+  });
+
+  it('raises the price of each unit bought as the stock falls', () => {
+    // Curve 60 → 61 → 62, scaled to the quoted price of 50
+    expect(quoteAlongCurve({ stock: 40, price: 50 }, 'buy', 3, cfg, linear)).toEqual({
+      unitPrices: [50, 51, 52],
+      totalCost: 153,
+      averagePrice: 51,
+    });
+  });
+
+  it('lowers the price of each unit sold as the stock rises', () => {
+    expect(quoteAlongCurve({ stock: 40, price: 50 }, 'sell', 3, cfg, linear)).toEqual({
+      unitPrices: [50, 49, 48],
+      totalCost: 147,
+      averagePrice: 49,
+    });
+  });
+
+  it('makes large purchases cost more per unit than small ones', () => {
+    const math = createLogRatioPriceMath();
+    const small = quoteAlongCurve({ stock: 60, price: 9 }, 'buy', 5, cfg, math);
+    const large = quoteAlongCurve({ stock: 60, price: 9 }, 'buy', 50, cfg, math);
+
+    expect(large.averagePrice).toBeGreaterThan(small.averagePrice);
+    expect(large.unitPrices).toEqual([...large.unitPrices].sort((a, b) => a - b));
+  });
+
+  it('returns an empty quote for no units', () => {
+    expect(quoteAlongCurve({ stock: 40, price: 50 }, 'buy', 0, cfg, linear)).toEqual({
+      unitPrices: [],
+      totalCost: 0,
+      averagePrice: 0,
+    });
+  });
+
+  it('keeps the quoted price when the curve has no price to scale from', () => {
+    const flat: PriceMath = { nextPrice: () => 0 };
+
+    expect(quoteAlongCurve({ stock: 40, price: 50 }, 'buy', 2, cfg, flat).unitPrices).toEqual([
+      50, 50,
+    ]);
+  });
+});
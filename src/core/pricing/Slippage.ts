@@ -0,0 +1,73 @@
+import type { GameState } from '../../types/GameState';
+import type { TradeRequest } from '../trade/TradeTypes';
+
+import type { PriceCurveConfig, PriceMath, TownPriceState } from './PriceCurve';
+
+/**
+ * The part of a trade request that determines its price: which town quotes it,
+ * which good, which way the goods move and how many units.
+ */
+export type QuoteRequest = Pick<TradeRequest, 'toTownId' | 'goodId' | 'side' | 'quantity'>;
+
+/**
+ * Price of a trade priced unit by unit along the quoting town's curve.
+ */
+export interface TradeQuote {
+  /** Price of each unit in the order they trade; the first is the town's quoted price */
+  unitPrices: number[];
+  /** Sum of the unit prices */
+  totalCost: number;
+  /** Total cost divided by quantity (0 for an empty quote) */
+  averagePrice: number;
+}
+
+/**
+ * Prices a trade against the current state (see `createPricingService().quote`).
+ */
+export type TradeQuoter = (state: GameState, request: QuoteRequest) => TradeQuote;
+
+/**
+ * Walks a price curve unit by unit as a trade moves the quoting town's stock.
+ *
+ * The first unit trades at the town's current price. Every further unit is priced
+ * with the stock left (buy) or held (sell) after the units before it, scaled by how
+ * far the curve has moved since the first unit:
+ * unit_i = round( price * curve(stock_i) / curve(stock_0) )
+ * Scaling keeps the prosperity, size and smoothing already applied to the current
+ * price, so a one-unit trade costs exactly the quoted price.
+ *
+ * @param current - The quoting town's stock and price for the good
+ * @param side - 'buy' if the counterparty buys from the town (its stock falls),
+ *   'sell' if the counterparty sells to it (its stock rises)
+ * @param quantity - Number of units to price
+ * @param cfg - Price curve configuration for the good
+ * @param math - Price math implementation
+ * @returns Unit prices, total cost and average price
+ */
+export function quoteAlongCurve(
+  current: TownPriceState,
+  side: TradeRequest['side'],
+  quantity: number,
+  cfg: PriceCurveConfig,
+  math: PriceMath,
+): TradeQuote {
+  const step = side === 'buy' ? -1 : 1;
+  const startCurve = math.nextPrice(current, cfg);
+
+  const unitPrices: number[] = [];
+  for (let i = 0; i < quantity; i++) {
+    if (i === 0 || startCurve <= 0) {
+      unitPrices.push(current.price);
+      continue;
+    }
+    const curve = math.nextPrice({ stock: current.stock + step * i, price: current.price }, cfg);
+    unitPrices.push(Math.round((current.price * curve) / startCurve));
+  }
+
+  const totalCost = unitPrices.reduce((sum, price) => sum + price, 0);
+  return {
+    unitPrices,
+    totalCost,
+    averagePrice: quantity > 0 ? totalCost / quantity : 0,
+  };
+}
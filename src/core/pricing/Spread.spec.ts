@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+
+import type { Town } from '../../types/Town';
+
+import { PriceCurveConfigError } from './Config';
+import {
+  bidAsk,
+  DEFAULT_SPREAD,
+  sidePrice,
+  spreadMargin,
+  townBidAsk,
+  validateSpreadConfig,
+} from './Spread';
+
+describe('Spread', () => {
+  const town: Town = {
+    id: 'riverdale',
+    name: 'Riverdale',
+    resources: { fish: 50, wood: 30 },
+    prices: { fish: 20, wood: 9 },
+    militaryRaw: 0,
+    prosperityRaw: 0,
+    treasury: 1000,
+    revealed: { militaryTier: 'militia', prosperityTier: 'modest', lastUpdatedTurn: 0 },
+  };
+
+  describe('bidAsk', () => {
+    it('takes the margin off for the bid and adds it on for the ask', () => {
+      expect(bidAsk(20, 'modest', { margin: 0.1 })).toEqual({ bid: 18, ask: 22 });
+    });
+
+    it('keeps exact whole prices despite float noise', () => {
+      // 20 * 1.05 is 21.000000000000004 in floating point
+      expect(bidAsk(20, 'modest', { margin: 0.05 })).toEqual({ bid: 19, ask: 21 });
+    });
+
+    it('rounds outward so any margin leaves the ask above the bid', () => {
+      expect(bidAsk(9, 'modest', { margin: 0.01 })).toEqual({ bid: 8, ask: 10 });
+      expect(bidAsk(9, 'modest', { margin: 0 })).toEqual({ bid: 9, ask: 9 });
+    });
+
+    it('uses the tier margin when the town tier has one', () => {
+      const spread = { margin: 0.1, tierMargins: { opulent: 0.5 } };
+
+      expect(spreadMargin('opulent', spread)).toBe(0.5);
+      expect(spreadMargin('modest', spread)).toBe(0.1);
+      expect(bidAsk(20, 'opulent', spread)).toEqual({ bid: 10, ask: 30 });
+    });
+  });
+
+  describe('sidePrice', () => {
+    it('quotes the ask to buyers and the bid to sellers', () => {
+      const spread = { margin: 0.1 };
+
+      expect(sidePrice(town, 'fish', 'buy', spread)).toBe(22);
+      expect(sidePrice(town, 'fish', 'sell', spread)).toBe(18);
+    });
+
+    it('quotes the curve price on both sides without a spread', () => {
+      expect(townBidAsk(town, 'wood')).toEqual({ bid: 9, ask: 9 });
+      expect(sidePrice(town, 'wood', 'buy')).toBe(9);
+    });
+
+    it('returns undefined for goods the town does not quote', () => {
+      expect(townBidAsk(town, 'ore', DEFAULT_SPREAD)).toBeUndefined();
+      expect(sidePrice(town, 'ore', 'sell', DEFAULT_SPREAD)).toBeUndefined();
+    });
+  });
+
+  describe('validateSpreadConfig', () => {
+    it('accepts the default spread', () => {
+      expect(() => validateSpreadConfig(DEFAULT_SPREAD)).not.toThrow();
+    });
+
+    it('rejects margins outside [0, 1) with the path of the margin', () => {
+      expect(() => validateSpreadConfig({ margin: 1 })).toThrow(PriceCurveConfigError);
+      try {
+        validateSpreadConfig({ margin: 0.05, tierMargins: { struggling: -0.1 } });
+        expect.fail('Expected validation to fail');
+      } catch (error) {
+        expect((error as PriceCurveConfigError).path).toBe('spread.tierMargins.struggling');
+      }
+    });
+  });
+});
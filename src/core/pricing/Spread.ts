@@ -0,0 +1,116 @@
+import type { GoodId } from '../../types/Goods';
+import type { ProsperityTier } from '../../types/Tiers';
+import type { Town } from '../../types/Town';
+import type { TradeSide } from '../trade/TradeTypes';
+
+import { PriceCurveConfigError } from './Config';
+
+/**
+ * Bid/ask spread around a town's curve price. Each margin is a fraction of the
+ * curve price taken off for the bid and added on for the ask.
+ */
+export interface SpreadConfig {
+  /** Margin for towns whose prosperity tier has no margin of its own (0 ≤ margin < 1) */
+  margin: number;
+  /** Optional per-tier margins, overriding `margin` for towns of that tier */
+  tierMargins?: Partial<Record<ProsperityTier, number>>;
+}
+
+/**
+ * A town's two prices for a good.
+ */
+export interface BidAsk {
+  /** Price the town pays when others sell to it */
+  bid: number;
+  /** Price the town charges when others buy from it */
+  ask: number;
+}
+
+/**
+ * Default game spread: 5%, wider in struggling towns' thin markets and narrower
+ * in opulent towns' deep ones.
+ */
+export const DEFAULT_SPREAD: SpreadConfig = {
+  margin: 0.05,
+  tierMargins: { struggling: 0.08, opulent: 0.03 },
+};
+
+/**
+ * Validates a spread config.
+ * @throws {PriceCurveConfigError} If a margin is not a finite number in [0, 1)
+ */
+export function validateSpreadConfig(spread: SpreadConfig): void {
+  const check = (value: unknown, path: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value >= 1) {
+      throw new PriceCurveConfigError(path, `Expected a margin from 0 up to 1, got ${value}`);
+    }
+  };
+  check(spread.margin, 'spread.margin');
+  for (const [tier, margin] of Object.entries(spread.tierMargins ?? {})) {
+    check(margin, `spread.tierMargins.${tier}`);
+  }
+}
+
+/**
+ * Gets the margin that applies to a town of the given prosperity tier.
+ */
+export function spreadMargin(tier: ProsperityTier, spread: SpreadConfig): number {
+  return spread.tierMargins?.[tier] ?? spread.margin;
+}
+
+/**
+ * Splits a curve price into a bid and an ask.
+ *
+ * Formula: bid = floor( price * (1 - margin) ), ask = ceil( price * (1 + margin) )
+ * Rounding outward keeps the ask above the bid for any margin above 0, so buying
+ * and selling back at the same town always loses money.
+ *
+ * @param price - The town's curve price
+ * @param tier - The town's prosperity tier
+ * @param spread - Spread config
+ * @returns The bid and ask
+ */
+export function bidAsk(price: number, tier: ProsperityTier, spread: SpreadConfig): BidAsk {
+  const margin = spreadMargin(tier, spread);
+  // Round away float noise first so an exact whole price is not pushed a unit out
+  return {
+    bid: Math.max(0, Math.floor(Number((price * (1 - margin)).toFixed(9)))),
+    ask: Math.ceil(Number((price * (1 + margin)).toFixed(9))),
+  };
+}
+
+/**
+ * Gets a town's bid and ask for a good.
+ *
+ * @param town - The town
+ * @param goodId - The good
+ * @param spread - Optional spread config; without one, both sides are the curve price
+ * @returns The bid and ask, or undefined if the town does not quote the good
+ */
+export function townBidAsk(town: Town, goodId: GoodId, spread?: SpreadConfig): BidAsk | undefined {
+  const price = town.prices[goodId];
+  if (price === undefined) {
+    return undefined;
+  }
+  return spread ? bidAsk(price, town.revealed.prosperityTier, spread) : { bid: price, ask: price };
+}
+
+/**
+ * Gets the price a town trades a good at with a counterparty: its ask when the
+ * counterparty buys, its bid when the counterparty sells.
+ *
+ * @param town - The quoting town
+ * @param goodId - The good
+ * @param side - The counterparty's side of the trade
+ * @param spread - Optional spread config; without one, both sides are the curve price
+ * @returns The price, or undefined if the town does not quote the good
+ */
+export function sidePrice(
+  town: Town,
+  goodId: GoodId,
+  side: TradeSide,
+  spread?: SpreadConfig,
+): number | undefined {
+  const quote = townBidAsk(town, goodId, spread);
+  return quote && (side === 'buy' ? quote.ask : quote.bid);
+}
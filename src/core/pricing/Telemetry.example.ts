@@ -95,7 +95,7 @@ export function integrateWithGameLoop() {
   // });
   //
   // // Process drift with telemetry
-  // gameState = pricingService.perTurnDrift(gameState, {
+  // gameState = pricingService.perTurn(gameState, {
   //   onTrace: telemetryCallback,
   // });
 
@@ -127,7 +127,7 @@ describe('Price Change Telemetry', () => {
       const traces: PriceChangeTrace[] = [];
       const pricingService = createPricingService();
 
-      pricingService.perTurnDrift(mockGameState, {
+      pricingService.perTurn(mockGameState, {
         onTrace: trace => traces.push(trace),
       });
 
@@ -156,7 +156,7 @@ describe('Price Change Telemetry', () => {
 
       // Should not throw or error
       expect(() => {
-        pricingService.perTurnDrift(mockGameState);
+        pricingService.perTurn(mockGameState);
       }).not.toThrow();
     });
   });
@@ -171,7 +171,7 @@ describe('Price Change Telemetry', () => {
         onTrace: trace => traces.push(trace),
       });
 
-      pricingService.perTurnDrift(mockGameState, {
+      pricingService.perTurn(mockGameState, {
         onTrace: trace => traces.push(trace),
       });
 
@@ -27,10 +27,10 @@ export interface PriceChangeTrace {
   /** Current stock level of the good in the town */
   stock: number;
 
-  /** Target stock level from the price curve configuration */
+  /** Target stock level from the town's price curve, after overrides and size scaling */
   target: number;
 
-  /** Elasticity factor from the price curve configuration */
+  /** Elasticity factor from the town's price curve */
   elasticity: number;
 
   /** Town's prosperity tier */
@@ -39,6 +39,9 @@ export interface PriceChangeTrace {
   /** Prosperity multiplier factor applied to the price */
   prosperityFactor: number;
 
+  /** Town size multiplier factor applied to the price */
+  sizeFactor: number;
+
   /** What caused this price change */
   cause: 'post-trade' | 'drift';
 }
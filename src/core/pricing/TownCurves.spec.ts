@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+
+import type { PriceCurveConfig } from './PriceCurve';
+import { townCurveConfig } from './TownCurves';
+
+describe('townCurveConfig', () => {
+  const cfg: PriceCurveConfig = {
+    basePrice: 12,
+    targetStock: 40,
+    elasticity: 0.8,
+    towns: { ironforge: { targetStock: 10, elasticity: 1.5 } },
+  };
+
+  it('should return the good curve for a typical town without overrides', () => {
+    expect(townCurveConfig(cfg, { id: 'riverdale' })).toBe(cfg);
+    expect(townCurveConfig(cfg, { id: 'riverdale', size: 1 })).toBe(cfg);
+  });
+
+  it('should apply the town overrides', () => {
+    expect(townCurveConfig(cfg, { id: 'ironforge' })).toMatchObject({
+      basePrice: 12,
+      targetStock: 10,
+      elasticity: 1.5,
+    });
+  });
+
+  it('should scale target stock by town size after the overrides', () => {
+    expect(townCurveConfig(cfg, { id: 'riverdale', size: 3 }).targetStock).toBe(120);
+    expect(townCurveConfig(cfg, { id: 'ironforge', size: 0.5 }).targetStock).toBe(5);
+  });
+
+  it('should scale piecewise breakpoint stocks by town size', () => {
+    const piecewise: PriceCurveConfig = {
+      ...cfg,
+      kind: 'piecewise',
+      breakpoints: [
+        { stock: 0, price: 30 },
+        { stock: 20, price: 10 },
+      ],
+    };
+
+    expect(townCurveConfig(piecewise, { id: 'riverdale', size: 2 }).breakpoints).toEqual([
+      { stock: 0, price: 30 },
+      { stock: 40, price: 10 },
+    ]);
+  });
+});
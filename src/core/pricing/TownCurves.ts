@@ -0,0 +1,35 @@
+import type { Town } from '../../types/Town';
+
+import type { PriceCurveConfig } from './PriceCurve';
+
+/**
+ * Gets the curve a town prices a good on.
+ *
+ * Applies the town's overrides from `cfg.towns`, then scales the stock the curve is
+ * shaped around by the town's size: `targetStock` and piecewise breakpoint stocks are
+ * multiplied by `town.size`, so a city twice the typical size needs twice the stock
+ * before its price drops as far.
+ *
+ * @param cfg - The good's price curve config
+ * @param town - The pricing town
+ * @returns The town's curve; `cfg` itself when the town has no overrides and size 1
+ */
+export function townCurveConfig(
+  cfg: PriceCurveConfig,
+  town: Pick<Town, 'id' | 'size'>,
+): PriceCurveConfig {
+  const override = cfg.towns?.[town.id];
+  const size = town.size ?? 1;
+  if (!override && size === 1) {
+    return cfg;
+  }
+
+  const curve = { ...cfg, ...override };
+  return {
+    ...curve,
+    targetStock: curve.targetStock * size,
+    ...(curve.breakpoints && {
+      breakpoints: curve.breakpoints.map(point => ({ ...point, stock: point.stock * size })),
+    }),
+  };
+}
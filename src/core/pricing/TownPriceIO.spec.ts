@@ -56,12 +56,10 @@ describe('TownPriceIO', () => {
       expect(updatedTown.prices.ore).toBe(20);
     });
 
-    it('clamps prices to minimum of 1', () => {
+    it('leaves price bounds to the game limits', () => {
+      // A rule allowing free goods must not be lifted to 1 here without a clamp report
       const updatedTown = writeTownPrice(mockTown, 'fish', 0);
-      expect(updatedTown.prices.fish).toBe(1);
-
-      const updatedTown2 = writeTownPrice(mockTown, 'fish', -5);
-      expect(updatedTown2.prices.fish).toBe(1);
+      expect(updatedTown.prices.fish).toBe(0);
     });
 
     it('truncates decimal prices to integers', () => {
@@ -12,8 +12,8 @@ import type { TownPriceState } from './PriceCurve';
  */
 export function readTownPriceState(town: Town, good: GoodId): TownPriceState {
   return {
-    stock: town.resources[good],
-    price: town.prices[good],
+    stock: town.resources[good] ?? 0,
+    price: town.prices[good] ?? 0,
   };
 }
 
@@ -22,12 +22,12 @@ export function readTownPriceState(town: Town, good: GoodId): TownPriceState {
  *
  * @param town - The town to update
  * @param good - The good identifier to update
- * @param newPrice - The new price value
- * @returns New town object with updated price (clamped to minimum 1)
+ * @param newPrice - The new price value, already within the game's price limits
+ * @returns New town object with updated price (truncated to an integer)
  */
 export function writeTownPrice(town: Town, good: GoodId, newPrice: number): Town {
-  // Immutable copy; clamp ≥1
-  const p = Math.max(1, Math.trunc(newPrice));
+  // Immutable copy; bounds are the caller's, so clamps are reported where they happen
+  const p = Math.trunc(newPrice);
   return {
     ...town,
     prices: {
@@ -1,11 +1,52 @@
-export type { PriceCurveConfig, PriceMath, TownPriceState } from './PriceCurve';
-export { createLogRatioPriceMath } from './Curves';
+export { PRICE_CURVE_KINDS } from './PriceCurve';
+export type {
+  CurveClampReporter,
+  PriceAdjustOptions,
+  PriceBreakpoint,
+  PriceCurveConfig,
+  PriceCurveKind,
+  PriceCurveOverride,
+  PriceMath,
+  TownPriceState,
+} from './PriceCurve';
+export {
+  createCurvePriceMath,
+  createLinearPriceMath,
+  createLogisticPriceMath,
+  createLogRatioPriceMath,
+  createPiecewisePriceMath,
+  PRICE_MATH_REGISTRY,
+} from './Curves';
 export { loadPriceCurves, PriceCurveConfigError } from './Config';
 export type { PriceCurveTable } from './Config';
 export { applyPassiveDrift, DEFAULT_DRIFT } from './PassiveDrift';
 export type { DriftOptions } from './PassiveDrift';
-export { applyProsperityAndScale, DEFAULT_PROSPERITY_MULT } from './Multipliers';
+export {
+  applyProsperityAndScale,
+  DEFAULT_PROSPERITY_MULT,
+  DEFAULT_SIZE_PREMIUM,
+  scalePrice,
+  sizeFactor,
+} from './Multipliers';
 export type { ProsperityMultipliers, TownScale } from './Multipliers';
 export { smoothPrice, DEFAULT_SMOOTH } from './Smoothing';
 export type { Smoothing } from './Smoothing';
 export type { PriceChangeTrace, PriceChangeTracer } from './Telemetry';
+export { townCurveConfig } from './TownCurves';
+export { boundCurveConfig, curveClampReporter, limitCurvePrice } from './CurveBounds';
+export { quoteAlongCurve } from './Slippage';
+export type { QuoteRequest, TradeQuote, TradeQuoter } from './Slippage';
+export {
+  bidAsk,
+  DEFAULT_SPREAD,
+  sidePrice,
+  spreadMargin,
+  townBidAsk,
+  validateSpreadConfig,
+} from './Spread';
+export type { BidAsk, SpreadConfig } from './Spread';
+export type { PricingOptions, PricingStrategy, PricingStrategyFactory } from './PricingStrategy';
+export { createPricingService, validatePricingConfig } from './PricingService';
+export type { PricingConfig } from './PricingService';
+export { createLinearPricing } from './LinearPricing';
+export type { LinearPricingOptions } from './LinearPricing';
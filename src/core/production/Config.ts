@@ -1,6 +1,7 @@
 import productionData from '../../data/production.json';
 import type { GoodId } from '../../types/Goods';
 import type { ProductionConfig } from '../../types/Production';
+import { loadGoodsRegistry } from '../goods/GoodsRegistry';
 
 /**
  * Custom error class for production configuration validation errors.
@@ -68,9 +69,13 @@ function validateNonNegativeInteger(value: unknown, path: string): void {
 /**
  * Validates the production configuration for correctness.
  * @param config - The production configuration to validate
+ * @param expectedGoods - Goods that must have a base rate (defaults to the goods registry)
  * @throws ProductionConfigError if validation fails
  */
-export function validateProductionConfig(config: unknown): asserts config is ProductionConfig {
+export function validateProductionConfig(
+  config: unknown,
+  expectedGoods: readonly GoodId[] = loadGoodsRegistry().ids,
+): asserts config is ProductionConfig {
   if (!config || typeof config !== 'object') {
     throw new ProductionConfigError('root', 'Expected object');
   }
@@ -83,7 +88,6 @@ export function validateProductionConfig(config: unknown): asserts config is Pro
   }
 
   const base = configObj.base as Record<string, unknown>;
-  const expectedGoods: GoodId[] = ['fish', 'wood', 'ore'];
 
   // Check that all expected goods are present
   expectedGoods.forEach(goodId => {
@@ -92,6 +96,13 @@ export function validateProductionConfig(config: unknown): asserts config is Pro
     }
   });
 
+  // Check that no unknown goods are present
+  Object.keys(base).forEach(goodId => {
+    if (!expectedGoods.includes(goodId)) {
+      throw new ProductionConfigError(`base.${goodId}`, `Unknown good: ${goodId}`);
+    }
+  });
+
   // Validate base production rates
   expectedGoods.forEach(goodId => {
     validateNonNegativeInteger(base[goodId], `base.${goodId}`);
@@ -113,7 +124,7 @@ export function validateProductionConfig(config: unknown): asserts config is Pro
       const townMultiplierObj = townMultiplier as Record<string, unknown>;
 
       Object.entries(townMultiplierObj).forEach(([goodId, multiplier]) => {
-        if (!expectedGoods.includes(goodId as GoodId)) {
+        if (!expectedGoods.includes(goodId)) {
           throw new ProductionConfigError(
             `townMultipliers.${townId}.${goodId}`,
             `Unknown good: ${goodId}`,
@@ -133,7 +144,7 @@ export function validateProductionConfig(config: unknown): asserts config is Pro
     const maxPerGood = configObj.maxPerGood as Record<string, unknown>;
 
     Object.entries(maxPerGood).forEach(([goodId, maxValue]) => {
-      if (!expectedGoods.includes(goodId as GoodId)) {
+      if (!expectedGoods.includes(goodId)) {
         throw new ProductionConfigError(`maxPerGood.${goodId}`, `Unknown good: ${goodId}`);
       }
       validateNonNegativeInteger(maxValue, `maxPerGood.${goodId}`);
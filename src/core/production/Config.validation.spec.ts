@@ -26,6 +26,25 @@ describe('Production Config Validation - Error Cases', () => {
       }).toThrow('Production config error at base.ore: Missing required good');
     });
 
+    it('should throw error for goods outside the catalog', () => {
+      const badConfig = {
+        base: { fish: 3, wood: 2, ore: 1, grain: 2 },
+      };
+
+      expect(() => {
+        validateProductionConfig(badConfig);
+      }).toThrow('Production config error at base.grain: Unknown good: grain');
+    });
+
+    it('should validate against a custom goods catalog', () => {
+      const config = { base: { fish: 3, grain: 2 } };
+
+      expect(() => validateProductionConfig(config, ['fish', 'grain'])).not.toThrow();
+      expect(() => validateProductionConfig(config, ['fish', 'grain', 'cloth'])).toThrow(
+        'Production config error at base.cloth: Missing required good',
+      );
+    });
+
     it('should throw error for negative base rates', () => {
       const badConfig = {
         base: { fish: -1, wood: 2, ore: 1 },
@@ -3,6 +3,7 @@ import { describe, it, expect } from 'vitest';
 import type { GameState } from '../../types/GameState';
 import type { GoodId, GoodConfig } from '../../types/Goods';
 import type { ProductionConfig } from '../../types/Production';
+import type { ClampEvent } from '../trade/TradeLimits';
 
 import { applyProductionTurn } from './ProductionSystem';
 
@@ -575,6 +576,45 @@ describe('ProductionSystem', () => {
         // ore: 8 + floor(1 * 1.0) = 8 + 1 = 9, no cap
         expect(result.towns[0]!.resources.ore).toBe(9);
       });
+
+      it('caps at the game limits on top of the config caps and reports each clamp', () => {
+        const baseRates = { fish: 5, wood: 3, ore: 2 };
+        const config = createProductionConfig(baseRates, undefined, undefined, { fish: 22 });
+        const clamps: ClampEvent[] = [];
+
+        const initialState = createMockGameState([
+          createMockTown('town1', { fish: 20, wood: 19, ore: 10 }),
+        ]);
+
+        const result = applyProductionTurn(initialState, config, {
+          limits: { maxResource: 21, onClamp: event => clamps.push(event) },
+        });
+
+        // fish: 20 + 5 = 25, capped at the lower of the config cap (22) and the limit (21)
+        expect(result.towns[0]!.resources.fish).toBe(21);
+        // wood: 19 + 3 = 22, capped at the limit
+        expect(result.towns[0]!.resources.wood).toBe(21);
+        // ore: 10 + 2 = 12, under both
+        expect(result.towns[0]!.resources.ore).toBe(12);
+        expect(clamps).toEqual([
+          {
+            source: 'production',
+            townId: 'town1',
+            goodId: 'fish',
+            field: 'resource',
+            value: 25,
+            clamped: 21,
+          },
+          {
+            source: 'production',
+            townId: 'town1',
+            goodId: 'wood',
+            field: 'resource',
+            value: 22,
+            clamped: 21,
+          },
+        ]);
+      });
     });
   });
 });
@@ -1,6 +1,8 @@
 import type { GameState } from '../../types/GameState';
 import type { GoodId } from '../../types/Goods';
 import type { ProductionConfig } from '../../types/Production';
+import { limitResource } from '../trade/TradeLimits';
+import type { TradeLimits } from '../trade/TradeLimits';
 
 /**
  * Options for production calculation and application.
@@ -8,6 +10,11 @@ import type { ProductionConfig } from '../../types/Production';
 export interface ProductionOptions {
   /** Minimum value to clamp resources to (default: 0) */
   clampMin?: number;
+  /**
+   * Optional game limits; `maxResource` caps production on top of the config caps,
+   * and `applyProductionTurn` reports every capped value to `limits.onClamp`
+   */
+  limits?: TradeLimits;
 }
 
 /**
@@ -43,7 +50,7 @@ export function previewProduction(
   cfg: ProductionConfig,
   opts: ProductionOptions = {},
 ): ProductionPreview {
-  const { clampMin = 0 } = opts;
+  const { clampMin = 0, limits } = opts;
   const preview: ProductionPreview = {};
 
   // Calculate production for each town
@@ -75,6 +82,9 @@ export function previewProduction(
       if (cap !== Infinity) {
         nextValue = Math.min(cap, nextValue);
       }
+      if (limits) {
+        nextValue = limitResource(nextValue, limits);
+      }
 
       // Assign the good data to the town entry
       preview[town.id]![good] = {
@@ -131,6 +141,7 @@ function deterministicJitter(
  * - Applies resource caps: per-good cap takes precedence over global cap
  *   - If cap is set, resources are clamped to cap (clamp behavior, not throw)
  *   - If no cap is set, resources accumulate without limit
+ * - With game limits, also caps at `limits.maxResource` and reports each capped value
  *
  * @param state - The current game state
  * @param cfg - Production configuration with base rates, town multipliers, and optional caps
@@ -142,7 +153,7 @@ export function applyProductionTurn(
   cfg: ProductionConfig,
   opts: ProductionOptions = {},
 ): GameState {
-  const { clampMin = 0 } = opts;
+  const { clampMin = 0, limits } = opts;
 
   // Create new towns array with updated resources
   const updatedTowns = state.towns.map(town => {
@@ -170,8 +181,16 @@ export function applyProductionTurn(
       const globalCap = cfg.globalMaxResource;
       const cap = perGoodCap ?? globalCap ?? Infinity;
 
-      // Clamp to cap if one is specified
-      if (cap !== Infinity) {
+      if (limits) {
+        // The game limits apply on top of the config caps; whichever is lower is reported
+        const maxResource = Math.min(cap, limits.maxResource ?? Infinity);
+        nextValue = limitResource(
+          nextValue,
+          { ...limits, maxResource },
+          { source: 'production', townId: town.id, goodId: good },
+        );
+      } else if (cap !== Infinity) {
+        // Clamp to cap if one is specified
         nextValue = Math.min(cap, nextValue);
       }
 
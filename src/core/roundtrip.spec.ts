@@ -54,9 +54,9 @@ describe('GameState round-trip', () => {
     }
 
     if (s1.goods.fish) {
-      expect(s2.goods.fish.id).toStrictEqual(s1.goods.fish.id);
-      expect(s2.goods.fish.name).toStrictEqual(s1.goods.fish.name);
-      expect(s2.goods.fish.effects).toStrictEqual(s1.goods.fish.effects);
+      expect(s2.goods.fish!.id).toStrictEqual(s1.goods.fish.id);
+      expect(s2.goods.fish!.name).toStrictEqual(s1.goods.fish.name);
+      expect(s2.goods.fish!.effects).toStrictEqual(s1.goods.fish.effects);
     }
   });
 
@@ -98,17 +98,21 @@ describe('GameState round-trip', () => {
     expect(s2.goods.ore).toStrictEqual(s1.goods.ore);
 
     // Verify goods effects
-    expect(s2.goods.fish.effects.prosperityDelta).toStrictEqual(
-      s1.goods.fish.effects.prosperityDelta,
+    expect(s2.goods.fish!.effects.prosperityDelta).toStrictEqual(
+      s1.goods.fish!.effects.prosperityDelta,
     );
-    expect(s2.goods.fish.effects.militaryDelta).toStrictEqual(s1.goods.fish.effects.militaryDelta);
-    expect(s2.goods.wood.effects.prosperityDelta).toStrictEqual(
-      s1.goods.wood.effects.prosperityDelta,
+    expect(s2.goods.fish!.effects.militaryDelta).toStrictEqual(
+      s1.goods.fish!.effects.militaryDelta,
     );
-    expect(s2.goods.wood.effects.militaryDelta).toStrictEqual(s1.goods.wood.effects.militaryDelta);
-    expect(s2.goods.ore.effects.prosperityDelta).toStrictEqual(
-      s1.goods.ore.effects.prosperityDelta,
+    expect(s2.goods.wood!.effects.prosperityDelta).toStrictEqual(
+      s1.goods.wood!.effects.prosperityDelta,
     );
-    expect(s2.goods.ore.effects.militaryDelta).toStrictEqual(s1.goods.ore.effects.militaryDelta);
+    expect(s2.goods.wood!.effects.militaryDelta).toStrictEqual(
+      s1.goods.wood!.effects.militaryDelta,
+    );
+    expect(s2.goods.ore!.effects.prosperityDelta).toStrictEqual(
+      s1.goods.ore!.effects.prosperityDelta,
+    );
+    expect(s2.goods.ore!.effects.militaryDelta).toStrictEqual(s1.goods.ore!.effects.militaryDelta);
   });
 });
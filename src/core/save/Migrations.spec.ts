@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+
+import { CURRENT_STATE_VERSION, MigrationRegistry, createDefaultMigrations } from './Migrations';
+import { MigrationError } from './SaveErrors';
+
+describe('MigrationRegistry', () => {
+  it('returns states at the current version unchanged', () => {
+    const registry = new MigrationRegistry(2);
+    const raw = { version: 2, turn: 4 };
+
+    expect(registry.migrate(raw)).toBe(raw);
+  });
+
+  it('runs the chain in order and bumps the version after each step', () => {
+    const calls: number[] = [];
+    const registry = new MigrationRegistry(3)
+      .register(1, raw => {
+        calls.push(raw.version as number);
+        return { ...raw, towns: [] };
+      })
+      .register(2, raw => {
+        calls.push(raw.version as number);
+        return { ...raw, flags: { migrated: true } };
+      });
+
+    const result = registry.migrate({ version: 1, turn: 0 });
+
+    expect(calls).toEqual([1, 2]);
+    expect(result).toEqual({ version: 3, turn: 0, towns: [], flags: { migrated: true } });
+  });
+
+  it('starts the chain from the saved version', () => {
+    const registry = new MigrationRegistry(3)
+      .register(1, () => {
+        throw new Error('should not run');
+      })
+      .register(2, raw => ({ ...raw, added: 1 }));
+
+    expect(registry.migrate({ version: 2 })).toEqual({ version: 3, added: 1 });
+  });
+
+  it('rejects gaps in the chain', () => {
+    const registry = new MigrationRegistry(3).register(2, raw => raw);
+
+    expect(() => registry.migrate({ version: 1 })).toThrow(MigrationError);
+    expect(() => registry.migrate({ version: 1 })).toThrow(
+      'No migration registered from version 1',
+    );
+  });
+
+  it('rejects saves from newer builds and saves without a version', () => {
+    const registry = new MigrationRegistry(1);
+
+    expect(() => registry.migrate({ version: 2 })).toThrow('newer than supported version 1');
+    expect(() => registry.migrate({ turn: 1 })).toThrow('no valid version');
+    expect(() => registry.migrate('nope')).toThrow('must be an object');
+  });
+
+  it('rejects duplicate and invalid registrations', () => {
+    const registry = new MigrationRegistry(3).register(1, raw => raw);
+
+    expect(() => registry.register(1, raw => raw)).toThrow('already registered');
+    expect(() => registry.register(0, raw => raw)).toThrow('integer >= 1');
+  });
+
+  it('default registry targets the current state version', () => {
+    expect(createDefaultMigrations().currentVersion).toBe(CURRENT_STATE_VERSION);
+  });
+});
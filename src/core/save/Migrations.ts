@@ -0,0 +1,96 @@
+import { MigrationError } from './SaveErrors';
+
+/**
+ * Version written into newly created game states (`GameState.version`).
+ * Bump this and register a migration from the previous version whenever
+ * the shape of `GameState` or `Town` changes.
+ */
+export const CURRENT_STATE_VERSION = 1;
+
+/**
+ * Upgrades a raw saved state from one version to the next.
+ * Receives the parsed save data and returns the upgraded data; the registry
+ * updates the `version` field after each step.
+ */
+export type Migration = (raw: Record<string, unknown>) => Record<string, unknown>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Ordered chain of migrations keyed by the version they upgrade from.
+ * Loading a save runs every migration from the save's version up to the current version.
+ */
+export class MigrationRegistry {
+  private migrations = new Map<number, Migration>();
+
+  /**
+   * @param currentVersion - Version that migrated states must end up at
+   */
+  constructor(readonly currentVersion: number = CURRENT_STATE_VERSION) {}
+
+  /**
+   * Register a migration that upgrades states from `fromVersion` to `fromVersion + 1`
+   * @param fromVersion - The version the migration accepts
+   * @param migration - The migration function
+   * @throws Error if a migration is already registered for the version
+   */
+  register(fromVersion: number, migration: Migration): this {
+    if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+      throw new Error(`Migration version must be an integer >= 1, got ${fromVersion}`);
+    }
+    if (this.migrations.has(fromVersion)) {
+      throw new Error(`Migration from version ${fromVersion} is already registered`);
+    }
+    this.migrations.set(fromVersion, migration);
+    return this;
+  }
+
+  /**
+   * Upgrade a raw saved state to the current version.
+   * States already at the current version are returned unchanged.
+   *
+   * @param raw - Parsed save data with a numeric `version` field
+   * @returns The data upgraded to `currentVersion`
+   * @throws MigrationError if the version is missing, newer than the current
+   *   version, or a migration in the chain is not registered
+   */
+  migrate(raw: unknown): Record<string, unknown> {
+    if (!isObject(raw)) {
+      throw new MigrationError(0, 'Saved state must be an object');
+    }
+
+    let version = raw.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new MigrationError(0, `Saved state has no valid version (got ${String(version)})`);
+    }
+
+    if (version > this.currentVersion) {
+      throw new MigrationError(
+        version,
+        `Saved state version ${version} is newer than supported version ${this.currentVersion}`,
+      );
+    }
+
+    let current = raw;
+    while (version < this.currentVersion) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new MigrationError(version, `No migration registered from version ${version}`);
+      }
+      current = { ...migration(current), version: version + 1 };
+      version += 1;
+    }
+
+    return current;
+  }
+}
+
+/**
+ * Creates the registry of migrations shipped with the game.
+ * Register new migrations here when bumping CURRENT_STATE_VERSION.
+ */
+export function createDefaultMigrations(): MigrationRegistry {
+  return new MigrationRegistry(CURRENT_STATE_VERSION);
+}
@@ -0,0 +1,28 @@
+/**
+ * Error thrown when a save slot cannot be written, read or decoded.
+ * Includes the slot name that failed.
+ */
+export class SaveGameError extends Error {
+  constructor(
+    public readonly slot: string,
+    message: string,
+    public override readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'SaveGameError';
+  }
+}
+
+/**
+ * Error thrown when a saved game state cannot be migrated to the current version.
+ * Includes the version the migration chain stopped at.
+ */
+export class MigrationError extends Error {
+  constructor(
+    public readonly version: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
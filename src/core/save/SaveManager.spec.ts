@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import { initGameState } from '../initGameState';
+
+import { MigrationRegistry } from './Migrations';
+import { SaveGameError } from './SaveErrors';
+import { AUTOSAVE_SLOT, DEFAULT_SAVE_KEY_PREFIX, createSaveManager } from './SaveManager';
+import type { SaveStorage } from './SaveStorage';
+import { createLocalStorage, createMemoryStorage } from './SaveStorage';
+
+describe('SaveManager', () => {
+  let storage: SaveStorage;
+  let state: GameState;
+  let clock: number;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    state = initGameState({ rngSeed: 'save-test' });
+    clock = 1000;
+  });
+
+  const createManager = (migrations?: MigrationRegistry) =>
+    createSaveManager({
+      storage,
+      now: () => clock++,
+      ...(migrations && { migrations }),
+    });
+
+  it('round-trips a state through a named slot', () => {
+    const saves = createManager();
+    const saved = { ...state, turn: 7 };
+
+    const info = saves.save('slot-1', saved);
+
+    expect(info).toEqual({ slot: 'slot-1', savedAt: 1000, turn: 7, version: 1 });
+    expect(saves.has('slot-1')).toBe(true);
+    expect(saves.load('slot-1')).toEqual(saved);
+  });
+
+  it('returns null for empty slots', () => {
+    const saves = createManager();
+
+    expect(saves.has(AUTOSAVE_SLOT)).toBe(false);
+    expect(saves.load(AUTOSAVE_SLOT)).toBeNull();
+  });
+
+  it('overwrites and removes slots', () => {
+    const saves = createManager();
+    saves.save('a', state);
+    saves.save('a', { ...state, turn: 3 });
+
+    expect(saves.load('a')?.turn).toBe(3);
+
+    saves.remove('a');
+    expect(saves.load('a')).toBeNull();
+  });
+
+  it('lists slots most recently saved first', () => {
+    const saves = createManager();
+    saves.save('first', state);
+    saves.save('second', { ...state, turn: 2 });
+    storage.setItem('unrelated', 'value');
+
+    expect(saves.list()).toEqual([
+      { slot: 'second', savedAt: 1001, turn: 2, version: 1 },
+      { slot: 'first', savedAt: 1000, turn: 0, version: 1 },
+    ]);
+  });
+
+  it('rejects invalid slot names', () => {
+    const saves = createManager();
+
+    expect(() => saves.save('', state)).toThrow(SaveGameError);
+    expect(() => saves.save('../etc', state)).toThrow('Invalid slot name');
+  });
+
+  it('wraps storage failures in SaveGameError', () => {
+    const saves = createSaveManager({
+      storage: {
+        ...createMemoryStorage(),
+        setItem: () => {
+          throw new Error('QuotaExceededError');
+        },
+      },
+    });
+
+    expect(() => saves.save('full', state)).toThrow('Failed to write save: QuotaExceededError');
+  });
+
+  it('reports corrupt and invalid save data', () => {
+    const saves = createManager();
+
+    storage.setItem(`${DEFAULT_SAVE_KEY_PREFIX}broken`, '{not json');
+    expect(() => saves.load('broken')).toThrow('Save data is corrupt');
+
+    saves.save('invalid', { ...state, turn: -1 });
+    try {
+      saves.load('invalid');
+      expect.fail('Expected SaveGameError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(SaveGameError);
+      expect((error as SaveGameError).slot).toBe('invalid');
+      expect((error as SaveGameError).message).toContain('Invalid save data at turn');
+    }
+  });
+
+  it('migrates saves written by older builds', () => {
+    // Simulate a v1 save loaded by a build where v2 added a field to every Town
+    createManager().save('old', state);
+
+    const migrations = new MigrationRegistry(2).register(1, raw => ({
+      ...raw,
+      towns: (raw.towns as Array<Record<string, unknown>>).map(town => ({
+        ...town,
+        treasury: (town.treasury as number) + 1,
+      })),
+    }));
+    const loaded = createManager(migrations).load('old');
+
+    expect(loaded?.version).toBe(2);
+    expect(loaded?.towns[0]!.treasury).toBe(state.towns[0]!.treasury + 1);
+  });
+
+  it('refuses saves from newer builds', () => {
+    createManager().save('future', { ...state, version: 5 });
+
+    expect(() => createManager().load('future')).toThrow(
+      'Cannot migrate save: Saved state version 5 is newer than supported version 1',
+    );
+  });
+
+  it('persists through a Web Storage backend', () => {
+    window.localStorage.clear();
+    const saves = createSaveManager({ storage: createLocalStorage() });
+
+    saves.save(AUTOSAVE_SLOT, state);
+
+    expect(
+      window.localStorage.getItem(`${DEFAULT_SAVE_KEY_PREFIX}${AUTOSAVE_SLOT}`),
+    ).not.toBeNull();
+    expect(createSaveManager({ storage: createLocalStorage() }).load(AUTOSAVE_SLOT)).toEqual(state);
+    window.localStorage.clear();
+  });
+});
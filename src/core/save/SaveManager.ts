@@ -0,0 +1,221 @@
+import type { GameState } from '../../types/GameState';
+import { validateGameState } from '../validation';
+
+import type { MigrationRegistry } from './Migrations';
+import { createDefaultMigrations } from './Migrations';
+import { MigrationError, SaveGameError } from './SaveErrors';
+import type { SaveStorage } from './SaveStorage';
+
+/** Slot written by autosave at the end of every turn */
+export const AUTOSAVE_SLOT = 'autosave';
+
+/** Default prefix for storage keys, so saves don't collide with other data */
+export const DEFAULT_SAVE_KEY_PREFIX = 'town-econ:save:';
+
+const SLOT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Summary of a save slot, readable without loading the full state.
+ */
+export interface SaveSlotInfo {
+  /** Slot name */
+  slot: string;
+  /** When the slot was written (ms since epoch) */
+  savedAt: number;
+  /** Game turn at the time of saving */
+  turn: number;
+  /** GameState version the slot was written with */
+  version: number;
+}
+
+/**
+ * Record stored for each slot: slot metadata plus the serialized state.
+ */
+interface SaveRecord extends SaveSlotInfo {
+  state: unknown;
+}
+
+/**
+ * Options for creating a save manager
+ */
+export interface SaveManagerOptions {
+  /** Storage backend the slots are written to */
+  storage: SaveStorage;
+  /** Migrations applied when loading older saves (defaults to the built-in chain) */
+  migrations?: MigrationRegistry;
+  /** Prefix for storage keys (defaults to DEFAULT_SAVE_KEY_PREFIX) */
+  keyPrefix?: string;
+  /** Clock used to timestamp saves (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Named save slots backed by a SaveStorage.
+ */
+export interface SaveManager {
+  /**
+   * Writes the state to a slot, replacing any previous save in it.
+   * @throws SaveGameError if the slot name is invalid or the backend rejects the write
+   */
+  save(slot: string, state: GameState): SaveSlotInfo;
+  /**
+   * Reads a slot, migrating and validating the stored state.
+   * @returns The loaded state, or null if the slot is empty
+   * @throws SaveGameError if the stored data is corrupt, cannot be migrated or fails validation
+   */
+  load(slot: string): GameState | null;
+  /** Whether the slot holds a save */
+  has(slot: string): boolean;
+  /** Deletes the save in a slot (no-op if empty) */
+  remove(slot: string): void;
+  /** Lists readable slots, most recently saved first */
+  list(): SaveSlotInfo[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseRecord(json: string): SaveRecord | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (
+    !isObject(parsed) ||
+    typeof parsed.slot !== 'string' ||
+    typeof parsed.savedAt !== 'number' ||
+    typeof parsed.turn !== 'number' ||
+    typeof parsed.version !== 'number' ||
+    !('state' in parsed)
+  ) {
+    return null;
+  }
+
+  return parsed as unknown as SaveRecord;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (isObject(error) && typeof error.path === 'string' && typeof error.message === 'string') {
+    return `${error.path}: ${error.message}`;
+  }
+  return String(error);
+}
+
+/**
+ * Upgrades a parsed saved state to the current version and validates it.
+ *
+ * @param raw - Parsed GameState data, possibly written by an older build
+ * @param migrations - Migration chain to apply (defaults to the built-in chain)
+ * @returns The migrated, validated GameState
+ * @throws MigrationError if the state cannot be migrated, or ValidationError if it is invalid
+ */
+export function restoreGameState(
+  raw: unknown,
+  migrations: MigrationRegistry = createDefaultMigrations(),
+): GameState {
+  const migrated = migrations.migrate(raw);
+  validateGameState(migrated);
+  return migrated;
+}
+
+/**
+ * Creates a save manager for named save slots.
+ *
+ * Saves are stored as JSON records containing slot metadata and the game state.
+ * Loading runs the migration chain from the saved `version` to the current one
+ * and validates the result, so saves from older builds keep working.
+ *
+ * @param options - Storage backend and optional migrations, key prefix and clock
+ * @returns A SaveManager
+ */
+export function createSaveManager(options: SaveManagerOptions): SaveManager {
+  const { storage } = options;
+  const migrations = options.migrations ?? createDefaultMigrations();
+  const keyPrefix = options.keyPrefix ?? DEFAULT_SAVE_KEY_PREFIX;
+  const now = options.now ?? Date.now;
+
+  const keyFor = (slot: string): string => {
+    if (!SLOT_NAME_PATTERN.test(slot)) {
+      throw new SaveGameError(
+        slot,
+        `Invalid slot name '${slot}': use 1-64 letters, digits, '-' or '_'`,
+      );
+    }
+    return `${keyPrefix}${slot}`;
+  };
+
+  return {
+    save(slot, state) {
+      const key = keyFor(slot);
+      const info: SaveSlotInfo = {
+        slot,
+        savedAt: now(),
+        turn: state.turn,
+        version: state.version,
+      };
+      const record: SaveRecord = { ...info, state };
+
+      try {
+        storage.setItem(key, JSON.stringify(record));
+      } catch (error) {
+        throw new SaveGameError(slot, `Failed to write save: ${describeError(error)}`, error);
+      }
+
+      return info;
+    },
+
+    load(slot) {
+      const json = storage.getItem(keyFor(slot));
+      if (json === null) {
+        return null;
+      }
+
+      const record = parseRecord(json);
+      if (!record) {
+        throw new SaveGameError(slot, 'Save data is corrupt');
+      }
+
+      try {
+        return restoreGameState(record.state, migrations);
+      } catch (error) {
+        if (error instanceof MigrationError) {
+          throw new SaveGameError(slot, `Cannot migrate save: ${error.message}`, error);
+        }
+        throw new SaveGameError(slot, `Invalid save data at ${describeError(error)}`, error);
+      }
+    },
+
+    has(slot) {
+      return storage.getItem(keyFor(slot)) !== null;
+    },
+
+    remove(slot) {
+      storage.removeItem(keyFor(slot));
+    },
+
+    list() {
+      const slots: SaveSlotInfo[] = [];
+
+      for (const key of storage.keys()) {
+        if (!key.startsWith(keyPrefix)) {
+          continue;
+        }
+        const json = storage.getItem(key);
+        const record = json === null ? null : parseRecord(json);
+        if (record) {
+          const { slot, savedAt, turn, version } = record;
+          slots.push({ slot, savedAt, turn, version });
+        }
+      }
+
+      return slots.sort((a, b) => b.savedAt - a.savedAt);
+    },
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Key-value backend that save slots are persisted to.
+ * Mirrors the subset of the Web Storage API that the save system needs.
+ */
+export interface SaveStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /** All keys currently stored in the backend */
+  keys(): string[];
+}
+
+/**
+ * Creates an in-memory storage backend (used by tests and headless runs).
+ */
+export function createMemoryStorage(): SaveStorage {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+    keys: () => Array.from(items.keys()),
+  };
+}
+
+/**
+ * Creates a storage backend on top of a Web Storage object.
+ *
+ * @param storage - Web Storage to use (defaults to `window.localStorage`)
+ */
+export function createLocalStorage(storage: Storage = window.localStorage): SaveStorage {
+  return {
+    getItem: key => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: key => storage.removeItem(key),
+    keys: () => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null) {
+          keys.push(key);
+        }
+      }
+      return keys;
+    },
+  };
+}
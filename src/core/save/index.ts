@@ -0,0 +1,12 @@
+export { SaveGameError, MigrationError } from './SaveErrors';
+export { CURRENT_STATE_VERSION, MigrationRegistry, createDefaultMigrations } from './Migrations';
+export type { Migration } from './Migrations';
+export { createMemoryStorage, createLocalStorage } from './SaveStorage';
+export type { SaveStorage } from './SaveStorage';
+export {
+  AUTOSAVE_SLOT,
+  DEFAULT_SAVE_KEY_PREFIX,
+  createSaveManager,
+  restoreGameState,
+} from './SaveManager';
+export type { SaveManager, SaveManagerOptions, SaveSlotInfo } from './SaveManager';
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+
+import { formatSnapshotsCsv, formatSnapshotsJson } from './Report';
+import type { TurnSnapshot } from './Simulator';
+
+const snapshots: TurnSnapshot[] = [
+  {
+    turn: 0,
+    towns: [
+      {
+        id: 'port',
+        treasury: 100,
+        militaryRaw: 2,
+        prosperityRaw: 3,
+        prices: { fish: 4, ore: 9 },
+        resources: { fish: 10, ore: 1 },
+      },
+    ],
+  },
+  {
+    turn: 1,
+    towns: [
+      {
+        id: 'port',
+        treasury: 96,
+        militaryRaw: 2,
+        prosperityRaw: 2,
+        prices: { fish: 5, ore: 9 },
+        resources: { fish: 11, ore: 1 },
+      },
+    ],
+  },
+];
+
+describe('formatSnapshotsCsv', () => {
+  it('writes one row per town per turn with price and stock columns per good', () => {
+    expect(formatSnapshotsCsv(snapshots, ['fish', 'ore'])).toBe(
+      [
+        'turn,town,treasury,militaryRaw,prosperityRaw,price_fish,price_ore,stock_fish,stock_ore',
+        '0,port,100,2,3,4,9,10,1',
+        '1,port,96,2,2,5,9,11,1',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('formatSnapshotsJson', () => {
+  it('round-trips through JSON.parse', () => {
+    expect(JSON.parse(formatSnapshotsJson(snapshots))).toEqual(snapshots);
+  });
+});
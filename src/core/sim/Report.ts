@@ -0,0 +1,49 @@
+import type { GoodId } from '../../types/Goods';
+
+import type { TurnSnapshot } from './Simulator';
+
+/**
+ * Formats snapshots as CSV with one row per town per turn.
+ *
+ * Columns: turn, town, treasury, militaryRaw, prosperityRaw, then
+ * `price_<good>` and `stock_<good>` for every good in `goodIds` order.
+ *
+ * @param snapshots - Snapshots from runSimulation
+ * @param goodIds - Goods to include, in column order
+ * @returns CSV text ending with a newline
+ */
+export function formatSnapshotsCsv(snapshots: TurnSnapshot[], goodIds: readonly GoodId[]): string {
+  const header = [
+    'turn',
+    'town',
+    'treasury',
+    'militaryRaw',
+    'prosperityRaw',
+    ...goodIds.map(goodId => `price_${goodId}`),
+    ...goodIds.map(goodId => `stock_${goodId}`),
+  ];
+
+  const rows = snapshots.flatMap(snapshot =>
+    snapshot.towns.map(town => [
+      snapshot.turn,
+      town.id,
+      town.treasury,
+      town.militaryRaw,
+      town.prosperityRaw,
+      ...goodIds.map(goodId => town.prices[goodId] ?? ''),
+      ...goodIds.map(goodId => town.resources[goodId] ?? ''),
+    ]),
+  );
+
+  return [header, ...rows].map(row => row.join(',')).join('\n') + '\n';
+}
+
+/**
+ * Formats snapshots as pretty-printed JSON (an array of turn snapshots).
+ *
+ * @param snapshots - Snapshots from runSimulation
+ * @returns JSON text ending with a newline
+ */
+export function formatSnapshotsJson(snapshots: TurnSnapshot[]): string {
+  return JSON.stringify(snapshots, null, 2) + '\n';
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import { initGameState } from '../initGameState';
+
+import { SimulationConfigError, parseSimulationConfig, runSimulation } from './Simulator';
+
+describe('runSimulation', () => {
+  const seeded = (): GameState => initGameState({ rngSeed: 'balance' });
+
+  it('records the starting state and one snapshot per turn', async () => {
+    const { state, snapshots } = await runSimulation(seeded(), { turns: 3 });
+
+    expect(snapshots.map(s => s.turn)).toEqual([0, 1, 2, 3]);
+    expect(state.turn).toBe(3);
+    expect(snapshots[0]!.towns.map(t => t.id)).toEqual(['riverdale', 'forestburg', 'ironforge']);
+    expect(snapshots[3]!.towns[0]).toEqual({
+      id: state.towns[0]!.id,
+      treasury: state.towns[0]!.treasury,
+      militaryRaw: state.towns[0]!.militaryRaw,
+      prosperityRaw: state.towns[0]!.prosperityRaw,
+      prices: state.towns[0]!.prices,
+      resources: state.towns[0]!.resources,
+    });
+  });
+
+  it('is deterministic for a given seed', async () => {
+    const a = await runSimulation(seeded(), { turns: 5 });
+    const b = await runSimulation(seeded(), { turns: 5 });
+
+    expect(b.snapshots).toStrictEqual(a.snapshots);
+  });
+
+  it('streams snapshots through onTurn', async () => {
+    const turns: number[] = [];
+
+    await runSimulation(seeded(), { turns: 2, onTurn: s => turns.push(s.turn) });
+
+    expect(turns).toEqual([0, 1, 2]);
+  });
+
+  it('assigns AI profiles to AI towns but not the player town', async () => {
+    const { state } = await runSimulation(seeded(), {
+      turns: 0,
+      ai: { default: 'random', towns: { ironforge: 'greedy' } },
+    });
+
+    expect(state.towns.map(t => t.aiProfileId)).toEqual([undefined, 'random', 'greedy']);
+  });
+
+  it('applies production overrides', async () => {
+    const base = await runSimulation(seeded(), { turns: 1 });
+    const boosted = await runSimulation(seeded(), {
+      turns: 1,
+      config: { production: { base: { fish: 30, wood: 2, ore: 1 } } },
+    });
+
+    const fish = (r: typeof base) => r.state.towns.reduce((sum, t) => sum + t.resources.fish!, 0);
+    expect(fish(boosted)).toBeGreaterThan(fish(base));
+  });
+
+  it('ships traded goods as caravans when shipping is configured', async () => {
+    const instant = await runSimulation(seeded(), { turns: 2, ai: { default: 'greedy' } });
+    const shipped = await runSimulation(seeded(), {
+      turns: 2,
+      ai: { default: 'greedy' },
+      config: { shipping: { distancePerTurn: 250 } },
+    });
+
+    expect(instant.state.caravans ?? []).toEqual([]);
+    expect(shipped.state.caravans?.length).toBeGreaterThan(0);
+  });
+
+  it('rejects unknown towns, profiles and invalid turn counts', async () => {
+    await expect(runSimulation(seeded(), { turns: -1 })).rejects.toThrow(SimulationConfigError);
+    await expect(runSimulation(seeded(), { turns: 1, playerTownId: 'atlantis' })).rejects.toThrow(
+      'Unknown town: atlantis',
+    );
+    await expect(runSimulation(seeded(), { turns: 1, ai: { default: 'lazy' } })).rejects.toThrow(
+      'Unknown AI profile: lazy',
+    );
+    await expect(
+      runSimulation(seeded(), { turns: 1, ai: { towns: { riverdale: 'greedy' } } }),
+    ).rejects.toThrow("riverdale is the player's town");
+  });
+});
+
+describe('parseSimulationConfig', () => {
+  const profile = {
+    id: 'hoarder',
+    mode: 'greedy',
+    weights: { priceSpread: 0.2, prosperity: 0.7, military: 0.1 },
+    maxTradesPerTurn: 1,
+    maxQuantityPerTrade: 10,
+  };
+
+  it('accepts AI profiles, production and stats overrides', () => {
+    const config = parseSimulationConfig({
+      aiProfiles: { hoarder: profile },
+      production: { base: { fish: 1, wood: 1, ore: 1 } },
+      stats: { revealInterval: 1 },
+      shipping: { distancePerTurn: 250 },
+    });
+
+    expect(config.aiProfiles?.hoarder?.mode).toBe('greedy');
+    expect(config.shipping).toEqual({ distancePerTurn: 250 });
+    expect(config.stats?.revealInterval).toBe(1);
+  });
+
+  it('reports the path of malformed settings', () => {
+    const capture = (raw: unknown): string => {
+      try {
+        parseSimulationConfig(raw);
+      } catch (error) {
+        return (error as SimulationConfigError).path;
+      }
+      throw new Error('Expected SimulationConfigError');
+    };
+
+    expect(capture([])).toBe('root');
+    expect(capture({ pricing: {} })).toBe('pricing');
+    expect(capture({ aiProfiles: { hoarder: { ...profile, mode: 'lazy' } } })).toBe(
+      'aiProfiles.hoarder.mode',
+    );
+    expect(capture({ aiProfiles: { other: profile } })).toBe('aiProfiles.other.id');
+    expect(capture({ production: 3 })).toBe('production');
+    expect(
+      capture({ stats: { tiers: { military: [{ tier: 'militia', min: 0 }], prosperity: [] } } }),
+    ).toBe('stats.tiers.prosperity');
+    expect(capture({ map: { costPerUnitDistance: -1, towns: {} } })).toBe(
+      'map.costPerUnitDistance',
+    );
+    expect(capture({ shipping: { distancePerTurn: -5 } })).toBe('shipping.distancePerTurn');
+  });
+});
@@ -0,0 +1,335 @@
+import type { GameState } from '../../types/GameState';
+import type { GoodId } from '../../types/Goods';
+import type { ProductionConfig } from '../../types/Production';
+import { GREEDY, RANDOM } from '../ai/AiProfiles';
+import type { AiProfile } from '../ai/AiTypes';
+import { createTownGraph, loadTownGraph, TownGraphError } from '../map/TownGraph';
+import type { TownGraph } from '../map/TownGraph';
+import { loadProductionConfig } from '../production/Config';
+import type { StatsUpdateOptions } from '../stats/StatsUpdateSystem';
+import { TierConfigError, validateTierConfig } from '../stats/TierConfig';
+import { travelTurnsByDistance } from '../trade/Caravans';
+import { createTurnController } from '../turn/TurnService';
+import type { TurnServiceOptions } from '../turn/TurnService';
+
+/**
+ * Error thrown when a simulation is configured incorrectly.
+ * Includes the path to the problematic setting (e.g. "aiProfiles.greedy.mode", "ai.riverdale").
+ */
+export class SimulationConfigError extends Error {
+  constructor(
+    public path: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SimulationConfigError';
+  }
+}
+
+/**
+ * Per-town values recorded after each turn.
+ */
+export interface TownSnapshot {
+  id: string;
+  treasury: number;
+  militaryRaw: number;
+  prosperityRaw: number;
+  prices: Record<GoodId, number>;
+  resources: Record<GoodId, number>;
+}
+
+/**
+ * Values recorded for every town at the end of a turn (turn 0 is the starting state).
+ */
+export interface TurnSnapshot {
+  turn: number;
+  towns: TownSnapshot[];
+}
+
+/**
+ * Balance overrides applied on top of the bundled data files.
+ */
+export interface SimulationConfig {
+  /** Extra or replacement AI profiles, keyed by profile ID */
+  aiProfiles?: Record<string, AiProfile>;
+  /** Production settings merged over production.json */
+  production?: Partial<ProductionConfig>;
+  /** Stats system options merged over the turn service defaults */
+  stats?: StatsUpdateOptions;
+  /** Town positions, routes and transport cost - without a map, trades pay no transport costs */
+  map?: TownGraph;
+  /**
+   * Caravan shipping, as in the game: traded goods travel `distancePerTurn` map units
+   * per turn, measured on `map` or map.json - without it, goods arrive instantly
+   */
+  shipping?: { distancePerTurn: number };
+}
+
+/**
+ * Which AI profile each AI town uses.
+ */
+export interface AiAssignments {
+  /** Profile for every AI town without an explicit assignment */
+  default?: string;
+  /** Profile per town ID */
+  towns?: Record<string, string>;
+}
+
+/**
+ * Options for running a headless simulation
+ */
+export interface SimulationOptions {
+  /** Number of turns to run */
+  turns: number;
+  /** ID of the player's town (the player queues no actions) - defaults to the first town */
+  playerTownId?: string;
+  /** Balance overrides */
+  config?: SimulationConfig;
+  /** AI profile assignments for AI towns */
+  ai?: AiAssignments;
+  /** Optional callback invoked with each snapshot as it is recorded */
+  onTurn?: (snapshot: TurnSnapshot) => void;
+}
+
+/**
+ * Result of a headless simulation
+ */
+export interface SimulationResult {
+  /** State after the last turn */
+  state: GameState;
+  /** Snapshots for turn 0 (the starting state) and every simulated turn */
+  snapshots: TurnSnapshot[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateAiProfile(value: unknown, path: string, id: string): AiProfile {
+  if (!isObject(value)) {
+    throw new SimulationConfigError(path, 'Expected object');
+  }
+  if (value.id !== id) {
+    throw new SimulationConfigError(`${path}.id`, `Expected id to be '${id}'`);
+  }
+  if (value.mode !== 'random' && value.mode !== 'greedy') {
+    throw new SimulationConfigError(`${path}.mode`, "Expected 'random' or 'greedy'");
+  }
+  if (!isObject(value.weights)) {
+    throw new SimulationConfigError(`${path}.weights`, 'Expected object');
+  }
+  for (const key of ['priceSpread', 'prosperity', 'military'] as const) {
+    if (typeof value.weights[key] !== 'number') {
+      throw new SimulationConfigError(`${path}.weights.${key}`, 'Expected number');
+    }
+  }
+  for (const key of ['maxTradesPerTurn', 'maxQuantityPerTrade'] as const) {
+    const limit = value[key];
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0) {
+      throw new SimulationConfigError(`${path}.${key}`, 'Expected nonnegative integer');
+    }
+  }
+  return value as unknown as AiProfile;
+}
+
+/**
+ * Validates a parsed simulation config file.
+ *
+ * @param raw - Parsed JSON config
+ * @returns The validated config
+ * @throws SimulationConfigError if the config is malformed
+ */
+export function parseSimulationConfig(raw: unknown): SimulationConfig {
+  if (!isObject(raw)) {
+    throw new SimulationConfigError('root', 'Expected object');
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!['aiProfiles', 'production', 'stats', 'map', 'shipping'].includes(key)) {
+      throw new SimulationConfigError(key, `Unknown config section: ${key}`);
+    }
+  }
+
+  const config: SimulationConfig = {};
+
+  if (raw.aiProfiles !== undefined) {
+    if (!isObject(raw.aiProfiles)) {
+      throw new SimulationConfigError('aiProfiles', 'Expected object keyed by profile ID');
+    }
+    const profiles: Record<string, AiProfile> = {};
+    for (const [id, profile] of Object.entries(raw.aiProfiles)) {
+      profiles[id] = validateAiProfile(profile, `aiProfiles.${id}`, id);
+    }
+    config.aiProfiles = profiles;
+  }
+
+  if (raw.production !== undefined) {
+    if (!isObject(raw.production)) {
+      throw new SimulationConfigError('production', 'Expected object');
+    }
+    config.production = raw.production as Partial<ProductionConfig>;
+  }
+
+  if (raw.stats !== undefined) {
+    if (!isObject(raw.stats)) {
+      throw new SimulationConfigError('stats', 'Expected object');
+    }
+    if (raw.stats.tiers !== undefined) {
+      try {
+        validateTierConfig(raw.stats.tiers);
+      } catch (error) {
+        if (error instanceof TierConfigError) {
+          const path = error.path === 'root' ? 'stats.tiers' : `stats.tiers.${error.path}`;
+          throw new SimulationConfigError(path, error.message);
+        }
+        throw error;
+      }
+    }
+    config.stats = raw.stats as StatsUpdateOptions;
+  }
+
+  if (raw.map !== undefined) {
+    try {
+      config.map = createTownGraph(raw.map);
+    } catch (error) {
+      if (error instanceof TownGraphError) {
+        const path = error.path === 'root' ? 'map' : `map.${error.path}`;
+        throw new SimulationConfigError(path, error.message);
+      }
+      throw error;
+    }
+  }
+
+  if (raw.shipping !== undefined) {
+    if (!isObject(raw.shipping)) {
+      throw new SimulationConfigError('shipping', 'Expected object');
+    }
+    const { distancePerTurn } = raw.shipping;
+    if (typeof distancePerTurn !== 'number' || !(distancePerTurn > 0)) {
+      throw new SimulationConfigError('shipping.distancePerTurn', 'Expected positive number');
+    }
+    config.shipping = { distancePerTurn };
+  }
+
+  return config;
+}
+
+/**
+ * Records the per-town values of a game state.
+ */
+export function snapshotTurn(state: GameState): TurnSnapshot {
+  return {
+    turn: state.turn,
+    towns: state.towns.map(town => ({
+      id: town.id,
+      treasury: town.treasury,
+      militaryRaw: town.militaryRaw,
+      prosperityRaw: town.prosperityRaw,
+      prices: { ...town.prices },
+      resources: { ...town.resources },
+    })),
+  };
+}
+
+/**
+ * Sets `aiProfileId` on AI towns according to the assignments.
+ * @throws SimulationConfigError for unknown towns or profiles
+ */
+function assignAiProfiles(
+  state: GameState,
+  ai: AiAssignments,
+  profiles: Record<string, AiProfile>,
+  playerTownId: string,
+): GameState {
+  const checkProfile = (profileId: string, path: string): void => {
+    if (!(profileId in profiles)) {
+      throw new SimulationConfigError(path, `Unknown AI profile: ${profileId}`);
+    }
+  };
+
+  if (ai.default !== undefined) {
+    checkProfile(ai.default, 'ai.default');
+  }
+  for (const [townId, profileId] of Object.entries(ai.towns ?? {})) {
+    if (!state.towns.some(town => town.id === townId)) {
+      throw new SimulationConfigError(`ai.${townId}`, `Unknown town: ${townId}`);
+    }
+    if (townId === playerTownId) {
+      throw new SimulationConfigError(`ai.${townId}`, `Town ${townId} is the player's town`);
+    }
+    checkProfile(profileId, `ai.${townId}`);
+  }
+
+  return {
+    ...state,
+    towns: state.towns.map(town => {
+      const profileId = ai.towns?.[town.id] ?? ai.default;
+      return town.id === playerTownId || profileId === undefined
+        ? town
+        : { ...town, aiProfileId: profileId };
+    }),
+  };
+}
+
+/**
+ * Runs a headless simulation for a number of turns and records a snapshot of
+ * every town after each turn. The player's town queues no actions, so the
+ * result depends only on the starting state (including its RNG seed) and the
+ * options, which makes runs reproducible for balance comparisons.
+ *
+ * @param initialState - Starting game state
+ * @param options - Turn count, AI assignments and balance overrides
+ * @returns The final state and the recorded snapshots
+ * @throws SimulationConfigError if the options are invalid
+ */
+export async function runSimulation(
+  initialState: GameState,
+  options: SimulationOptions,
+): Promise<SimulationResult> {
+  const { turns, config = {}, ai = {} } = options;
+
+  if (!Number.isInteger(turns) || turns < 0) {
+    throw new SimulationConfigError('turns', `Expected nonnegative integer, got ${turns}`);
+  }
+
+  const playerTownId = options.playerTownId ?? initialState.towns[0]?.id;
+  if (playerTownId === undefined || !initialState.towns.some(t => t.id === playerTownId)) {
+    throw new SimulationConfigError('playerTownId', `Unknown town: ${String(playerTownId)}`);
+  }
+
+  const aiProfiles = { greedy: GREEDY, random: RANDOM, ...config.aiProfiles };
+  let state = assignAiProfiles(initialState, ai, aiProfiles, playerTownId);
+
+  const serviceOptions: TurnServiceOptions = {
+    aiProfiles,
+    playerTownId,
+    ...(config.stats && { stats: config.stats }),
+    ...(config.map && { townGraph: config.map }),
+    ...(config.shipping && {
+      shipping: {
+        travelTurns: travelTurnsByDistance(
+          config.map ?? loadTownGraph(),
+          config.shipping.distancePerTurn,
+        ),
+      },
+    }),
+    ...(config.production && {
+      productionConfig: { ...loadProductionConfig(), ...config.production },
+    }),
+  };
+  const { controller } = createTurnController(state, serviceOptions);
+
+  const record = (s: GameState): TurnSnapshot => {
+    const snapshot = snapshotTurn(s);
+    options.onTurn?.(snapshot);
+    return snapshot;
+  };
+
+  const snapshots = [record(state)];
+  for (let i = 0; i < turns; i++) {
+    state = (await controller.runTurn(state)).state;
+    snapshots.push(record(state));
+  }
+
+  return { state, snapshots };
+}
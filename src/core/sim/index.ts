@@ -0,0 +1,15 @@
+export {
+  SimulationConfigError,
+  parseSimulationConfig,
+  runSimulation,
+  snapshotTurn,
+} from './Simulator';
+export type {
+  AiAssignments,
+  SimulationConfig,
+  SimulationOptions,
+  SimulationResult,
+  TownSnapshot,
+  TurnSnapshot,
+} from './Simulator';
+export { formatSnapshotsCsv, formatSnapshotsJson } from './Report';
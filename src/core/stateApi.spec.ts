@@ -90,6 +90,20 @@ describe('stateApi', () => {
           expect(() => incPrice(frozenTown, id, 10)).not.toThrow();
         });
       });
+
+      it("should check good IDs against the state's goods when given", () => {
+        const goods = {
+          ...baseState.goods,
+          salt: { id: 'salt', name: 'Salt', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+        };
+
+        expect(setResource(baseTown, 'salt', 4, goods).resources.salt).toBe(4);
+        expect(incPrice(baseTown, 'salt', 3, goods).prices.salt).toBe(3);
+        expect(() => setPrice(baseTown, 'toString', 1, goods)).toThrow(
+          "Unknown good ID: 'toString'",
+        );
+        expect(() => incResource(baseTown, 'salt', 1)).toThrow("Unknown good ID: 'salt'");
+      });
     });
 
     describe('Integer Validation', () => {
@@ -1433,9 +1447,9 @@ describe('stateApi', () => {
       expect(result.towns[1]?.revealed.prosperityTier).toBe('struggling');
 
       // Verify goods properties are preserved
-      expect(result.goods.fish.effects.prosperityDelta).toBe(2);
-      expect(result.goods.wood.effects.militaryDelta).toBe(2);
-      expect(result.goods.ore.effects.prosperityDelta).toBe(3);
+      expect(result.goods.fish!.effects.prosperityDelta).toBe(2);
+      expect(result.goods.wood!.effects.militaryDelta).toBe(2);
+      expect(result.goods.ore!.effects.prosperityDelta).toBe(3);
     });
 
     it('should work with empty towns array', () => {
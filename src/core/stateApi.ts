@@ -1,7 +1,13 @@
 import type { GameState } from '../types/GameState';
-import type { GoodId } from '../types/Goods';
+import type { GoodConfig, GoodId } from '../types/Goods';
 import type { Town } from '../types/Town';
 
+import { loadGoodsRegistry } from './goods/GoodsRegistry';
+import type { GoodsRegistry } from './goods/GoodsRegistry';
+
+/** The bundled goods catalog, loaded on first use */
+let catalog: GoodsRegistry | undefined;
+
 /**
  * Safely retrieves a town by its ID from the game state.
  *
@@ -24,11 +30,17 @@ export function getTown(state: GameState, townId: string): Town {
  * Validates that a good ID exists in the game configuration.
  *
  * @param goodId - The good ID to validate
+ * @param goods - Goods to check against (defaults to the goods catalog)
  * @throws Error if the good ID is not recognized
  */
-function validateGoodId(goodId: string): asserts goodId is GoodId {
-  const validGoodIds: GoodId[] = ['fish', 'wood', 'ore'];
-  if (!validGoodIds.includes(goodId as GoodId)) {
+function validateGoodId(
+  goodId: string,
+  goods?: Readonly<Record<GoodId, GoodConfig>>,
+): asserts goodId is GoodId {
+  const known = goods
+    ? Object.hasOwn(goods, goodId)
+    : (catalog ??= loadGoodsRegistry()).has(goodId);
+  if (!known) {
     throw new Error(`Unknown good ID: '${goodId}'`);
   }
 }
@@ -41,12 +53,18 @@ function validateGoodId(goodId: string): asserts goodId is GoodId {
  * @param town - The town to update
  * @param goodId - The good ID to set resource for
  * @param amount - The amount to set (will be clamped to ≥0 if negative)
+ * @param goods - Goods to check `goodId` against, e.g. `state.goods` (defaults to the goods catalog)
  * @returns A new Town object with updated resources
  * @throws Error if goodId is not recognized
  */
-export function setResource(town: Town, goodId: string, amount: number): Town {
+export function setResource(
+  town: Town,
+  goodId: string,
+  amount: number,
+  goods?: Readonly<Record<GoodId, GoodConfig>>,
+): Town {
   // Validate goodId exists
-  validateGoodId(goodId);
+  validateGoodId(goodId, goods);
 
   // Validate amount is an integer
   if (!Number.isInteger(amount)) {
@@ -78,12 +96,18 @@ export function setResource(town: Town, goodId: string, amount: number): Town {
  * @param town - The town to update
  * @param goodId - The good ID to increment resource for
  * @param delta - The amount to add/subtract (will be floored at 0 if result would be negative)
+ * @param goods - Goods to check `goodId` against, e.g. `state.goods` (defaults to the goods catalog)
  * @returns A new Town object with updated resources
  * @throws Error if goodId is not recognized or delta is not an integer
  */
-export function incResource(town: Town, goodId: string, delta: number): Town {
+export function incResource(
+  town: Town,
+  goodId: string,
+  delta: number,
+  goods?: Readonly<Record<GoodId, GoodConfig>>,
+): Town {
   // Validate goodId exists
-  validateGoodId(goodId);
+  validateGoodId(goodId, goods);
 
   // Validate delta is an integer
   if (!Number.isInteger(delta)) {
@@ -117,12 +141,18 @@ export function incResource(town: Town, goodId: string, delta: number): Town {
  * @param town - The town to update
  * @param goodId - The good ID to set price for
  * @param price - The price to set (will be clamped to ≥0 if negative)
+ * @param goods - Goods to check `goodId` against, e.g. `state.goods` (defaults to the goods catalog)
  * @returns A new Town object with updated prices
  * @throws Error if goodId is not recognized or price is not an integer
  */
-export function setPrice(town: Town, goodId: string, price: number): Town {
+export function setPrice(
+  town: Town,
+  goodId: string,
+  price: number,
+  goods?: Readonly<Record<GoodId, GoodConfig>>,
+): Town {
   // Validate goodId exists
-  validateGoodId(goodId);
+  validateGoodId(goodId, goods);
 
   // Validate price is an integer
   if (!Number.isInteger(price)) {
@@ -154,12 +184,18 @@ export function setPrice(town: Town, goodId: string, price: number): Town {
  * @param town - The town to update
  * @param goodId - The good ID to increment price for
  * @param delta - The amount to add/subtract (will be floored at 0 if result would be negative)
+ * @param goods - Goods to check `goodId` against, e.g. `state.goods` (defaults to the goods catalog)
  * @returns A new Town object with updated prices
  * @throws Error if goodId is not recognized or delta is not an integer
  */
-export function incPrice(town: Town, goodId: string, delta: number): Town {
+export function incPrice(
+  town: Town,
+  goodId: string,
+  delta: number,
+  goods?: Readonly<Record<GoodId, GoodConfig>>,
+): Town {
   // Validate goodId exists
-  validateGoodId(goodId);
+  validateGoodId(goodId, goods);
 
   // Validate delta is an integer
   if (!Number.isInteger(delta)) {
@@ -5,6 +5,7 @@ import type { Town } from '../../types/Town';
 
 import { DEFAULT_REVEAL_POLICY } from './RevealCadence';
 import { applyRevealPass } from './RevealSystem';
+import { TierConfigError } from './TierConfig';
 
 describe('RevealSystem', () => {
   const createMockTown = (
@@ -201,6 +202,29 @@ describe('RevealSystem', () => {
       expect(() => applyRevealPass(state, 'test-seed')).not.toThrow();
     });
 
+    it('should use a custom tier configuration', () => {
+      const town = createMockTown('town1', 5, 5, 0);
+      const state = createMockGameState(2, [town]);
+      const tiers = {
+        military: [{ tier: 'host' as const, min: 0 }],
+        prosperity: [{ tier: 'opulent' as const, min: 0 }],
+      };
+
+      const result = applyRevealPass(state, 'test-seed', DEFAULT_REVEAL_POLICY, tiers);
+
+      expect(result.towns[0]!.revealed.militaryTier).toBe('host');
+      expect(result.towns[0]!.revealed.prosperityTier).toBe('opulent');
+    });
+
+    it('should reject an invalid tier configuration', () => {
+      const state = createMockGameState(2, [createMockTown('town1', 75, 80, 0)]);
+      const tiers = { military: [], prosperity: [{ tier: 'opulent' as const, min: 0 }] };
+
+      expect(() => applyRevealPass(state, 'test-seed', DEFAULT_REVEAL_POLICY, tiers)).toThrow(
+        TierConfigError,
+      );
+    });
+
     it('should never return unknown tier values', () => {
       const town = createMockTown('town1', 75, 80, 0);
       const state = createMockGameState(2, [town]);
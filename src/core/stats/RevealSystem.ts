@@ -4,6 +4,7 @@ import type { MilitaryTier, ProsperityTier } from '../../types/Tiers';
 import { fuzzyTierFor } from './FuzzyTier';
 import { isRevealDue, DEFAULT_REVEAL_POLICY } from './RevealCadence';
 import type { RevealPolicy } from './RevealCadence';
+import { MILITARY_TIERS, PROSPERITY_TIERS, loadTierConfig, validateTierConfig } from './TierConfig';
 import type { TierConfig } from './TierMap';
 
 /**
@@ -11,45 +12,18 @@ import type { TierConfig } from './TierMap';
  * @param state - The current game state
  * @param seed - Random seed for deterministic fuzzy tier generation
  * @param policy - The reveal policy to follow (defaults to DEFAULT_REVEAL_POLICY)
+ * @param tierConfig - Tier thresholds to map raw stats with (defaults to tierThresholds.json)
  * @returns A new game state with updated revealed tier information
+ * @throws TierConfigError if the tier configuration is invalid
  */
 export function applyRevealPass(
   state: GameState,
   seed: string,
   policy: RevealPolicy = DEFAULT_REVEAL_POLICY,
+  tierConfig: TierConfig = loadTierConfig(),
 ): GameState {
-  // Load tier thresholds from data
-  const tierConfig: TierConfig = {
-    military: [
-      { tier: 'militia', min: 0 },
-      { tier: 'garrison', min: 20 },
-      { tier: 'formidable', min: 50 },
-      { tier: 'host', min: 90 },
-    ],
-    prosperity: [
-      { tier: 'struggling', min: 0 },
-      { tier: 'modest', min: 25 },
-      { tier: 'prosperous', min: 60 },
-      { tier: 'opulent', min: 95 },
-    ],
-  };
-
   // Always validate tier configuration
-  const validMilitaryTiers: MilitaryTier[] = ['militia', 'garrison', 'formidable', 'host'];
-  const validProsperityTiers: ProsperityTier[] = ['struggling', 'modest', 'prosperous', 'opulent'];
-
-  // Ensure all configured tiers are valid
-  tierConfig.military.forEach(threshold => {
-    if (!validMilitaryTiers.includes(threshold.tier as MilitaryTier)) {
-      throw new Error(`Invalid military tier in configuration: ${threshold.tier}`);
-    }
-  });
-
-  tierConfig.prosperity.forEach(threshold => {
-    if (!validProsperityTiers.includes(threshold.tier as ProsperityTier)) {
-      throw new Error(`Invalid prosperity tier in configuration: ${threshold.tier}`);
-    }
-  });
+  validateTierConfig(tierConfig);
 
   // Create new state with updated towns
   const updatedTowns = state.towns.map(town => {
@@ -77,15 +51,15 @@ export function applyRevealPass(
     ) as ProsperityTier;
 
     // Always validate revealed tiers are in allowed set
-    if (!validMilitaryTiers.includes(militaryTier)) {
+    if (!MILITARY_TIERS.includes(militaryTier)) {
       throw new Error(
-        `Revealed military tier ${militaryTier} is not in allowed set: ${validMilitaryTiers.join(', ')}`,
+        `Revealed military tier ${militaryTier} is not in allowed set: ${MILITARY_TIERS.join(', ')}`,
       );
     }
 
-    if (!validProsperityTiers.includes(prosperityTier)) {
+    if (!PROSPERITY_TIERS.includes(prosperityTier)) {
       throw new Error(
-        `Revealed prosperity tier ${prosperityTier} is not in allowed set: ${validProsperityTiers.join(', ')}`,
+        `Revealed prosperity tier ${prosperityTier} is not in allowed set: ${PROSPERITY_TIERS.join(', ')}`,
       );
     }
 
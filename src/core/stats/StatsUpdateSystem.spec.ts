@@ -4,6 +4,7 @@ import type { GameState } from '../../types/GameState';
 
 import type { RawStatRules } from './RawStatSystem';
 import { createStatsUpdateSystem } from './StatsUpdateSystem';
+import { TierConfigError } from './TierConfig';
 
 // Mock game state for testing
 function createMockGameState(overrides: Partial<GameState> = {}): GameState {
@@ -125,6 +126,35 @@ describe('StatsUpdateSystem', () => {
       expect(result.towns[1]!.revealed.lastUpdatedTurn).toBe(3);
     });
 
+    it('should reveal with custom tier thresholds', () => {
+      const system = createStatsUpdateSystem({
+        tiers: {
+          military: [{ tier: 'garrison', min: 0 }],
+          prosperity: [{ tier: 'struggling', min: 0 }],
+        },
+      });
+
+      // town2 was last revealed on turn 0, so it is due on turn 2
+      const result = system(createMockGameState({ turn: 2 }));
+
+      expect(result.towns[1]!.revealed.militaryTier).toBe('garrison');
+      expect(result.towns[1]!.revealed.prosperityTier).toBe('struggling');
+    });
+
+    it('should reject invalid tier thresholds at creation', () => {
+      expect(() =>
+        createStatsUpdateSystem({
+          tiers: {
+            military: [
+              { tier: 'militia', min: 10 },
+              { tier: 'garrison', min: 5 },
+            ],
+            prosperity: [{ tier: 'struggling', min: 0 }],
+          },
+        }),
+      ).toThrow(TierConfigError);
+    });
+
     it('should not reveal on non-interval turns', () => {
       const system = createStatsUpdateSystem({ revealInterval: 2 });
       const initialState = createMockGameState({
@@ -4,6 +4,8 @@ import { type FuzzOptions } from './FuzzyTier';
 import { applyRawStatTurn, type RawStatRules, DEFAULT_RAW_RULES } from './RawStatSystem';
 import { type RevealPolicy, DEFAULT_REVEAL_POLICY } from './RevealCadence';
 import { applyRevealPass } from './RevealSystem';
+import { loadTierConfig, validateTierConfig } from './TierConfig';
+import type { TierConfig } from './TierMap';
 
 /**
  * Configuration options for the stats update system
@@ -15,6 +17,8 @@ export interface StatsUpdateOptions {
   revealInterval?: number;
   /** Fuzzy tier options (jitter probability) */
   fuzz?: FuzzOptions;
+  /** Tier thresholds for revealed tiers (defaults to tierThresholds.json) */
+  tiers?: TierConfig;
 }
 
 /**
@@ -23,12 +27,17 @@ export interface StatsUpdateOptions {
  * @param opts - Configuration options for the system
  * @param seedAccessor - Optional function to extract seed from game state (defaults to rngSeed)
  * @returns A function that can be registered with UpdatePipeline
+ * @throws TierConfigError if `opts.tiers` is invalid
  */
 
 export function createStatsUpdateSystem(
   _opts?: StatsUpdateOptions,
   _seedAccessor?: (_gameState: GameState) => string,
 ): (_gameState: GameState) => GameState {
+  // Validate tier thresholds up front so bad configs fail at setup rather than mid-turn
+  const tiers = _opts?.tiers ?? loadTierConfig();
+  validateTierConfig(tiers);
+
   return (_gameState: GameState) => {
     // Step 1: Apply raw stat updates (decay, etc.)
     const s1 = applyRawStatTurn(_gameState, { ...DEFAULT_RAW_RULES, ..._opts?.raw });
@@ -41,7 +50,7 @@ export function createStatsUpdateSystem(
     // Use provided seed accessor or fall back to rngSeed
     const seed = _seedAccessor ? _seedAccessor(s1) : s1.rngSeed;
 
-    const s2 = applyRevealPass(s1, seed, policy);
+    const s2 = applyRevealPass(s1, seed, policy, tiers);
 
     return s2;
   };
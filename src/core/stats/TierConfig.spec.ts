@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+
+import { loadTierConfig, TierConfigError, validateTierConfig } from './TierConfig';
+
+const military = [
+  { tier: 'militia', min: 0 },
+  { tier: 'garrison', min: 20 },
+];
+const prosperity = [
+  { tier: 'struggling', min: 0 },
+  { tier: 'modest', min: 25 },
+];
+
+function captureError(fn: () => void): TierConfigError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof TierConfigError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected TierConfigError to be thrown');
+}
+
+describe('TierConfig', () => {
+  describe('loadTierConfig', () => {
+    it('loads the bundled tierThresholds.json', () => {
+      const config = loadTierConfig();
+
+      expect(config.military.map(t => t.tier)).toEqual([
+        'militia',
+        'garrison',
+        'formidable',
+        'host',
+      ]);
+      expect(config.prosperity[1]).toEqual({ tier: 'modest', min: 25 });
+    });
+
+    it('accepts partial tier lists', () => {
+      expect(loadTierConfig({ military, prosperity })).toEqual({ military, prosperity });
+    });
+  });
+
+  describe('validateTierConfig', () => {
+    it('rejects a non-object root', () => {
+      expect(captureError(() => validateTierConfig(null)).path).toBe('root');
+      expect(captureError(() => validateTierConfig([])).path).toBe('root');
+    });
+
+    it('rejects missing and empty lists', () => {
+      expect(captureError(() => validateTierConfig({ military })).path).toBe('prosperity');
+      expect(captureError(() => validateTierConfig({ military: [], prosperity })).path).toBe(
+        'military',
+      );
+    });
+
+    it('rejects unknown tier names', () => {
+      const error = captureError(() =>
+        validateTierConfig({ military: [{ tier: 'opulent', min: 0 }], prosperity }),
+      );
+
+      expect(error.path).toBe('military[0].tier');
+      expect(error.message).toContain('Unknown tier opulent');
+    });
+
+    it('rejects duplicate tiers', () => {
+      const error = captureError(() =>
+        validateTierConfig({ military: [...military, { tier: 'militia', min: 40 }], prosperity }),
+      );
+
+      expect(error.path).toBe('military[2].tier');
+      expect(error.message).toContain('Duplicate tier militia');
+    });
+
+    it('rejects non-numeric mins', () => {
+      const error = captureError(() =>
+        validateTierConfig({ military, prosperity: [{ tier: 'modest', min: '25' }] }),
+      );
+
+      expect(error.path).toBe('prosperity[0].min');
+    });
+
+    it('rejects mins that are not strictly ascending', () => {
+      const error = captureError(() =>
+        validateTierConfig({
+          military,
+          prosperity: [
+            { tier: 'struggling', min: 0 },
+            { tier: 'modest', min: 30 },
+            { tier: 'prosperous', min: 30 },
+          ],
+        }),
+      );
+
+      expect(error.path).toBe('prosperity[2].min');
+      expect(error.message).toContain('Expected mins in ascending order, got 30 after 30');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import tierThresholdsData from '../../data/tierThresholds.json';
+import type { MilitaryTier, ProsperityTier } from '../../types/Tiers';
+
+import type { TierConfig } from './TierMap';
+
+/** Every military tier name, weakest to strongest */
+export const MILITARY_TIERS: readonly MilitaryTier[] = [
+  'militia',
+  'garrison',
+  'formidable',
+  'host',
+];
+
+/** Every prosperity tier name, poorest to richest */
+export const PROSPERITY_TIERS: readonly ProsperityTier[] = [
+  'struggling',
+  'modest',
+  'prosperous',
+  'opulent',
+];
+
+/**
+ * Custom error class for tier configuration validation errors.
+ * Includes the path to the problematic configuration value.
+ */
+export class TierConfigError extends Error {
+  constructor(
+    public path: string,
+    message: string,
+  ) {
+    super(`Tier config error at ${path}: ${message}`);
+    this.name = 'TierConfigError';
+  }
+}
+
+/**
+ * Validates one list of tier thresholds.
+ * @param value - The list to validate
+ * @param path - The path to the list for error reporting
+ * @param knownTiers - Tier names allowed in this list
+ * @throws TierConfigError if validation fails
+ */
+function validateThresholds(value: unknown, path: string, knownTiers: readonly string[]): void {
+  if (!Array.isArray(value)) {
+    throw new TierConfigError(path, 'Expected array of thresholds');
+  }
+
+  if (value.length === 0) {
+    throw new TierConfigError(path, 'Expected at least one threshold');
+  }
+
+  const seen = new Set<string>();
+  let previousMin = -Infinity;
+
+  value.forEach((threshold: unknown, index) => {
+    const entryPath = `${path}[${index}]`;
+
+    if (threshold === null || typeof threshold !== 'object') {
+      throw new TierConfigError(entryPath, 'Expected object');
+    }
+
+    const { tier, min } = threshold as Record<string, unknown>;
+
+    if (typeof tier !== 'string' || !knownTiers.includes(tier)) {
+      throw new TierConfigError(
+        `${entryPath}.tier`,
+        `Unknown tier ${String(tier)}, expected one of: ${knownTiers.join(', ')}`,
+      );
+    }
+
+    if (seen.has(tier)) {
+      throw new TierConfigError(`${entryPath}.tier`, `Duplicate tier ${tier}`);
+    }
+    seen.add(tier);
+
+    if (typeof min !== 'number' || !Number.isFinite(min)) {
+      throw new TierConfigError(`${entryPath}.min`, `Expected finite number, got ${String(min)}`);
+    }
+
+    if (min <= previousMin) {
+      throw new TierConfigError(
+        `${entryPath}.min`,
+        `Expected mins in ascending order, got ${min} after ${previousMin}`,
+      );
+    }
+    previousMin = min;
+  });
+}
+
+/**
+ * Validates a tier configuration: both lists must be non-empty, use known tier
+ * names at most once, and list thresholds with strictly ascending mins.
+ * @param config - The tier configuration to validate
+ * @throws TierConfigError if validation fails
+ */
+export function validateTierConfig(config: unknown): asserts config is TierConfig {
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+    throw new TierConfigError('root', 'Expected object');
+  }
+
+  const { military, prosperity } = config as Record<string, unknown>;
+  validateThresholds(military, 'military', MILITARY_TIERS);
+  validateThresholds(prosperity, 'prosperity', PROSPERITY_TIERS);
+}
+
+/**
+ * Loads and validates tier thresholds.
+ * @param data - Raw tier configuration (defaults to tierThresholds.json)
+ * @returns The validated tier configuration
+ * @throws TierConfigError if validation fails
+ */
+export function loadTierConfig(data: unknown = tierThresholdsData): TierConfig {
+  validateTierConfig(data);
+  return data;
+}
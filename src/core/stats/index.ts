@@ -1,4 +1,5 @@
 export * from './TierMap';
+export * from './TierConfig';
 export * from './RevealCadence';
 export * from './FuzzyTier';
 export * from './RawStatSystem';
@@ -0,0 +1,48 @@
+import type { GameState } from '../../types/GameState';
+import type { GoodId, GoodConfig } from '../../types/Goods';
+
+import type { ValidatedBarter } from './BarterValidator';
+import type { ShippingOptions } from './Caravans';
+import { executeTrade } from './TradeExecutor';
+import type { TradeLimits } from './TradeLimits';
+import type { BarterResult } from './TradeTypes';
+
+/**
+ * Executes a validated barter by running both of its legs through `executeTrade`.
+ * The legs carry no currency, so only goods move (and the transport cost is paid).
+ *
+ * Each leg applies its good's effects as a trade would: both towns gain the
+ * prosperity of both goods, and each town gains the military effect of the good
+ * it receives. With shipping options, each good leaves as its own caravan.
+ *
+ * @param state - Current game state
+ * @param vb - Validated barter to execute
+ * @param goods - Configuration for all goods in the game
+ * @param limits - Optional trade limits
+ * @param shipping - Optional shipping options; when set, goods travel by caravan
+ * @returns BarterResult with updated state and deltas
+ */
+export function executeBarter(
+  state: GameState,
+  vb: ValidatedBarter,
+  goods: Record<GoodId, GoodConfig>,
+  limits?: TradeLimits,
+  shipping?: ShippingOptions,
+): BarterResult {
+  const given = executeTrade(state, vb.give, goods, limits, shipping);
+  const received = executeTrade(given.state, vb.receive, goods, limits, shipping);
+  const caravans = [given.caravan, received.caravan].filter(caravan => caravan !== undefined);
+
+  return {
+    state: received.state,
+    // The second leg starts from the first, so its deltas hold both towns' final values
+    deltas: received.deltas,
+    givenQuantity: vb.give.qty,
+    receivedQuantity: vb.receive.qty,
+    exchangeRate: vb.exchangeRate,
+    givenUnitValue: vb.give.unitPrice,
+    receivedUnitValue: vb.receive.unitPrice,
+    transportCost: given.transportCost + received.transportCost,
+    ...(caravans.length > 0 && { caravans }),
+  };
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import type { GoodId, GoodConfig } from '../../types/Goods';
+import { createTownGraph } from '../map/TownGraph';
+import { createPricingService } from '../pricing/PricingService';
+import type { PriceChangeTrace } from '../pricing/Telemetry';
+
+import { performBarter } from './BarterService';
+import { TradeValidationError } from './TradeErrors';
+import type { BarterRequest } from './TradeTypes';
+
+describe('BarterService', () => {
+  let state: GameState;
+  let goods: Record<GoodId, GoodConfig>;
+  let pricingService: ReturnType<typeof createPricingService>;
+
+  // Wood is worth (10 + 12) / 2 = 11 and fish (5 + 6) / 2 = 5.5, so 1 wood buys 2 fish
+  const woodForFish: BarterRequest = {
+    fromTownId: 'town1',
+    toTownId: 'town2',
+    side: 'barter',
+    goodId: 'wood',
+    quantity: 10,
+    wantGoodId: 'fish',
+  };
+
+  beforeEach(() => {
+    state = {
+      turn: 0,
+      version: 1,
+      rngSeed: 'test-seed-123',
+      towns: [
+        {
+          id: 'town1',
+          name: 'Town 1',
+          resources: { wood: 100, fish: 50, ore: 30 },
+          prices: { wood: 10, fish: 5, ore: 8 },
+          // Too poor to buy anything, but it can still barter
+          treasury: 0,
+          prosperityRaw: 50,
+          militaryRaw: 20,
+          revealed: { militaryTier: 'militia', prosperityTier: 'struggling', lastUpdatedTurn: 0 },
+        },
+        {
+          id: 'town2',
+          name: 'Town 2',
+          resources: { wood: 80, fish: 60, ore: 25 },
+          prices: { wood: 12, fish: 6, ore: 9 },
+          treasury: 800,
+          prosperityRaw: 40,
+          militaryRaw: 15,
+          revealed: { militaryTier: 'militia', prosperityTier: 'struggling', lastUpdatedTurn: 0 },
+        },
+      ],
+      goods: {
+        wood: { id: 'wood', name: 'Wood', effects: { prosperityDelta: 2, militaryDelta: 1 } },
+        fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+        ore: { id: 'ore', name: 'Ore', effects: { prosperityDelta: 3, militaryDelta: 2 } },
+      },
+    };
+    goods = state.goods;
+    pricingService = createPricingService();
+  });
+
+  it('should swap goods at the exchange rate without moving currency', async () => {
+    const result = await performBarter(state, woodForFish, pricingService, goods);
+
+    expect(result.givenQuantity).toBe(10);
+    expect(result.receivedQuantity).toBe(20);
+    expect(result.exchangeRate).toBe(2);
+    expect(result.transportCost).toBe(0);
+
+    const [town1, town2] = result.state.towns;
+    expect(town1!.resources).toEqual({ wood: 90, fish: 70, ore: 30 });
+    expect(town2!.resources).toEqual({ wood: 90, fish: 40, ore: 25 });
+    expect(town1!.treasury).toBe(0);
+    expect(town2!.treasury).toBe(800);
+    expect(result.deltas.from.resources).toEqual(town1!.resources);
+    expect(result.deltas.to.resources).toEqual(town2!.resources);
+  });
+
+  it('should apply the effects of both goods', async () => {
+    const result = await performBarter(state, woodForFish, pricingService, goods);
+
+    const [town1, town2] = result.state.towns;
+    // Both towns gain the prosperity of wood (2) and fish (1)
+    expect(town1!.prosperityRaw).toBe(53);
+    expect(town2!.prosperityRaw).toBe(43);
+    // Each town gains the military effect of the good it receives
+    expect(town1!.militaryRaw).toBe(20); // fish: 0
+    expect(town2!.militaryRaw).toBe(16); // wood: 1
+  });
+
+  it('should adjust the prices of both goods in both towns through the pricing service', async () => {
+    const traces: PriceChangeTrace[] = [];
+    pricingService = createPricingService({ onTrace: trace => traces.push(trace) });
+
+    const result = await performBarter(state, woodForFish, pricingService, goods);
+
+    expect(traces.map(trace => `${trace.townId}:${trace.goodId}`)).toEqual([
+      'town1:wood',
+      'town2:wood',
+      'town1:fish',
+      'town2:fish',
+    ]);
+    for (const trace of traces) {
+      const town = result.state.towns.find(t => t.id === trace.townId)!;
+      expect(town.prices[trace.goodId]).toBe(trace.final);
+    }
+    expect(result.state.towns[0]!.prices.ore).toBe(8);
+  });
+
+  it('should charge the initiating town transport for both directions', async () => {
+    const graph = createTownGraph({
+      costPerUnitDistance: 0.01,
+      towns: { town1: { x: 0, y: 0 }, town2: { x: 300, y: 400 } },
+    });
+    state = {
+      ...state,
+      towns: [{ ...state.towns[0]!, treasury: 200 }, state.towns[1]!],
+    };
+
+    const result = await performBarter(state, woodForFish, pricingService, goods, undefined, graph);
+
+    // 30 units moved over a distance of 500 at 0.01 per unit of distance
+    expect(result.transportCost).toBe(150);
+    expect(result.state.towns[0]!.treasury).toBe(50);
+    expect(result.state.towns[1]!.treasury).toBe(800);
+  });
+
+  it('should ship each good as its own caravan', async () => {
+    const result = await performBarter(
+      state,
+      woodForFish,
+      pricingService,
+      goods,
+      undefined,
+      undefined,
+      {
+        travelTurns: 2,
+      },
+    );
+
+    expect(result.caravans).toEqual([
+      expect.objectContaining({
+        originId: 'town1',
+        destinationId: 'town2',
+        goodId: 'wood',
+        quantity: 10,
+      }),
+      expect.objectContaining({
+        originId: 'town2',
+        destinationId: 'town1',
+        goodId: 'fish',
+        quantity: 20,
+      }),
+    ]);
+    expect(result.state.towns[0]!.resources.fish).toBe(50);
+    expect(result.state.towns[1]!.resources.wood).toBe(80);
+  });
+
+  it('should reject an invalid barter without changing state', async () => {
+    const request = { ...woodForFish, quantity: 200 };
+
+    await expect(performBarter(state, request, pricingService, goods)).rejects.toThrow(
+      TradeValidationError,
+    );
+    expect(state.towns[0]!.resources.wood).toBe(100);
+  });
+});
@@ -0,0 +1,53 @@
+import type { GameState } from '../../types/GameState';
+import type { GoodId, GoodConfig } from '../../types/Goods';
+import type { TownGraph } from '../map/TownGraph';
+import type { PricingStrategy } from '../pricing/PricingStrategy';
+
+import { executeBarter } from './BarterExecutor';
+import { validateBarter } from './BarterValidator';
+import type { ShippingOptions } from './Caravans';
+import type { TradeLimits } from './TradeLimits';
+import type { BarterRequest, BarterResult } from './TradeTypes';
+
+/**
+ * Performs a complete barter: validation, execution and post-trade price
+ * adjustment of both goods through the pricing service. Goods are exchanged at
+ * the towns' current prices (see `quoteBarter`), so no treasury is needed beyond
+ * any transport cost.
+ *
+ * @param state - Current game state
+ * @param request - Barter request to process
+ * @param pricingService - Pricing service for post-trade price adjustments
+ * @param goods - Configuration for all goods in the game
+ * @param limits - Optional trade limits
+ * @param graph - Optional town graph for transport costs
+ * @param shipping - Optional shipping options; when set, goods travel by caravan
+ * @returns Promise resolving to BarterResult with final state and deltas
+ * @throws TradeValidationError if validation fails
+ */
+export async function performBarter(
+  state: GameState,
+  request: BarterRequest,
+  pricingService: PricingStrategy,
+  goods: Record<GoodId, GoodConfig>,
+  limits?: TradeLimits,
+  graph?: TownGraph,
+  shipping?: ShippingOptions,
+): Promise<BarterResult> {
+  // Step 1: Validate the barter and split it into its two legs
+  const validatedBarter = validateBarter(state, request, graph);
+
+  // Step 2: Move both goods (and pay transport)
+  const executionResult = executeBarter(state, validatedBarter, goods, limits, shipping);
+
+  // Step 3: Adjust both goods' prices in both towns from their new stock levels
+  const finalState = [validatedBarter.give, validatedBarter.receive].reduce(
+    (next, leg) => pricingService.afterTrade(next, leg),
+    executionResult.state,
+  );
+
+  return {
+    ...executionResult,
+    state: finalState,
+  };
+}
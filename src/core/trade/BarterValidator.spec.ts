@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import { createTownGraph } from '../map/TownGraph';
+
+import { quoteBarter, validateBarter } from './BarterValidator';
+import type { TradeValidationError } from './TradeErrors';
+import type { BarterRequest } from './TradeTypes';
+
+describe('BarterValidator', () => {
+  const state: GameState = {
+    turn: 1,
+    version: 1,
+    rngSeed: 'test-seed',
+    towns: [
+      {
+        id: 'town1',
+        name: 'Portsmouth',
+        resources: { fish: 100, wood: 50, ore: 25 },
+        prices: { fish: 10, wood: 20, ore: 30 },
+        treasury: 50,
+        militaryRaw: 50,
+        prosperityRaw: 75,
+        revealed: { militaryTier: 'formidable', prosperityTier: 'prosperous', lastUpdatedTurn: 1 },
+      },
+      {
+        id: 'town2',
+        name: 'Ironforge',
+        resources: { fish: 25, wood: 100, ore: 8 },
+        prices: { fish: 12, wood: 18, ore: 25 },
+        treasury: 2000,
+        militaryRaw: 100,
+        prosperityRaw: 50,
+        revealed: { militaryTier: 'host', prosperityTier: 'modest', lastUpdatedTurn: 1 },
+      },
+    ],
+    goods: {
+      fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+      wood: { id: 'wood', name: 'Wood', effects: { prosperityDelta: 0, militaryDelta: 1 } },
+      ore: { id: 'ore', name: 'Ore', effects: { prosperityDelta: 2, militaryDelta: 2 } },
+    },
+  };
+
+  // Fish is worth (10 + 12) / 2 = 11 and wood (20 + 18) / 2 = 19
+  const fishForWood: BarterRequest = {
+    fromTownId: 'town1',
+    toTownId: 'town2',
+    side: 'barter',
+    goodId: 'fish',
+    quantity: 20,
+    wantGoodId: 'wood',
+  };
+
+  const pathOf = (request: BarterRequest): string | undefined => {
+    try {
+      validateBarter(state, request);
+    } catch (error) {
+      return (error as TradeValidationError).path;
+    }
+    return undefined;
+  };
+
+  describe('quoteBarter', () => {
+    it('should value both goods at the mean of both towns prices', () => {
+      expect(quoteBarter(state.towns[0]!, state.towns[1]!, 'fish', 20, 'wood')).toEqual({
+        giveUnitValue: 11,
+        receiveUnitValue: 19,
+        exchangeRate: 11 / 19,
+        // 20 × 11 / 19 = 11.58
+        receivedQuantity: 11,
+      });
+    });
+
+    it('should return undefined when a town does not quote a good', () => {
+      const town = { ...state.towns[1]!, prices: { fish: 12 } };
+
+      expect(quoteBarter(state.towns[0]!, town, 'fish', 20, 'wood')).toBeUndefined();
+    });
+  });
+
+  describe('validateBarter', () => {
+    it('should split a valid barter into a give and a receive leg without currency', () => {
+      const result = validateBarter(state, fishForWood);
+
+      expect(result.give).toMatchObject({
+        goodId: 'fish',
+        qty: 20,
+        unitPrice: 11,
+        side: 'sell',
+        totalPrice: 0,
+      });
+      expect(result.receive).toMatchObject({
+        goodId: 'wood',
+        qty: 11,
+        unitPrice: 19,
+        side: 'buy',
+        totalPrice: 0,
+      });
+      expect(result.give.from.id).toBe('town1');
+      expect(result.receive.to.id).toBe('town2');
+    });
+
+    it('should reject unknown towns and goods', () => {
+      expect(pathOf({ ...fishForWood, fromTownId: 'nowhere' })).toBe('fromTownId');
+      expect(pathOf({ ...fishForWood, toTownId: 'nowhere' })).toBe('toTownId');
+      expect(() => validateBarter(state, { ...fishForWood, wantGoodId: 'gold' as 'wood' })).toThrow(
+        "Good 'gold' not available in town 'Portsmouth'",
+      );
+    });
+
+    it('should reject bartering a good for itself', () => {
+      expect(() => validateBarter(state, { ...fishForWood, wantGoodId: 'fish' })).toThrow(
+        "Cannot barter 'fish' for itself",
+      );
+    });
+
+    it('should reject invalid quantities and offers worth less than one unit', () => {
+      expect(pathOf({ ...fishForWood, quantity: 0 })).toBe('quantity');
+      expect(pathOf({ ...fishForWood, quantity: 1.5 })).toBe('quantity');
+      expect(() => validateBarter(state, { ...fishForWood, quantity: 1 })).toThrow(
+        'Offer too small: 1 fish is worth less than one wood',
+      );
+    });
+
+    it('should require stock on both sides', () => {
+      expect(() => validateBarter(state, { ...fishForWood, quantity: 150 })).toThrow(
+        "Insufficient stock: town 'Portsmouth' has 100 fish, but 150 offered",
+      );
+      // 50 wood is worth 50 × 19 / 27.5 = 34 ore, but Ironforge has 8
+      expect(() =>
+        validateBarter(state, { ...fishForWood, goodId: 'wood', quantity: 50, wantGoodId: 'ore' }),
+      ).toThrow("Insufficient stock: town 'Ironforge' has 8 ore, but 34 needed");
+      expect(pathOf({ ...fishForWood, goodId: 'wood', quantity: 50, wantGoodId: 'ore' })).toBe(
+        'towns[1].resources.ore',
+      );
+    });
+
+    it('should reject a barter that would receive fewer units than the minimum', () => {
+      expect(() => validateBarter(state, { ...fishForWood, minReceiveQuantity: 12 })).toThrow(
+        'Exchange rate moved: 20 fish now buys 11 wood, below the minimum of 12',
+      );
+      expect(validateBarter(state, { ...fishForWood, minReceiveQuantity: 11 }).receive.qty).toBe(
+        11,
+      );
+    });
+
+    it('should require the initiating town to afford transport both ways', () => {
+      // 2 per unit over a distance of 200
+      const graph = createTownGraph({
+        costPerUnitDistance: 0.01,
+        towns: { town1: { x: 0, y: 0 }, town2: { x: 120, y: 160 } },
+      });
+
+      // 20 fish out and 11 wood back at 2 per unit = 62 > 50
+      expect(() => validateBarter(state, fishForWood, graph)).toThrow(
+        "Insufficient treasury: town 'Portsmouth' has 50 currency, but 62 transport cost needed",
+      );
+      expect(
+        validateBarter(state, { ...fishForWood, quantity: 10 }, graph).give.transportCost,
+      ).toBe(
+        // 10 fish out and 5 wood back
+        30,
+      );
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import type { GameState } from '../../types/GameState';
+import type { GoodId } from '../../types/Goods';
+import type { Town } from '../../types/Town';
+import type { TownGraph } from '../map/TownGraph';
+
+import { TradeValidationError } from './TradeErrors';
+import type { BarterRequest } from './TradeTypes';
+import type { ValidatedTrade } from './TradeValidator';
+
+/**
+ * Exchange terms of a barter at the two towns' current prices.
+ */
+export interface BarterQuote {
+  /** Value of one unit of the offered good: the mean of both towns' prices */
+  giveUnitValue: number;
+  /** Value of one unit of the wanted good: the mean of both towns' prices */
+  receiveUnitValue: number;
+  /** Units of the wanted good per unit offered */
+  exchangeRate: number;
+  /** Whole units of the wanted good received for the offered quantity (rounded down) */
+  receivedQuantity: number;
+}
+
+/**
+ * Represents a validated barter as two legs with no currency attached: the offered
+ * good moving to the other town (a sell) and the wanted good coming back (a buy).
+ * Both legs have a total price of 0; their unit prices are the values used for the
+ * exchange rate. The offering leg carries the transport cost of the whole barter.
+ */
+export interface ValidatedBarter {
+  /** Leg moving the offered good from the initiating town to the other town */
+  give: ValidatedTrade;
+  /** Leg moving the wanted good from the other town to the initiating town */
+  receive: ValidatedTrade;
+  /** Units of the wanted good per unit offered */
+  exchangeRate: number;
+}
+
+/**
+ * Prices a barter from both towns' current prices. Each good is valued at the mean
+ * of the two towns' prices, so neither side's market alone sets the terms, and the
+ * offered value buys as many whole units of the wanted good as it covers.
+ *
+ * @param from - The initiating town
+ * @param to - The other town
+ * @param goodId - The offered good
+ * @param quantity - Units offered
+ * @param wantGoodId - The wanted good
+ * @returns Exchange terms, or undefined if either town does not quote both goods
+ */
+export function quoteBarter(
+  from: Town,
+  to: Town,
+  goodId: GoodId,
+  quantity: number,
+  wantGoodId: GoodId,
+): BarterQuote | undefined {
+  const giveFrom = from.prices[goodId];
+  const giveTo = to.prices[goodId];
+  const wantFrom = from.prices[wantGoodId];
+  const wantTo = to.prices[wantGoodId];
+  if (
+    giveFrom === undefined ||
+    giveTo === undefined ||
+    wantFrom === undefined ||
+    wantTo === undefined
+  ) {
+    return undefined;
+  }
+
+  const giveUnitValue = (giveFrom + giveTo) / 2;
+  const receiveUnitValue = (wantFrom + wantTo) / 2;
+  const exchangeRate = receiveUnitValue > 0 ? giveUnitValue / receiveUnitValue : 0;
+
+  return {
+    giveUnitValue,
+    receiveUnitValue,
+    exchangeRate,
+    // Round away float noise first so an exact whole number of units is not lost
+    receivedQuantity: Math.floor(Number((quantity * exchangeRate).toFixed(9))),
+  };
+}
+
+/**
+ * Validates a barter request and returns it as two currency-free trade legs.
+ * Throws TradeValidationError with a precise path if validation fails.
+ *
+ * When a town graph is given, the initiating town pays to move the goods both
+ * ways (the offered and the received quantity together) and must be able to afford it.
+ *
+ * @param state - Current game state
+ * @param req - Barter request to validate
+ * @param graph - Optional town graph used to compute the transport cost
+ * @returns ValidatedBarter with resolved Town objects and the exchange terms
+ * @throws TradeValidationError if validation fails
+ */
+export function validateBarter(
+  state: GameState,
+  req: BarterRequest,
+  graph?: TownGraph,
+): ValidatedBarter {
+  const townIndex = (townId: string) => state.towns.findIndex(t => t.id === townId);
+
+  // Check if both towns exist
+  const fromTown = state.towns.find(town => town.id === req.fromTownId);
+  if (!fromTown) {
+    throw new TradeValidationError('fromTownId', `Town with ID '${req.fromTownId}' not found`);
+  }
+  const toTown = state.towns.find(town => town.id === req.toTownId);
+  if (!toTown) {
+    throw new TradeValidationError('toTownId', `Town with ID '${req.toTownId}' not found`);
+  }
+
+  // Check that both goods exist in both towns' resources
+  for (const goodId of [req.goodId, req.wantGoodId]) {
+    for (const town of [fromTown, toTown]) {
+      if (!(goodId in town.resources)) {
+        throw new TradeValidationError(
+          `towns[${townIndex(town.id)}].resources.${goodId}`,
+          `Good '${goodId}' not available in town '${town.name}'`,
+        );
+      }
+    }
+  }
+
+  if (req.goodId === req.wantGoodId) {
+    throw new TradeValidationError(
+      'wantGoodId',
+      `Cannot barter '${req.goodId}' for itself; choose a different good`,
+    );
+  }
+
+  // Validate quantity: must be positive integer
+  if (!Number.isInteger(req.quantity) || req.quantity <= 0) {
+    throw new TradeValidationError(
+      'quantity',
+      `Quantity must be a positive integer, got ${req.quantity}`,
+    );
+  }
+
+  // The initiating town must hold the goods it offers
+  if ((fromTown.resources[req.goodId] ?? 0) < req.quantity) {
+    throw new TradeValidationError(
+      `towns[${townIndex(req.fromTownId)}].resources.${req.goodId}`,
+      `Insufficient stock: town '${fromTown.name}' has ${fromTown.resources[req.goodId]} ${req.goodId}, but ${req.quantity} offered`,
+    );
+  }
+
+  // Price the exchange from both towns' current prices
+  const quote = quoteBarter(fromTown, toTown, req.goodId, req.quantity, req.wantGoodId);
+  if (!quote) {
+    throw new TradeValidationError(
+      'goodId',
+      `Cannot price the barter: towns '${fromTown.name}' and '${toTown.name}' must both quote ${req.goodId} and ${req.wantGoodId}`,
+    );
+  }
+  if (quote.receivedQuantity < 1) {
+    throw new TradeValidationError(
+      'quantity',
+      `Offer too small: ${req.quantity} ${req.goodId} is worth less than one ${req.wantGoodId}`,
+    );
+  }
+  if (req.minReceiveQuantity !== undefined && quote.receivedQuantity < req.minReceiveQuantity) {
+    throw new TradeValidationError(
+      'minReceiveQuantity',
+      `Exchange rate moved: ${req.quantity} ${req.goodId} now buys ${quote.receivedQuantity} ${req.wantGoodId}, below the minimum of ${req.minReceiveQuantity}`,
+    );
+  }
+
+  // The other town must hold the goods it gives back
+  if ((toTown.resources[req.wantGoodId] ?? 0) < quote.receivedQuantity) {
+    throw new TradeValidationError(
+      `towns[${townIndex(req.toTownId)}].resources.${req.wantGoodId}`,
+      `Insufficient stock: town '${toTown.name}' has ${toTown.resources[req.wantGoodId]} ${req.wantGoodId}, but ${quote.receivedQuantity} needed`,
+    );
+  }
+
+  // The initiating town pays to move the goods both ways
+  const transportCost = graph
+    ? graph.transportCost(req.fromTownId, req.toTownId, req.quantity + quote.receivedQuantity)
+    : 0;
+  if (fromTown.treasury < transportCost) {
+    throw new TradeValidationError(
+      `towns[${townIndex(req.fromTownId)}].treasury`,
+      `Insufficient treasury: town '${fromTown.name}' has ${fromTown.treasury} currency, but ${transportCost} transport cost needed`,
+    );
+  }
+
+  return {
+    give: {
+      from: fromTown,
+      to: toTown,
+      goodId: req.goodId,
+      qty: req.quantity,
+      unitPrice: quote.giveUnitValue,
+      side: 'sell',
+      totalPrice: 0,
+      ...(graph && { transportCost }),
+    },
+    receive: {
+      from: fromTown,
+      to: toTown,
+      goodId: req.wantGoodId,
+      qty: quote.receivedQuantity,
+      unitPrice: quote.receiveUnitValue,
+      side: 'buy',
+      totalPrice: 0,
+    },
+    exchangeRate: quote.exchangeRate,
+  };
+}
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+
+import type { Caravan, GameState } from '../../types/GameState';
+import type { GoodId } from '../../types/Goods';
+import { createTownGraph } from '../map/TownGraph';
+import { createPricingService } from '../pricing/PricingService';
+
+import {
+  createCaravanSystem,
+  deliverCaravans,
+  dispatchCaravan,
+  resolveTravelTurns,
+  travelTurnsByDistance,
+} from './Caravans';
+import { executeTrade } from './TradeExecutor';
+import { performTrade } from './TradeService';
+import type { ValidatedTrade } from './TradeValidator';
+
+describe('Caravans', () => {
+  const mockGoods = {
+    fish: {
+      id: 'fish' as GoodId,
+      name: 'Fish',
+      effects: { prosperityDelta: 2, militaryDelta: 1 },
+    },
+    wood: {
+      id: 'wood' as GoodId,
+      name: 'Wood',
+      effects: { prosperityDelta: 1, militaryDelta: 3 },
+    },
+    ore: {
+      id: 'ore' as GoodId,
+      name: 'Ore',
+      effects: { prosperityDelta: -1, militaryDelta: 5 },
+    },
+  };
+
+  const createState = (caravans?: Caravan[]): GameState => ({
+    turn: 3,
+    version: 1,
+    rngSeed: 'test-seed',
+    towns: [
+      {
+        id: 'town1',
+        name: 'Port Town',
+        resources: { fish: 100, wood: 50, ore: 25 },
+        treasury: 1000,
+        prices: { fish: 10, wood: 20, ore: 50 },
+        prosperityRaw: 50,
+        militaryRaw: 30,
+        revealed: { militaryTier: 'militia', prosperityTier: 'modest', lastUpdatedTurn: 1 },
+      },
+      {
+        id: 'town2',
+        name: 'Mining Town',
+        resources: { fish: 25, wood: 100, ore: 75 },
+        treasury: 800,
+        prices: { fish: 12, wood: 18, ore: 45 },
+        prosperityRaw: 40,
+        militaryRaw: 45,
+        revealed: { militaryTier: 'garrison', prosperityTier: 'modest', lastUpdatedTurn: 1 },
+      },
+    ],
+    goods: mockGoods,
+    ...(caravans && { caravans }),
+  });
+
+  const caravan = (overrides: Partial<Caravan> = {}): Caravan => ({
+    id: 'caravan-1-0',
+    originId: 'town2',
+    destinationId: 'town1',
+    goodId: 'wood',
+    quantity: 10,
+    departedTurn: 1,
+    arrivalTurn: 3,
+    ...overrides,
+  });
+
+  const shipping = { travelTurns: 2 };
+
+  describe('travel time', () => {
+    it('rounds travel turns up and never goes below one', () => {
+      expect(resolveTravelTurns({ travelTurns: 2 }, 'a', 'b')).toBe(2);
+      expect(resolveTravelTurns({ travelTurns: 1.2 }, 'a', 'b')).toBe(2);
+      expect(resolveTravelTurns({ travelTurns: 0 }, 'a', 'b')).toBe(1);
+      expect(resolveTravelTurns({ travelTurns: () => NaN }, 'a', 'b')).toBe(1);
+    });
+
+    it('derives travel turns from map distance', () => {
+      const graph = createTownGraph({
+        costPerUnitDistance: 0,
+        towns: { a: { x: 0, y: 0 }, b: { x: 300, y: 400 } },
+      });
+      const travelTurns = travelTurnsByDistance(graph, 200);
+
+      expect(resolveTravelTurns({ travelTurns }, 'a', 'b')).toBe(3);
+      expect(resolveTravelTurns({ travelTurns }, 'a', 'ghost')).toBe(1);
+      expect(() => travelTurnsByDistance(graph, 0)).toThrow('must be positive');
+    });
+  });
+
+  describe('dispatchCaravan', () => {
+    it('adds a caravan that arrives after the travel time', () => {
+      const shipment = { originId: 'town2', destinationId: 'town1', goodId: 'wood', quantity: 5 };
+
+      const first = dispatchCaravan(createState(), shipment, shipping);
+      const second = dispatchCaravan(first.state, shipment, shipping);
+
+      expect(first.caravan).toEqual({
+        id: 'caravan-3-0',
+        ...shipment,
+        departedTurn: 3,
+        arrivalTurn: 5,
+      });
+      expect(second.caravan.id).toBe('caravan-3-1');
+      expect(second.state.caravans).toHaveLength(2);
+    });
+  });
+
+  describe('executeTrade with shipping', () => {
+    it('ships bought goods to the initiating town', () => {
+      const state = createState();
+      const vt: ValidatedTrade = {
+        from: state.towns[0]!,
+        to: state.towns[1]!,
+        goodId: 'wood',
+        qty: 10,
+        unitPrice: 18,
+        side: 'buy',
+      };
+
+      const result = executeTrade(state, vt, mockGoods, undefined, shipping);
+
+      // The buyer pays and the seller gives up the goods now...
+      expect(result.state.towns[0]!.treasury).toBe(820);
+      expect(result.state.towns[1]!.treasury).toBe(980);
+      expect(result.state.towns[1]!.resources.wood).toBe(90);
+      // ...but the goods only land when the caravan arrives
+      expect(result.state.towns[0]!.resources.wood).toBe(50);
+      expect(result.caravan).toMatchObject({
+        originId: 'town2',
+        destinationId: 'town1',
+        goodId: 'wood',
+        quantity: 10,
+        arrivalTurn: 5,
+      });
+      expect(result.state.caravans).toEqual([result.caravan]);
+    });
+
+    it('ships sold goods to the receiving town', () => {
+      const state = createState();
+      const vt: ValidatedTrade = {
+        from: state.towns[0]!,
+        to: state.towns[1]!,
+        goodId: 'fish',
+        qty: 20,
+        unitPrice: 12,
+        side: 'sell',
+      };
+
+      const result = executeTrade(state, vt, mockGoods, undefined, shipping);
+
+      expect(result.state.towns[0]!.resources.fish).toBe(80);
+      expect(result.state.towns[1]!.resources.fish).toBe(25);
+      expect(result.caravan).toMatchObject({ originId: 'town1', destinationId: 'town2' });
+    });
+
+    it('moves goods instantly without shipping options', () => {
+      const state = createState();
+      const vt: ValidatedTrade = {
+        from: state.towns[0]!,
+        to: state.towns[1]!,
+        goodId: 'wood',
+        qty: 10,
+        unitPrice: 18,
+        side: 'buy',
+      };
+
+      const result = executeTrade(state, vt, mockGoods);
+
+      expect(result.state.towns[0]!.resources.wood).toBe(60);
+      expect(result.caravan).toBeUndefined();
+      expect(result.state.caravans).toBeUndefined();
+    });
+
+    it('keeps shipped goods out of the buyer price curve', async () => {
+      const state = createState();
+      const request = {
+        fromTownId: 'town1',
+        toTownId: 'town2',
+        goodId: 'wood',
+        quantity: 40,
+        side: 'buy' as const,
+        pricePerUnit: 18,
+      };
+      const pricing = createPricingService();
+
+      const instant = await performTrade(state, request, pricing, mockGoods);
+      const shipped = await performTrade(
+        state,
+        request,
+        pricing,
+        mockGoods,
+        undefined,
+        undefined,
+        shipping,
+      );
+      const unchanged = pricing.afterTrade(state, {
+        from: state.towns[0]!,
+        to: state.towns[1]!,
+        goodId: 'wood',
+        qty: 40,
+        unitPrice: 18,
+        side: 'buy',
+      });
+
+      // The buyer's price reacts to the stock it has, not the stock on the road
+      expect(shipped.state.towns[0]!.prices.wood).toBe(unchanged.towns[0]!.prices.wood);
+      expect(shipped.state.towns[0]!.prices.wood).not.toBe(instant.state.towns[0]!.prices.wood);
+      // The seller's price reacts to the goods that left either way
+      expect(shipped.state.towns[1]!.prices.wood).toBe(instant.state.towns[1]!.prices.wood);
+    });
+  });
+
+  describe('deliverCaravans', () => {
+    it('delivers arrived caravans and keeps the rest on the road', () => {
+      const state = createState([
+        caravan(),
+        caravan({ id: 'caravan-2-0', goodId: 'ore', quantity: 5, arrivalTurn: 2 }),
+        caravan({ id: 'caravan-3-0', arrivalTurn: 4 }),
+      ]);
+
+      const result = deliverCaravans(state);
+
+      expect(result.towns[0]!.resources).toEqual({ fish: 100, wood: 60, ore: 30 });
+      expect(result.towns[1]).toBe(state.towns[1]);
+      expect(result.caravans!.map(c => c.id)).toEqual(['caravan-3-0']);
+    });
+
+    it('returns the same state when nothing arrives', () => {
+      const pending = createState([caravan({ arrivalTurn: 4 })]);
+      const empty = createState();
+
+      expect(deliverCaravans(pending)).toBe(pending);
+      expect(deliverCaravans(empty)).toBe(empty);
+    });
+
+    it('drops caravans bound for missing towns', () => {
+      const state = createState([caravan({ destinationId: 'ghost' })]);
+
+      const result = deliverCaravans(state);
+
+      expect(result.caravans).toEqual([]);
+      expect(result.towns).toEqual(state.towns);
+    });
+
+    it('applies resource limits on delivery', () => {
+      const state = createState([caravan({ quantity: 100 })]);
+
+      const result = createCaravanSystem({ maxResource: 120 })(state);
+
+      expect(result.towns[0]!.resources.wood).toBe(120);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import type { Caravan, GameState } from '../../types/GameState';
+import type { GoodId } from '../../types/Goods';
+import type { TownGraph } from '../map/TownGraph';
+import type { UpdateSystem } from '../turn/UpdatePipeline';
+
+import type { TradeLimits } from './TradeLimits';
+import { limitResource } from './TradeLimits';
+
+/**
+ * Options for shipping mode: instead of landing instantly, traded goods travel
+ * as caravans and reach the buyer's stock after a number of turns.
+ */
+export interface ShippingOptions {
+  /**
+   * Turns a caravan spends on the road: a fixed number, or a function of the
+   * origin and destination town IDs. Rounded up, and never less than 1.
+   */
+  travelTurns: number | ((originId: string, destinationId: string) => number);
+}
+
+/**
+ * Creates a travel time function that covers `distancePerTurn` map units per turn.
+ *
+ * @param graph - Town graph used to measure distances
+ * @param distancePerTurn - Distance a caravan covers per turn (positive)
+ * @returns A `travelTurns` function for ShippingOptions
+ */
+export function travelTurnsByDistance(
+  graph: TownGraph,
+  distancePerTurn: number,
+): (originId: string, destinationId: string) => number {
+  if (!(distancePerTurn > 0)) {
+    throw new Error(`Caravan distance per turn must be positive, got ${distancePerTurn}`);
+  }
+  return (originId, destinationId) =>
+    graph.has(originId) && graph.has(destinationId)
+      ? graph.distance(originId, destinationId) / distancePerTurn
+      : 1;
+}
+
+/**
+ * Resolves the number of turns a caravan needs between two towns.
+ *
+ * @returns Whole number of turns, at least 1
+ */
+export function resolveTravelTurns(
+  shipping: ShippingOptions,
+  originId: string,
+  destinationId: string,
+): number {
+  const turns =
+    typeof shipping.travelTurns === 'number'
+      ? shipping.travelTurns
+      : shipping.travelTurns(originId, destinationId);
+  return Number.isFinite(turns) ? Math.max(1, Math.ceil(turns)) : 1;
+}
+
+/**
+ * Creates a caravan that departs on the current turn and adds it to the state.
+ *
+ * @param state - Current game state
+ * @param shipment - Origin, destination, good and quantity of the shipment
+ * @param shipping - Shipping options used to compute the arrival turn
+ * @returns The new state and the caravan that was dispatched
+ */
+export function dispatchCaravan(
+  state: GameState,
+  shipment: { originId: string; destinationId: string; goodId: GoodId; quantity: number },
+  shipping: ShippingOptions,
+): { state: GameState; caravan: Caravan } {
+  const caravans = state.caravans ?? [];
+
+  // Caravans leaving this turn cannot have arrived yet, so counting them keeps IDs unique
+  const departingNow = caravans.filter(c => c.departedTurn === state.turn).length;
+
+  const caravan: Caravan = {
+    id: `caravan-${state.turn}-${departingNow}`,
+    ...shipment,
+    departedTurn: state.turn,
+    arrivalTurn:
+      state.turn + resolveTravelTurns(shipping, shipment.originId, shipment.destinationId),
+  };
+
+  return { state: { ...state, caravans: [...caravans, caravan] }, caravan };
+}
+
+/**
+ * Delivers every caravan whose arrival turn has been reached, adding its goods to
+ * the destination town's stock. Caravans bound for towns that no longer exist are
+ * dropped. Returns the same state if nothing arrived.
+ *
+ * @param state - Current game state
+ * @param limits - Optional trade limits applied to the destination stock
+ * @returns Updated game state with the delivered caravans removed
+ */
+export function deliverCaravans(state: GameState, limits?: TradeLimits): GameState {
+  const caravans = state.caravans ?? [];
+  const arrived = caravans.filter(c => c.arrivalTurn <= state.turn);
+  if (arrived.length === 0) {
+    return state;
+  }
+
+  const towns = state.towns.map(town => {
+    const incoming = arrived.filter(c => c.destinationId === town.id);
+    if (incoming.length === 0) {
+      return town;
+    }
+
+    const resources = { ...town.resources };
+    for (const caravan of incoming) {
+      const next = (resources[caravan.goodId] ?? 0) + caravan.quantity;
+      resources[caravan.goodId] = limits
+        ? limitResource(next, limits, {
+            source: 'caravan',
+            townId: town.id,
+            goodId: caravan.goodId,
+          })
+        : next;
+    }
+    return { ...town, resources };
+  });
+
+  return {
+    ...state,
+    towns,
+    caravans: caravans.filter(c => c.arrivalTurn > state.turn),
+  };
+}
+
+/**
+ * Creates an update system that delivers arriving caravans during UpdateStats.
+ *
+ * @param limits - Optional trade limits applied to the destination stock
+ * @returns Update system for the UpdatePipeline
+ */
+export function createCaravanSystem(limits?: TradeLimits): UpdateSystem {
+  return state => deliverCaravans(state, limits);
+}
@@ -68,8 +68,8 @@ describe('PriceModel', () => {
 
       const updatedTown = model.applyTrade(town, 'fish', -5);
 
-      expect(updatedTown.prices.fish).toBe(originalPrice + 1);
-      expect(updatedTown.prices.fish).toBeGreaterThan(originalPrice);
+      expect(updatedTown.prices.fish).toBe(originalPrice! + 1);
+      expect(updatedTown.prices.fish).toBeGreaterThan(originalPrice!);
     });
 
     it('should decrease price when goods are bought by town (positive quantityDelta)', () => {
@@ -79,8 +79,8 @@ describe('PriceModel', () => {
 
       const updatedTown = model.applyTrade(town, 'fish', 3);
 
-      expect(updatedTown.prices.fish).toBe(originalPrice - 1);
-      expect(updatedTown.prices.fish).toBeLessThan(originalPrice);
+      expect(updatedTown.prices.fish).toBe(originalPrice! - 1);
+      expect(updatedTown.prices.fish).toBeLessThan(originalPrice!);
     });
 
     it('should not change price when quantityDelta is zero', () => {
@@ -100,7 +100,7 @@ describe('PriceModel', () => {
 
       const updatedTown = model.applyTrade(town, 'fish', -2);
 
-      expect(updatedTown.prices.fish).toBe(originalPrice + 3);
+      expect(updatedTown.prices.fish).toBe(originalPrice! + 3);
     });
 
     it('should clamp prices to minimum value', () => {
@@ -150,7 +150,7 @@ describe('PriceModel', () => {
       const updatedTown = model.applyTrade(town, 'fish', -5);
 
       // Fish price should change
-      expect(updatedTown.prices.fish).toBe(originalFishPrice + 1);
+      expect(updatedTown.prices.fish).toBe(originalFishPrice! + 1);
       // Other prices should remain unchanged
       expect(updatedTown.prices.wood).toBe(originalWoodPrice);
       expect(updatedTown.prices.ore).toBe(originalOrePrice);
@@ -193,15 +193,15 @@ describe('PriceModel', () => {
 
       // First trade: sell 3 fish
       let updatedTown = model.applyTrade(town, 'fish', -3);
-      expect(updatedTown.prices.fish).toBe(originalPrice + 1);
+      expect(updatedTown.prices.fish).toBe(originalPrice! + 1);
 
       // Second trade: sell 2 more fish
       updatedTown = model.applyTrade(updatedTown, 'fish', -2);
-      expect(updatedTown.prices.fish).toBe(originalPrice + 2);
+      expect(updatedTown.prices.fish).toBe(originalPrice! + 2);
 
       // Third trade: buy 1 fish back
       updatedTown = model.applyTrade(updatedTown, 'fish', 1);
-      expect(updatedTown.prices.fish).toBe(originalPrice + 1);
+      expect(updatedTown.prices.fish).toBe(originalPrice! + 1);
     });
   });
 
@@ -214,7 +214,7 @@ describe('PriceModel', () => {
       const updatedTown = model.applyTrade(town, 'fish', -1000);
 
       // Should still only increase by baseStep
-      expect(updatedTown.prices.fish).toBe(originalPrice + 1);
+      expect(updatedTown.prices.fish).toBe(originalPrice! + 1);
     });
 
     it('should handle negative quantity deltas with custom step', () => {
@@ -224,7 +224,7 @@ describe('PriceModel', () => {
 
       const updatedTown = model.applyTrade(town, 'fish', -7);
 
-      expect(updatedTown.prices.fish).toBe(originalPrice + 2);
+      expect(updatedTown.prices.fish).toBe(originalPrice! + 2);
     });
 
     it('should handle positive quantity deltas with custom step', () => {
@@ -234,7 +234,7 @@ describe('PriceModel', () => {
 
       const updatedTown = model.applyTrade(town, 'fish', 7);
 
-      expect(updatedTown.prices.fish).toBe(originalPrice - 2);
+      expect(updatedTown.prices.fish).toBe(originalPrice! - 2);
     });
   });
 });
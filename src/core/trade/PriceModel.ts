@@ -7,7 +7,8 @@ import type { TradeLimits } from './TradeLimits';
  * Interface for price models that can quote prices and adjust them based on trades.
  *
  * Price models implement supply/demand dynamics by adjusting prices when
- * goods are bought or sold from a town's inventory.
+ * goods are bought or sold from a town's inventory. To play a game on one, wrap it
+ * in a pricing strategy (see `createLinearPricing`).
  */
 export interface PriceModel {
   /**
@@ -66,7 +67,7 @@ export function createSimpleLinearPriceModel(opts: SimpleLinearPriceModelOptions
 
   return {
     quote(town: Town, good: GoodId): number {
-      return town.prices[good];
+      return town.prices[good] ?? 0;
     },
 
     applyTrade(town: Town, good: GoodId, quantityDelta: number): Town {
@@ -75,7 +76,7 @@ export function createSimpleLinearPriceModel(opts: SimpleLinearPriceModelOptions
         return town;
       }
 
-      const currentPrice = town.prices[good];
+      const currentPrice = town.prices[good] ?? 0;
       let newPrice: number;
 
       if (quantityDelta < 0) {
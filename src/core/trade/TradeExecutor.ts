@@ -3,6 +3,9 @@ import type { GoodId, GoodConfig } from '../../types/Goods';
 import type { Town } from '../../types/Town';
 import { addProsperity, addMilitary } from '../stateApi';
 
+import { dispatchCaravan } from './Caravans';
+import type { ShippingOptions } from './Caravans';
+import { TradeExecutionError } from './TradeErrors';
 import type { TradeLimits } from './TradeLimits';
 import { limitResource, limitTreasury } from './TradeLimits';
 import type { TradeResult } from './TradeTypes';
@@ -10,10 +13,17 @@ import type { ValidatedTrade } from './TradeValidator';
 
 /**
  * Executes a validated trade by moving goods, currency, and applying effects.
+ * The initiating town also pays the trade's transport cost, if any.
+ *
+ * With shipping options, the buyer still pays and the seller's stock drops
+ * immediately, but the goods leave as a caravan and only reach the buyer's stock
+ * when it arrives (see `deliverCaravans`).
  *
  * @param state - Current game state
  * @param vt - Validated trade to execute
  * @param goods - Configuration for all goods in the game
+ * @param limits - Optional trade limits
+ * @param shipping - Optional shipping options; when set, goods travel by caravan
  * @returns TradeResult with updated state and deltas
  */
 export function executeTrade(
@@ -21,6 +31,7 @@ export function executeTrade(
   vt: ValidatedTrade,
   goods: Record<GoodId, GoodConfig>,
   limits?: TradeLimits,
+  shipping?: ShippingOptions,
 ): TradeResult {
   // Clone state (immutable approach)
   const newState: GameState = {
@@ -36,8 +47,12 @@ export function executeTrade(
     throw new Error('Town not found in state during trade execution');
   }
 
-  // Compute total cost
-  const total = vt.qty * vt.unitPrice;
+  // Compute total cost (the integrated curve price when the trade was quoted)
+  const total = vt.totalPrice ?? vt.qty * vt.unitPrice;
+
+  // Where each town's values come from, for reporting clamps
+  const fromSite = { source: 'trade', townId: vt.from.id, goodId: vt.goodId } as const;
+  const toSite = { source: 'trade', townId: vt.to.id, goodId: vt.goodId } as const;
 
   // Clone towns for immutable updates
   let fromTown: Town = { ...newState.towns[fromTownIndex]! };
@@ -47,15 +62,16 @@ export function executeTrade(
   if (vt.side === 'sell') {
     // Sell: fromTown sells to toTown
     // Calculate new resource amounts
-    const fromTownNewResource = fromTown.resources[vt.goodId] - vt.qty;
-    const toTownNewResource = toTown.resources[vt.goodId] + vt.qty;
+    const fromTownNewResource = (fromTown.resources[vt.goodId] ?? 0) - vt.qty;
+    // Shipped goods reach the buyer when the caravan arrives
+    const toTownNewResource = (toTown.resources[vt.goodId] ?? 0) + (shipping ? 0 : vt.qty);
 
     // Apply limits if provided
     const fromTownFinalResource = limits
-      ? limitResource(fromTownNewResource, limits)
+      ? limitResource(fromTownNewResource, limits, fromSite)
       : Math.max(0, fromTownNewResource);
     const toTownFinalResource = limits
-      ? limitResource(toTownNewResource, limits)
+      ? limitResource(toTownNewResource, limits, toSite)
       : Math.max(0, toTownNewResource);
 
     // Update resources
@@ -74,15 +90,16 @@ export function executeTrade(
   } else {
     // Buy: fromTown buys from toTown
     // Calculate new resource amounts
-    const fromTownNewResource = fromTown.resources[vt.goodId] + vt.qty;
-    const toTownNewResource = toTown.resources[vt.goodId] - vt.qty;
+    // Shipped goods reach the buyer when the caravan arrives
+    const fromTownNewResource = (fromTown.resources[vt.goodId] ?? 0) + (shipping ? 0 : vt.qty);
+    const toTownNewResource = (toTown.resources[vt.goodId] ?? 0) - vt.qty;
 
     // Apply limits if provided
     const fromTownFinalResource = limits
-      ? limitResource(fromTownNewResource, limits)
+      ? limitResource(fromTownNewResource, limits, fromSite)
       : Math.max(0, fromTownNewResource);
     const toTownFinalResource = limits
-      ? limitResource(toTownNewResource, limits)
+      ? limitResource(toTownNewResource, limits, toSite)
       : Math.max(0, toTownNewResource);
 
     // Update resources
@@ -100,14 +117,27 @@ export function executeTrade(
     toTown.treasury += total;
   }
 
+  // The initiating town pays to move the goods; the money leaves the economy
+  const transportCost = vt.transportCost ?? 0;
+  fromTown.treasury -= transportCost;
+
   // Apply trade limits to treasury to prevent runaway states
   if (limits) {
-    fromTown.treasury = limitTreasury(fromTown.treasury, limits);
-    toTown.treasury = limitTreasury(toTown.treasury, limits);
+    fromTown.treasury = limitTreasury(fromTown.treasury, limits, {
+      source: 'trade',
+      townId: fromTown.id,
+    });
+    toTown.treasury = limitTreasury(toTown.treasury, limits, {
+      source: 'trade',
+      townId: toTown.id,
+    });
   }
 
   // Apply effects
   const goodConfig = goods[vt.goodId];
+  if (!goodConfig) {
+    throw new TradeExecutionError(`No configuration found for good: ${vt.goodId}`);
+  }
   const effects = goodConfig.effects;
 
   // Both towns get prosperity boost from trade (trade stimulates both)
@@ -125,6 +155,20 @@ export function executeTrade(
   newState.towns[fromTownIndex] = fromTown;
   newState.towns[toTownIndex] = toTown;
 
+  // Send the goods on their way from the seller to the buyer
+  const shipment = shipping
+    ? dispatchCaravan(
+        newState,
+        {
+          originId: vt.side === 'buy' ? toTown.id : fromTown.id,
+          destinationId: vt.side === 'buy' ? fromTown.id : toTown.id,
+          goodId: vt.goodId,
+          quantity: vt.qty,
+        },
+        shipping,
+      )
+    : undefined;
+
   // Calculate deltas for return
   const deltas = {
     from: {
@@ -142,8 +186,11 @@ export function executeTrade(
   };
 
   return {
-    state: newState,
+    state: shipment?.state ?? newState,
     deltas,
-    unitPriceApplied: vt.unitPrice,
+    unitPriceApplied: total / vt.qty,
+    totalPrice: total,
+    transportCost,
+    ...(shipment && { caravan: shipment.caravan }),
   };
 }
@@ -1,9 +1,47 @@
 import { describe, it, expect } from 'vitest';
 
-import type { TradeLimits } from './TradeLimits';
+import type { ClampEvent, TradeLimits } from './TradeLimits';
 import { DEFAULT_LIMITS, clamp, limitResource, limitTreasury, limitPrice } from './TradeLimits';
 
 describe('TradeLimits', () => {
+  describe('clamp reporting', () => {
+    const site = { source: 'trade', townId: 'town1', goodId: 'fish' } as const;
+
+    it('reports a clamped value with its site', () => {
+      const clamps: ClampEvent[] = [];
+      const limits: TradeLimits = { maxResource: 100, onClamp: event => clamps.push(event) };
+
+      expect(limitResource(150, limits, site)).toBe(100);
+      expect(clamps).toEqual([{ ...site, field: 'resource', value: 150, clamped: 100 }]);
+    });
+
+    it('reports treasury and price clamps with their field', () => {
+      const clamps: ClampEvent[] = [];
+      const limits: TradeLimits = {
+        maxTreasury: 500,
+        minPrice: 2,
+        onClamp: event => clamps.push(event),
+      };
+
+      limitTreasury(-10, limits, { source: 'trade', townId: 'town1' });
+      limitPrice(1, limits, { source: 'drift', townId: 'town2', goodId: 'ore' });
+
+      expect(clamps).toEqual([
+        { source: 'trade', townId: 'town1', field: 'treasury', value: -10, clamped: 0 },
+        { source: 'drift', townId: 'town2', goodId: 'ore', field: 'price', value: 1, clamped: 2 },
+      ]);
+    });
+
+    it('does not report values within the limits or without a site', () => {
+      const clamps: ClampEvent[] = [];
+      const limits: TradeLimits = { maxResource: 100, onClamp: event => clamps.push(event) };
+
+      expect(limitResource(100, limits, site)).toBe(100);
+      expect(limitResource(150, limits)).toBe(100);
+      expect(clamps).toEqual([]);
+    });
+  });
+
   describe('DEFAULT_LIMITS', () => {
     it('should have reasonable default values', () => {
       expect(DEFAULT_LIMITS.maxResource).toBe(1_000_000);
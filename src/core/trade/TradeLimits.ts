@@ -1,6 +1,47 @@
+import type { GoodId } from '../../types/Goods';
+
+/**
+ * Where a limit was applied: trade execution, caravan delivery, production,
+ * post-trade pricing or per-turn price drift.
+ */
+export type ClampSource = 'trade' | 'caravan' | 'production' | 'post-trade' | 'drift';
+
+/**
+ * Identifies the value a limit is applied to, so a clamp can be reported.
+ */
+export interface ClampSite {
+  /** System that produced the value */
+  source: ClampSource;
+  /** Town whose value it is */
+  townId: string;
+  /** Good the value belongs to (resources and prices only) */
+  goodId?: GoodId;
+}
+
+/**
+ * Report of one value that exceeded a limit and was clamped.
+ */
+export interface ClampEvent extends ClampSite {
+  /** Which kind of value was clamped */
+  field: 'resource' | 'treasury' | 'price';
+  /** Value before clamping */
+  value: number;
+  /** Value after clamping */
+  clamped: number;
+}
+
+/**
+ * Observer told about every clamp as it happens.
+ */
+export type ClampReporter = (event: ClampEvent) => void;
+
 /**
  * Configuration for trade limits to prevent runaway states.
  * These limits cap resources, treasury, and prices to maintain game balance.
+ *
+ * The same limits serve as the game rules for a whole turn: trade execution,
+ * caravan delivery, production and pricing all clamp to them, and each clamp is
+ * reported to `onClamp` (when a site is given) so runaway values are observable.
  */
 export interface TradeLimits {
   /** Maximum amount of any single resource a town can hold */
@@ -11,6 +52,8 @@ export interface TradeLimits {
   minPrice?: number;
   /** Maximum price for any good */
   maxPrice?: number;
+  /** Optional observer told about every value these limits clamp */
+  onClamp?: ClampReporter;
 }
 
 /**
@@ -36,18 +79,35 @@ export function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+/**
+ * Reports a clamp to the limits' observer if the value changed and a site is known.
+ */
+function reportClamp(
+  limits: TradeLimits,
+  field: ClampEvent['field'],
+  value: number,
+  clamped: number,
+  at: ClampSite | undefined,
+): number {
+  if (clamped !== value && at && limits.onClamp) {
+    limits.onClamp({ ...at, field, value, clamped });
+  }
+  return clamped;
+}
+
 /**
  * Applies trade limits to a resource value, ensuring it stays within bounds.
  *
  * @param value - The resource value to limit
  * @param limits - The trade limits to apply
+ * @param at - Optional site of the value; when given, a clamp is reported to `limits.onClamp`
  * @returns The limited resource value
  */
-export function limitResource(value: number, limits: TradeLimits): number {
-  if (limits.maxResource !== undefined) {
-    return clamp(value, 0, limits.maxResource);
-  }
-  return Math.max(0, value); // Always prevent negative resources
+export function limitResource(value: number, limits: TradeLimits, at?: ClampSite): number {
+  // Always prevent negative resources
+  const clamped =
+    limits.maxResource !== undefined ? clamp(value, 0, limits.maxResource) : Math.max(0, value);
+  return reportClamp(limits, 'resource', value, clamped, at);
 }
 
 /**
@@ -55,13 +115,14 @@ export function limitResource(value: number, limits: TradeLimits): number {
  *
  * @param value - The treasury value to limit
  * @param limits - The trade limits to apply
+ * @param at - Optional site of the value; when given, a clamp is reported to `limits.onClamp`
  * @returns The limited treasury value
  */
-export function limitTreasury(value: number, limits: TradeLimits): number {
-  if (limits.maxTreasury !== undefined) {
-    return clamp(value, 0, limits.maxTreasury);
-  }
-  return Math.max(0, value); // Always prevent negative treasury
+export function limitTreasury(value: number, limits: TradeLimits, at?: ClampSite): number {
+  // Always prevent negative treasury
+  const clamped =
+    limits.maxTreasury !== undefined ? clamp(value, 0, limits.maxTreasury) : Math.max(0, value);
+  return reportClamp(limits, 'treasury', value, clamped, at);
 }
 
 /**
@@ -69,10 +130,11 @@ export function limitTreasury(value: number, limits: TradeLimits): number {
  *
  * @param value - The price value to limit
  * @param limits - The trade limits to apply
+ * @param at - Optional site of the value; when given, a clamp is reported to `limits.onClamp`
  * @returns The limited price value
  */
-export function limitPrice(value: number, limits: TradeLimits): number {
+export function limitPrice(value: number, limits: TradeLimits, at?: ClampSite): number {
   const min = limits.minPrice ?? 0;
   const max = limits.maxPrice ?? Number.MAX_SAFE_INTEGER;
-  return clamp(value, min, max);
+  return reportClamp(limits, 'price', value, clamp(value, min, max), at);
 }
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 
 import type { GameState } from '../../types/GameState';
 import type { GoodId, GoodConfig } from '../../types/Goods';
+import { createTownGraph } from '../map/TownGraph';
 import { createPricingService } from '../pricing/PricingService';
 
 import { TradeValidationError } from './TradeErrors';
@@ -163,29 +164,118 @@ describe('TradeService', () => {
         // Town 1 (seller) should have less fish, more money
         const town1 = result.state.towns.find(t => t.id === 'town1')!;
         expect(town1.resources.fish).toBe(30); // 50 - 20
-        expect(town1.treasury).toBe(1120); // 1000 + (20 * 6)
+        // Each unit sold raises town 2's stock, so later units fetch less than 6
+        expect(town1.treasury).toBe(1102); // 1000 + 102 along the curve
         expect(town1.prosperityRaw).toBe(51); // 50 + 1
         expect(town1.militaryRaw).toBe(20); // No change (seller doesn't get military boost)
 
         // Town 2 (buyer) should have more fish, less money
         const town2 = result.state.towns.find(t => t.id === 'town2')!;
         expect(town2.resources.fish).toBe(80); // 60 + 20
-        expect(town2.treasury).toBe(680); // 800 - (20 * 6)
+        expect(town2.treasury).toBe(698); // 800 - 102
         expect(town2.prosperityRaw).toBe(41); // 40 + 1
         expect(town2.militaryRaw).toBe(15); // No change (fish has no military effect)
 
         // Verify deltas
         expect(result.deltas.from.resources?.fish).toBe(30);
-        expect(result.deltas.from.treasury).toBe(1120);
+        expect(result.deltas.from.treasury).toBe(1102);
         expect(result.deltas.from.prosperityRaw).toBe(51);
         expect(result.deltas.from.militaryRaw).toBe(20);
 
         expect(result.deltas.to.resources?.fish).toBe(80);
-        expect(result.deltas.to.treasury).toBe(680);
+        expect(result.deltas.to.treasury).toBe(698);
         expect(result.deltas.to.prosperityRaw).toBe(41);
         expect(result.deltas.to.militaryRaw).toBe(15);
 
-        expect(result.unitPriceApplied).toBe(6);
+        expect(result.totalPrice).toBe(102);
+        expect(result.unitPriceApplied).toBe(5.1);
+      });
+    });
+
+    describe('slippage', () => {
+      const buyWood = (quantity: number): TradeRequest => ({
+        fromTownId: 'town1',
+        toTownId: 'town2',
+        goodId: 'wood',
+        quantity,
+        side: 'buy',
+        pricePerUnit: 12,
+      });
+
+      it('should settle at the quote along the curve', async () => {
+        const quote = pricingService.quote(state, buyWood(30));
+
+        const result = await performTrade(state, buyWood(30), pricingService, goods);
+
+        expect(result.totalPrice).toBe(quote.totalCost);
+        expect(result.unitPriceApplied).toBe(quote.averagePrice);
+        expect(result.deltas.from.treasury).toBe(1000 - quote.totalCost);
+        expect(result.deltas.to.treasury).toBe(800 + quote.totalCost);
+      });
+
+      it('should charge more per unit for large purchases than small ones', async () => {
+        const small = await performTrade(state, buyWood(5), pricingService, goods);
+        const large = await performTrade(state, buyWood(50), pricingService, goods);
+
+        expect(small.unitPriceApplied).toBe(12);
+        expect(large.unitPriceApplied).toBeGreaterThan(small.unitPriceApplied);
+      });
+    });
+
+    describe('price tolerance', () => {
+      it('should execute at the current quote when it moved within the bounds', async () => {
+        // Queued when town 2 quoted 11 for wood, accepting up to 10% more
+        const request: TradeRequest = {
+          fromTownId: 'town1',
+          toTownId: 'town2',
+          goodId: 'wood',
+          quantity: 10,
+          side: 'buy',
+          maxPricePerUnit: 12.1,
+        };
+
+        const result = await performTrade(state, request, pricingService, goods);
+
+        expect(result.unitPriceApplied).toBe(12);
+        expect(result.deltas.from.treasury).toBe(880);
+      });
+
+      it('should reject the trade when the quote moved past the bounds', async () => {
+        const request: TradeRequest = {
+          fromTownId: 'town1',
+          toTownId: 'town2',
+          goodId: 'fish',
+          quantity: 5,
+          side: 'sell',
+          minPricePerUnit: 7,
+        };
+
+        await expect(performTrade(state, request, pricingService, goods)).rejects.toThrow(
+          'Price below tolerance',
+        );
+      });
+    });
+
+    describe('bid/ask spread', () => {
+      it('should lose money on a round trip through the same town', async () => {
+        const spreadPricing = createPricingService({ spread: { margin: 0.1 } });
+        const trade = { fromTownId: 'town1', toTownId: 'town2', goodId: 'wood', quantity: 1 };
+
+        const bought = await performTrade(
+          state,
+          { ...trade, side: 'buy', maxPricePerUnit: 100 },
+          spreadPricing,
+          goods,
+        );
+        const sold = await performTrade(
+          bought.state,
+          { ...trade, side: 'sell', minPricePerUnit: 0 },
+          spreadPricing,
+          goods,
+        );
+
+        expect(bought.unitPriceApplied).toBeGreaterThan(sold.unitPriceApplied);
+        expect(sold.state.towns.find(t => t.id === 'town1')!.treasury).toBeLessThan(1000);
       });
     });
 
@@ -302,6 +392,81 @@ describe('TradeService', () => {
       });
     });
 
+    describe('transport costs', () => {
+      // 500 distance * 0.01 = 5 per unit
+      const graph = createTownGraph({
+        costPerUnitDistance: 0.01,
+        towns: { town1: { x: 0, y: 0 }, town2: { x: 300, y: 400 } },
+      });
+
+      it('should charge the initiating town for transport on a buy', async () => {
+        const request: TradeRequest = {
+          fromTownId: 'town1',
+          toTownId: 'town2',
+          goodId: 'wood',
+          quantity: 10,
+          side: 'buy',
+          pricePerUnit: 12,
+        };
+
+        const result = await performTrade(state, request, pricingService, goods, undefined, graph);
+
+        expect(result.transportCost).toBe(50);
+        expect(result.deltas.from.treasury).toBe(1000 - 120 - 50);
+        expect(result.deltas.to.treasury).toBe(800 + 120);
+      });
+
+      it('should charge the initiating town for transport on a sell', async () => {
+        const request: TradeRequest = {
+          fromTownId: 'town1',
+          toTownId: 'town2',
+          goodId: 'fish',
+          quantity: 10,
+          side: 'sell',
+          pricePerUnit: 6,
+        };
+
+        const result = await performTrade(state, request, pricingService, goods, undefined, graph);
+
+        expect(result.transportCost).toBe(50);
+        // 10 fish fetch 52 along town 2's curve
+        expect(result.deltas.from.treasury).toBe(1000 + 52 - 50);
+        expect(result.deltas.to.treasury).toBe(800 - 52);
+      });
+
+      it('should reject buys the town cannot afford once transport is added', async () => {
+        const request: TradeRequest = {
+          fromTownId: 'town1',
+          toTownId: 'town2',
+          goodId: 'wood',
+          quantity: 50,
+          side: 'buy',
+          pricePerUnit: 12, // 810 along the curve + 250 transport > 1000
+        };
+
+        await expect(performTrade(state, request, pricingService, goods)).resolves.toBeDefined();
+        await expect(
+          performTrade(state, request, pricingService, goods, undefined, graph),
+        ).rejects.toThrow(TradeValidationError);
+      });
+
+      it('should charge nothing without a town graph', async () => {
+        const request: TradeRequest = {
+          fromTownId: 'town1',
+          toTownId: 'town2',
+          goodId: 'wood',
+          quantity: 10,
+          side: 'buy',
+          pricePerUnit: 12,
+        };
+
+        const result = await performTrade(state, request, pricingService, goods);
+
+        expect(result.transportCost).toBe(0);
+        expect(result.deltas.from.treasury).toBe(1000 - 120);
+      });
+    });
+
     describe('immutability', () => {
       it('should not modify the original state', async () => {
         const originalState = JSON.parse(JSON.stringify(state));
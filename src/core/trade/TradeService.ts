@@ -1,19 +1,20 @@
 import type { GameState } from '../../types/GameState';
 import type { GoodId, GoodConfig } from '../../types/Goods';
-import type { createPricingService } from '../pricing/PricingService';
+import type { TownGraph } from '../map/TownGraph';
+import type { PricingStrategy } from '../pricing/PricingStrategy';
 
+import type { ShippingOptions } from './Caravans';
 import { executeTrade } from './TradeExecutor';
 import type { TradeLimits } from './TradeLimits';
 import type { TradeRequest, TradeResult } from './TradeTypes';
 import { validateTrade } from './TradeValidator';
 
-type PricingService = ReturnType<typeof createPricingService>;
-
 /**
  * TradeService provides a single entry point for performing complete trade transactions.
  *
  * This service composes validation, execution, and price updates into one callable unit,
- * ensuring immutability and consistency across all trade operations.
+ * ensuring immutability and consistency across all trade operations. Trades settle at
+ * the pricing service's quote, so large quantities pay for moving along the price curve.
  */
 export class TradeService {
   /**
@@ -21,25 +22,34 @@ export class TradeService {
    *
    * @param state - Current game state
    * @param request - Trade request to process
-   * @param priceModel - Price model for post-trade price adjustments
+   * @param pricingService - Pricing strategy for quotes and post-trade price adjustments
    * @param goods - Configuration for all goods in the game
+   * @param limits - Optional trade limits
+   * @param graph - Optional town graph for transport costs
+   * @param shipping - Optional shipping options; when set, goods travel by caravan
    * @returns Promise resolving to TradeResult with final state and deltas
    * @throws TradeValidationError if validation fails
    */
   static async performTrade(
     state: GameState,
     request: TradeRequest,
-    pricingService: PricingService,
+    pricingService: PricingStrategy,
     goods: Record<GoodId, GoodConfig>,
     limits?: TradeLimits,
+    graph?: TownGraph,
+    shipping?: ShippingOptions,
   ): Promise<TradeResult> {
-    // Step 1: Validate the trade request
-    const validatedTrade = validateTrade(state, request);
+    // Step 1: Validate the trade request (including transport cost when a graph is given),
+    // settling at the price of each unit along the quoting town's curve
+    const validatedTrade = validateTrade(state, request, graph, req =>
+      pricingService.quote(state, req),
+    );
 
     // Step 2: Execute the trade and get intermediate result
-    const executionResult = executeTrade(state, validatedTrade, goods, limits);
+    const executionResult = executeTrade(state, validatedTrade, goods, limits, shipping);
 
     // Step 3: Apply post-trade price adjustments using the pricing service
+    // (shipped goods are not in the buyer's stock yet, so its curve does not see them)
     const finalState = pricingService.afterTrade(executionResult.state, validatedTrade);
 
     // Return the final result with updated state
@@ -55,17 +65,22 @@ export class TradeService {
  *
  * @param state - Current game state
  * @param request - Trade request to process
- * @param priceModel - Price model for post-trade price adjustments
+ * @param pricingService - Pricing strategy for quotes and post-trade price adjustments
  * @param goods - Configuration for all goods in the game
+ * @param limits - Optional trade limits
+ * @param graph - Optional town graph for transport costs
+ * @param shipping - Optional shipping options; when set, goods travel by caravan
  * @returns Promise resolving to TradeResult with final state and deltas
  * @throws TradeValidationError if validation fails
  */
 export async function performTrade(
   state: GameState,
   request: TradeRequest,
-  pricingService: PricingService,
+  pricingService: PricingStrategy,
   goods: Record<GoodId, GoodConfig>,
   limits?: TradeLimits,
+  graph?: TownGraph,
+  shipping?: ShippingOptions,
 ): Promise<TradeResult> {
-  return TradeService.performTrade(state, request, pricingService, goods, limits);
+  return TradeService.performTrade(state, request, pricingService, goods, limits, graph, shipping);
 }
@@ -1,9 +1,10 @@
-import type { GameState } from '../../types/GameState';
+import type { Caravan, GameState } from '../../types/GameState';
 import type { GoodId } from '../../types/Goods';
 import type { Town } from '../../types/Town';
 
 /**
- * Represents the side of a trade transaction.
+ * Represents the side of a trade transaction against a town's treasury.
+ * Goods-for-goods trades use their own side, 'barter' (see `BarterRequest`).
  */
 export type TradeSide = 'buy' | 'sell';
 
@@ -21,8 +22,15 @@ export interface TradeRequest {
   quantity: number;
   /** Whether this is a buy or sell transaction */
   side: TradeSide;
-  /** The price per unit for the trade (nonnegative number) */
-  pricePerUnit: number;
+  /**
+   * The exact price per unit the town must quote (nonnegative number). Omit it and
+   * give tolerance bounds instead to accept any quote that moved within them.
+   */
+  pricePerUnit?: number;
+  /** Highest acceptable price per unit, inclusive (nonnegative number) */
+  maxPricePerUnit?: number;
+  /** Lowest acceptable price per unit, inclusive (nonnegative number) */
+  minPricePerUnit?: number;
 }
 
 /**
@@ -38,6 +46,62 @@ export interface TradeResult {
     /** Changes to the destination town */
     to: Partial<Town>;
   };
-  /** The actual unit price that was applied (may differ from requested price) */
+  /** The actual unit price that was applied (the average price when priced along the curve) */
   unitPriceApplied: number;
+  /** Total price of the goods, excluding transport */
+  totalPrice: number;
+  /** Transport cost paid by the initiating town (0 without a town graph) */
+  transportCost: number;
+  /** Caravan carrying the goods to the buyer (shipping mode only) */
+  caravan?: Caravan;
+}
+
+/**
+ * Represents a barter between two towns: the initiating town gives one good and
+ * receives another in return, and no currency changes hands.
+ */
+export interface BarterRequest {
+  /** The ID of the town initiating the barter, which gives `goodId` */
+  fromTownId: string;
+  /** The ID of the town receiving the offer, which gives `wantGoodId` */
+  toTownId: string;
+  /** Marks the request as a barter */
+  side: 'barter';
+  /** The ID of the good offered by the initiating town */
+  goodId: GoodId;
+  /** The quantity of the offered good (positive integer) */
+  quantity: number;
+  /** The ID of the good wanted in return */
+  wantGoodId: GoodId;
+  /** Fewest units of the wanted good to accept; the barter is rejected below it */
+  minReceiveQuantity?: number;
+}
+
+/**
+ * Represents the result of a completed barter.
+ */
+export interface BarterResult {
+  /** The updated game state after the barter */
+  state: GameState;
+  /** The changes made to both towns involved in the barter */
+  deltas: {
+    /** Changes to the initiating town */
+    from: Partial<Town>;
+    /** Changes to the other town */
+    to: Partial<Town>;
+  };
+  /** Units of the offered good given up */
+  givenQuantity: number;
+  /** Units of the wanted good received */
+  receivedQuantity: number;
+  /** Units of the wanted good received per unit given, before rounding down */
+  exchangeRate: number;
+  /** Unit value the offered good was exchanged at */
+  givenUnitValue: number;
+  /** Unit value the wanted good was exchanged at */
+  receivedUnitValue: number;
+  /** Transport cost paid by the initiating town (0 without a town graph) */
+  transportCost: number;
+  /** Caravans carrying the goods both ways (shipping mode only) */
+  caravans?: Caravan[];
 }
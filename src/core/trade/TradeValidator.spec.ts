@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 
 import type { GameState } from '../../types/GameState';
 
@@ -584,6 +584,36 @@ describe('TradeValidator', () => {
       );
     });
 
+    it("should price buys at the town's ask and sells at its bid with a spread", () => {
+      const spread = { margin: 0.2 };
+      const buyOre: TradeRequest = {
+        fromTownId: 'town1',
+        toTownId: 'town2',
+        goodId: 'ore',
+        quantity: 10,
+        side: 'buy',
+        pricePerUnit: 25, // town2's curve price for ore
+      };
+      const sellFish: TradeRequest = {
+        fromTownId: 'town1',
+        toTownId: 'town2',
+        goodId: 'fish',
+        quantity: 10,
+        side: 'sell',
+      };
+
+      expect(() => validateTrade(mockGameState, buyOre, undefined, undefined, spread)).toThrow(
+        "Price mismatch: requested 25 but town 'Ironforge' quotes 30 for ore",
+      );
+      expect(
+        validateTrade(mockGameState, { ...buyOre, pricePerUnit: 30 }, undefined, undefined, spread)
+          .unitPrice,
+      ).toBe(30);
+      expect(validateTrade(mockGameState, sellFish, undefined, undefined, spread).unitPrice).toBe(
+        9,
+      );
+    });
+
     it('should include correct path for price sanity errors', () => {
       const request: TradeRequest = {
         fromTownId: 'town1',
@@ -604,6 +634,96 @@ describe('TradeValidator', () => {
     });
   });
 
+  describe('Price tolerance', () => {
+    const buyOre: TradeRequest = {
+      fromTownId: 'town1',
+      toTownId: 'town2',
+      goodId: 'ore',
+      quantity: 10,
+      side: 'buy',
+    };
+
+    it('should accept a moved quote within the maximum price', () => {
+      // town2 quoted 22 when the trade was queued; it now quotes 25
+      const result = validateTrade(mockGameState, { ...buyOre, maxPricePerUnit: 25 });
+
+      expect(result.unitPrice).toBe(25);
+    });
+
+    it('should reject a quote above the maximum price', () => {
+      const request = { ...buyOre, maxPricePerUnit: 24 };
+
+      expect(() => validateTrade(mockGameState, request)).toThrow(
+        "Price above tolerance: town 'Ironforge' now prices ore at 25 per unit, above the maximum of 24",
+      );
+      try {
+        validateTrade(mockGameState, request);
+      } catch (error) {
+        expect((error as TradeValidationError).path).toBe('maxPricePerUnit');
+      }
+    });
+
+    it('should reject a sell quote below the minimum price', () => {
+      const request: TradeRequest = {
+        fromTownId: 'town1',
+        toTownId: 'town2',
+        goodId: 'fish',
+        quantity: 10,
+        side: 'sell',
+        minPricePerUnit: 13,
+      };
+
+      expect(() => validateTrade(mockGameState, request)).toThrow(
+        "Price below tolerance: town 'Ironforge' now prices fish at 12 per unit, below the minimum of 13",
+      );
+      expect(validateTrade(mockGameState, { ...request, minPricePerUnit: 11 }).unitPrice).toBe(12);
+    });
+
+    it('should check the average price along the curve when a quote function is given', () => {
+      // 10 units at 25, 26, ... average 29.5
+      const quote = () => ({
+        unitPrices: [25, 26, 27, 28, 29, 30, 31, 32, 33, 34],
+        totalCost: 295,
+        averagePrice: 29.5,
+      });
+
+      expect(() =>
+        validateTrade(mockGameState, { ...buyOre, maxPricePerUnit: 29 }, undefined, quote),
+      ).toThrow('now prices ore at 29.5 per unit');
+      expect(
+        validateTrade(mockGameState, { ...buyOre, maxPricePerUnit: 29.5 }, undefined, quote)
+          .totalPrice,
+      ).toBe(295);
+    });
+
+    it('should reject quantities above the seller stock without quoting', () => {
+      const quote = vi.fn();
+
+      expect(() =>
+        validateTrade(mockGameState, { ...buyOre, quantity: 1e9 }, undefined, quote),
+      ).toThrow(TradeValidationError);
+      expect(() =>
+        validateTrade(mockGameState, { ...buyOre, side: 'sell', quantity: 1e9 }, undefined, quote),
+      ).toThrow('Insufficient stock');
+      expect(quote).not.toHaveBeenCalled();
+    });
+
+    it('should reject negative or inverted bounds', () => {
+      expect(() => validateTrade(mockGameState, { ...buyOre, maxPricePerUnit: -1 })).toThrow(
+        'Maximum price per unit must be nonnegative, got -1',
+      );
+      expect(() =>
+        validateTrade(mockGameState, { ...buyOre, minPricePerUnit: 30, maxPricePerUnit: 20 }),
+      ).toThrow('Minimum price per unit 30 exceeds maximum 20');
+    });
+
+    it('should still require the exact price when pricePerUnit is given', () => {
+      expect(() =>
+        validateTrade(mockGameState, { ...buyOre, pricePerUnit: 22, maxPricePerUnit: 30 }),
+      ).toThrow("Price mismatch: requested 22 but town 'Ironforge' quotes 25 for ore");
+    });
+  });
+
   describe('Invalid trade side errors', () => {
     it('should throw error for invalid trade side', () => {
       const request: TradeRequest = {
@@ -1,6 +1,10 @@
 import type { GameState } from '../../types/GameState';
 import type { GoodId } from '../../types/Goods';
 import type { Town } from '../../types/Town';
+import type { TownGraph } from '../map/TownGraph';
+import type { TradeQuote } from '../pricing/Slippage';
+import { sidePrice } from '../pricing/Spread';
+import type { SpreadConfig } from '../pricing/Spread';
 
 import { TradeValidationError } from './TradeErrors';
 import type { TradeRequest, TradeSide } from './TradeTypes';
@@ -18,22 +22,99 @@ export interface ValidatedTrade {
   goodId: GoodId;
   /** The quantity of goods to trade (positive integer) */
   qty: number;
-  /** The price per unit for the trade */
+  /** The town's quoted price per unit for the good (its ask for a buy, its bid for a sell) */
   unitPrice: number;
   /** Whether this is a buy or sell transaction */
   side: TradeSide;
+  /** Transport cost paid by the initiating town (defaults to 0) */
+  transportCost?: number;
+  /** Price of the whole quantity when priced along the curve (defaults to qty × unitPrice) */
+  totalPrice?: number;
+}
+
+/** Request fields holding a price per unit, with their labels for error messages */
+const PRICE_FIELDS = [
+  ['pricePerUnit', 'Price per unit'],
+  ['minPricePerUnit', 'Minimum price per unit'],
+  ['maxPricePerUnit', 'Maximum price per unit'],
+] as const;
+
+/**
+ * Price sanity check: the town must quote a price for the good that matches
+ * `pricePerUnit` exactly when given, and the applied unit price must lie within
+ * the request's tolerance bounds.
+ */
+function checkPrice(
+  state: GameState,
+  req: TradeRequest,
+  toTown: Town,
+  quotedPrice: number | undefined,
+  totalPrice: number | undefined,
+): void {
+  if (req.pricePerUnit !== undefined && req.pricePerUnit !== quotedPrice) {
+    throw new TradeValidationError(
+      'pricePerUnit',
+      `Price mismatch: requested ${req.pricePerUnit} but town '${toTown.name}' quotes ${quotedPrice} for ${req.goodId}`,
+    );
+  }
+  if (quotedPrice === undefined) {
+    throw new TradeValidationError(
+      `towns[${state.towns.findIndex(t => t.id === req.toTownId)}].prices.${req.goodId}`,
+      `Town '${toTown.name}' does not quote a price for ${req.goodId}`,
+    );
+  }
+
+  const appliedPrice = totalPrice !== undefined ? totalPrice / req.quantity : quotedPrice;
+  const shown = Math.round(appliedPrice * 100) / 100;
+  if (req.maxPricePerUnit !== undefined && appliedPrice > req.maxPricePerUnit) {
+    throw new TradeValidationError(
+      'maxPricePerUnit',
+      `Price above tolerance: town '${toTown.name}' now prices ${req.goodId} at ${shown} per unit, above the maximum of ${req.maxPricePerUnit}`,
+    );
+  }
+  if (req.minPricePerUnit !== undefined && appliedPrice < req.minPricePerUnit) {
+    throw new TradeValidationError(
+      'minPricePerUnit',
+      `Price below tolerance: town '${toTown.name}' now prices ${req.goodId} at ${shown} per unit, below the minimum of ${req.minPricePerUnit}`,
+    );
+  }
 }
 
 /**
  * Validates a trade request and returns a normalized, safe trade plan.
  * Throws TradeValidationError with a precise path if validation fails.
  *
+ * When a town graph is given, the initiating town (`fromTownId`) pays for moving
+ * the goods between the two towns and must be able to afford it.
+ *
+ * The town trades at its ask when the initiating town buys and at its bid when it
+ * sells (see `sidePrice`); without a spread both are its curve price.
+ *
+ * When a quote function is given, the trade settles at the quote's total cost
+ * (each unit priced as the stock moves) rather than quantity × the quoted price;
+ * `pricePerUnit`, if given, must match the quote's first unit, which already
+ * includes the pricing service's spread.
+ *
+ * Instead of an exact price, a request can give `maxPricePerUnit` and/or
+ * `minPricePerUnit`: the trade goes ahead at whatever the town quotes now as long
+ * as the applied unit price (the average along the curve with a quote function)
+ * stays within the bounds.
+ *
  * @param state - Current game state
  * @param req - Trade request to validate
+ * @param graph - Optional town graph used to compute the transport cost
+ * @param quote - Optional function pricing the whole quantity (see `PricingService.quote`)
+ * @param spread - Optional bid/ask spread, used for the town's price when no quote function is given
  * @returns ValidatedTrade with resolved Town objects and normalized values
  * @throws TradeValidationError if validation fails
  */
-export function validateTrade(state: GameState, req: TradeRequest): ValidatedTrade {
+export function validateTrade(
+  state: GameState,
+  req: TradeRequest,
+  graph?: TownGraph,
+  quote?: (req: TradeRequest) => TradeQuote,
+  spread?: SpreadConfig,
+): ValidatedTrade {
   // Check if fromTownId exists
   const fromTown = state.towns.find(town => town.id === req.fromTownId);
   if (!fromTown) {
@@ -69,25 +150,53 @@ export function validateTrade(state: GameState, req: TradeRequest): ValidatedTra
     );
   }
 
-  // Validate price per unit: must be nonnegative
-  if (req.pricePerUnit < 0) {
+  // Validate price per unit and tolerance bounds: must be nonnegative
+  for (const [field, label] of PRICE_FIELDS) {
+    const value = req[field];
+    if (value !== undefined && value < 0) {
+      throw new TradeValidationError(field, `${label} must be nonnegative, got ${value}`);
+    }
+  }
+  if (
+    req.minPricePerUnit !== undefined &&
+    req.maxPricePerUnit !== undefined &&
+    req.minPricePerUnit > req.maxPricePerUnit
+  ) {
     throw new TradeValidationError(
-      'pricePerUnit',
-      `Price per unit must be nonnegative, got ${req.pricePerUnit}`,
+      'minPricePerUnit',
+      `Minimum price per unit ${req.minPricePerUnit} exceeds maximum ${req.maxPricePerUnit}`,
+    );
+  }
+
+  if (req.side !== 'buy' && req.side !== 'sell') {
+    throw new TradeValidationError(
+      'side',
+      `Invalid trade side: ${req.side}. Must be 'buy' or 'sell'`,
+    );
+  }
+
+  // The selling town must have sufficient stock; checked before quoting, which prices every unit
+  const seller = req.side === 'sell' ? fromTown : toTown;
+  if ((seller.resources[req.goodId] ?? 0) < req.quantity) {
+    throw new TradeValidationError(
+      `towns[${state.towns.findIndex(t => t.id === seller.id)}].resources.${req.goodId}`,
+      `Insufficient stock: town '${seller.name}' has ${seller.resources[req.goodId]} ${req.goodId}, but ${req.quantity} requested`,
     );
   }
 
+  const transportCost = graph ? graph.transportCost(req.fromTownId, req.toTownId, req.quantity) : 0;
+  const curveQuote = quote?.(req);
+  const totalPrice = curveQuote?.totalCost;
+  const quotedPrice =
+    toTown.prices[req.goodId] === undefined
+      ? undefined
+      : (curveQuote?.unitPrices[0] ?? sidePrice(toTown, req.goodId, req.side, spread));
+  const requestedTotal = totalPrice ?? req.quantity * (req.pricePerUnit ?? quotedPrice ?? 0);
+
   // Validate side-specific requirements
   if (req.side === 'sell') {
-    // For sell: fromTown must have sufficient stock, toTown must have sufficient treasury
-    if (fromTown.resources[req.goodId] < req.quantity) {
-      throw new TradeValidationError(
-        `towns[${state.towns.findIndex(t => t.id === req.fromTownId)}].resources.${req.goodId}`,
-        `Insufficient stock: town '${fromTown.name}' has ${fromTown.resources[req.goodId]} ${req.goodId}, but ${req.quantity} requested`,
-      );
-    }
-
-    const totalCost = req.quantity * req.pricePerUnit;
+    // For sell: toTown must have sufficient treasury
+    const totalCost = requestedTotal;
     if (toTown.treasury < totalCost) {
       throw new TradeValidationError(
         `towns[${state.towns.findIndex(t => t.id === req.toTownId)}].treasury`,
@@ -95,23 +204,19 @@ export function validateTrade(state: GameState, req: TradeRequest): ValidatedTra
       );
     }
 
-    // Price sanity check: unitPrice must equal toTown's quoted price for the good
-    if (req.pricePerUnit !== toTown.prices[req.goodId]) {
-      throw new TradeValidationError(
-        'pricePerUnit',
-        `Price mismatch: requested ${req.pricePerUnit} but town '${toTown.name}' quotes ${toTown.prices[req.goodId]} for ${req.goodId}`,
-      );
-    }
-  } else if (req.side === 'buy') {
-    // For buy: toTown must have sufficient stock, fromTown must have sufficient treasury
-    if (toTown.resources[req.goodId] < req.quantity) {
+    checkPrice(state, req, toTown, quotedPrice, totalPrice);
+
+    // The seller pays transport out of its treasury plus the sale proceeds
+    if (fromTown.treasury + totalCost < transportCost) {
       throw new TradeValidationError(
-        `towns[${state.towns.findIndex(t => t.id === req.toTownId)}].resources.${req.goodId}`,
-        `Insufficient stock: town '${toTown.name}' has ${toTown.resources[req.goodId]} ${req.goodId}, but ${req.quantity} requested`,
+        `towns[${state.towns.findIndex(t => t.id === req.fromTownId)}].treasury`,
+        `Insufficient treasury: town '${fromTown.name}' cannot cover ${transportCost} transport cost`,
       );
     }
-
-    const totalCost = req.quantity * req.pricePerUnit;
+  } else {
+    // For buy: fromTown must have sufficient treasury
+    // The buyer pays for the goods and their transport
+    const totalCost = requestedTotal + transportCost;
     if (fromTown.treasury < totalCost) {
       throw new TradeValidationError(
         `towns[${state.towns.findIndex(t => t.id === req.fromTownId)}].treasury`,
@@ -119,18 +224,7 @@ export function validateTrade(state: GameState, req: TradeRequest): ValidatedTra
       );
     }
 
-    // Price sanity check: unitPrice must equal toTown's quoted price for the good
-    if (req.pricePerUnit !== toTown.prices[req.goodId]) {
-      throw new TradeValidationError(
-        'pricePerUnit',
-        `Price mismatch: requested ${req.pricePerUnit} but town '${toTown.name}' quotes ${toTown.prices[req.goodId]} for ${req.goodId}`,
-      );
-    }
-  } else {
-    throw new TradeValidationError(
-      'side',
-      `Invalid trade side: ${req.side}. Must be 'buy' or 'sell'`,
-    );
+    checkPrice(state, req, toTown, quotedPrice, totalPrice);
   }
 
   // Return validated trade with resolved Town objects and normalized values
@@ -139,7 +233,9 @@ export function validateTrade(state: GameState, req: TradeRequest): ValidatedTra
     to: toTown,
     goodId: req.goodId,
     qty: req.quantity,
-    unitPrice: req.pricePerUnit,
+    unitPrice: quotedPrice ?? 0,
     side: req.side,
+    ...(graph && { transportCost }),
+    ...(totalPrice !== undefined && { totalPrice }),
   };
 }
@@ -6,3 +6,6 @@ export * from './TradeExecutor';
 export * from './PriceAdjustment';
 export * from './TradeService';
 export * from './TradeLimits';
+export * from './Caravans';
+export * from './BarterExecutor';
+export * from './BarterService';
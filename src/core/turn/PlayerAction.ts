@@ -1,22 +1,55 @@
-import type { TradeRequest } from '../trade/TradeTypes';
+import type { LimitOrderChanges, LimitOrderRequest } from '../orders/LimitOrders';
+import type { BarterRequest, TradeRequest } from '../trade/TradeTypes';
 
 /**
  * Types of player actions that can be performed during a turn.
- * Currently supports 'none' (no action) and 'trade' (trading goods).
+ * Supports 'none' (no action), 'trade' (trading goods) and managing standing
+ * limit orders ('placeOrder', 'amendOrder', 'cancelOrder').
  */
-export type PlayerActionType = 'none' | 'trade';
+export type PlayerActionType = 'none' | 'trade' | 'placeOrder' | 'amendOrder' | 'cancelOrder';
 
 /**
- * Represents a trade action with a trade request payload.
+ * Represents a trade action with a trade request payload: a buy or sell against
+ * the other town's treasury, or a barter of goods for goods (`side: 'barter'`).
  */
 export interface TradeAction {
   type: 'trade';
-  payload: TradeRequest;
+  payload: TradeRequest | BarterRequest;
+}
+
+/**
+ * Places a limit order for the player's town.
+ */
+export interface PlaceOrderAction {
+  type: 'placeOrder';
+  payload: LimitOrderRequest;
+}
+
+/**
+ * Changes the quantity, limit price or expiry of one of the player's open orders.
+ */
+export interface AmendOrderAction {
+  type: 'amendOrder';
+  payload: { orderId: string; changes: LimitOrderChanges };
+}
+
+/**
+ * Cancels one of the player's open orders.
+ */
+export interface CancelOrderAction {
+  type: 'cancelOrder';
+  payload: { orderId: string };
 }
 
 /**
  * Represents a player action as a discriminated union type.
  * - 'none': No action taken during the turn
  * - 'trade': Trading action with associated trade request
+ * - 'placeOrder' / 'amendOrder' / 'cancelOrder': Limit order management
  */
-export type PlayerAction = { type: 'none' } | TradeAction;
+export type PlayerAction =
+  | { type: 'none' }
+  | TradeAction
+  | PlaceOrderAction
+  | AmendOrderAction
+  | CancelOrderAction;
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+
+import { diffState } from './StateDiff';
+
+describe('diffState', () => {
+  it('returns no changes for equal states', () => {
+    const state = { turn: 1, towns: [{ id: 'a', prices: { fish: 10 } }] };
+
+    expect(diffState(state, state)).toEqual([]);
+    expect(diffState(state, JSON.parse(JSON.stringify(state)))).toEqual([]);
+  });
+
+  it('reports changed leaves with their paths', () => {
+    const before = { turn: 1, towns: [{ id: 'a', prices: { fish: 10, ore: 20 } }] };
+    const after = { turn: 2, towns: [{ id: 'a', prices: { fish: 12, ore: 20 } }] };
+
+    expect(diffState(before, after)).toEqual([
+      { path: 'turn', before: 1, after: 2 },
+      { path: 'towns[0].prices.fish', before: 10, after: 12 },
+    ]);
+  });
+
+  it('reports added and removed keys', () => {
+    const before = { controller: { aiCooldowns: { 'a:fish': 2 } } };
+    const after = { controller: { aiCooldowns: { 'b:ore': 1 } } };
+
+    expect(diffState(before, after)).toEqual([
+      { path: 'controller.aiCooldowns.a:fish', before: 2, after: undefined },
+      { path: 'controller.aiCooldowns.b:ore', before: undefined, after: 1 },
+    ]);
+  });
+});
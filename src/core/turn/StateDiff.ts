@@ -0,0 +1,49 @@
+/**
+ * A single value that differs between two states
+ */
+export interface StateChange {
+  /** Path to the value (e.g. "towns[0].prices.fish", "turn") */
+  path: string;
+  /** Value before the change (undefined if it was added) */
+  before: unknown;
+  /** Value after the change (undefined if it was removed) */
+  after: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+function childPath(path: string, key: string, isArray: boolean): string {
+  if (isArray) return `${path}[${key}]`;
+  return path === '' ? key : `${path}.${key}`;
+}
+
+function collect(before: unknown, after: unknown, path: string, out: StateChange[]): void {
+  // Unchanged subtrees share references in immutable state, so this skips most of the tree
+  if (Object.is(before, after)) return;
+
+  if (!isObject(before) || !isObject(after) || Array.isArray(before) !== Array.isArray(after)) {
+    out.push({ path, before, after });
+    return;
+  }
+
+  const isArray = Array.isArray(before);
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    collect(before[key], after[key], childPath(path, key, isArray), out);
+  }
+}
+
+/**
+ * Lists every leaf value that differs between two plain-data states.
+ *
+ * @param before - State before an update
+ * @param after - State after an update
+ * @returns Changed values in key order; empty if the states are equal
+ */
+export function diffState(before: unknown, after: unknown): StateChange[] {
+  const changes: StateChange[] = [];
+  collect(before, after, '', changes);
+  return changes;
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { initGameState } from '../initGameState';
+import type { TradeRequest } from '../trade/TradeTypes';
+
+import { PlayerActionQueue } from './PlayerActionQueue';
+import { createDefaultTurnControllerOptions } from './testHelpers';
+import { TurnController } from './TurnController';
+import { TurnPhase } from './TurnPhase';
+import { createTurnController } from './TurnService';
+import { UpdatePipeline } from './UpdatePipeline';
+
+describe('TurnController - player action budget', () => {
+  let gameState: ReturnType<typeof initGameState>;
+  let playerQ: PlayerActionQueue;
+  let details: Array<Record<string, unknown>>;
+
+  // Each trade targets a different (town, good) pair so its quoted price is still current
+  const buy = (toTownId: string, goodId: string, quantity = 1): TradeRequest => ({
+    fromTownId: 'riverdale',
+    toTownId,
+    goodId,
+    quantity,
+    side: 'buy',
+    pricePerUnit: gameState.towns.find(t => t.id === toTownId)?.prices[goodId] ?? 1,
+  });
+
+  const createController = (playerActionBudget?: number): TurnController =>
+    new TurnController(playerQ, new UpdatePipeline(), {
+      ...createDefaultTurnControllerOptions(),
+      goods: gameState.goods,
+      aiProfiles: {},
+      ...(playerActionBudget !== undefined && { playerActionBudget }),
+      onPhase: (phase, detail) => {
+        if (phase === TurnPhase.PlayerAction) {
+          details.push(detail as Record<string, unknown>);
+        }
+      },
+    });
+
+  beforeEach(() => {
+    gameState = initGameState({ rngSeed: 'budget-seed' });
+    playerQ = new PlayerActionQueue();
+    details = [];
+  });
+
+  it('processes one action per turn by default', async () => {
+    playerQ.enqueue({ type: 'trade', payload: buy('forestburg', 'wood') });
+    playerQ.enqueue({ type: 'trade', payload: buy('ironforge', 'ore') });
+
+    await createController().runTurn(gameState);
+
+    expect(details).toHaveLength(1);
+    expect(playerQ.length).toBe(1);
+  });
+
+  it('processes queued actions in order up to the budget', async () => {
+    const trades = [
+      buy('forestburg', 'wood', 1),
+      buy('ironforge', 'ore', 2),
+      buy('forestburg', 'fish', 3),
+      buy('ironforge', 'wood', 4),
+    ];
+    trades.forEach(payload => playerQ.enqueue({ type: 'trade', payload }));
+
+    const result = await createController(3).runTurn(gameState);
+
+    expect(details.map(d => d.actionIndex)).toEqual([0, 1, 2]);
+    expect(details.map(d => (d.action as { payload: TradeRequest }).payload)).toEqual(
+      trades.slice(0, 3),
+    );
+    expect(details.every(d => 'result' in d)).toBe(true);
+    expect(playerQ.length).toBe(1);
+
+    const before = gameState.towns[0]!.resources;
+    const after = result.state.towns.find(t => t.id === 'riverdale')!.resources;
+    expect(after.wood).toBe(before.wood! + 1);
+    expect(after.ore).toBe(before.ore! + 2);
+    expect(after.fish).toBe(before.fish! + 3);
+  });
+
+  it('rejects a failing action and keeps processing the rest', async () => {
+    playerQ.enqueue({ type: 'trade', payload: buy('forestburg', 'wood', 1) });
+    playerQ.enqueue({
+      type: 'trade',
+      payload: { ...buy('forestburg', 'ore'), toTownId: 'nowhere' },
+    });
+    playerQ.enqueue({ type: 'trade', payload: buy('ironforge', 'wood', 2) });
+
+    const result = await createController(3).runTurn(gameState);
+
+    expect(details.map(d => d.rejected ?? false)).toEqual([false, true, false]);
+    expect(details[1]).toMatchObject({ actionIndex: 1, error: expect.any(String) });
+    const riverdale = result.state.towns.find(t => t.id === 'riverdale')!;
+    expect(riverdale.resources.wood).toBe(gameState.towns[0]!.resources.wood! + 3);
+  });
+
+  it('reports a synthesized none action when the queue is empty', async () => {
+    await createController(3).runTurn(gameState);
+
+    expect(details).toEqual([{ action: { type: 'none' } }]);
+  });
+
+  it('rejects invalid budgets', () => {
+    expect(() => createController(0)).toThrow('Player action budget must be a positive integer');
+    expect(() => createController(1.5)).toThrow('Player action budget must be a positive integer');
+  });
+
+  it('is configurable through createTurnController', async () => {
+    const { controller, playerQ: queue } = createTurnController(gameState, {
+      playerActionBudget: 2,
+    });
+    queue.enqueue({ type: 'none' });
+    queue.enqueue({ type: 'none' });
+    queue.enqueue({ type: 'none' });
+
+    await controller.runTurn(gameState);
+
+    expect(queue.length).toBe(1);
+  });
+});
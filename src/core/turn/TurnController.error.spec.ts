@@ -6,6 +6,7 @@ import { PlayerActionQueue } from './PlayerActionQueue';
 import { createDefaultTurnControllerOptions } from './testHelpers';
 import { TurnController } from './TurnController';
 import { TurnPhaseError } from './TurnErrors';
+import { TurnPhase } from './TurnPhase';
 import { UpdatePipeline } from './UpdatePipeline';
 
 describe('TurnController Error Handling', () => {
@@ -85,10 +86,10 @@ describe('TurnController Error Handling', () => {
     }
   });
 
-  it('should throw TurnPhaseError with correct phase when PlayerAction fails', async () => {
+  it('should reject a failing player action without failing the turn', async () => {
     // Mock the player queue to return an action that will cause an error
     const mockPlayerQWithError = {
-      dequeue: vi.fn().mockReturnValue({
+      dequeue: vi.fn().mockReturnValueOnce({
         type: 'trade',
         payload: {
           fromTownId: 'invalid-town',
@@ -100,14 +101,20 @@ describe('TurnController Error Handling', () => {
         },
       }),
     } as unknown as PlayerActionQueue;
+    const onPhase = vi.fn();
 
-    const controller = new TurnController(
-      mockPlayerQWithError,
-      mockUpdatePipeline,
-      createDefaultTurnControllerOptions(),
-    );
+    const controller = new TurnController(mockPlayerQWithError, mockUpdatePipeline, {
+      ...createDefaultTurnControllerOptions(),
+      onPhase,
+    });
 
-    await expect(controller.runTurn(mockState)).rejects.toThrow(TurnPhaseError);
+    const result = await controller.runTurn(mockState);
+
+    expect(result.state.turn).toBe(1);
+    expect(onPhase).toHaveBeenCalledWith(
+      TurnPhase.PlayerAction,
+      expect.objectContaining({ actionIndex: 0, rejected: true, error: expect.any(String) }),
+    );
   });
 
   it('should throw TurnPhaseError with Start phase when startTurn fails', async () => {
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import { GREEDY } from '../ai/AiProfiles';
+import type { AiProfile } from '../ai/AiTypes';
+import { initGameState } from '../initGameState';
+import { createPricingService } from '../pricing/PricingService';
+
+import { PlayerActionQueue } from './PlayerActionQueue';
+import { TurnController } from './TurnController';
+import { TurnPhase } from './TurnPhase';
+import { UpdatePipeline } from './UpdatePipeline';
+
+interface AiDetail {
+  townId?: string;
+  tradeIndex?: number;
+  tradeResult?: unknown;
+  error?: string;
+  decision?: { skipped?: boolean; request?: { fromTownId: string; goodId: string } };
+  trace?: unknown;
+}
+
+describe('TurnController - multiple AI trades per turn', () => {
+  let gameState: GameState;
+  let details: AiDetail[];
+
+  const createController = (profile: AiProfile): TurnController =>
+    new TurnController(new PlayerActionQueue(), new UpdatePipeline(), {
+      goods: gameState.goods,
+      aiProfiles: { greedy: profile },
+      playerTownId: 'riverdale',
+      pricingService: createPricingService(),
+      onPhase: (phase, detail) => {
+        if (phase === TurnPhase.AiActions && detail && typeof detail === 'object') {
+          details.push(detail as AiDetail);
+        }
+      },
+    });
+
+  const forTown = (townId: string) => details.filter(d => d.townId === townId);
+
+  beforeEach(() => {
+    gameState = initGameState({ rngSeed: 'multi-trade-seed' });
+    details = [];
+  });
+
+  it('makes a single trade per town with the default profiles', async () => {
+    await createController(GREEDY).runTurn(gameState);
+
+    for (const townId of ['forestburg', 'ironforge']) {
+      const trades = forTown(townId).filter(d => d.tradeResult);
+      expect(trades.length).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('keeps trading until the per-turn limit is reached', async () => {
+    await createController({ ...GREEDY, maxTradesPerTurn: 2 }).runTurn(gameState);
+
+    const trades = forTown('forestburg').filter(d => d.tradeResult);
+    expect(trades.map(d => d.tradeIndex)).toEqual([0, 1]);
+    trades.forEach(d => expect(d.trace).toBeDefined());
+  });
+
+  it('stops early and reports the skip when candidates run out', async () => {
+    await createController({ ...GREEDY, maxTradesPerTurn: 50 }).runTurn(gameState);
+
+    const forestburg = forTown('forestburg');
+    const trades = forestburg.filter(d => d.tradeResult);
+    const last = forestburg[forestburg.length - 1]!;
+
+    expect(trades.length).toBeGreaterThan(1);
+    expect(trades.length).toBeLessThan(50);
+    expect(last.decision?.skipped).toBe(true);
+    expect(last.tradeIndex).toBe(trades.length);
+    expect(last.trace).toBeDefined();
+  });
+
+  it('never buys the same good twice in one turn because of cooldowns', async () => {
+    await createController({ ...GREEDY, maxTradesPerTurn: 50 }).runTurn(gameState);
+
+    let buys = 0;
+    for (const townId of ['forestburg', 'ironforge']) {
+      const bought = forTown(townId)
+        .filter(d => d.tradeResult && d.decision!.request!.fromTownId === townId)
+        .map(d => d.decision!.request!.goodId);
+      expect(new Set(bought).size).toBe(bought.length);
+      buys += bought.length;
+    }
+    expect(buys).toBeGreaterThan(0);
+  });
+
+  it('applies each trade to the state used for the next decision', async () => {
+    const single = await createController({ ...GREEDY, maxTradesPerTurn: 1 }).runTurn(gameState);
+    details = [];
+    const multi = await createController({ ...GREEDY, maxTradesPerTurn: 3 }).runTurn(gameState);
+
+    const tradeCount = details.filter(d => d.tradeResult).length;
+    expect(tradeCount).toBeGreaterThan(2);
+    expect(multi.state.towns).not.toEqual(single.state.towns);
+  });
+
+  it('makes no trades when the limit is zero', async () => {
+    const result = await createController({ ...GREEDY, maxTradesPerTurn: 0 }).runTurn(gameState);
+
+    expect(details.filter(d => d.tradeResult)).toHaveLength(0);
+    expect(result.state.towns).toEqual(gameState.towns);
+  });
+});
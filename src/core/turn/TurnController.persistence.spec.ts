@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import { deserializeGameState } from '../deserialize';
+import { initGameState } from '../initGameState';
+import { serializeGameState } from '../serialize';
+
+import { createTurnController } from './TurnService';
+
+async function runTurns(state: GameState, turns: number): Promise<GameState> {
+  const { controller } = createTurnController(state);
+  let current = state;
+  for (let i = 0; i < turns; i++) {
+    current = (await controller.runTurn(current)).state;
+  }
+  return current;
+}
+
+describe('TurnController state persistence', () => {
+  it('stores AI cooldowns in the returned game state', async () => {
+    const state = initGameState({ rngSeed: 'persist' });
+
+    const next = await runTurns(state, 1);
+
+    expect(Object.keys(next.controller?.aiCooldowns ?? {}).length).toBeGreaterThan(0);
+    Object.entries(next.controller!.aiCooldowns).forEach(([key, until]) => {
+      expect(key).toMatch(/^[^:]+:[^:]+$/);
+      expect(until).toBeGreaterThanOrEqual(next.turn);
+    });
+  });
+
+  it('does not mutate the cooldowns of the input state', async () => {
+    const state: GameState = {
+      ...initGameState({ rngSeed: 'persist' }),
+      controller: { aiCooldowns: { 'forestburg:fish': 0 } },
+    };
+    const snapshot = JSON.parse(JSON.stringify(state)) as GameState;
+
+    await runTurns(state, 2);
+
+    expect(state).toStrictEqual(snapshot);
+  });
+
+  it('replaying from a save gives the same result as never saving', async () => {
+    const initial = initGameState({ rngSeed: 'replay' });
+
+    // One uninterrupted session
+    const uninterrupted = await runTurns(initial, 6);
+
+    // Save mid-game, reload into a fresh controller and continue
+    const midGame = await runTurns(initial, 3);
+    expect(Object.keys(midGame.controller?.aiCooldowns ?? {}).length).toBeGreaterThan(0);
+
+    const reloaded = deserializeGameState(serializeGameState(midGame));
+    const resumed = await runTurns(reloaded, 3);
+
+    expect(resumed).toStrictEqual(uninterrupted);
+  });
+});
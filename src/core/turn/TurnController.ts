@@ -1,19 +1,56 @@
-import type { GameState } from '../../types/GameState';
+import type { GameState, LedgerEntry, LimitOrder, TradeInitiator } from '../../types/GameState';
 import type { GoodConfig } from '../../types/Goods';
 import { decideAiTrade } from '../ai/AiEngine';
 import type { AiProfile } from '../ai/AiTypes';
 import type { CooldownState } from '../ai/Cooldown';
 import { markCooldown, createCooldownKey, clearExpiredCooldowns } from '../ai/Cooldown';
-import type { createPricingService } from '../pricing/PricingService';
+import type { PriceHistoryRecorder } from '../history/PriceHistory';
+import { pruneLedger, recordTrades } from '../ledger/TradeLedger';
+import type { LedgerRetention } from '../ledger/TradeLedger';
+import type { TownGraph } from '../map/TownGraph';
+import { amendOrder, cancelOrder, fillOrders, OrderError, placeOrder } from '../orders/LimitOrders';
+import type { OrderFill } from '../orders/LimitOrders';
+import type { PricingStrategy } from '../pricing/PricingStrategy';
+import type { SpreadConfig } from '../pricing/Spread';
 import { advanceTurn } from '../stateApi';
+import { performBarter } from '../trade/BarterService';
+import type { ShippingOptions } from '../trade/Caravans';
+import type { TradeLimits } from '../trade/TradeLimits';
 import { performTrade } from '../trade/TradeService';
+import type { BarterRequest, TradeRequest } from '../trade/TradeTypes';
 
+import type { AmendOrderAction, CancelOrderAction, PlaceOrderAction } from './PlayerAction';
 import type { PlayerActionQueue } from './PlayerActionQueue';
 import { TurnPhaseError } from './TurnErrors';
 import { TurnPhase } from './TurnPhase';
 import type { UpdatePipeline } from './UpdatePipeline';
 
-type PricingService = ReturnType<typeof createPricingService>;
+const PLAYER: TradeInitiator = { type: 'player' };
+
+/**
+ * Builds the ledger entry for a completed buy or sell.
+ */
+function ledgerEntry(
+  turn: number,
+  trade: Pick<TradeRequest, 'fromTownId' | 'toTownId' | 'goodId' | 'quantity' | 'side'>,
+  unitPrice: number,
+  transportCost: number,
+  initiator: TradeInitiator,
+  via?: LedgerEntry['via'],
+): LedgerEntry {
+  return {
+    turn,
+    fromTownId: trade.fromTownId,
+    toTownId: trade.toTownId,
+    goodId: trade.goodId,
+    quantity: trade.quantity,
+    unitPrice,
+    side: trade.side,
+    initiator,
+    ...(transportCost > 0 && { transportCost }),
+    ...(via && { via }),
+  };
+}
 
 /**
  * Result of running a complete turn, containing the updated game state
@@ -26,6 +63,11 @@ export interface TurnResult {
   phaseLog: TurnPhase[];
 }
 
+/**
+ * Check run on the states before and after a phase; throws to fail the turn.
+ */
+export type PhaseCheck = (phase: TurnPhase, before: GameState, after: GameState) => void;
+
 /**
  * Options for configuring the TurnController
  */
@@ -39,8 +81,41 @@ export interface TurnControllerOptions {
   aiProfiles: Record<string, AiProfile>;
   /** ID of the player's town (AI towns are all others) */
   playerTownId: string;
-  /** Pricing service for post-trade and per-turn price adjustments */
-  pricingService: PricingService;
+  /** Maximum number of queued player actions processed per turn (default: 1) */
+  playerActionBudget?: number;
+  /** Pricing strategy for quotes, post-trade and per-turn price adjustments */
+  pricingService: PricingStrategy;
+  /** Optional town graph; when set, trades pay transport costs between towns */
+  townGraph?: TownGraph;
+  /** Optional shipping options; when set, traded goods travel to the buyer as caravans */
+  shipping?: ShippingOptions;
+  /** Optional game limits applied to player, AI and order trades */
+  limits?: TradeLimits;
+  /**
+   * Optional bid/ask spread used by AI candidates and order triggers; it should match
+   * the pricing service's spread, which prices the trades themselves
+   */
+  spread?: SpreadConfig;
+  /**
+   * Optional callback that persists the final state during the End phase.
+   * Failures are reported in the End phase detail and do not fail the turn.
+   */
+  autosave?: (state: GameState) => void;
+  /**
+   * Optional check run after every phase with the states before and after it.
+   * Throwing from it fails the turn in that phase.
+   */
+  checkPhase?: PhaseCheck;
+  /**
+   * Optional price history recorder; it should also receive the pricing strategy's
+   * price traces. Each turn's bars are added during the End phase, before autosave.
+   */
+  priceHistory?: PriceHistoryRecorder;
+  /**
+   * Optional ledger retention; trades of older turns are dropped during the End
+   * phase, before price history and autosave. Without it, every trade is kept.
+   */
+  ledgerRetention?: LedgerRetention;
 }
 
 /**
@@ -55,8 +130,16 @@ export class TurnController {
   private readonly goods: Record<string, GoodConfig>;
   private readonly aiProfiles: Record<string, AiProfile>;
   private readonly playerTownId: string;
-  private readonly pricingService: PricingService;
-  private cooldownState: CooldownState = {};
+  private readonly playerActionBudget: number;
+  private readonly pricingService: PricingStrategy;
+  private readonly autosave: ((state: GameState) => void) | undefined;
+  private readonly townGraph: TownGraph | undefined;
+  private readonly shipping: ShippingOptions | undefined;
+  private readonly limits: TradeLimits | undefined;
+  private readonly spread: SpreadConfig | undefined;
+  private readonly checkPhase: PhaseCheck | undefined;
+  private readonly priceHistory: PriceHistoryRecorder | undefined;
+  private readonly ledgerRetention: LedgerRetention | undefined;
 
   constructor(
     private readonly playerQ: PlayerActionQueue,
@@ -82,12 +165,25 @@ export class TurnController {
     if (!options.pricingService) {
       throw new Error('Pricing service is required');
     }
+    const playerActionBudget = options.playerActionBudget ?? 1;
+    if (!Number.isInteger(playerActionBudget) || playerActionBudget < 1) {
+      throw new Error(`Player action budget must be a positive integer, got ${playerActionBudget}`);
+    }
 
     this.onPhase = options.onPhase || undefined;
     this.goods = options.goods;
     this.aiProfiles = options.aiProfiles;
     this.playerTownId = options.playerTownId;
+    this.playerActionBudget = playerActionBudget;
     this.pricingService = options.pricingService;
+    this.autosave = options.autosave;
+    this.townGraph = options.townGraph;
+    this.shipping = options.shipping;
+    this.limits = options.limits;
+    this.spread = options.spread;
+    this.checkPhase = options.checkPhase;
+    this.priceHistory = options.priceHistory;
+    this.ledgerRetention = options.ledgerRetention;
   }
   /**
    * Runs a complete game turn, executing all phases in sequence.
@@ -108,19 +204,28 @@ export class TurnController {
     try {
       // Execute phases in order
       let currentState = await this.startTurn(state);
+      this.checkPhase?.(TurnPhase.Start, state, currentState);
       phaseLog.push(TurnPhase.Start);
       this.onPhase?.(TurnPhase.Start);
 
-      currentState = await this.playerAction(currentState);
+      let before = currentState;
+      currentState = await this.playerAction(before);
+      this.checkPhase?.(TurnPhase.PlayerAction, before, currentState);
       phaseLog.push(TurnPhase.PlayerAction);
 
-      currentState = await this.aiActions(currentState);
+      before = currentState;
+      currentState = await this.aiActions(before);
+      this.checkPhase?.(TurnPhase.AiActions, before, currentState);
       phaseLog.push(TurnPhase.AiActions);
 
-      currentState = await this.updateStats(currentState);
+      before = currentState;
+      currentState = await this.updateStats(before);
+      this.checkPhase?.(TurnPhase.UpdateStats, before, currentState);
       phaseLog.push(TurnPhase.UpdateStats);
 
-      currentState = await this.endTurn(currentState);
+      before = currentState;
+      currentState = await this.endTurn(state, before);
+      this.checkPhase?.(TurnPhase.End, before, currentState);
       phaseLog.push(TurnPhase.End);
 
       return {
@@ -128,6 +233,9 @@ export class TurnController {
         phaseLog,
       };
     } catch (error) {
+      // Price changes of a failed turn never happened
+      this.priceHistory?.discard();
+
       // If any phase fails, throw a TurnPhaseError with phase context
       // The original state remains unchanged due to immutability assumption
       // Determine which phase failed based on the phase log length
@@ -158,57 +266,198 @@ export class TurnController {
   }
 
   /**
-   * Player action phase - consumes one action from the queue if available,
-   * otherwise synthesizes a 'none' action.
+   * Player action phase - processes queued actions in order, up to the per-turn
+   * action budget. If the queue is empty, synthesizes a 'none' action.
+   *
+   * Each action is reported separately through `onPhase`. A failed action is
+   * rejected and reported with its error; the turn continues with the next action.
    * @param s - Current game state
-   * @returns Updated game state after processing the action
+   * @returns Updated game state after processing the actions
    */
   private async playerAction(s: GameState): Promise<GameState> {
-    // Consume one action from the queue, or synthesize 'none' if empty
-    const action = this.playerQ.dequeue() ?? { type: 'none' as const };
-
-    // Process the action based on its type
-    let resultSummary: unknown;
     let currentState = s;
+    let processed = 0;
 
-    switch (action.type) {
-      case 'trade':
-        try {
-          const tradeResult = await performTrade(
-            s,
-            action.payload,
-            this.pricingService,
-            this.goods,
-          );
-          currentState = tradeResult.state;
-          resultSummary = {
-            action,
-            result: {
-              unitPriceApplied: tradeResult.unitPriceApplied,
-              deltas: tradeResult.deltas,
-            },
-          };
-        } catch (error) {
-          // Wrap trade errors in TurnPhaseError to maintain phase error policy
-          throw new TurnPhaseError(TurnPhase.PlayerAction, error);
-        }
-        break;
-
-      case 'none':
-      default:
-        // No state changes for 'none' action
-        resultSummary = { action };
+    while (processed < this.playerActionBudget) {
+      const action = this.playerQ.dequeue();
+      if (!action) {
         break;
+      }
+      const actionIndex = processed++;
+
+      switch (action.type) {
+        case 'trade':
+          try {
+            const result =
+              action.payload.side === 'barter'
+                ? await this.barter(currentState, action.payload)
+                : await this.trade(currentState, action.payload);
+            currentState = result.state;
+            this.onPhase?.(TurnPhase.PlayerAction, { action, actionIndex, result: result.detail });
+          } catch (error) {
+            // Reject just this action; the state is left as it was before it
+            this.onPhase?.(TurnPhase.PlayerAction, {
+              action,
+              actionIndex,
+              rejected: true,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+          break;
+
+        case 'placeOrder':
+        case 'amendOrder':
+        case 'cancelOrder':
+          try {
+            const { state: next, order } = this.applyOrderAction(currentState, action);
+            currentState = next;
+            this.onPhase?.(TurnPhase.PlayerAction, { action, actionIndex, order });
+          } catch (error) {
+            this.onPhase?.(TurnPhase.PlayerAction, {
+              action,
+              actionIndex,
+              rejected: true,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+          break;
+
+        case 'none':
+        default:
+          // No state changes for 'none' action
+          this.onPhase?.(TurnPhase.PlayerAction, { action, actionIndex });
+          break;
+      }
     }
 
-    // Notify observer of the phase execution
-    this.onPhase?.(TurnPhase.PlayerAction, resultSummary);
+    // Nothing was queued: report a synthesized 'none' action
+    if (processed === 0) {
+      this.onPhase?.(TurnPhase.PlayerAction, { action: { type: 'none' } });
+    }
 
     return currentState;
   }
 
   /**
-   * AI actions phase - processes AI trade decisions for each AI town.
+   * Performs a player's buy or sell.
+   * @returns The new state and the result reported through `onPhase`
+   * @throws TradeValidationError if the trade is invalid
+   */
+  private async trade(
+    s: GameState,
+    request: TradeRequest,
+  ): Promise<{ state: GameState; detail: Record<string, unknown> }> {
+    const tradeResult = await performTrade(
+      s,
+      request,
+      this.pricingService,
+      this.goods,
+      this.limits,
+      this.townGraph,
+      this.shipping,
+    );
+    return {
+      state: recordTrades(tradeResult.state, [
+        ledgerEntry(
+          s.turn,
+          request,
+          tradeResult.unitPriceApplied,
+          tradeResult.transportCost,
+          PLAYER,
+        ),
+      ]),
+      detail: {
+        unitPriceApplied: tradeResult.unitPriceApplied,
+        transportCost: tradeResult.transportCost,
+        deltas: tradeResult.deltas,
+        ...(tradeResult.caravan && { caravan: tradeResult.caravan }),
+      },
+    };
+  }
+
+  /**
+   * Performs a player's barter of goods for goods.
+   * @returns The new state and the result reported through `onPhase`
+   * @throws TradeValidationError if the barter is invalid
+   */
+  private async barter(
+    s: GameState,
+    request: BarterRequest,
+  ): Promise<{ state: GameState; detail: Record<string, unknown> }> {
+    const barterResult = await performBarter(
+      s,
+      request,
+      this.pricingService,
+      this.goods,
+      this.limits,
+      this.townGraph,
+      this.shipping,
+    );
+    // One entry per good, valued at the prices they were exchanged at; the offered
+    // good carries the transport cost, as it does in the barter
+    const given = { ...request, quantity: barterResult.givenQuantity, side: 'sell' as const };
+    const received = {
+      ...request,
+      goodId: request.wantGoodId,
+      quantity: barterResult.receivedQuantity,
+      side: 'buy' as const,
+    };
+    return {
+      state: recordTrades(barterResult.state, [
+        ledgerEntry(
+          s.turn,
+          given,
+          barterResult.givenUnitValue,
+          barterResult.transportCost,
+          PLAYER,
+          'barter',
+        ),
+        ledgerEntry(s.turn, received, barterResult.receivedUnitValue, 0, PLAYER, 'barter'),
+      ]),
+      detail: {
+        givenQuantity: barterResult.givenQuantity,
+        receivedQuantity: barterResult.receivedQuantity,
+        exchangeRate: barterResult.exchangeRate,
+        transportCost: barterResult.transportCost,
+        deltas: barterResult.deltas,
+        ...(barterResult.caravans && { caravans: barterResult.caravans }),
+      },
+    };
+  }
+
+  /**
+   * Applies a limit order action for the player's town. The player can only place
+   * orders for, and change or cancel orders of, its own town.
+   * @returns The new state and the placed, amended or cancelled order
+   * @throws OrderError if the action is invalid
+   */
+  private applyOrderAction(
+    s: GameState,
+    action: PlaceOrderAction | AmendOrderAction | CancelOrderAction,
+  ): { state: GameState; order: LimitOrder } {
+    if (action.type === 'placeOrder') {
+      if (action.payload.townId !== this.playerTownId) {
+        throw new OrderError('townId', 'Orders can only be placed for the player town');
+      }
+      return placeOrder(s, action.payload);
+    }
+
+    const order = s.orders?.find(candidate => candidate.id === action.payload.orderId);
+    if (order && order.townId !== this.playerTownId) {
+      throw new OrderError('orderId', `Order '${order.id}' does not belong to the player town`);
+    }
+
+    if (action.type === 'amendOrder') {
+      return amendOrder(s, action.payload.orderId, action.payload.changes);
+    }
+    return { state: cancelOrder(s, action.payload.orderId), order: order! };
+  }
+
+  /**
+   * AI actions phase - each AI town trades up to its profile's `maxTradesPerTurn` times,
+   * deciding against the state left by its previous trade.
+   * Cooldowns are read from and written back to `state.controller`, so they
+   * survive serialization.
    * @param s - Current game state
    * @returns Updated game state after AI actions
    */
@@ -216,16 +465,18 @@ export class TurnController {
     let currentState = s;
     const aiTowns = s.towns.filter(town => town.id !== this.playerTownId);
 
-    // Clear expired cooldowns at the start of AI actions phase
-    // Clear cooldowns that expired before this turn started
-    clearExpiredCooldowns(this.cooldownState, s.turn - 1);
-
     // If there are no AI towns, emit a simple phase hook and return
     if (aiTowns.length === 0) {
       this.onPhase?.(TurnPhase.AiActions, { decided: false });
       return currentState;
     }
 
+    // Work on a copy of the persisted cooldowns; the input state is never mutated
+    const cooldownState: CooldownState = { ...s.controller?.aiCooldowns };
+
+    // Clear cooldowns that expired before this turn started
+    clearExpiredCooldowns(cooldownState, s.turn - 1);
+
     // Emit phase hook before AI actions execution
     this.onPhase?.(TurnPhase.AiActions, { phase: 'start', aiTownCount: aiTowns.length });
 
@@ -237,17 +488,35 @@ export class TurnController {
         continue;
       }
 
-      // Decide on trade action
-      const decision = decideAiTrade(
-        currentState,
-        town.id,
-        profile,
-        this.goods,
-        currentState.rngSeed,
-        this.cooldownState,
-      );
-
-      if (decision.request) {
+      // Keep trading against the updated state until the town reaches its per-turn
+      // limit, runs out of candidates (cooldowns remove recently traded goods) or a trade fails
+      for (let tradeIndex = 0; tradeIndex < profile.maxTradesPerTurn; tradeIndex++) {
+        // Vary the seed after the first trade so random towns don't repeat the same pick
+        const seed =
+          tradeIndex === 0 ? currentState.rngSeed : `${currentState.rngSeed}#${tradeIndex}`;
+        const decision = decideAiTrade(
+          currentState,
+          town.id,
+          profile,
+          this.goods,
+          seed,
+          cooldownState,
+          this.townGraph,
+          this.pricingService.quote,
+          this.spread,
+        );
+
+        if (!decision.request) {
+          // AI decided to stop trading this turn
+          this.onPhase?.(TurnPhase.AiActions, {
+            townId: town.id,
+            tradeIndex,
+            decision,
+            trace: decision.trace,
+          });
+          break;
+        }
+
         try {
           // Execute the trade
           const tradeResult = await performTrade(
@@ -255,67 +524,156 @@ export class TurnController {
             decision.request,
             this.pricingService,
             this.goods,
+            this.limits,
+            this.townGraph,
+            this.shipping,
           );
-          currentState = tradeResult.state;
+          currentState = recordTrades(tradeResult.state, [
+            ledgerEntry(
+              s.turn,
+              decision.request,
+              tradeResult.unitPriceApplied,
+              tradeResult.transportCost,
+              { type: 'ai', profileId: profile.id },
+            ),
+          ]);
 
           // Mark cooldown for the AI town that made the decision (townId, goodId) combination
           const cooldownKey = createCooldownKey(town.id, decision.request.goodId);
-          markCooldown(this.cooldownState, cooldownKey, s.turn);
+          markCooldown(cooldownState, cooldownKey, s.turn);
 
           // Notify observer with trade details and telemetry
           this.onPhase?.(TurnPhase.AiActions, {
             townId: town.id,
+            tradeIndex,
             decision,
             tradeResult: {
               unitPriceApplied: tradeResult.unitPriceApplied,
+              transportCost: tradeResult.transportCost,
               deltas: tradeResult.deltas,
+              ...(tradeResult.caravan && { caravan: tradeResult.caravan }),
             },
             trace: decision.trace,
           });
-
-          // Note: maxTradesPerTurn is per-town, not global
-          // Each town can make up to their maxTradesPerTurn trades
         } catch (error) {
-          // Log error but continue with other AI towns
+          // Log error and move on to the next AI town
           this.onPhase?.(TurnPhase.AiActions, {
             townId: town.id,
+            tradeIndex,
             decision,
             error: error instanceof Error ? error.message : String(error),
             trace: decision.trace,
           });
+          break;
         }
-      } else {
-        // AI decided to skip trading
-        this.onPhase?.(TurnPhase.AiActions, {
-          townId: town.id,
-          decision,
-          trace: decision.trace,
-        });
       }
     }
 
-    return currentState;
+    return {
+      ...currentState,
+      controller: { ...currentState.controller, aiCooldowns: cooldownState },
+    };
   }
 
   /**
-   * Update stats phase - runs all registered update systems through the pipeline.
+   * Update stats phase - runs all enabled update systems through the pipeline, then
+   * checks open limit orders against the drifted prices.
+   * Emits how many systems ran plus a per-system report (timing and changed values),
+   * and what happened to each open order if there were any.
    * @param s - Current game state
-   * @returns Updated game state after all update systems have been applied
+   * @returns Updated game state after all update systems and order fills have been applied
    */
   private async updateStats(s: GameState): Promise<GameState> {
-    const s2 = this.updatePipeline.run(s);
+    const { state: s2, reports } = this.updatePipeline.runWithReport(s);
+
+    const { state: s3, fills } = await fillOrders(s2, {
+      pricingService: this.pricingService,
+      goods: this.goods,
+      ...(this.townGraph && { graph: this.townGraph }),
+      ...(this.shipping && { shipping: this.shipping }),
+      ...(this.limits && { limits: this.limits }),
+      ...(this.spread && { spread: this.spread }),
+    });
+    const s4 = recordTrades(s3, this.orderFillEntries(s2, fills));
+
+    this.onPhase?.(TurnPhase.UpdateStats, {
+      ran: reports.filter(report => !report.skipped).length,
+      systems: reports,
+      ...(fills.length > 0 && { orders: fills }),
+    });
+    return s4;
+  }
 
-    this.onPhase?.(TurnPhase.UpdateStats, { ran: this.updatePipeline.systemCount });
-    return s2;
+  /**
+   * Builds ledger entries for the orders that traded this turn.
+   * @param s - State the orders were filled from (it still holds every filled order)
+   * @param fills - Fill reports from `fillOrders`
+   * @returns One entry per order that traded, in fill order
+   */
+  private orderFillEntries(s: GameState, fills: OrderFill[]): LedgerEntry[] {
+    return fills.flatMap(fill => {
+      const order = s.orders?.find(candidate => candidate.id === fill.orderId);
+      if (!order || fill.quantity === 0 || fill.unitPrice === undefined) {
+        return [];
+      }
+      const trade = {
+        fromTownId: order.townId,
+        toTownId: order.counterpartyId,
+        goodId: order.goodId,
+        quantity: fill.quantity,
+        side: order.side,
+      };
+      return [
+        ledgerEntry(
+          s.turn,
+          trade,
+          fill.unitPrice,
+          fill.transportCost ?? 0,
+          this.initiatorFor(s, order.townId),
+          'order',
+        ),
+      ];
+    });
   }
 
   /**
-   * End of turn phase - emits turn summary and returns final state.
-   * @param s - Current game state
-   * @returns Same game state (no changes)
+   * Gets who trades on behalf of a town: the player, or the town's AI profile.
    */
-  private async endTurn(s: GameState): Promise<GameState> {
-    this.onPhase?.(TurnPhase.End, { turn: s.turn });
+  private initiatorFor(s: GameState, townId: string): TradeInitiator {
+    if (townId === this.playerTownId) {
+      return PLAYER;
+    }
+    const town = s.towns.find(candidate => candidate.id === townId);
+    return { type: 'ai', profileId: town?.aiProfileId || 'greedy' };
+  }
+
+  /**
+   * End of turn phase - drops trades past the ledger retention, adds the turn's price
+   * bars and autosaves the final state (if configured), emits turn summary and returns
+   * final state.
+   * @param start - State the turn started from
+   * @param current - Current game state
+   * @returns Game state with the turn's price bars (unchanged without retention or a recorder)
+   */
+  private async endTurn(start: GameState, current: GameState): Promise<GameState> {
+    const pruned = this.ledgerRetention ? pruneLedger(current, this.ledgerRetention) : current;
+    const s = this.priceHistory ? this.priceHistory.record(start, pruned) : pruned;
+    if (!this.autosave) {
+      this.onPhase?.(TurnPhase.End, { turn: s.turn });
+      return s;
+    }
+
+    try {
+      this.autosave(s);
+      this.onPhase?.(TurnPhase.End, { turn: s.turn, autosaved: true });
+    } catch (error) {
+      // A failed save must not lose the turn; surface it to observers instead
+      this.onPhase?.(TurnPhase.End, {
+        turn: s.turn,
+        autosaved: false,
+        autosaveError: error instanceof Error ? error.message : String(error),
+      });
+    }
     return s;
   }
 }
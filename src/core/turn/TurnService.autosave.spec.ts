@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+import { initGameState } from '../initGameState';
+import { AUTOSAVE_SLOT, createSaveManager } from '../save/SaveManager';
+import type { SaveManager } from '../save/SaveManager';
+import { createMemoryStorage } from '../save/SaveStorage';
+
+import { TurnPhase } from './TurnPhase';
+import { createTurnController } from './TurnService';
+
+describe('TurnService autosave', () => {
+  let state: GameState;
+  let saves: SaveManager;
+
+  beforeEach(() => {
+    state = initGameState({ rngSeed: 'autosave' });
+    saves = createSaveManager({ storage: createMemoryStorage() });
+  });
+
+  it('writes the end-of-turn state to the autosave slot', async () => {
+    const { controller } = createTurnController(state, { autosave: { saves } });
+
+    const result = await controller.runTurn(state);
+
+    expect(saves.load(AUTOSAVE_SLOT)).toEqual(result.state);
+  });
+
+  it('writes to a custom slot and reports it in the End phase', async () => {
+    const details: unknown[] = [];
+    const { controller } = createTurnController(state, {
+      autosave: { saves, slot: 'campaign' },
+      onPhase: (phase, detail) => {
+        if (phase === TurnPhase.End) details.push(detail);
+      },
+    });
+
+    await controller.runTurn(state);
+
+    expect(saves.load('campaign')?.turn).toBe(1);
+    expect(details).toEqual([{ turn: 1, autosaved: true }]);
+  });
+
+  it('keeps the turn when the autosave fails', async () => {
+    const details: unknown[] = [];
+    const failing = createSaveManager({
+      storage: {
+        ...createMemoryStorage(),
+        setItem: () => {
+          throw new Error('disk full');
+        },
+      },
+    });
+    const { controller } = createTurnController(state, {
+      autosave: { saves: failing },
+      onPhase: (phase, detail) => {
+        if (phase === TurnPhase.End) details.push(detail);
+      },
+    });
+
+    const result = await controller.runTurn(state);
+
+    expect(result.state.turn).toBe(1);
+    expect(details).toEqual([
+      { turn: 1, autosaved: false, autosaveError: 'Failed to write save: disk full' },
+    ]);
+  });
+});
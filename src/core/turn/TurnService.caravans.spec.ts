@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+
+import { initGameState } from '../initGameState';
+import { DEFAULT_SPREAD, sidePrice } from '../pricing/Spread';
+
+import { TurnPhase } from './TurnPhase';
+import { CARAVAN_SYSTEM_ID, createTurnController, PRODUCTION_SYSTEM_ID } from './TurnService';
+import type { UpdateSystemReport } from './UpdatePipeline';
+
+describe('TurnService shipping mode', () => {
+  const setup = () => {
+    const state = initGameState({ rngSeed: 'caravan-seed' });
+    const details: Array<{ phase: TurnPhase; detail: unknown }> = [];
+    const { controller, playerQ } = createTurnController(state, {
+      playerTownId: 'riverdale',
+      aiProfiles: {},
+      shipping: { travelTurns: 2 },
+      // Keep production out of the way so stock only changes through trades
+      configurePipeline: pipeline => pipeline.setEnabled(PRODUCTION_SYSTEM_ID, false),
+      onPhase: (phase, detail) => details.push({ phase, detail }),
+    });
+    return { state, details, controller, playerQ };
+  };
+
+  it('delivers player purchases after the travel time', async () => {
+    const { state, details, controller, playerQ } = setup();
+    const forestburg = state.towns.find(t => t.id === 'forestburg')!;
+    const woodBefore = state.towns.find(t => t.id === 'riverdale')!.resources.wood!;
+
+    playerQ.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId: 'wood',
+        quantity: 5,
+        side: 'buy',
+        pricePerUnit: sidePrice(forestburg, 'wood', 'buy', DEFAULT_SPREAD)!,
+      },
+    });
+
+    const turn1 = (await controller.runTurn(state)).state;
+    const riverdaleWood = (s: typeof state) =>
+      s.towns.find(t => t.id === 'riverdale')!.resources.wood;
+
+    expect(riverdaleWood(turn1)).toBe(woodBefore);
+    expect(turn1.caravans).toEqual([
+      {
+        id: 'caravan-1-0',
+        originId: 'forestburg',
+        destinationId: 'riverdale',
+        goodId: 'wood',
+        quantity: 5,
+        departedTurn: 1,
+        arrivalTurn: 3,
+      },
+    ]);
+    const action = details.find(d => d.phase === TurnPhase.PlayerAction)!.detail as {
+      result: { caravan?: unknown };
+    };
+    expect(action.result.caravan).toEqual(turn1.caravans![0]);
+
+    const turn2 = (await controller.runTurn(turn1)).state;
+    expect(riverdaleWood(turn2)).toBe(woodBefore);
+    expect(turn2.caravans).toHaveLength(1);
+
+    details.length = 0;
+    const turn3 = (await controller.runTurn(turn2)).state;
+    expect(riverdaleWood(turn3)).toBe(woodBefore + 5);
+    expect(turn3.caravans).toEqual([]);
+
+    const update = details.find(d => d.phase === TurnPhase.UpdateStats)!.detail as {
+      systems: UpdateSystemReport[];
+    };
+    const caravanReport = update.systems.find(report => report.id === CARAVAN_SYSTEM_ID)!;
+    expect(caravanReport.changes).toContainEqual({
+      path: 'towns[0].resources.wood',
+      before: woodBefore,
+      after: woodBefore + 5,
+    });
+  });
+});
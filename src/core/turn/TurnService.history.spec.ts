@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+
+import { latestBar, priceBars } from '../history/PriceHistory';
+import { initGameState } from '../initGameState';
+import { DEFAULT_SPREAD, sidePrice } from '../pricing/Spread';
+
+import { createTurnController } from './TurnService';
+
+describe('TurnService price history', () => {
+  const state = initGameState({ rngSeed: 'history-seed' });
+
+  it('adds a bar per town and good every turn, including the turn trades', async () => {
+    const forestburg = state.towns.find(t => t.id === 'forestburg')!;
+    const { controller, playerQ } = createTurnController(state, {
+      playerTownId: 'riverdale',
+      aiProfiles: {},
+    });
+    playerQ.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId: 'wood',
+        quantity: 2,
+        side: 'buy',
+        pricePerUnit: sidePrice(forestburg, 'wood', 'buy', DEFAULT_SPREAD)!,
+      },
+    });
+
+    let current = (await controller.runTurn(state)).state;
+    current = (await controller.runTurn(current)).state;
+
+    const wood = priceBars(current, 'forestburg', 'wood');
+    expect(wood.map(bar => bar.turn)).toEqual([1, 2]);
+    expect(wood[0]).toMatchObject({ open: forestburg.prices.wood, volume: 2 });
+    expect(wood[1]!.open).toBe(wood[0]!.close);
+    expect(wood[1]!.volume).toBe(0);
+    const town = current.towns.find(t => t.id === 'forestburg')!;
+    expect(latestBar(current, 'forestburg', 'wood')).toMatchObject({
+      close: town.prices.wood,
+      stock: town.resources.wood,
+    });
+  });
+
+  it('keeps the configured number of turns', async () => {
+    const { controller } = createTurnController(state, {
+      aiProfiles: {},
+      priceHistory: { maxBars: 2 },
+    });
+
+    let current = state;
+    for (let turn = 0; turn < 3; turn++) {
+      current = (await controller.runTurn(current)).state;
+    }
+
+    expect(priceBars(current, 'riverdale', 'fish').map(bar => bar.turn)).toEqual([2, 3]);
+  });
+
+  it('keeps no history when turned off', async () => {
+    const { controller } = createTurnController(state, { priceHistory: false });
+
+    const result = await controller.runTurn(state);
+
+    expect(result.state.priceHistory).toBeUndefined();
+  });
+});
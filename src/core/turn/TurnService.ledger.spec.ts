@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+
+import { initGameState } from '../initGameState';
+import { queryLedger } from '../ledger/TradeLedger';
+import { DEFAULT_SPREAD, sidePrice } from '../pricing/Spread';
+
+import { TurnPhase } from './TurnPhase';
+import { createTurnController } from './TurnService';
+
+describe('TurnService trade ledger', () => {
+  const setup = (aiProfiles?: Record<string, never>) => {
+    const state = initGameState({ rngSeed: 'ledger-seed' });
+    const details: Array<{ phase: TurnPhase; detail: unknown }> = [];
+    const { controller, playerQ } = createTurnController(state, {
+      playerTownId: 'riverdale',
+      ...(aiProfiles && { aiProfiles }),
+      playerActionBudget: 3,
+      onPhase: (phase, detail) => details.push({ phase, detail }),
+    });
+    return { state, details, controller, playerQ };
+  };
+
+  it('records player trades, barters and order fills', async () => {
+    const { state, controller, playerQ } = setup({});
+    const forestburg = state.towns.find(t => t.id === 'forestburg')!;
+
+    playerQ.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId: 'wood',
+        quantity: 2,
+        side: 'buy',
+        pricePerUnit: sidePrice(forestburg, 'wood', 'buy', DEFAULT_SPREAD)!,
+      },
+    });
+    playerQ.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        side: 'barter',
+        goodId: 'fish',
+        quantity: 10,
+        wantGoodId: 'wood',
+      },
+    });
+    playerQ.enqueue({
+      type: 'placeOrder',
+      payload: {
+        townId: 'riverdale',
+        counterpartyId: 'forestburg',
+        goodId: 'wood',
+        side: 'buy',
+        quantity: 1,
+        limitPrice: 1000,
+        expiresTurn: 3,
+      },
+    });
+
+    const { state: next } = await controller.runTurn(state);
+
+    const player = { type: 'player' };
+    expect(next.ledger).toEqual([
+      expect.objectContaining({
+        turn: 1,
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId: 'wood',
+        quantity: 2,
+        unitPrice: sidePrice(forestburg, 'wood', 'buy', DEFAULT_SPREAD),
+        side: 'buy',
+        initiator: player,
+      }),
+      expect.objectContaining({ goodId: 'fish', side: 'sell', quantity: 10, via: 'barter' }),
+      expect.objectContaining({ goodId: 'wood', side: 'buy', via: 'barter' }),
+      expect.objectContaining({ goodId: 'wood', side: 'buy', quantity: 1, via: 'order' }),
+    ]);
+    expect(next.ledger![0]).not.toHaveProperty('via');
+  });
+
+  it('records AI trades under their profile', async () => {
+    const { state, details, controller } = setup();
+
+    let current = state;
+    for (let turn = 0; turn < 3; turn++) {
+      current = (await controller.runTurn(current)).state;
+    }
+
+    const aiTrades = details.filter(
+      d =>
+        d.phase === TurnPhase.AiActions &&
+        typeof d.detail === 'object' &&
+        d.detail !== null &&
+        'tradeResult' in d.detail,
+    );
+    const entries = queryLedger(current, { initiator: 'ai' });
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries).toHaveLength(aiTrades.length);
+    entries.forEach(entry => {
+      const town = current.towns.find(t => t.id === entry.fromTownId)!;
+      expect(entry.initiator).toEqual({ type: 'ai', profileId: town.aiProfileId ?? 'greedy' });
+    });
+  });
+
+  it('keeps only the trades of the last turns in the ledger', async () => {
+    const state = initGameState({ rngSeed: 'ledger-seed' });
+    const run = async (ledger?: { maxTurns: number } | false) => {
+      const { controller } = createTurnController(state, {
+        playerTownId: 'riverdale',
+        conservation: true,
+        ...(ledger !== undefined && { ledger }),
+      });
+      let current = state;
+      for (let turn = 0; turn < 4; turn++) {
+        current = (await controller.runTurn(current)).state;
+      }
+      return current;
+    };
+
+    const kept = await run(false);
+    const retained = await run({ maxTurns: 2 });
+
+    expect(new Set(kept.ledger!.map(entry => entry.turn)).size).toBeGreaterThan(2);
+    expect(retained.ledger).toEqual(kept.ledger!.filter(entry => entry.turn >= 3));
+    expect(retained.ledger!.length).toBeGreaterThan(0);
+  });
+
+  it('rejects a retention that is not a positive number of turns', () => {
+    const state = initGameState({ rngSeed: 'ledger-seed' });
+
+    expect(() => createTurnController(state, { ledger: { maxTurns: 0 } })).toThrow(
+      'Ledger retention must be a positive number of turns, got 0',
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+
+import { initGameState } from '../initGameState';
+import type { OrderFill } from '../orders/LimitOrders';
+
+import { TurnPhase } from './TurnPhase';
+import { createTurnController } from './TurnService';
+
+describe('TurnService limit orders', () => {
+  const setup = () => {
+    const state = initGameState({ rngSeed: 'orders-seed' });
+    const details: Array<{ phase: TurnPhase; detail: unknown }> = [];
+    const { controller, playerQ } = createTurnController(state, {
+      playerTownId: 'riverdale',
+      aiProfiles: {},
+      playerActionBudget: 3,
+      onPhase: (phase, detail) => details.push({ phase, detail }),
+    });
+    return { state, details, controller, playerQ };
+  };
+
+  const riverdaleWood = (s: ReturnType<typeof initGameState>) =>
+    s.towns.find(t => t.id === 'riverdale')!.resources.wood!;
+
+  it('places an order and fills it after price drift', async () => {
+    const { state, details, controller, playerQ } = setup();
+
+    playerQ.enqueue({
+      type: 'placeOrder',
+      payload: {
+        townId: 'riverdale',
+        counterpartyId: 'forestburg',
+        goodId: 'wood',
+        side: 'buy',
+        quantity: 3,
+        limitPrice: 1000,
+        expiresTurn: 3,
+      },
+    });
+
+    const { state: next } = await controller.runTurn(state);
+
+    const placed = details.find(d => d.phase === TurnPhase.PlayerAction)!.detail as {
+      order: { id: string; placedTurn: number };
+    };
+    expect(placed.order).toMatchObject({ id: 'order-1-0', placedTurn: 1 });
+
+    const update = details.find(d => d.phase === TurnPhase.UpdateStats)!.detail as {
+      orders?: OrderFill[];
+    };
+    expect(update.orders).toEqual([
+      expect.objectContaining({ orderId: 'order-1-0', quantity: 3, closed: 'filled' }),
+    ]);
+    expect(next.orders).toEqual([]);
+    expect(riverdaleWood(next)).toBeGreaterThan(riverdaleWood(state));
+  });
+
+  it('leaves unreached orders open until they expire', async () => {
+    const { state, details, controller, playerQ } = setup();
+
+    playerQ.enqueue({
+      type: 'placeOrder',
+      payload: {
+        townId: 'riverdale',
+        counterpartyId: 'forestburg',
+        goodId: 'wood',
+        side: 'buy',
+        quantity: 3,
+        limitPrice: 0,
+        expiresTurn: 2,
+      },
+    });
+
+    const turn1 = (await controller.runTurn(state)).state;
+    expect(turn1.orders).toHaveLength(1);
+
+    details.length = 0;
+    const turn2 = (await controller.runTurn(turn1)).state;
+    const update = details.find(d => d.phase === TurnPhase.UpdateStats)!.detail as {
+      orders?: OrderFill[];
+    };
+    expect(update.orders).toEqual([
+      { orderId: 'order-1-0', quantity: 0, remaining: 3, closed: 'expired' },
+    ]);
+    expect(turn2.orders).toEqual([]);
+  });
+
+  it('amends and cancels orders through player actions', async () => {
+    const { state, controller, playerQ } = setup();
+
+    playerQ.enqueue({
+      type: 'placeOrder',
+      payload: {
+        townId: 'riverdale',
+        counterpartyId: 'forestburg',
+        goodId: 'wood',
+        side: 'buy',
+        quantity: 3,
+        limitPrice: 0,
+        expiresTurn: 10,
+      },
+    });
+    const turn1 = (await controller.runTurn(state)).state;
+
+    playerQ.enqueue({
+      type: 'amendOrder',
+      payload: { orderId: 'order-1-0', changes: { quantity: 5 } },
+    });
+    const turn2 = (await controller.runTurn(turn1)).state;
+    expect(turn2.orders).toEqual([expect.objectContaining({ id: 'order-1-0', quantity: 5 })]);
+
+    playerQ.enqueue({ type: 'cancelOrder', payload: { orderId: 'order-1-0' } });
+    const turn3 = (await controller.runTurn(turn2)).state;
+    expect(turn3.orders).toEqual([]);
+  });
+
+  it('rejects orders for towns other than the player town', async () => {
+    const { state, details, controller, playerQ } = setup();
+    const aiOrder = {
+      id: 'order-0-0',
+      townId: 'forestburg',
+      counterpartyId: 'riverdale',
+      goodId: 'fish',
+      side: 'buy' as const,
+      quantity: 1,
+      limitPrice: 0,
+      placedTurn: 0,
+      expiresTurn: 10,
+    };
+
+    playerQ.enqueue({
+      type: 'placeOrder',
+      payload: {
+        townId: 'forestburg',
+        counterpartyId: 'riverdale',
+        goodId: 'fish',
+        side: 'buy',
+        quantity: 1,
+        limitPrice: 1000,
+        expiresTurn: 3,
+      },
+    });
+    playerQ.enqueue({ type: 'cancelOrder', payload: { orderId: 'order-0-0' } });
+    playerQ.enqueue({ type: 'cancelOrder', payload: { orderId: 'order-9-9' } });
+
+    const { state: next } = await controller.runTurn({ ...state, orders: [aiOrder] });
+
+    const rejected = details
+      .filter(d => d.phase === TurnPhase.PlayerAction)
+      .map(d => d.detail as { rejected?: boolean; error?: string });
+    expect(rejected.map(detail => detail.rejected)).toEqual([true, true, true]);
+    expect(rejected[0]!.error).toContain('player town');
+    expect(rejected[2]!.error).toContain("'order-9-9' not found");
+    expect(next.orders).toEqual([aiOrder]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import type { GameState } from '../../types/GameState';
+
+import { createMockGameState } from './testHelpers';
+import { TurnPhase } from './TurnPhase';
+import {
+  CARAVAN_SYSTEM_ID,
+  createTurnController,
+  PRICE_DRIFT_SYSTEM_ID,
+  PRODUCTION_SYSTEM_ID,
+  STATS_SYSTEM_ID,
+} from './TurnService';
+import type { UpdateSystemReport } from './UpdatePipeline';
+
+function createTownState(): GameState {
+  return {
+    ...createMockGameState(),
+    towns: [
+      {
+        id: 'town1',
+        name: 'Town 1',
+        resources: { fish: 10, wood: 5, ore: 2 },
+        prices: { fish: 10, wood: 8, ore: 15 },
+        militaryRaw: 10,
+        prosperityRaw: 10,
+        treasury: 100,
+        revealed: { militaryTier: 'militia', prosperityTier: 'struggling', lastUpdatedTurn: 0 },
+      },
+    ],
+  };
+}
+
+describe('TurnService update pipeline', () => {
+  it('registers stats, caravans, production and drift by name in order', () => {
+    const { pipeline } = createTurnController(createMockGameState());
+
+    expect(pipeline.describe().map(system => system.id)).toEqual([
+      STATS_SYSTEM_ID,
+      CARAVAN_SYSTEM_ID,
+      PRODUCTION_SYSTEM_ID,
+      PRICE_DRIFT_SYSTEM_ID,
+    ]);
+  });
+
+  it('lets callers swap production and disable drift by name', async () => {
+    const production = vi.fn((s: GameState) => s);
+    const { controller } = createTurnController(createTownState(), {
+      configurePipeline: pipeline => {
+        pipeline.replace(PRODUCTION_SYSTEM_ID, production);
+        pipeline.setEnabled(PRICE_DRIFT_SYSTEM_ID, false);
+      },
+    });
+
+    const result = await controller.runTurn(createTownState());
+
+    expect(production).toHaveBeenCalledTimes(1);
+    expect(result.state.towns[0]!.resources).toEqual({ fish: 10, wood: 5, ore: 2 });
+    expect(result.state.towns[0]!.prices).toEqual({ fish: 10, wood: 8, ore: 15 });
+  });
+
+  it('rejects pipelines with missing dependencies at setup', () => {
+    expect(() =>
+      createTurnController(createMockGameState(), {
+        configurePipeline: pipeline => pipeline.remove(PRODUCTION_SYSTEM_ID),
+      }),
+    ).toThrow(`depends on unknown system '${PRODUCTION_SYSTEM_ID}'`);
+  });
+
+  it('reports per-system timing and changes through onPhase', async () => {
+    const onPhase = vi.fn();
+    const { controller } = createTurnController(createTownState(), { onPhase });
+
+    await controller.runTurn(createTownState());
+
+    const [, detail] = onPhase.mock.calls.find(([phase]) => phase === TurnPhase.UpdateStats)!;
+    const { ran, systems } = detail as { ran: number; systems: UpdateSystemReport[] };
+    expect(ran).toBe(4);
+    expect(systems.map(report => report.id)).toEqual([
+      STATS_SYSTEM_ID,
+      CARAVAN_SYSTEM_ID,
+      PRODUCTION_SYSTEM_ID,
+      PRICE_DRIFT_SYSTEM_ID,
+    ]);
+    for (const report of systems) {
+      expect(report.durationMs).toBeGreaterThanOrEqual(0);
+    }
+    // No caravans on the road
+    expect(systems[1]!.changes).toEqual([]);
+    expect(systems[2]!.changes).toContainEqual({
+      path: 'towns[0].resources.fish',
+      before: 10,
+      after: 13,
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+
+import { initGameState } from '../initGameState';
+import { createJournalRecorder } from '../journal/TurnJournal';
+import { DEFAULT_SPREAD, sidePrice } from '../pricing/Spread';
+import type { ClampEvent } from '../trade/TradeLimits';
+import type { ValidationError } from '../validation';
+
+import { createTurnController, PRICE_DRIFT_SYSTEM_ID, PRODUCTION_SYSTEM_ID } from './TurnService';
+
+describe('TurnService game rules', () => {
+  it('caps production at the rules and reports each clamp', async () => {
+    const state = initGameState({ rngSeed: 'rules-seed' });
+    const clamps: ClampEvent[] = [];
+    const violations: ValidationError[] = [];
+    const { controller } = createTurnController(state, {
+      aiProfiles: {},
+      rules: { maxResource: 10 },
+      onClamp: event => clamps.push(event),
+      conservation: (_phase, found) => violations.push(...found),
+    });
+
+    const next = (await controller.runTurn(state)).state;
+
+    next.towns.forEach(town => {
+      Object.values(town.resources).forEach(amount => expect(amount).toBeLessThanOrEqual(10));
+    });
+    const production = clamps.filter(event => event.source === 'production');
+    expect(production.length).toBeGreaterThan(0);
+    production.forEach(event => {
+      expect(event.field).toBe('resource');
+      expect(event.clamped).toBe(10);
+    });
+    // Goods capped away are not conserved, and the checker says where they went missing
+    expect(violations.length).toBeGreaterThan(0);
+    violations.forEach(violation => {
+      expect(violation.path).toMatch(/^towns\[\d+\]\.resources\.\w+$/);
+      expect(violation.message).toContain('destroyed');
+    });
+  });
+
+  it('applies the same rules to player trades and drift', async () => {
+    const state = initGameState({ rngSeed: 'rules-seed' });
+    const journal = createJournalRecorder(state, { playerTownId: 'riverdale' });
+    const ruleClamps: ClampEvent[] = [];
+    const { controller, playerQ } = createTurnController(state, {
+      aiProfiles: {},
+      playerTownId: 'riverdale',
+      journal,
+      rules: { maxTreasury: 100, maxPrice: 12, onClamp: event => ruleClamps.push(event) },
+      // Clamping both treasuries on purpose breaks currency conservation
+      conservation: false,
+    });
+    const forestburg = state.towns.find(t => t.id === 'forestburg')!;
+
+    playerQ.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId: 'wood',
+        quantity: 1,
+        side: 'sell',
+        pricePerUnit: sidePrice(forestburg, 'wood', 'sell', DEFAULT_SPREAD)!,
+      },
+    });
+
+    const next = (await controller.runTurn(state)).state;
+    const record = journal.commit(next);
+
+    expect(next.towns.find(t => t.id === 'riverdale')!.treasury).toBe(100);
+    next.towns.forEach(town => {
+      Object.values(town.prices).forEach(price => expect(price).toBeLessThanOrEqual(12));
+    });
+    expect(ruleClamps).toContainEqual(
+      expect.objectContaining({ source: 'trade', townId: 'riverdale', field: 'treasury' }),
+    );
+    expect(ruleClamps.some(event => event.source === 'drift')).toBe(true);
+    // The journal receives the same clamps as the rules' own observer
+    expect(record.clamps).toEqual(ruleClamps);
+  });
+
+  it("reports clamps at a curve's own bounds to the journal", async () => {
+    const base = initGameState({ rngSeed: 'rules-seed' });
+    // With no fish on hand, the fish curve asks far more than its maxPrice of 60
+    const state = {
+      ...base,
+      towns: base.towns.map(town => ({ ...town, resources: { ...town.resources, fish: 0 } })),
+    };
+    const journal = createJournalRecorder(state, { playerTownId: 'riverdale' });
+    const { controller } = createTurnController(state, {
+      aiProfiles: {},
+      journal,
+      configurePipeline: pipeline => pipeline.setEnabled(PRODUCTION_SYSTEM_ID, false),
+    });
+
+    const next = (await controller.runTurn(state)).state;
+    const record = journal.commit(next);
+
+    const fishClamps = (record.clamps ?? []).filter(event => event.goodId === 'fish');
+    expect(fishClamps).toHaveLength(state.towns.length);
+    fishClamps.forEach(event => {
+      expect(event).toMatchObject({ source: 'drift', field: 'price', clamped: 60 });
+      expect(event.value).toBeGreaterThan(60);
+    });
+  });
+
+  it('reports nothing when every value stays within the default rules', async () => {
+    const state = initGameState({ rngSeed: 'rules-seed' });
+    const clamps: ClampEvent[] = [];
+    const { controller } = createTurnController(state, {
+      aiProfiles: {},
+      onClamp: event => clamps.push(event),
+      configurePipeline: pipeline => pipeline.setEnabled(PRICE_DRIFT_SYSTEM_ID, false),
+    });
+
+    await controller.runTurn(state);
+
+    expect(clamps).toEqual([]);
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 
 import type { GameState } from '../../types/GameState';
+import { initGameState } from '../initGameState';
+import { loadTownGraph } from '../map/TownGraph';
+import { createLinearPricing } from '../pricing/LinearPricing';
+import { DEFAULT_SPREAD, sidePrice } from '../pricing/Spread';
 
 import { PlayerActionQueue } from './PlayerActionQueue';
 import { createMockGameState } from './testHelpers';
@@ -84,4 +88,95 @@ describe('TurnService', () => {
       expect(result.phaseLog).toContain(TurnPhase.PlayerAction);
     });
   });
+
+  describe('market tuning', () => {
+    it('passes the pricing config to post-trade pricing and drift', async () => {
+      const { controller } = createTurnController(mockState, {
+        aiProfiles: {},
+        pricing: {
+          math: { nextPrice: () => 42 },
+          smoothing: { alpha: 1 },
+          prosperityMultipliers: { struggling: 1, modest: 1, prosperous: 1, opulent: 1 },
+          sizePremium: 0,
+        },
+      });
+
+      const result = await controller.runTurn(mockState);
+
+      result.state.towns.forEach(town => {
+        Object.values(town.prices).forEach(price => expect(price).toBe(42));
+      });
+    });
+
+    it('rejects invalid pricing configs with the path of the setting', () => {
+      expect(() => createTurnController(mockState, { pricing: { drift: { rate: 2 } } })).toThrow(
+        expect.objectContaining({ path: 'drift.rate' }),
+      );
+    });
+  });
+
+  describe('transport costs', () => {
+    const buyWood = async (options: Parameters<typeof createTurnController>[1]) => {
+      const state = initGameState({ rngSeed: 'transport' });
+      const { controller, playerQ } = createTurnController(state, {
+        playerTownId: 'riverdale',
+        aiProfiles: {},
+        ...options,
+      });
+      const forestburg = state.towns.find(t => t.id === 'forestburg')!;
+      playerQ.enqueue({
+        type: 'trade',
+        payload: {
+          fromTownId: 'riverdale',
+          toTownId: 'forestburg',
+          goodId: 'wood',
+          quantity: 2,
+          side: 'buy',
+          pricePerUnit: sidePrice(forestburg, 'wood', 'buy', DEFAULT_SPREAD)!,
+        },
+      });
+      const result = await controller.runTurn(state);
+      return result.state.towns.find(t => t.id === 'riverdale')!.treasury;
+    };
+
+    it('charges transport costs only when a town graph is passed', async () => {
+      const townGraph = loadTownGraph();
+      const free = await buyWood({});
+      const charged = await buyWood({ townGraph });
+
+      expect(townGraph.transportCost('riverdale', 'forestburg', 2)).toBeGreaterThan(0);
+      expect(free - charged).toBe(townGraph.transportCost('riverdale', 'forestburg', 2));
+    });
+  });
+
+  describe('pricing strategy', () => {
+    it('runs trades and turns on the strategy from createPricing', async () => {
+      const state = initGameState({ rngSeed: 'linear-mode' });
+      const { controller, playerQ } = createTurnController(state, {
+        playerTownId: 'riverdale',
+        aiProfiles: {},
+        createPricing: defaults => createLinearPricing(defaults),
+      });
+      const forestburg = state.towns.find(t => t.id === 'forestburg')!;
+      playerQ.enqueue({
+        type: 'trade',
+        payload: {
+          fromTownId: 'riverdale',
+          toTownId: 'forestburg',
+          goodId: 'wood',
+          quantity: 2,
+          side: 'buy',
+          pricePerUnit: sidePrice(forestburg, 'wood', 'buy', DEFAULT_SPREAD)!,
+        },
+      });
+
+      const result = await controller.runTurn(state);
+
+      // Seller up, buyer down by one step, and no drift between turns
+      const price = (s: GameState, townId: string) =>
+        s.towns.find(t => t.id === townId)!.prices.wood!;
+      expect(price(result.state, 'forestburg')).toBe(price(state, 'forestburg') + 1);
+      expect(price(result.state, 'riverdale')).toBe(price(state, 'riverdale') - 1);
+    });
+  });
 });
@@ -1,16 +1,49 @@
 import type { GameState } from '../../types/GameState';
+import type { ProductionConfig } from '../../types/Production';
 import { GREEDY, RANDOM } from '../ai/AiProfiles';
 import type { AiProfile } from '../ai/AiTypes';
+import { createPriceHistoryRecorder } from '../history/PriceHistory';
+import type { PriceHistoryOptions } from '../history/PriceHistory';
+import { checkConservation, ConservationError } from '../invariants/Conservation';
+import type { ConservationReporter } from '../invariants/Conservation';
+import type { JournalRecorder } from '../journal/TurnJournal';
+import { validateLedgerRetention } from '../ledger/TradeLedger';
+import type { LedgerRetention } from '../ledger/TradeLedger';
+import type { TownGraph } from '../map/TownGraph';
 import { createPricingService } from '../pricing/PricingService';
-import { loadProductionConfig } from '../production/Config';
+import type { PricingConfig } from '../pricing/PricingService';
+import type { PricingOptions, PricingStrategyFactory } from '../pricing/PricingStrategy';
+import { DEFAULT_SPREAD, validateSpreadConfig } from '../pricing/Spread';
+import type { SpreadConfig } from '../pricing/Spread';
+import type { PriceChangeTracer } from '../pricing/Telemetry';
+import { loadProductionConfig, validateProductionConfig } from '../production/Config';
 import { applyProductionTurn } from '../production/ProductionSystem';
+import { AUTOSAVE_SLOT } from '../save/SaveManager';
+import type { SaveManager } from '../save/SaveManager';
 import { createStatsUpdateSystem } from '../stats/StatsUpdateSystem';
+import type { StatsUpdateOptions } from '../stats/StatsUpdateSystem';
+import { createCaravanSystem } from '../trade/Caravans';
+import type { ShippingOptions } from '../trade/Caravans';
+import { DEFAULT_LIMITS } from '../trade/TradeLimits';
+import type { ClampReporter, TradeLimits } from '../trade/TradeLimits';
 
 import { PlayerActionQueue } from './PlayerActionQueue';
 import { TurnController } from './TurnController';
 import type { TurnPhase } from './TurnPhase';
 import { UpdatePipeline } from './UpdatePipeline';
 
+/** ID of the built-in stats update system (raw stat decay and tier reveals) */
+export const STATS_SYSTEM_ID = 'stats';
+
+/** ID of the built-in caravan delivery system (runs after stats, before production) */
+export const CARAVAN_SYSTEM_ID = 'caravans';
+
+/** ID of the built-in production system (runs after stats) */
+export const PRODUCTION_SYSTEM_ID = 'production';
+
+/** ID of the built-in per-turn price drift system (runs after production) */
+export const PRICE_DRIFT_SYSTEM_ID = 'price-drift';
+
 /**
  * Options for configuring the TurnService
  */
@@ -22,6 +55,81 @@ export interface TurnServiceOptions {
   aiProfiles?: Record<string, AiProfile>;
   /** ID of the player's town - if not provided, defaults to the first town */
   playerTownId?: string;
+  /** Maximum number of queued player actions processed per turn (default: 1) */
+  playerActionBudget?: number;
+  /** Optional stats system options - merged over the defaults */
+  stats?: StatsUpdateOptions;
+  /**
+   * Optional town graph for transport costs (e.g. `loadTownGraph()` for map.json) -
+   * if not provided, trades pay no transport costs.
+   */
+  townGraph?: TownGraph;
+  /**
+   * Optional shipping mode - when set, traded goods travel to the buyer as caravans
+   * instead of arriving instantly. Arriving caravans are always delivered.
+   */
+  shipping?: ShippingOptions;
+  /**
+   * Optional game rules - merged over DEFAULT_LIMITS. Trade execution, caravan
+   * delivery, production and pricing (post-trade and drift) all clamp to them.
+   */
+  rules?: TradeLimits;
+  /** Optional callback for every value clamped to the game rules */
+  onClamp?: ClampReporter;
+  /**
+   * Optional bid/ask spread - if not provided, uses DEFAULT_SPREAD. Trades, AI
+   * candidates and limit orders all use the town's ask for buys and bid for sells.
+   */
+  spread?: SpreadConfig;
+  /**
+   * Optional market tuning - smoothing, drift rate, prosperity multipliers, size
+   * premium and price math for post-trade pricing, drift and quotes. Each setting
+   * not provided uses the pricing defaults.
+   */
+  pricing?: PricingConfig;
+  /**
+   * Optional pricing strategy - if not provided, uses createPricingService with the
+   * `pricing` tuning. The factory receives the game rules, spread and price tracer,
+   * e.g. `createPricing: defaults => createLinearPricing(defaults)` for a simplified mode.
+   */
+  createPricing?: PricingStrategyFactory;
+  /**
+   * Optional conservation check after every phase (see `checkConservation`) - on by
+   * default in dev and test builds. Pass a callback to receive violations instead of
+   * failing the turn with a ConservationError, or `false` to skip the check.
+   */
+  conservation?: boolean | ConservationReporter;
+  /** Optional production config - if not provided, loads production.json */
+  productionConfig?: ProductionConfig;
+  /**
+   * Optional hook to customize the update pipeline after the built-in systems are
+   * registered, e.g. to replace, disable or add systems by ID
+   */
+  configurePipeline?: (pipeline: UpdatePipeline) => void;
+  /** Optional callback for every price change (post-trade and drift) */
+  onPriceTrace?: PriceChangeTracer;
+  /**
+   * Optional turn journal; receives every phase notification, price trace and clamp.
+   * The caller commits each completed turn with `journal.commit(result.state)`.
+   */
+  journal?: JournalRecorder;
+  /**
+   * Optional price history length - each turn adds an open/high/low/close bar per
+   * town and good to `GameState.priceHistory`. Pass `false` to keep no history.
+   */
+  priceHistory?: PriceHistoryOptions | false;
+  /**
+   * Optional trade ledger retention - only the trades of the last `maxTurns` turns
+   * (default DEFAULT_LEDGER_TURNS) stay in `GameState.ledger`. Pass `false` to keep every trade.
+   */
+  ledger?: LedgerRetention | false;
+  /** Optional autosave at the end of every turn */
+  autosave?: {
+    /** Save manager to write to */
+    saves: SaveManager;
+    /** Slot to write (defaults to AUTOSAVE_SLOT) */
+    slot?: string;
+  };
 }
 
 /**
@@ -44,21 +152,84 @@ export function createTurnController(
 } {
   const playerQ = new PlayerActionQueue();
   const pipeline = new UpdatePipeline();
+  const journal = opts?.journal;
+
+  // One set of game rules for every system that clamps, reporting to all observers
+  const rulesOnClamp = opts?.rules?.onClamp;
+  const onClamp = opts?.onClamp;
+  const limits: TradeLimits = {
+    ...DEFAULT_LIMITS,
+    ...opts?.rules,
+    ...((rulesOnClamp || onClamp || journal) && {
+      onClamp: event => {
+        journal?.onClamp(event);
+        rulesOnClamp?.(event);
+        onClamp?.(event);
+      },
+    }),
+  };
 
   // Register the stats update system with default options
   const statsSystem = createStatsUpdateSystem(
-    { raw: { prosperityDecayPerTurn: 1 }, revealInterval: 2 },
+    {
+      revealInterval: 2,
+      ...opts?.stats,
+      raw: { prosperityDecayPerTurn: 1, ...opts?.stats?.raw },
+    },
     s => s.rngSeed,
   );
-  pipeline.register(statsSystem);
+  pipeline.register(statsSystem, { id: STATS_SYSTEM_ID });
+
+  // Register caravan deliveries so shipped goods land before production and price drift
+  pipeline.register(createCaravanSystem(limits), {
+    id: CARAVAN_SYSTEM_ID,
+    dependsOn: [STATS_SYSTEM_ID],
+  });
 
   // Register the production system
-  const prodCfg = loadProductionConfig();
-  pipeline.register(s => applyProductionTurn(s, prodCfg));
+  const prodCfg = opts?.productionConfig ?? loadProductionConfig();
+  if (opts?.productionConfig) {
+    validateProductionConfig(prodCfg);
+  }
+  pipeline.register(s => applyProductionTurn(s, prodCfg, { limits }), {
+    id: PRODUCTION_SYSTEM_ID,
+    dependsOn: [STATS_SYSTEM_ID],
+  });
 
-  // Register the pricing service for per-turn drift
-  const pricingService = createPricingService();
-  pipeline.register(s => pricingService.perTurnDrift(s));
+  // Register the pricing strategy for per-turn price moves
+  const onPriceTrace = opts?.onPriceTrace;
+  const priceHistory =
+    opts?.priceHistory === false ? undefined : createPriceHistoryRecorder(opts?.priceHistory);
+  const spread = opts?.spread ?? DEFAULT_SPREAD;
+  if (opts?.spread) {
+    validateSpreadConfig(spread);
+  }
+  const ledgerRetention = opts?.ledger === false ? undefined : (opts?.ledger ?? {});
+  if (ledgerRetention) {
+    validateLedgerRetention(ledgerRetention);
+  }
+  const pricingDefaults: PricingOptions = {
+    limits,
+    spread,
+    ...((journal || onPriceTrace || priceHistory) && {
+      onTrace: trace => {
+        priceHistory?.onPriceTrace(trace);
+        journal?.onPriceTrace(trace);
+        onPriceTrace?.(trace);
+      },
+    }),
+  };
+  const pricingService = opts?.createPricing
+    ? opts.createPricing(pricingDefaults)
+    : createPricingService({ ...opts?.pricing, ...pricingDefaults });
+  pipeline.register(s => pricingService.perTurn(s), {
+    id: PRICE_DRIFT_SYSTEM_ID,
+    dependsOn: [PRODUCTION_SYSTEM_ID],
+  });
+
+  opts?.configurePipeline?.(pipeline);
+  // Surface missing or cyclic dependencies now rather than mid-turn
+  pipeline.describe();
 
   // Create default AI profiles if none provided
   const aiProfiles = opts?.aiProfiles ?? {
@@ -66,12 +237,47 @@ export function createTurnController(
     random: RANDOM,
   };
 
+  // Towns not on the map trade without transport costs
+  const townGraph = opts?.townGraph;
+
   // Determine player town ID - default to first town if not specified
   const playerTownId =
     opts?.playerTownId ?? (state.towns.length > 0 ? state.towns[0]!.id : 'riverdale');
 
+  // Dev and test builds check every phase; violations fail the turn unless reported
+  const conservation = opts?.conservation ?? import.meta.env.DEV;
+  const checkPhase =
+    conservation &&
+    ((phase: TurnPhase, before: GameState, after: GameState) => {
+      const violations = checkConservation(phase, before, after, { productionConfig: prodCfg });
+      if (violations.length === 0) {
+        return;
+      }
+      if (typeof conservation === 'function') {
+        conservation(phase, violations);
+      } else {
+        throw new ConservationError(phase, violations);
+      }
+    });
+
   const controllerOptions = {
-    ...(opts?.onPhase && { onPhase: opts.onPhase }),
+    ...((opts?.onPhase || journal) && {
+      onPhase: (phase: TurnPhase, detail?: unknown) => {
+        journal?.onPhase(phase, detail);
+        opts?.onPhase?.(phase, detail);
+      },
+    }),
+    ...(opts?.playerActionBudget !== undefined && {
+      playerActionBudget: opts.playerActionBudget,
+    }),
+    ...(opts?.autosave && { autosave: createAutosave(opts.autosave.saves, opts.autosave.slot) }),
+    ...(townGraph && { townGraph }),
+    ...(opts?.shipping && { shipping: opts.shipping }),
+    ...(checkPhase && { checkPhase }),
+    ...(priceHistory && { priceHistory }),
+    ...(ledgerRetention && { ledgerRetention }),
+    limits,
+    spread,
     goods: state.goods,
     aiProfiles,
     playerTownId,
@@ -86,3 +292,12 @@ export function createTurnController(
     pipeline,
   };
 }
+
+/**
+ * Creates an End-phase autosave callback that writes to the given slot.
+ */
+function createAutosave(saves: SaveManager, slot = AUTOSAVE_SLOT): (state: GameState) => void {
+  return state => {
+    saves.save(slot, state);
+  };
+}
@@ -2,7 +2,8 @@ import { describe, it, expect } from 'vitest';
 
 import type { GameState } from '../../types/GameState';
 
-import { UpdatePipeline, type UpdateSystem } from './UpdatePipeline';
+import { createMockGameState } from './testHelpers';
+import { UpdatePipeline, UpdatePipelineError, type UpdateSystem } from './UpdatePipeline';
 
 describe('UpdatePipeline', () => {
   it('should start with no systems', () => {
@@ -141,4 +142,102 @@ describe('UpdatePipeline', () => {
     expect((result as typeof mockState).counter).toBe(10);
     expect(result).not.toBe(mockState);
   });
+
+  describe('named systems', () => {
+    // Appends the system ID to the RNG seed so tests can see the run order
+    const tag =
+      (id: string): UpdateSystem =>
+      s => ({ ...s, rngSeed: `${s.rngSeed}>${id}` });
+
+    it('assigns default IDs in registration order', () => {
+      const pipeline = new UpdatePipeline();
+
+      expect(pipeline.register(tag('a'))).toBe('system-0');
+      expect(pipeline.register(tag('b'), { id: 'named' })).toBe('named');
+      expect(pipeline.describe().map(system => system.id)).toEqual(['system-0', 'named']);
+    });
+
+    it('rejects duplicate IDs', () => {
+      const pipeline = new UpdatePipeline();
+      pipeline.register(tag('a'), { id: 'stats' });
+
+      expect(() => pipeline.register(tag('b'), { id: 'stats' })).toThrow(UpdatePipelineError);
+    });
+
+    it('runs systems after their dependencies regardless of registration order', () => {
+      const pipeline = new UpdatePipeline();
+      pipeline.register(tag('drift'), { id: 'drift', dependsOn: ['production'] });
+      pipeline.register(tag('production'), { id: 'production', dependsOn: ['stats'] });
+      pipeline.register(tag('stats'), { id: 'stats' });
+
+      const result = pipeline.run(createMockGameState());
+
+      expect(result.rngSeed).toBe('test-seed>stats>production>drift');
+    });
+
+    it('orders ready systems by priority, then registration order', () => {
+      const pipeline = new UpdatePipeline();
+      pipeline.register(tag('a'), { id: 'a' });
+      pipeline.register(tag('b'), { id: 'b', priority: -1 });
+      pipeline.register(tag('c'), { id: 'c' });
+
+      expect(pipeline.describe().map(system => system.id)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('reports missing and cyclic dependencies', () => {
+      const missing = new UpdatePipeline();
+      missing.register(tag('a'), { id: 'a', dependsOn: ['ghost'] });
+      expect(() => missing.run(createMockGameState())).toThrow(
+        "Update system 'a' depends on unknown system 'ghost'",
+      );
+
+      const cyclic = new UpdatePipeline();
+      cyclic.register(tag('a'), { id: 'a', dependsOn: ['b'] });
+      cyclic.register(tag('b'), { id: 'b', dependsOn: ['a'] });
+      expect(() => cyclic.describe()).toThrow('cyclic dependencies: a, b');
+    });
+
+    it('replaces, disables and removes systems by ID', () => {
+      const pipeline = new UpdatePipeline();
+      pipeline.register(tag('stats'), { id: 'stats' });
+      pipeline.register(tag('production'), { id: 'production' });
+      pipeline.register(tag('drift'), { id: 'drift' });
+
+      pipeline.replace('production', tag('modded'));
+      pipeline.setEnabled('drift', false);
+
+      expect(pipeline.run(createMockGameState()).rngSeed).toBe('test-seed>stats>modded');
+      expect(pipeline.enabledCount).toBe(2);
+
+      expect(pipeline.remove('stats')).toBe(true);
+      expect(pipeline.remove('stats')).toBe(false);
+      expect(pipeline.has('stats')).toBe(false);
+      expect(() => pipeline.setEnabled('stats', true)).toThrow(UpdatePipelineError);
+    });
+  });
+
+  describe('runWithReport', () => {
+    it('times each system and lists the values it changed', () => {
+      let clock = 0;
+      const pipeline = new UpdatePipeline({ now: () => (clock += 5) });
+      pipeline.register(s => ({ ...s, turn: s.turn + 1 }), { id: 'tick' });
+      pipeline.register(s => s, { id: 'noop' });
+      pipeline.register(s => ({ ...s, rngSeed: 'other' }), { id: 'off', enabled: false });
+
+      const { state, reports } = pipeline.runWithReport(createMockGameState());
+
+      expect(state.turn).toBe(1);
+      expect(state.rngSeed).toBe('test-seed');
+      expect(reports).toEqual([
+        {
+          id: 'tick',
+          skipped: false,
+          durationMs: 5,
+          changes: [{ path: 'turn', before: 0, after: 1 }],
+        },
+        { id: 'noop', skipped: false, durationMs: 5, changes: [] },
+        { id: 'off', skipped: true, durationMs: 0, changes: [] },
+      ]);
+    });
+  });
 });
@@ -1,34 +1,204 @@
 import type { GameState } from '../../types/GameState';
 
+import { diffState } from './StateDiff';
+import type { StateChange } from './StateDiff';
+
 /**
  * A system that can update game state during the UpdateStats phase
  */
 
 export type UpdateSystem = (s: GameState) => GameState;
 
+/**
+ * Options for registering an update system
+ */
+export interface UpdateSystemOptions {
+  /** Unique name of the system (defaults to "system-<n>" in registration order) */
+  id?: string;
+  /** IDs of systems that must run before this one */
+  dependsOn?: string[];
+  /** Lower priorities run first among systems whose dependencies are met (default: 0) */
+  priority?: number;
+  /** Whether the system runs at all (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Public description of a registered update system
+ */
+export interface UpdateSystemInfo {
+  id: string;
+  dependsOn: readonly string[];
+  priority: number;
+  enabled: boolean;
+}
+
+/**
+ * What a single system did during one pipeline run
+ */
+export interface UpdateSystemReport {
+  /** ID of the system */
+  id: string;
+  /** Whether the system was skipped because it is disabled */
+  skipped: boolean;
+  /** Wall-clock time spent in the system, in milliseconds */
+  durationMs: number;
+  /** Values the system changed (empty when skipped) */
+  changes: StateChange[];
+}
+
+/**
+ * Error thrown when the pipeline is misconfigured.
+ * Includes the ID of the system at fault.
+ */
+export class UpdatePipelineError extends Error {
+  constructor(
+    public systemId: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'UpdatePipelineError';
+  }
+}
+
+interface RegisteredSystem extends UpdateSystemInfo {
+  run: UpdateSystem;
+  /** Registration index, used as the final tie-breaker */
+  index: number;
+}
+
 /**
  * Pipeline for executing update systems in order during the UpdateStats phase.
- * Systems are registered and then executed sequentially, with each system
- * receiving the result of the previous system.
+ *
+ * Systems are registered under an ID and run in dependency order: a system runs
+ * after every system in its `dependsOn` list, and among systems that are ready,
+ * lower priority runs first, then earlier registration. With no dependencies or
+ * priorities, systems run in registration order. Each system receives the result
+ * of the previous one; disabled systems keep their place in the order but are skipped.
  */
 export class UpdatePipeline {
-  private systems: UpdateSystem[] = [];
+  private systems: RegisteredSystem[] = [];
+
+  private nextIndex = 0;
+
+  private readonly now: () => number;
+
+  /**
+   * @param options - Optional clock used to time systems (defaults to Date.now)
+   */
+  constructor(options: { now?: () => number } = {}) {
+    this.now = options.now ?? Date.now;
+  }
 
   /**
    * Register a new update system to be executed during the UpdateStats phase
    * @param sys - The update system to register
+   * @param options - Optional ID, dependencies, priority and enabled flag
+   * @returns The ID the system was registered under
+   * @throws UpdatePipelineError if the ID is already registered
+   */
+  register(sys: UpdateSystem, options: UpdateSystemOptions = {}): string {
+    const index = this.nextIndex++;
+    const id = options.id ?? `system-${index}`;
+    if (this.has(id)) {
+      throw new UpdatePipelineError(id, `Update system '${id}' is already registered`);
+    }
+
+    this.systems.push({
+      id,
+      run: sys,
+      index,
+      dependsOn: [...(options.dependsOn ?? [])],
+      priority: options.priority ?? 0,
+      enabled: options.enabled ?? true,
+    });
+    return id;
+  }
+
+  /**
+   * Replace the function of a registered system, keeping its ID, dependencies and flags
+   * @throws UpdatePipelineError if no system has the given ID
+   */
+  replace(id: string, sys: UpdateSystem): void {
+    this.find(id).run = sys;
+  }
+
+  /**
+   * Remove a registered system
+   * @returns True if a system was removed
    */
-  register(sys: UpdateSystem): void {
-    this.systems.push(sys);
+  remove(id: string): boolean {
+    const before = this.systems.length;
+    this.systems = this.systems.filter(system => system.id !== id);
+    return this.systems.length < before;
   }
 
   /**
-   * Execute all registered update systems in order
+   * Enable or disable a registered system
+   * @throws UpdatePipelineError if no system has the given ID
+   */
+  setEnabled(id: string, enabled: boolean): void {
+    this.find(id).enabled = enabled;
+  }
+
+  /**
+   * Whether a system with the given ID is registered
+   */
+  has(id: string): boolean {
+    return this.systems.some(system => system.id === id);
+  }
+
+  /**
+   * Describe the registered systems in execution order
+   * @throws UpdatePipelineError if a dependency is missing or cyclic
+   */
+  describe(): UpdateSystemInfo[] {
+    return this.ordered().map(({ id, dependsOn, priority, enabled }) => ({
+      id,
+      dependsOn,
+      priority,
+      enabled,
+    }));
+  }
+
+  /**
+   * Execute all enabled update systems in order
    * @param s - The current game state
-   * @returns The updated game state after all systems have been applied
+   * @returns The updated game state after all update systems have been applied
+   * @throws UpdatePipelineError if a dependency is missing or cyclic
    */
   run(s: GameState): GameState {
-    return this.systems.reduce((acc, f) => f(acc), s);
+    return this.ordered()
+      .filter(system => system.enabled)
+      .reduce((acc, system) => system.run(acc), s);
+  }
+
+  /**
+   * Execute all enabled update systems in order, timing each one and recording
+   * the values it changed
+   * @param s - The current game state
+   * @returns The updated game state and one report per registered system
+   * @throws UpdatePipelineError if a dependency is missing or cyclic
+   */
+  runWithReport(s: GameState): { state: GameState; reports: UpdateSystemReport[] } {
+    const reports: UpdateSystemReport[] = [];
+    let state = s;
+
+    for (const system of this.ordered()) {
+      if (!system.enabled) {
+        reports.push({ id: system.id, skipped: true, durationMs: 0, changes: [] });
+        continue;
+      }
+
+      const start = this.now();
+      const next = system.run(state);
+      const durationMs = this.now() - start;
+
+      reports.push({ id: system.id, skipped: false, durationMs, changes: diffState(state, next) });
+      state = next;
+    }
+
+    return { state, reports };
   }
 
   /**
@@ -38,4 +208,58 @@ export class UpdatePipeline {
   get systemCount(): number {
     return this.systems.length;
   }
+
+  /**
+   * Get the number of enabled systems
+   * @returns The count of update systems that will run
+   */
+  get enabledCount(): number {
+    return this.systems.filter(system => system.enabled).length;
+  }
+
+  private find(id: string): RegisteredSystem {
+    const system = this.systems.find(candidate => candidate.id === id);
+    if (!system) {
+      throw new UpdatePipelineError(id, `Unknown update system '${id}'`);
+    }
+    return system;
+  }
+
+  /**
+   * Sorts systems so every system follows its dependencies, breaking ties by
+   * priority and then registration order.
+   */
+  private ordered(): RegisteredSystem[] {
+    for (const system of this.systems) {
+      for (const dep of system.dependsOn) {
+        if (!this.has(dep)) {
+          throw new UpdatePipelineError(
+            system.id,
+            `Update system '${system.id}' depends on unknown system '${dep}'`,
+          );
+        }
+      }
+    }
+
+    const done = new Set<string>();
+    const pending = [...this.systems].sort((a, b) => a.priority - b.priority || a.index - b.index);
+    const order: RegisteredSystem[] = [];
+
+    while (pending.length > 0) {
+      const nextIdx = pending.findIndex(system => system.dependsOn.every(dep => done.has(dep)));
+      if (nextIdx === -1) {
+        const ids = pending.map(system => system.id);
+        throw new UpdatePipelineError(
+          pending[0]!.id,
+          `Update systems have cyclic dependencies: ${ids.join(', ')}`,
+        );
+      }
+
+      const [next] = pending.splice(nextIdx, 1);
+      order.push(next!);
+      done.add(next!.id);
+    }
+
+    return order;
+  }
 }
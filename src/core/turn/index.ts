@@ -1,6 +1,6 @@
 // Core turn management
 export { TurnController } from './TurnController';
-export type { TurnControllerOptions, TurnResult } from './TurnController';
+export type { PhaseCheck, TurnControllerOptions, TurnResult } from './TurnController';
 
 // Turn phases and errors
 export { TurnPhase } from './TurnPhase';
@@ -8,12 +8,31 @@ export { TurnPhaseError } from './TurnErrors';
 
 // Player actions
 export { PlayerActionQueue } from './PlayerActionQueue';
-export type { PlayerAction } from './PlayerAction';
+export type {
+  AmendOrderAction,
+  CancelOrderAction,
+  PlaceOrderAction,
+  PlayerAction,
+  TradeAction,
+} from './PlayerAction';
 
 // Update pipeline
-export { UpdatePipeline } from './UpdatePipeline';
-export type { UpdateSystem } from './UpdatePipeline';
+export { UpdatePipeline, UpdatePipelineError } from './UpdatePipeline';
+export type {
+  UpdateSystem,
+  UpdateSystemInfo,
+  UpdateSystemOptions,
+  UpdateSystemReport,
+} from './UpdatePipeline';
+export { diffState } from './StateDiff';
+export type { StateChange } from './StateDiff';
 
 // Service factory
-export { createTurnController } from './TurnService';
+export {
+  CARAVAN_SYSTEM_ID,
+  createTurnController,
+  PRICE_DRIFT_SYSTEM_ID,
+  PRODUCTION_SYSTEM_ID,
+  STATS_SYSTEM_ID,
+} from './TurnService';
 export type { TurnServiceOptions } from './TurnService';
@@ -818,6 +818,49 @@ describe('validateGameState', () => {
         expect(validationError.message).toContain("Missing required good 'ore'");
       }
     });
+
+    it('should throw with path when goods contains a good outside the catalog', () => {
+      const invalidState = JSON.parse(JSON.stringify(validGameState)) as DeepInvalidGameState;
+      (invalidState.goods as Record<string, unknown>).salt = {
+        id: 'salt',
+        name: 'Salt',
+        effects: { prosperityDelta: 1, militaryDelta: 0 },
+      };
+
+      try {
+        validateGameState(invalidState);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.path).toBe('goods.salt');
+        expect(validationError.message).toContain("Unknown good 'salt'");
+      }
+    });
+
+    it('should validate against a custom goods catalog', () => {
+      const state = JSON.parse(JSON.stringify(validGameState)) as GameState;
+      state.goods.salt = {
+        id: 'salt',
+        name: 'Salt',
+        effects: { prosperityDelta: 1, militaryDelta: 0 },
+      };
+      state.towns.forEach(town => {
+        town.resources.salt = 4;
+        town.prices.salt = 2;
+      });
+
+      expect(() => validateGameState(state, ['fish', 'wood', 'ore', 'salt'])).not.toThrow();
+
+      delete state.towns[0]!.prices.salt;
+      try {
+        validateGameState(state, ['fish', 'wood', 'ore', 'salt']);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.path).toBe('towns[0].prices');
+        expect(validationError.message).toContain("Missing required good 'salt' in prices");
+      }
+    });
   });
 
   describe('missing required goods', () => {
@@ -978,4 +1021,210 @@ describe('validateGameState', () => {
       }
     });
   });
+
+  describe('town size', () => {
+    it('should accept a positive, fractional town size', () => {
+      const state: GameState = {
+        ...validGameState,
+        towns: [{ ...validGameState.towns[0]!, size: 2.5 }],
+      };
+
+      expect(() => validateGameState(state)).not.toThrow();
+    });
+
+    it('should throw with path when town size is not positive', () => {
+      const invalidState = {
+        ...validGameState,
+        towns: [{ ...validGameState.towns[0]!, size: 0 }],
+      };
+
+      try {
+        validateGameState(invalidState);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ValidationError).path).toBe('towns[0].size');
+        expect((error as ValidationError).message).toContain('Expected positive number');
+      }
+    });
+  });
+
+  describe('controller state', () => {
+    it('should accept a state with persisted AI cooldowns', () => {
+      const state: GameState = {
+        ...validGameState,
+        controller: { aiCooldowns: { 'town1:fish': 3 } },
+      };
+
+      expect(() => validateGameState(state)).not.toThrow();
+    });
+
+    it('should throw with path when aiCooldowns is missing', () => {
+      const invalidState = { ...validGameState, controller: {} } as InvalidGameState;
+
+      try {
+        validateGameState(invalidState);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.path).toBe('controller.aiCooldowns');
+        expect(validationError.message).toContain('Missing required field: aiCooldowns');
+      }
+    });
+
+    it('should throw with path when a cooldown key or turn is invalid', () => {
+      const badKey = { ...validGameState, controller: { aiCooldowns: { town1: 3 } } };
+      const badTurn = { ...validGameState, controller: { aiCooldowns: { 'town1:fish': -1 } } };
+
+      try {
+        validateGameState(badKey);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ValidationError).path).toBe('controller.aiCooldowns.town1');
+        expect((error as ValidationError).message).toContain("expected 'townId:goodId'");
+      }
+
+      try {
+        validateGameState(badTurn);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ValidationError).path).toBe('controller.aiCooldowns.town1:fish');
+      }
+    });
+  });
+
+  describe('caravans', () => {
+    const caravan = {
+      id: 'caravan-1-0',
+      originId: 'town1',
+      destinationId: 'town1',
+      goodId: 'fish',
+      quantity: 5,
+      departedTurn: 1,
+      arrivalTurn: 3,
+    };
+
+    it('should accept a state with caravans in transit', () => {
+      const state: GameState = { ...validGameState, caravans: [caravan] };
+
+      expect(() => validateGameState(state)).not.toThrow();
+    });
+
+    it.each([
+      [{ ...caravan, originId: 'ghost' }, 'caravans[0].originId'],
+      [{ ...caravan, goodId: 'salt' }, 'caravans[0].goodId'],
+      [{ ...caravan, quantity: 0 }, 'caravans[0].quantity'],
+      [{ ...caravan, arrivalTurn: 1 }, 'caravans[0].arrivalTurn'],
+    ])('should throw with path for an invalid caravan (%#)', (invalid, path) => {
+      try {
+        validateGameState({ ...validGameState, caravans: [invalid] });
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ValidationError).path).toBe(path);
+      }
+    });
+  });
+
+  describe('orders', () => {
+    const order = {
+      id: 'order-1-0',
+      townId: 'town1',
+      counterpartyId: 'town1',
+      goodId: 'fish',
+      side: 'buy',
+      quantity: 5,
+      limitPrice: 12,
+      placedTurn: 1,
+      expiresTurn: 4,
+    } as const;
+
+    it('should accept a state with open orders', () => {
+      const state: GameState = { ...validGameState, orders: [order] };
+
+      expect(() => validateGameState(state)).not.toThrow();
+    });
+
+    it.each([
+      [{ ...order, counterpartyId: 'ghost' }, 'orders[0].counterpartyId'],
+      [{ ...order, goodId: 'salt' }, 'orders[0].goodId'],
+      [{ ...order, side: 'hold' }, 'orders[0].side'],
+      [{ ...order, quantity: 0 }, 'orders[0].quantity'],
+      [{ ...order, limitPrice: -1 }, 'orders[0].limitPrice'],
+      [{ ...order, expiresTurn: 0 }, 'orders[0].expiresTurn'],
+    ])('should throw with path for an invalid order (%#)', (invalid, path) => {
+      try {
+        validateGameState({ ...validGameState, orders: [invalid] });
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ValidationError).path).toBe(path);
+      }
+    });
+  });
+
+  describe('ledger', () => {
+    const entry = {
+      turn: 2,
+      fromTownId: 'town1',
+      toTownId: 'town1',
+      goodId: 'fish',
+      quantity: 5,
+      unitPrice: 12,
+      side: 'sell',
+      initiator: { type: 'ai', profileId: 'greedy' },
+      via: 'order',
+    } as const;
+
+    it('should accept a state with a trade ledger', () => {
+      const state: GameState = { ...validGameState, ledger: [entry] };
+
+      expect(() => validateGameState(state)).not.toThrow();
+    });
+
+    it.each([
+      [{ ...entry, toTownId: 'ghost' }, 'ledger[0].toTownId'],
+      [{ ...entry, goodId: 'salt' }, 'ledger[0].goodId'],
+      [{ ...entry, quantity: 0 }, 'ledger[0].quantity'],
+      [{ ...entry, unitPrice: -1 }, 'ledger[0].unitPrice'],
+      [{ ...entry, side: 'hold' }, 'ledger[0].side'],
+      [{ ...entry, initiator: { type: 'ai' } }, 'ledger[0].initiator.profileId'],
+      [{ ...entry, initiator: { type: 'bank' } }, 'ledger[0].initiator.type'],
+      [{ ...entry, transportCost: -2 }, 'ledger[0].transportCost'],
+      [{ ...entry, via: 'gift' }, 'ledger[0].via'],
+    ])('should throw with path for an invalid ledger entry (%#)', (invalid, path) => {
+      try {
+        validateGameState({ ...validGameState, ledger: [invalid] });
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ValidationError).path).toBe(path);
+      }
+    });
+  });
+
+  describe('priceHistory', () => {
+    const bar = { turn: 3, open: 10, high: 12, low: 9, close: 11, volume: 5, stock: 40 };
+
+    it('should accept a state with price history', () => {
+      const state: GameState = {
+        ...validGameState,
+        priceHistory: { town1: { fish: [bar, { ...bar, turn: 4 }] } },
+      };
+
+      expect(() => validateGameState(state)).not.toThrow();
+    });
+
+    it.each([
+      [{ ghost: { fish: [bar] } }, 'priceHistory.ghost'],
+      [{ town1: { salt: [bar] } }, 'priceHistory.town1.salt'],
+      [{ town1: { fish: [{ ...bar, volume: -1 }] } }, 'priceHistory.town1.fish[0].volume'],
+      [{ town1: { fish: [{ ...bar, high: 10 }] } }, 'priceHistory.town1.fish[0].high'],
+      [{ town1: { fish: [{ ...bar, low: 10.5 }] } }, 'priceHistory.town1.fish[0].low'],
+      [{ town1: { fish: [bar, bar] } }, 'priceHistory.town1.fish[1].turn'],
+    ])('should throw with path for invalid price history (%#)', (invalid, path) => {
+      try {
+        validateGameState({ ...validGameState, priceHistory: invalid });
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ValidationError).path).toBe(path);
+      }
+    });
+  });
 });
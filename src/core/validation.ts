@@ -1,7 +1,18 @@
-import type { GameState } from '../types/GameState';
+import type {
+  Caravan,
+  ControllerState,
+  GameState,
+  LedgerEntry,
+  LimitOrder,
+  PriceBar,
+  PriceHistory,
+} from '../types/GameState';
 import type { GoodId, GoodConfig } from '../types/Goods';
 import type { Town } from '../types/Town';
 
+import { loadGoodsRegistry } from './goods/GoodsRegistry';
+import { MILITARY_TIERS, PROSPERITY_TIERS } from './stats/TierConfig';
+
 /**
  * Represents a validation error with a precise path to the problematic field.
  */
@@ -153,7 +164,7 @@ function validateGoodConfig(value: unknown, path: string, expectedId: GoodId): G
  * @returns The validated Town
  * @throws ValidationError if validation fails
  */
-function validateTown(value: unknown, path: string, goodIds: GoodId[]): Town {
+function validateTown(value: unknown, path: string, goodIds: readonly GoodId[]): Town {
   const obj = validateObject(value, path);
 
   // Check all required town fields exist first
@@ -243,7 +254,7 @@ function validateTown(value: unknown, path: string, goodIds: GoodId[]): Town {
 
   // Validate militaryTier
   const militaryTier = validateString(revealed.militaryTier, `${path}.revealed.militaryTier`);
-  if (!['militia', 'garrison', 'formidable', 'host'].includes(militaryTier)) {
+  if (!(MILITARY_TIERS as readonly string[]).includes(militaryTier)) {
     throw {
       path: `${path}.revealed.militaryTier`,
       message: `Invalid military tier: ${militaryTier}`,
@@ -252,7 +263,7 @@ function validateTown(value: unknown, path: string, goodIds: GoodId[]): Town {
 
   // Validate prosperityTier
   const prosperityTier = validateString(revealed.prosperityTier, `${path}.revealed.prosperityTier`);
-  if (!['struggling', 'modest', 'prosperous', 'opulent'].includes(prosperityTier)) {
+  if (!(PROSPERITY_TIERS as readonly string[]).includes(prosperityTier)) {
     throw {
       path: `${path}.revealed.prosperityTier`,
       message: `Invalid prosperity tier: ${prosperityTier}`,
@@ -262,6 +273,14 @@ function validateTown(value: unknown, path: string, goodIds: GoodId[]): Town {
   // Validate lastUpdatedTurn (nonnegative integer)
   validateInteger(revealed.lastUpdatedTurn, `${path}.revealed.lastUpdatedTurn`, 0);
 
+  // Validate optional size (finite, positive)
+  if (
+    obj.size !== undefined &&
+    (typeof obj.size !== 'number' || !Number.isFinite(obj.size) || obj.size <= 0)
+  ) {
+    throw { path: `${path}.size`, message: `Expected positive number, got ${String(obj.size)}` };
+  }
+
   // Validate optional aiProfileId
   if (obj.aiProfileId !== undefined) {
     validateString(obj.aiProfileId, `${path}.aiProfileId`);
@@ -270,14 +289,292 @@ function validateTown(value: unknown, path: string, goodIds: GoodId[]): Town {
   return value as Town;
 }
 
+/**
+ * Validates the turn controller state.
+ *
+ * @param value - The value to validate
+ * @param path - The path to this value for error reporting
+ * @returns The validated ControllerState
+ * @throws ValidationError if validation fails
+ */
+function validateControllerState(value: unknown, path: string): ControllerState {
+  const obj = validateObject(value, path);
+
+  if (!('aiCooldowns' in obj)) {
+    throw { path: `${path}.aiCooldowns`, message: 'Missing required field: aiCooldowns' };
+  }
+
+  // Validate aiCooldowns (`${townId}:${goodId}` -> nonnegative integer turn)
+  const aiCooldowns = validateObject(obj.aiCooldowns, `${path}.aiCooldowns`);
+  Object.entries(aiCooldowns).forEach(([key, turn]) => {
+    if (!/^[^:]+:[^:]+$/.test(key)) {
+      throw {
+        path: `${path}.aiCooldowns.${key}`,
+        message: `Invalid cooldown key '${key}', expected 'townId:goodId'`,
+      };
+    }
+    validateInteger(turn, `${path}.aiCooldowns.${key}`, 0);
+  });
+
+  return value as ControllerState;
+}
+
+/**
+ * Validates a caravan in transit.
+ *
+ * @param value - The value to validate
+ * @param path - The path to this value for error reporting
+ * @param townIds - IDs of the towns in the state
+ * @param goodIds - Goods the state configures
+ * @returns The validated Caravan
+ * @throws ValidationError if validation fails
+ */
+function validateCaravan(
+  value: unknown,
+  path: string,
+  townIds: readonly string[],
+  goodIds: readonly GoodId[],
+): Caravan {
+  const obj = validateObject(value, path);
+
+  validateString(obj.id, `${path}.id`);
+
+  for (const key of ['originId', 'destinationId'] as const) {
+    const townId = validateString(obj[key], `${path}.${key}`);
+    if (!townIds.includes(townId)) {
+      throw { path: `${path}.${key}`, message: `Unknown town '${townId}'` };
+    }
+  }
+
+  const goodId = validateString(obj.goodId, `${path}.goodId`);
+  if (!goodIds.includes(goodId)) {
+    throw { path: `${path}.goodId`, message: `Unknown good '${goodId}'` };
+  }
+
+  validateInteger(obj.quantity, `${path}.quantity`, 1);
+  const departedTurn = validateInteger(obj.departedTurn, `${path}.departedTurn`, 0);
+  validateInteger(obj.arrivalTurn, `${path}.arrivalTurn`, departedTurn + 1);
+
+  return value as Caravan;
+}
+
+/**
+ * Validates an open limit order.
+ *
+ * @param value - The value to validate
+ * @param path - The path to this value for error reporting
+ * @param townIds - IDs of the towns in the state
+ * @param goodIds - Goods the state configures
+ * @returns The validated LimitOrder
+ * @throws ValidationError if validation fails
+ */
+function validateLimitOrder(
+  value: unknown,
+  path: string,
+  townIds: readonly string[],
+  goodIds: readonly GoodId[],
+): LimitOrder {
+  const obj = validateObject(value, path);
+
+  validateString(obj.id, `${path}.id`);
+
+  for (const key of ['townId', 'counterpartyId'] as const) {
+    const townId = validateString(obj[key], `${path}.${key}`);
+    if (!townIds.includes(townId)) {
+      throw { path: `${path}.${key}`, message: `Unknown town '${townId}'` };
+    }
+  }
+
+  const goodId = validateString(obj.goodId, `${path}.goodId`);
+  if (!goodIds.includes(goodId)) {
+    throw { path: `${path}.goodId`, message: `Unknown good '${goodId}'` };
+  }
+
+  if (obj.side !== 'buy' && obj.side !== 'sell') {
+    throw { path: `${path}.side`, message: `Expected 'buy' or 'sell', got ${String(obj.side)}` };
+  }
+
+  validateInteger(obj.quantity, `${path}.quantity`, 1);
+  if (
+    typeof obj.limitPrice !== 'number' ||
+    !Number.isFinite(obj.limitPrice) ||
+    obj.limitPrice < 0
+  ) {
+    throw {
+      path: `${path}.limitPrice`,
+      message: `Expected nonnegative number, got ${String(obj.limitPrice)}`,
+    };
+  }
+  const placedTurn = validateInteger(obj.placedTurn, `${path}.placedTurn`, 0);
+  validateInteger(obj.expiresTurn, `${path}.expiresTurn`, placedTurn);
+
+  return value as LimitOrder;
+}
+
+/**
+ * Validates a trade ledger entry.
+ *
+ * @param value - The value to validate
+ * @param path - The path to this value for error reporting
+ * @param townIds - IDs of the towns in the state
+ * @param goodIds - Goods the state configures
+ * @returns The validated LedgerEntry
+ * @throws ValidationError if validation fails
+ */
+function validateLedgerEntry(
+  value: unknown,
+  path: string,
+  townIds: readonly string[],
+  goodIds: readonly GoodId[],
+): LedgerEntry {
+  const obj = validateObject(value, path);
+
+  validateInteger(obj.turn, `${path}.turn`, 0);
+
+  for (const key of ['fromTownId', 'toTownId'] as const) {
+    const townId = validateString(obj[key], `${path}.${key}`);
+    if (!townIds.includes(townId)) {
+      throw { path: `${path}.${key}`, message: `Unknown town '${townId}'` };
+    }
+  }
+
+  const goodId = validateString(obj.goodId, `${path}.goodId`);
+  if (!goodIds.includes(goodId)) {
+    throw { path: `${path}.goodId`, message: `Unknown good '${goodId}'` };
+  }
+
+  validateInteger(obj.quantity, `${path}.quantity`, 1);
+  if (typeof obj.unitPrice !== 'number' || !Number.isFinite(obj.unitPrice) || obj.unitPrice < 0) {
+    throw {
+      path: `${path}.unitPrice`,
+      message: `Expected nonnegative number, got ${String(obj.unitPrice)}`,
+    };
+  }
+
+  if (obj.side !== 'buy' && obj.side !== 'sell') {
+    throw { path: `${path}.side`, message: `Expected 'buy' or 'sell', got ${String(obj.side)}` };
+  }
+
+  const initiator = validateObject(obj.initiator, `${path}.initiator`);
+  if (initiator.type === 'ai') {
+    validateString(initiator.profileId, `${path}.initiator.profileId`);
+  } else if (initiator.type !== 'player') {
+    throw {
+      path: `${path}.initiator.type`,
+      message: `Expected 'player' or 'ai', got ${String(initiator.type)}`,
+    };
+  }
+
+  if (
+    obj.transportCost !== undefined &&
+    (typeof obj.transportCost !== 'number' ||
+      !Number.isFinite(obj.transportCost) ||
+      obj.transportCost < 0)
+  ) {
+    throw {
+      path: `${path}.transportCost`,
+      message: `Expected nonnegative number, got ${String(obj.transportCost)}`,
+    };
+  }
+
+  if (obj.via !== undefined && obj.via !== 'order' && obj.via !== 'barter') {
+    throw { path: `${path}.via`, message: `Expected 'order' or 'barter', got ${String(obj.via)}` };
+  }
+
+  return value as LedgerEntry;
+}
+
+/**
+ * Validates one price history bar.
+ *
+ * @param value - The value to validate
+ * @param path - The path to this value for error reporting
+ * @returns The validated PriceBar
+ * @throws ValidationError if validation fails
+ */
+function validatePriceBar(value: unknown, path: string): PriceBar {
+  const obj = validateObject(value, path);
+
+  validateInteger(obj.turn, `${path}.turn`, 0);
+  for (const key of ['open', 'high', 'low', 'close', 'volume', 'stock'] as const) {
+    const field = obj[key];
+    if (typeof field !== 'number' || !Number.isFinite(field) || field < 0) {
+      throw {
+        path: `${path}.${key}`,
+        message: `Expected nonnegative number, got ${String(field)}`,
+      };
+    }
+  }
+
+  const bar = value as PriceBar;
+  if (bar.high < Math.max(bar.open, bar.close, bar.low)) {
+    throw { path: `${path}.high`, message: `High ${bar.high} is below the bar's other prices` };
+  }
+  if (bar.low > Math.min(bar.open, bar.close)) {
+    throw { path: `${path}.low`, message: `Low ${bar.low} is above the open or close` };
+  }
+
+  return bar;
+}
+
+/**
+ * Validates the rolling price history: bars per known town and good, one per
+ * turn, oldest first.
+ *
+ * @param value - The value to validate
+ * @param path - The path to this value for error reporting
+ * @param townIds - IDs of the towns in the state
+ * @param goodIds - Goods the state configures
+ * @returns The validated PriceHistory
+ * @throws ValidationError if validation fails
+ */
+function validatePriceHistory(
+  value: unknown,
+  path: string,
+  townIds: readonly string[],
+  goodIds: readonly GoodId[],
+): PriceHistory {
+  const byTown = validateObject(value, path);
+
+  for (const [townId, series] of Object.entries(byTown)) {
+    if (!townIds.includes(townId)) {
+      throw { path: `${path}.${townId}`, message: `Unknown town '${townId}'` };
+    }
+    for (const [goodId, bars] of Object.entries(validateObject(series, `${path}.${townId}`))) {
+      const seriesPath = `${path}.${townId}.${goodId}`;
+      if (!goodIds.includes(goodId)) {
+        throw { path: seriesPath, message: `Unknown good '${goodId}'` };
+      }
+      let lastTurn = -1;
+      validateArray(bars, seriesPath).forEach((bar, index) => {
+        const { turn } = validatePriceBar(bar, `${seriesPath}[${index}]`);
+        if (turn <= lastTurn) {
+          throw {
+            path: `${seriesPath}[${index}].turn`,
+            message: `Expected a turn after ${lastTurn}, got ${turn}`,
+          };
+        }
+        lastTurn = turn;
+      });
+    }
+  }
+
+  return value as PriceHistory;
+}
+
 /**
  * Validates that an object is a valid GameState.
  *
  * @param obj - The object to validate
+ * @param goodIds - Goods every state must configure and every town must stock
+ *   (defaults to the goods registry loaded from goods.json)
  * @throws ValidationError if validation fails
  * @returns The validated GameState
  */
-export function validateGameState(obj: unknown): asserts obj is GameState {
+export function validateGameState(
+  obj: unknown,
+  goodIds: readonly GoodId[] = loadGoodsRegistry().ids,
+): asserts obj is GameState {
   const gameState = validateObject(obj, 'root');
 
   // Check all required root keys exist first
@@ -313,17 +610,18 @@ export function validateGameState(obj: unknown): asserts obj is GameState {
   const goods = validateObject(gameState.goods, 'goods');
 
   // Check all required goods exist first
-  if (!('fish' in goods)) {
-    throw { path: 'goods', message: "Missing required good 'fish'" };
-  }
-  if (!('wood' in goods)) {
-    throw { path: 'goods', message: "Missing required good 'wood'" };
-  }
-  if (!('ore' in goods)) {
-    throw { path: 'goods', message: "Missing required good 'ore'" };
-  }
+  goodIds.forEach(goodId => {
+    if (!(goodId in goods)) {
+      throw { path: 'goods', message: `Missing required good '${goodId}'` };
+    }
+  });
 
-  const goodIds: GoodId[] = ['fish', 'wood', 'ore'];
+  // Reject goods that are not in the catalog
+  Object.keys(goods).forEach(goodId => {
+    if (!goodIds.includes(goodId)) {
+      throw { path: `goods.${goodId}`, message: `Unknown good '${goodId}'` };
+    }
+  });
 
   // Validate each good config
   goodIds.forEach(goodId => {
@@ -334,4 +632,30 @@ export function validateGameState(obj: unknown): asserts obj is GameState {
   towns.forEach((town, index) => {
     validateTown(town, `towns[${index}]`, goodIds);
   });
+
+  // Validate optional controller state
+  if (gameState.controller !== undefined) {
+    validateControllerState(gameState.controller, 'controller');
+  }
+
+  // Validate optional caravans in transit, open orders, the trade ledger and price history
+  const townIds = (towns as Town[]).map(town => town.id);
+  if (gameState.caravans !== undefined) {
+    validateArray(gameState.caravans, 'caravans').forEach((caravan, index) => {
+      validateCaravan(caravan, `caravans[${index}]`, townIds, goodIds);
+    });
+  }
+  if (gameState.orders !== undefined) {
+    validateArray(gameState.orders, 'orders').forEach((order, index) => {
+      validateLimitOrder(order, `orders[${index}]`, townIds, goodIds);
+    });
+  }
+  if (gameState.ledger !== undefined) {
+    validateArray(gameState.ledger, 'ledger').forEach((entry, index) => {
+      validateLedgerEntry(entry, `ledger[${index}]`, townIds, goodIds);
+    });
+  }
+  if (gameState.priceHistory !== undefined) {
+    validatePriceHistory(gameState.priceHistory, 'priceHistory', townIds, goodIds);
+  }
 }
@@ -1,20 +1,40 @@
-import { PlayerActionQueue } from './core/turn/PlayerActionQueue';
-import townsData from './data/towns.json';
+import { checkGoodsDataConsistency } from './core/goods/GoodsRegistry';
+import { initGameState } from './core/initGameState';
+import { createJournalRecorder } from './core/journal';
+import { loadTownGraph } from './core/map';
+import { createPricingService } from './core/pricing/PricingService';
+import type { PricingStrategyFactory } from './core/pricing/PricingStrategy';
+import { DEFAULT_SPREAD } from './core/pricing/Spread';
+import { AUTOSAVE_SLOT, createLocalStorage, createSaveManager } from './core/save';
+import type { SaveManager } from './core/save';
+import { travelTurnsByDistance } from './core/trade/Caravans';
+import { TurnPhase } from './core/turn/TurnPhase';
 import type { GameState } from './types/GameState';
+import type { GoodId } from './types/Goods';
+import { GameSession } from './ui/game/GameSession';
 import {
   SelectionStore,
   bindTownHitTest,
   bindTownKeyboardShortcuts,
   mountQuantityInput,
+  mountTradePreview,
 } from './ui/input';
 import { bindConfirmTrade } from './ui/input/ConfirmTrade';
+import { bindEndTurn } from './ui/input/EndTurn';
 import { mountGoodsPicker } from './ui/input/GoodsPicker';
+import { mountLedgerPanel } from './ui/input/LedgerPanel';
+import { mountOrdersPanel } from './ui/input/OrdersPanel';
 import { mountPriceReadout } from './ui/input/PriceReadout';
+import { mountPriceTolerance } from './ui/input/PriceTolerance';
 import { mountTradeModeToggle } from './ui/input/TradeModeToggle';
 import { mountTownView } from './ui/town/bindings';
+import { GOOD_ORDER } from './ui/town/constants';
 import './ui/styles/selection.css';
 import './ui/styles/picker.css';
 import './ui/styles/confirm.css';
+import './ui/styles/preview.css';
+import './ui/styles/orders.css';
+import './ui/styles/ledger.css';
 import './ui/styles/town.css';
 
 // Main entry point for the Town Econ application
@@ -22,9 +42,6 @@ import './ui/styles/town.css';
 // Create selection store
 const selectionStore = new SelectionStore();
 
-// Create player action queue
-const playerActionQueue = new PlayerActionQueue();
-
 // Create SVG map with towns using the new renderer
 const createTownMap = (): SVGSVGElement => {
   const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
@@ -37,41 +54,96 @@ const createTownMap = (): SVGSVGElement => {
   return svg;
 };
 
+// Resume from the autosave slot if there is one, otherwise start a new game
+const loadInitialState = (saves: SaveManager): GameState => {
+  try {
+    const saved = saves.load(AUTOSAVE_SLOT);
+    if (saved) return saved;
+  } catch (error) {
+    console.warn('Ignoring unreadable autosave:', error);
+  }
+  return initGameState();
+};
+
+// Maximum number of queued player actions resolved per turn
+const PLAYER_ACTION_BUDGET = 3;
+
+// Map distance a caravan covers per turn (towns are 300-710 apart, so 2-3 turns)
+const CARAVAN_DISTANCE_PER_TURN = 250;
+
 // Initialize the application
 const initApp = (): void => {
   const appElement = document.getElementById('app');
   if (!appElement) return;
 
+  // Fail fast if the data files disagree with the goods catalog
+  checkGoodsDataConsistency();
+
+  // Distances between towns drive transport costs for the session and the trade preview
+  const townGraph = loadTownGraph();
+
+  // Create the live game session (the first town is the player's town)
+  const saves = createSaveManager({ storage: createLocalStorage() });
+  const initialState = loadInitialState(saves);
+  const playerTownId = initialState.towns[0]!.id;
+  // Collect player actions rejected during the turn so they can be shown afterwards
+  let rejectedActions: string[] = [];
+  // Bid/ask margins shared by the session and every price shown to the player
+  const spread = DEFAULT_SPREAD;
+  // Pricing strategy shared by the session and every previewed trade
+  const createPricing: PricingStrategyFactory = createPricingService;
+  // Record every turn so a replay log can be attached to bug reports
+  const journal = createJournalRecorder(initialState, {
+    playerTownId,
+    playerActionBudget: PLAYER_ACTION_BUDGET,
+    shipping: { distancePerTurn: CARAVAN_DISTANCE_PER_TURN },
+  });
+  const session = new GameSession(initialState, {
+    playerTownId,
+    autosave: { saves },
+    journal,
+    townGraph,
+    spread,
+    createPricing,
+    // Traded goods travel between towns as caravans
+    shipping: { travelTurns: travelTurnsByDistance(townGraph, CARAVAN_DISTANCE_PER_TURN) },
+    playerActionBudget: PLAYER_ACTION_BUDGET,
+    onPhase: (phase, detail) => {
+      if (phase === TurnPhase.PlayerAction && detail && typeof detail === 'object') {
+        if ('rejected' in detail && 'error' in detail) {
+          rejectedActions.push(String(detail.error));
+        }
+      }
+    },
+  });
+  const getState = () => session.getState();
+  // Prices previewed trades the way they will settle
+  const pricing = createPricing({ spread });
+
+  // Local state for selected good and trade mode
+  let selectedGood: GoodId = GOOD_ORDER[0]!;
+  let selectedMode: 'buy' | 'sell' = 'buy';
+
   // Create and render the town map
   const townMap = createTownMap();
   appElement.innerHTML = '';
   appElement.appendChild(townMap);
 
-  // Initialize the town renderer
-  const mockGameState: GameState = {
-    towns: townsData as unknown as GameState['towns'],
-    turn: 0,
-    version: 1,
-    rngSeed: 'test',
-    goods: {
-      fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
-      wood: { id: 'wood', name: 'Wood', effects: { prosperityDelta: 0, militaryDelta: 1 } },
-      ore: { id: 'ore', name: 'Ore', effects: { prosperityDelta: -1, militaryDelta: 2 } },
-    },
-  };
-
   // Initialize the town view with selection binding
-  mountTownView({
+  const townView = mountTownView({
     svg: townMap,
-    getState: () => mockGameState,
+    getState,
     selection: selectionStore,
+    spread,
+    // Price pills show what the town charges or pays in the selected trade mode
+    getSide: () => selectedMode,
   });
 
   // Wire up the selection system
   const cleanupHitTest = bindTownHitTest(townMap, selectionStore);
   const cleanupKeyboard = bindTownKeyboardShortcuts(
     selectionStore,
-    townsData.map(t => t.id),
+    initialState.towns.map(t => t.id),
   );
 
   // Add selection display
@@ -82,6 +154,41 @@ const initApp = (): void => {
   selectionDisplay.style.borderRadius = '4px';
   appElement.appendChild(selectionDisplay);
 
+  // Add turn controls
+  const turnControls = document.createElement('div');
+  turnControls.style.marginTop = '20px';
+  turnControls.style.display = 'flex';
+  turnControls.style.alignItems = 'center';
+  turnControls.style.gap = '12px';
+  appElement.appendChild(turnControls);
+
+  const turnDisplay = document.createElement('span');
+  turnDisplay.className = 'turn-display';
+  turnDisplay.setAttribute('aria-live', 'polite');
+  turnControls.appendChild(turnDisplay);
+
+  const endTurnButton = document.createElement('button');
+  endTurnButton.className = 'end-turn-button';
+  endTurnButton.textContent = 'End Turn';
+  turnControls.appendChild(endTurnButton);
+
+  const exportLogButton = document.createElement('button');
+  exportLogButton.className = 'export-log-button';
+  exportLogButton.textContent = 'Export Replay Log';
+  exportLogButton.addEventListener('click', () => {
+    // The initial state and journal together are enough to replay the session
+    const log = JSON.stringify({ initialState, journal: journal.getJournal() });
+    const link = document.createElement('a');
+    link.href = `data:application/json;charset=utf-8,${encodeURIComponent(log)}`;
+    link.download = `town-econ-replay-turn-${session.getState().turn}.json`;
+    link.click();
+  });
+  turnControls.appendChild(exportLogButton);
+
+  const turnStatus = document.createElement('span');
+  turnStatus.className = 'turn-status';
+  turnControls.appendChild(turnStatus);
+
   // Add trading interface
   const tradingInterface = document.createElement('div');
   tradingInterface.style.marginTop = '20px';
@@ -92,14 +199,10 @@ const initApp = (): void => {
   tradingInterface.style.maxWidth = '400px';
   appElement.appendChild(tradingInterface);
 
-  // Local state for selected good and trade mode
-  let selectedGood: 'fish' | 'wood' | 'ore' = 'fish';
-  let selectedMode: 'buy' | 'sell' = 'buy';
-
   // Mount the trading components
   const cleanupGoodsPicker = mountGoodsPicker({
     container: tradingInterface,
-    goods: ['fish', 'wood', 'ore'],
+    goods: GOOD_ORDER,
     onChange: good => {
       selectedGood = good;
       // Trigger price readout update by updating store
@@ -109,33 +212,39 @@ const initApp = (): void => {
 
   const cleanupTradeModeToggle = mountTradeModeToggle(tradingInterface, mode => {
     selectedMode = mode;
+    townView.update();
     // Trigger price readout update by updating store
     selectionStore.setTown(selectionStore.get().selectedTownId);
   });
 
-  const cleanupPriceReadout = mountPriceReadout(
+  const priceReadout = mountPriceReadout(
     tradingInterface,
     selectionStore,
-    () => ({
-      towns: townsData as unknown as GameState['towns'],
-      turn: 0,
-      version: 1,
-      rngSeed: 'test',
-      goods: {
-        fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
-        wood: { id: 'wood', name: 'Wood', effects: { prosperityDelta: 0, militaryDelta: 1 } },
-        ore: { id: 'ore', name: 'Ore', effects: { prosperityDelta: -1, militaryDelta: 2 } },
-      },
-    }), // Mock GameState
+    getState,
     () => selectedGood,
     () => selectedMode,
+    spread,
   );
 
   // Add quantity input
-  const cleanupQuantityInput = mountQuantityInput(tradingInterface, () => {
-    // Quantity changes will trigger preview updates
+  const quantityInput = mountQuantityInput(tradingInterface, () => {
+    // Trigger trade preview update by updating store
+    selectionStore.setTown(selectionStore.get().selectedTownId);
+  });
+
+  const tradePreview = mountTradePreview(tradingInterface, selectionStore, {
+    getState,
+    getGood: () => selectedGood,
+    getMode: () => selectedMode,
+    getQty: () => quantityInput.get(),
+    graph: townGraph,
+    quote: pricing.quote,
+    spread,
   });
 
+  // Let the player accept some price movement before the trade executes
+  const priceTolerance = mountPriceTolerance(tradingInterface, () => confirmTrade.update());
+
   // Add confirm trade button
   const confirmButton = document.createElement('button');
   confirmButton.className = 'confirm-trade-button';
@@ -143,31 +252,79 @@ const initApp = (): void => {
   tradingInterface.appendChild(confirmButton);
 
   // Bind confirm trade functionality
-  const cleanupConfirmTrade = bindConfirmTrade({
+  const confirmTrade = bindConfirmTrade({
     button: confirmButton,
     store: selectionStore,
-    getState: () => ({
-      towns: townsData as unknown as GameState['towns'],
-      turn: 0,
-      version: 1,
-      rngSeed: 'test',
-      goods: {
-        fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
-        wood: { id: 'wood', name: 'Wood', effects: { prosperityDelta: 0, militaryDelta: 1 } },
-        ore: { id: 'ore', name: 'Ore', effects: { prosperityDelta: -1, militaryDelta: 2 } },
-      },
-    }),
+    getState,
+    getGood: () => selectedGood,
+    getMode: () => selectedMode,
+    getQty: () => quantityInput.get(),
+    playerTownId,
+    queue: session.queue,
+    quote: pricing.quote,
+    spread,
+    getTolerance: () => priceTolerance.get(),
+  });
+
+  // Show the current turn and how many actions are waiting for it
+  const renderTurnStatus = (): void => {
+    turnDisplay.textContent = `Turn ${session.getState().turn}`;
+    const queued =
+      session.queue.length > 0
+        ? `${session.queue.length} action(s) queued (${PLAYER_ACTION_BUDGET} per turn)`
+        : '';
+    const rejected = rejectedActions.map(error => `Action rejected: ${error}`);
+    turnStatus.textContent = [queued, ...rejected].filter(Boolean).join(' · ');
+  };
+  confirmButton.addEventListener('click', renderTurnStatus);
+
+  // Standing limit orders for the selected town, good, mode and quantity
+  const ordersPanel = mountOrdersPanel(tradingInterface, {
+    store: selectionStore,
+    getState,
     getGood: () => selectedGood,
     getMode: () => selectedMode,
-    getQty: () => cleanupQuantityInput.get(),
-    playerTownId: 'riverdale', // Assuming riverdale is the player town
-    queue: playerActionQueue,
+    getQty: () => quantityInput.get(),
+    playerTownId,
+    queue: session.queue,
+    onQueued: renderTurnStatus,
+  });
+
+  // The player's trade history with filters
+  const ledgerPanel = mountLedgerPanel(tradingInterface, {
+    getState,
+    goods: GOOD_ORDER,
+    playerTownId,
+  });
+
+  // Re-render every view from the new state after each turn
+  const unsubscribeSession = session.subscribe(() => {
+    townView.update();
+    priceReadout.update();
+    tradePreview.update();
+    confirmTrade.update();
+    ordersPanel.update();
+    ledgerPanel.update();
+    renderTurnStatus();
+  });
+
+  const cleanupEndTurn = bindEndTurn({
+    button: endTurnButton,
+    endTurn: () => {
+      rejectedActions = [];
+      return session.endTurn();
+    },
+    onError: error => {
+      turnStatus.textContent = `Turn failed: ${error instanceof Error ? error.message : String(error)}`;
+    },
   });
 
+  renderTurnStatus();
+
   // Subscribe to selection changes to update display
   selectionStore.subscribe(state => {
     if (state.selectedTownId) {
-      const town = townsData.find(t => t.id === state.selectedTownId);
+      const town = session.getState().towns.find(t => t.id === state.selectedTownId);
       selectionDisplay.innerHTML = `
         <strong>Selected:</strong> ${town?.name || state.selectedTownId}
         <br><small>Press Escape to clear selection</small>
@@ -184,11 +341,18 @@ const initApp = (): void => {
   window.addEventListener('beforeunload', () => {
     cleanupHitTest();
     cleanupKeyboard();
+    unsubscribeSession();
+    townView.destroy();
     cleanupGoodsPicker.destroy();
     cleanupTradeModeToggle.destroy();
-    cleanupPriceReadout.destroy();
-    cleanupQuantityInput.destroy();
-    cleanupConfirmTrade.destroy();
+    priceReadout.destroy();
+    quantityInput.destroy();
+    tradePreview.destroy();
+    priceTolerance.destroy();
+    confirmTrade.destroy();
+    ordersPanel.destroy();
+    ledgerPanel.destroy();
+    cleanupEndTurn.destroy();
   });
 };
 
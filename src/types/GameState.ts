@@ -1,6 +1,122 @@
 import type { GoodId, GoodConfig } from './Goods';
 import type { Town } from './Town';
 
+/**
+ * Per-run state the turn controller carries from one turn to the next.
+ * Kept in the game state so that saving and reloading does not change behaviour.
+ *
+ * @property aiCooldowns - AI trade cooldowns keyed by `${townId}:${goodId}`,
+ *   mapping to the last turn on which the cooldown still applies
+ */
+export interface ControllerState {
+  /** AI trade cooldowns keyed by `${townId}:${goodId}` (value: last turn the cooldown applies) */
+  aiCooldowns: Record<string, number>;
+}
+
+/**
+ * Goods on the road between two towns. The buyer has already paid; the goods
+ * reach the destination's stock when the caravan arrives.
+ */
+export interface Caravan {
+  /** Unique identifier for the caravan */
+  id: string;
+  /** ID of the town the goods left (the seller) */
+  originId: string;
+  /** ID of the town the goods are travelling to (the buyer) */
+  destinationId: string;
+  /** The good being carried */
+  goodId: GoodId;
+  /** Quantity carried (positive integer) */
+  quantity: number;
+  /** Turn on which the goods were ordered */
+  departedTurn: number;
+  /** Turn during whose UpdateStats phase the goods are delivered (> departedTurn) */
+  arrivalTurn: number;
+}
+
+/**
+ * A standing order to trade with another town whenever its price reaches a limit.
+ * Orders are checked every turn after price drift and may fill over several turns.
+ */
+export interface LimitOrder {
+  /** Unique identifier for the order */
+  id: string;
+  /** ID of the town that placed the order (and initiates its trades) */
+  townId: string;
+  /** ID of the town the order trades with */
+  counterpartyId: string;
+  /** The good to trade */
+  goodId: GoodId;
+  /** Whether the placing town buys from or sells to the counterparty */
+  side: 'buy' | 'sell';
+  /** Quantity still to trade (positive integer) */
+  quantity: number;
+  /** Highest unit price to buy at, or lowest unit price to sell at */
+  limitPrice: number;
+  /** Turn on which the order was placed */
+  placedTurn: number;
+  /** Last turn on which the order may fill; it is dropped afterwards */
+  expiresTurn: number;
+}
+
+/**
+ * Who started a trade: the player, or an AI town acting on its profile.
+ */
+export type TradeInitiator = { type: 'player' } | { type: 'ai'; profileId: string };
+
+/**
+ * One completed trade, as recorded in the game's trade ledger. A barter is
+ * recorded as two entries, one per good, valued at the prices it was exchanged at.
+ */
+export interface LedgerEntry {
+  /** Turn on which the trade happened */
+  turn: number;
+  /** ID of the town that initiated the trade */
+  fromTownId: string;
+  /** ID of the town it traded with */
+  toTownId: string;
+  /** The good traded */
+  goodId: GoodId;
+  /** Quantity traded (positive integer) */
+  quantity: number;
+  /** Unit price applied (for barters, the unit value the good was exchanged at) */
+  unitPrice: number;
+  /** Whether the initiating town bought or sold the good */
+  side: 'buy' | 'sell';
+  /** Who started the trade */
+  initiator: TradeInitiator;
+  /** Transport cost the initiating town paid, if any (it leaves the economy) */
+  transportCost?: number;
+  /** How the trade came about, if not as a direct buy or sell */
+  via?: 'order' | 'barter';
+}
+
+/**
+ * One turn of a town's market in a good: its price range, trade volume and
+ * closing stock.
+ */
+export interface PriceBar {
+  /** Turn the bar covers */
+  turn: number;
+  /** Price at the start of the turn */
+  open: number;
+  /** Highest price during the turn */
+  high: number;
+  /** Lowest price during the turn */
+  low: number;
+  /** Price at the end of the turn */
+  close: number;
+  /** Units of the good the town bought or sold during the turn */
+  volume: number;
+  /** Town's stock of the good at the end of the turn */
+  stock: number;
+}
+
+/**
+ * Rolling price history: each town's bars per good, oldest first.
+ */
+export type PriceHistory = Record<string, Partial<Record<GoodId, PriceBar[]>>>;
+
 /**
  * Represents the complete state of the town economy game.
  *
@@ -9,6 +125,11 @@ import type { Town } from './Town';
  * @property rngSeed - The random number generator seed for reproducible gameplay
  * @property towns - Array of all towns in the game
  * @property goods - Configuration for all goods in the game economy
+ * @property controller - Optional turn controller state (absent means no active cooldowns)
+ * @property caravans - Optional goods in transit (absent means none)
+ * @property orders - Optional open limit orders (absent means none)
+ * @property ledger - Optional append-only record of completed trades (absent means none)
+ * @property priceHistory - Optional rolling per-turn price bars (absent means none)
  */
 export interface GameState {
   /** The current game turn (nonnegative integer, starts at 0) */
@@ -25,4 +146,19 @@ export interface GameState {
 
   /** Configuration for all goods in the game economy (must include all GoodId values) */
   goods: Record<GoodId, GoodConfig>;
+
+  /** Turn controller state carried between turns (absent means no active cooldowns) */
+  controller?: ControllerState;
+
+  /** Goods in transit between towns (absent means none) */
+  caravans?: Caravan[];
+
+  /** Open limit orders, in the order they were placed (absent means none) */
+  orders?: LimitOrder[];
+
+  /** Completed trades, oldest first; entries are only ever appended (absent means none) */
+  ledger?: LedgerEntry[];
+
+  /** Recent price bars per town and good, oldest first (absent means none) */
+  priceHistory?: PriceHistory;
 }
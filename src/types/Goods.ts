@@ -1,7 +1,10 @@
 /**
  * Represents the unique identifier for a good in the town economy.
+ *
+ * Goods are data-driven: the set of valid IDs is whatever goods.json declares,
+ * and is exposed at runtime through the goods registry (`core/goods`).
  */
-export type GoodId = 'fish' | 'wood' | 'ore';
+export type GoodId = string;
 
 /**
  * Configuration for a good in the town economy.
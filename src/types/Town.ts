@@ -36,6 +36,12 @@ export interface Town {
     lastUpdatedTurn: number;
   };
 
+  /**
+   * Optional size relative to a typical town (default 1). Scales how much stock the
+   * town's markets need before prices move, and adds a small price premium.
+   */
+  size?: number;
+
   /** Optional AI profile identifier for automated town behavior */
   aiProfileId?: string;
 }
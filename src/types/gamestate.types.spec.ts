@@ -41,8 +41,8 @@ describe('GameState types', () => {
     expect(validGameState.version).toBe(1);
     expect(validGameState.rngSeed).toBe('test-seed-123');
     expect(validGameState.towns).toEqual([]);
-    expect(validGameState.goods.fish.name).toBe('Fish');
-    expect(validGameState.goods.ore.effects.prosperityDelta).toBe(2);
+    expect(validGameState.goods.fish!.name).toBe('Fish');
+    expect(validGameState.goods.ore!.effects.prosperityDelta).toBe(2);
   });
 
   it('should enforce version ≥ 1 constraint', () => {
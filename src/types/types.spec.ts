@@ -26,9 +26,9 @@ describe('Type smoke tests', () => {
     };
 
     expectTypeOf(goods).toMatchTypeOf<Record<GoodId, GoodConfig>>();
-    expectTypeOf(goods.fish.id).toMatchTypeOf<GoodId>();
-    expectTypeOf(goods.wood.effects.prosperityDelta).toMatchTypeOf<number>();
-    expectTypeOf(goods.ore.effects.militaryDelta).toMatchTypeOf<number>();
+    expectTypeOf(goods.fish!.id).toMatchTypeOf<GoodId>();
+    expectTypeOf(goods.wood!.effects.prosperityDelta).toMatchTypeOf<number>();
+    expectTypeOf(goods.ore!.effects.militaryDelta).toMatchTypeOf<number>();
   });
 
   it('should align MilitaryTier and ProsperityTier with Town', () => {
@@ -54,8 +54,8 @@ describe('Type smoke tests', () => {
     expectTypeOf(town.prosperityRaw).toMatchTypeOf<number>();
     expectTypeOf(town.revealed.militaryTier).toMatchTypeOf<MilitaryTier>();
     expectTypeOf(town.revealed.prosperityTier).toMatchTypeOf<ProsperityTier>();
-    expectTypeOf(town.resources.fish).toMatchTypeOf<number>();
-    expectTypeOf(town.prices.ore).toMatchTypeOf<number>();
+    expectTypeOf(town.resources.fish).toMatchTypeOf<number | undefined>();
+    expectTypeOf(town.prices.ore).toMatchTypeOf<number | undefined>();
   });
 
   it('should construct minimal GameState with 3 towns and 3 goods', () => {
@@ -148,9 +148,9 @@ describe('Type smoke tests', () => {
     expect(gameState.towns[0]?.name).toBe('Port Town');
     expect(gameState.towns[1]?.name).toBe('Forest Town');
     expect(gameState.towns[2]?.name).toBe('Mining Town');
-    expect(gameState.goods.fish.name).toBe('Fresh Fish');
-    expect(gameState.goods.wood.name).toBe('Quality Wood');
-    expect(gameState.goods.ore.name).toBe('Rich Ore');
+    expect(gameState.goods.fish!.name).toBe('Fresh Fish');
+    expect(gameState.goods.wood!.name).toBe('Quality Wood');
+    expect(gameState.goods.ore!.name).toBe('Rich Ore');
   });
 
   it('should handle optional Town properties', () => {
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { initGameState } from '@/core/initGameState';
+import { createJournalRecorder } from '@/core/journal';
+import { DEFAULT_SPREAD, sidePrice } from '@/core/pricing/Spread';
+import { TurnPhaseError } from '@/core/turn/TurnErrors';
+import { TurnPhase } from '@/core/turn/TurnPhase';
+
+import { GameSession } from './GameSession';
+
+describe('GameSession', () => {
+  it('starts from the initial state', () => {
+    const initial = initGameState({ rngSeed: 'session-seed' });
+    const session = new GameSession(initial);
+
+    expect(session.getState()).toBe(initial);
+    expect(session.isRunning).toBe(false);
+  });
+
+  it('advances the live state and notifies subscribers after each turn', async () => {
+    const session = new GameSession(initGameState({ rngSeed: 'session-seed' }));
+    const listener = vi.fn();
+    session.subscribe(listener);
+
+    const result = await session.endTurn();
+
+    expect(result.state.turn).toBe(1);
+    expect(session.getState()).toBe(result.state);
+    expect(listener).toHaveBeenCalledWith(result.state);
+
+    await session.endTurn();
+    expect(session.getState().turn).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('drains queued player trades during the turn', async () => {
+    const initial = initGameState({ rngSeed: 'session-seed' });
+    const session = new GameSession(initial, { playerTownId: 'riverdale' });
+    const seller = initial.towns.find(t => t.id === 'forestburg')!;
+
+    session.queue.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'forestburg',
+        goodId: 'wood',
+        quantity: 2,
+        side: 'buy',
+        pricePerUnit: sidePrice(seller, 'wood', 'buy', DEFAULT_SPREAD)!,
+      },
+    });
+
+    await session.endTurn();
+
+    expect(session.queue.length).toBe(0);
+    const riverdale = session.getState().towns.find(t => t.id === 'riverdale')!;
+    expect(riverdale.treasury).toBeLessThan(initial.towns[0]!.treasury);
+  });
+
+  it('keeps the previous state when a turn fails', async () => {
+    const initial = initGameState({ rngSeed: 'session-seed' });
+    const session = new GameSession(initial, { playerTownId: 'riverdale' });
+    const listener = vi.fn();
+    session.subscribe(listener);
+
+    vi.spyOn(session.controller, 'runTurn').mockRejectedValueOnce(
+      new TurnPhaseError(TurnPhase.UpdateStats, new Error('boom')),
+    );
+
+    await expect(session.endTurn()).rejects.toBeInstanceOf(TurnPhaseError);
+    expect(session.getState()).toBe(initial);
+    expect(session.isRunning).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('commits completed turns to the journal and drops failed ones', async () => {
+    const initial = initGameState({ rngSeed: 'session-seed' });
+    const journal = createJournalRecorder(initial, { playerTownId: 'riverdale' });
+    const session = new GameSession(initial, { playerTownId: 'riverdale', journal });
+
+    await session.endTurn();
+    vi.spyOn(session.controller, 'runTurn').mockRejectedValueOnce(
+      new TurnPhaseError(TurnPhase.UpdateStats, new Error('boom')),
+    );
+    await expect(session.endTurn()).rejects.toBeInstanceOf(TurnPhaseError);
+    await session.endTurn();
+
+    expect(journal.getJournal().turns.map(turn => turn.turn)).toEqual([1, 2]);
+  });
+
+  it('rejects a failing trade without failing the turn', async () => {
+    const initial = initGameState({ rngSeed: 'session-seed' });
+    const onPhase = vi.fn();
+    const session = new GameSession(initial, { playerTownId: 'riverdale', onPhase });
+
+    session.queue.enqueue({
+      type: 'trade',
+      payload: {
+        fromTownId: 'riverdale',
+        toTownId: 'nowhere',
+        goodId: 'wood',
+        quantity: 1,
+        side: 'buy',
+        pricePerUnit: 1,
+      },
+    });
+
+    await session.endTurn();
+
+    expect(session.getState().turn).toBe(1);
+    expect(onPhase).toHaveBeenCalledWith(
+      TurnPhase.PlayerAction,
+      expect.objectContaining({ rejected: true }),
+    );
+  });
+
+  it('rejects overlapping turns', async () => {
+    const session = new GameSession(initGameState({ rngSeed: 'session-seed' }));
+
+    const first = session.endTurn();
+    await expect(session.endTurn()).rejects.toThrow('A turn is already running');
+    await first;
+
+    expect(session.getState().turn).toBe(1);
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    const session = new GameSession(initGameState({ rngSeed: 'session-seed' }));
+    const listener = vi.fn();
+    const unsubscribe = session.subscribe(listener);
+
+    unsubscribe();
+    await session.endTurn();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+import type { JournalRecorder } from '@/core/journal/TurnJournal';
+import type { PlayerActionQueue } from '@/core/turn/PlayerActionQueue';
+import type { TurnController, TurnResult } from '@/core/turn/TurnController';
+import { createTurnController } from '@/core/turn/TurnService';
+import type { TurnServiceOptions } from '@/core/turn/TurnService';
+import type { GameState } from '@/types/GameState';
+
+/**
+ * Holds the live game state for the browser app and advances it one turn at a time
+ * through a TurnController. UI components read the current state via `getState()`
+ * and re-render when subscribers are notified after each turn.
+ */
+export class GameSession {
+  private state: GameState;
+
+  private running = false;
+
+  private subs = new Set<(state: GameState) => void>();
+
+  readonly controller: TurnController;
+
+  readonly queue: PlayerActionQueue;
+
+  private readonly journal: JournalRecorder | undefined;
+
+  constructor(initialState: GameState, opts?: TurnServiceOptions) {
+    this.state = initialState;
+    this.journal = opts?.journal;
+
+    const { controller, playerQ } = createTurnController(initialState, opts);
+    this.controller = controller;
+    this.queue = playerQ;
+  }
+
+  /**
+   * Gets the current game state.
+   */
+  getState(): GameState {
+    return this.state;
+  }
+
+  /**
+   * Whether a turn is currently being run.
+   */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Runs one full turn from the current state, consuming queued player actions.
+   * On success the session adopts the new state, commits the turn to the journal
+   * (if one was given) and notifies subscribers.
+   * On failure the previous state is kept, the partial journal entry is dropped
+   * and the TurnPhaseError is rethrown.
+   *
+   * @returns The turn result
+   * @throws Error if a turn is already running, or TurnPhaseError if the turn fails
+   */
+  async endTurn(): Promise<TurnResult> {
+    if (this.running) {
+      throw new Error('A turn is already running');
+    }
+
+    this.running = true;
+    try {
+      let result: TurnResult;
+      try {
+        result = await this.controller.runTurn(this.state);
+      } catch (error) {
+        this.journal?.discard();
+        throw error;
+      }
+      this.journal?.commit(result.state);
+      this.state = result.state;
+      this.emit();
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Subscribes to state changes after each completed turn.
+   * @returns Function that removes the subscription
+   */
+  subscribe(fn: (state: GameState) => void): () => void {
+    this.subs.add(fn);
+    return () => this.subs.delete(fn);
+  }
+
+  private emit(): void {
+    this.subs.forEach(callback => callback(this.state));
+  }
+}
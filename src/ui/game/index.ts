@@ -0,0 +1 @@
+export { GameSession } from './GameSession';
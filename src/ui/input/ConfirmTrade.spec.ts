@@ -5,6 +5,7 @@ import { PlayerActionQueue } from '@/core/turn/PlayerActionQueue';
 import type { GameState } from '@/types/GameState';
 
 import { bindConfirmTrade } from './ConfirmTrade';
+import type { ConfirmDeps } from './ConfirmTrade';
 import type { SelectionStore, SelectionState } from './SelectionStore';
 
 // Mock DOM environment
@@ -26,7 +27,7 @@ describe('ConfirmTrade', () => {
   let mockGetGood: () => 'fish' | 'wood' | 'ore' | null;
   let mockGetMode: () => 'buy' | 'sell' | null;
   let mockGetQty: () => number;
-  let cleanup: { destroy(): void };
+  let cleanup: { destroy(): void; update(): void };
   let capturedSubscribeCallback: ((state: SelectionState) => void) | null = null;
 
   const mockGameState: GameState = {
@@ -230,6 +231,39 @@ describe('ConfirmTrade', () => {
       expect(button.disabled).toBe(true);
       expect(button.title).toContain('Town not enough treasury');
     });
+
+    it('should disable button and enqueue nothing when the town does not trade the good', () => {
+      vi.mocked(mockGetState).mockReturnValue({
+        ...mockGameState,
+        towns: mockGameState.towns.map(town =>
+          town.id === 'forestburg' ? { ...town, prices: { wood: 15, ore: 35 } } : town,
+        ),
+      });
+      cleanup.update();
+
+      expect(button.disabled).toBe(true);
+      expect(button.title).toBe('Forestburg does not trade fish');
+
+      button.click();
+
+      expect(mockQueue.length).toBe(0);
+    });
+
+    it('should re-validate against the latest state when update is called', () => {
+      expect(button.disabled).toBe(false);
+
+      // Simulate a turn that drains the player's treasury
+      vi.mocked(mockGetState).mockReturnValue({
+        ...mockGameState,
+        towns: mockGameState.towns.map(town =>
+          town.id === 'riverdale' ? { ...town, treasury: 0 } : town,
+        ),
+      });
+      cleanup.update();
+
+      expect(button.disabled).toBe(true);
+      expect(button.title).toContain('Not enough treasury');
+    });
   });
 
   describe('Trade request building', () => {
@@ -279,6 +313,29 @@ describe('ConfirmTrade', () => {
       });
     });
 
+    it("should require the town's ask when buying and its bid when selling with a spread", () => {
+      cleanup.destroy();
+      cleanup = bindConfirmTrade({
+        button,
+        store: mockStore,
+        getState: mockGetState,
+        getGood: mockGetGood,
+        getMode: mockGetMode,
+        getQty: mockGetQty,
+        playerTownId: 'riverdale',
+        queue: mockQueue,
+        spread: { margin: 0.2 },
+      });
+      vi.mocked(mockGetGood).mockReturnValue('wood');
+
+      button.click();
+      vi.mocked(mockGetMode).mockReturnValue('sell');
+      button.click();
+
+      expect(mockQueue.dequeue()).toMatchObject({ payload: { side: 'buy', pricePerUnit: 18 } });
+      expect(mockQueue.dequeue()).toMatchObject({ payload: { side: 'sell', pricePerUnit: 12 } });
+    });
+
     it('should not enqueue action when trade is invalid', () => {
       mockStore.get = vi.fn(() => ({ selectedTownId: null }));
 
@@ -294,6 +351,70 @@ describe('ConfirmTrade', () => {
     });
   });
 
+  describe('with a price tolerance', () => {
+    const bindWithTolerance = (tolerance: number, quote?: ConfirmDeps['quote']) => {
+      cleanup.destroy();
+      cleanup = bindConfirmTrade({
+        button,
+        store: mockStore,
+        getState: mockGetState,
+        getGood: mockGetGood,
+        getMode: mockGetMode,
+        getQty: mockGetQty,
+        playerTownId: 'riverdale',
+        queue: mockQueue,
+        getTolerance: () => tolerance,
+        ...(quote && { quote }),
+      });
+    };
+
+    it('should bound the buy price from above instead of requiring an exact price', () => {
+      bindWithTolerance(0.1);
+      vi.mocked(mockGetGood).mockReturnValue('wood');
+
+      button.click();
+
+      expect(mockQueue.dequeue()).toEqual({
+        type: 'trade',
+        payload: {
+          fromTownId: 'riverdale',
+          toTownId: 'forestburg',
+          side: 'buy',
+          goodId: 'wood',
+          quantity: 5,
+          maxPricePerUnit: 16.5, // forestburg's wood price 15 + 10%
+        },
+      });
+    });
+
+    it('should bound the sell price from below', () => {
+      bindWithTolerance(0.05);
+      vi.mocked(mockGetMode).mockReturnValue('sell');
+
+      button.click();
+
+      expect(mockQueue.dequeue()).toMatchObject({
+        payload: { side: 'sell', minPricePerUnit: 14.25 }, // forestburg's fish price 15 - 5%
+      });
+    });
+
+    it('should apply the tolerance to the average price along the curve', () => {
+      const quote = vi.fn(() => ({ unitPrices: [15, 16, 17], totalCost: 48, averagePrice: 16 }));
+      bindWithTolerance(0, quote);
+      vi.mocked(mockGetQty).mockReturnValue(3);
+
+      button.click();
+
+      expect(mockQueue.dequeue()).toMatchObject({ payload: { maxPricePerUnit: 16 } });
+      expect(quote).toHaveBeenCalledWith(mockGameState, {
+        toTownId: 'forestburg',
+        goodId: 'fish',
+        side: 'buy',
+        quantity: 3,
+      });
+    });
+  });
+
   describe('Visual feedback', () => {
     it('should add pulse class on successful trade', () => {
       // Click the button
@@ -1,8 +1,11 @@
+import type { TradeQuoter } from '@/core/pricing/Slippage';
+import { sidePrice } from '@/core/pricing/Spread';
+import type { SpreadConfig } from '@/core/pricing/Spread';
 import type { TradeRequest } from '@/core/trade/TradeTypes';
 import type { PlayerActionQueue } from '@/core/turn/PlayerActionQueue';
 import type { GameState } from '@/types/GameState';
+import type { GoodId } from '@/types/Goods';
 
-import type { GoodId } from './GoodsPicker';
 import type { SelectionStore } from './SelectionStore';
 import type { TradeMode } from './TradeModeToggle';
 
@@ -15,10 +18,38 @@ export interface ConfirmDeps {
   getQty: () => number;
   playerTownId: string;
   queue: PlayerActionQueue;
+  /** Optional quote function; when given, the total is priced unit by unit along the curve */
+  quote?: TradeQuoter;
+  /** Optional bid/ask spread; the town's ask prices buys and its bid prices sells */
+  spread?: SpreadConfig;
+  /**
+   * Optional price tolerance as a fraction (e.g. 0.05 for 5%); when given, the trade
+   * goes through as long as the price has not moved against the player by more than
+   * this since it was confirmed, instead of requiring the exact price
+   */
+  getTolerance?: () => number;
 }
 
-export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void } {
-  const { button, store, getState, getGood, getMode, getQty, playerTownId, queue } = deps;
+/** Rounds a price bound to cents, away from the previewed price (ignoring float noise) */
+function roundBound(price: number, side: TradeMode): number {
+  const cents = Number((price * 100).toFixed(6));
+  return (side === 'buy' ? Math.ceil(cents) : Math.floor(cents)) / 100;
+}
+
+export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void; update(): void } {
+  const {
+    button,
+    store,
+    getState,
+    getGood,
+    getMode,
+    getQty,
+    playerTownId,
+    queue,
+    quote,
+    spread,
+    getTolerance,
+  } = deps;
 
   // Function to check if trade is valid
   function isTradeValid(): { valid: boolean; reason?: string } {
@@ -49,9 +80,15 @@ export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void } {
       return { valid: false, reason: 'Town not found' };
     }
 
-    // Get unit price from selected town
-    const unitPrice = selectedTown.prices[good];
-    const total = qty * unitPrice;
+    // Get unit price from selected town; the whole quantity moves along the curve
+    const unitPrice = sidePrice(selectedTown, good, mode, spread);
+    if (unitPrice === undefined) {
+      return { valid: false, reason: `${selectedTown.name} does not trade ${good}` };
+    }
+    const total = quote
+      ? quote(state, { toTownId: selectedTownId, goodId: good, side: mode, quantity: qty })
+          .totalCost
+      : qty * unitPrice;
 
     // Validate based on mode
     if (mode === 'buy') {
@@ -62,7 +99,7 @@ export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void } {
           reason: `Not enough treasury (need ₲${total}, have ₲${playerTown.treasury})`,
         };
       }
-      if (selectedTown.resources[good] < qty) {
+      if ((selectedTown.resources[good] ?? 0) < qty) {
         return {
           valid: false,
           reason: `Not enough stock (need ${qty}, town has ${selectedTown.resources[good]})`,
@@ -70,7 +107,7 @@ export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void } {
       }
     } else if (mode === 'sell') {
       // Player selling to town: player needs stock, town needs treasury
-      if (playerTown.resources[good] < qty) {
+      if ((playerTown.resources[good] ?? 0) < qty) {
         return {
           valid: false,
           reason: `Not enough stock (need ${qty}, have ${playerTown.resources[good]})`,
@@ -105,8 +142,28 @@ export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void } {
       return null;
     }
 
-    // Get unit price from selected town
-    const unitPrice = selectedTown.prices[good];
+    // Get unit price from selected town on the player's side of the trade
+    const unitPrice = sidePrice(selectedTown, good, mode, spread);
+    if (unitPrice === undefined) {
+      return null;
+    }
+
+    // Either require the exact quoted price, or bound the average price the player
+    // pays (buy) or receives (sell) by the chosen tolerance
+    let price: Pick<TradeRequest, 'pricePerUnit' | 'maxPricePerUnit' | 'minPricePerUnit'>;
+    if (getTolerance) {
+      const expected = quote
+        ? quote(state, { toTownId: selectedTownId, goodId: good, side: mode, quantity: qty })
+            .averagePrice
+        : unitPrice;
+      const tolerance = getTolerance();
+      price =
+        mode === 'buy'
+          ? { maxPricePerUnit: roundBound(expected * (1 + tolerance), 'buy') }
+          : { minPricePerUnit: roundBound(expected * (1 - tolerance), 'sell') };
+    } else {
+      price = { pricePerUnit: unitPrice };
+    }
 
     // Build TradeRequest according to mode
     if (mode === 'buy') {
@@ -117,7 +174,7 @@ export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void } {
         side: 'buy',
         goodId: good,
         quantity: qty,
-        pricePerUnit: unitPrice,
+        ...price,
       };
     } else {
       // Player sells TO selected town
@@ -127,7 +184,7 @@ export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void } {
         side: 'sell',
         goodId: good,
         quantity: qty,
-        pricePerUnit: unitPrice,
+        ...price,
       };
     }
   }
@@ -192,5 +249,7 @@ export function bindConfirmTrade(deps: ConfirmDeps): { destroy(): void } {
       button.removeEventListener('click', handleClick);
       button.classList.remove('pulse');
     },
+    // Re-validate against the current state (e.g. after a turn)
+    update: updateButtonState,
   };
 }
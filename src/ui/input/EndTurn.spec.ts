@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { bindEndTurn } from './EndTurn';
+
+describe('EndTurn', () => {
+  let button: HTMLButtonElement;
+  let cleanup: { destroy(): void } | undefined;
+
+  beforeEach(() => {
+    button = document.createElement('button');
+    document.body.appendChild(button);
+    cleanup = undefined;
+  });
+
+  afterEach(() => {
+    cleanup?.destroy();
+    document.body.removeChild(button);
+  });
+
+  it('runs a turn when clicked', async () => {
+    const endTurn = vi.fn().mockResolvedValue(undefined);
+    cleanup = bindEndTurn({ button, endTurn });
+
+    button.click();
+    await vi.waitFor(() => expect(button.disabled).toBe(false));
+
+    expect(endTurn).toHaveBeenCalledTimes(1);
+  });
+
+  it('disables the button while the turn is running', async () => {
+    let finish!: () => void;
+    const endTurn = vi.fn(
+      () =>
+        new Promise<void>(resolve => {
+          finish = resolve;
+        }),
+    );
+    cleanup = bindEndTurn({ button, endTurn });
+
+    button.click();
+    expect(button.disabled).toBe(true);
+    expect(button.getAttribute('aria-busy')).toBe('true');
+
+    // A second click while running is ignored
+    button.click();
+    expect(endTurn).toHaveBeenCalledTimes(1);
+
+    finish();
+    await vi.waitFor(() => expect(button.disabled).toBe(false));
+    expect(button.hasAttribute('aria-busy')).toBe(false);
+  });
+
+  it('reports failures and re-enables the button', async () => {
+    const failure = new Error('boom');
+    const onError = vi.fn();
+    cleanup = bindEndTurn({ button, endTurn: vi.fn().mockRejectedValue(failure), onError });
+
+    button.click();
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(failure));
+
+    expect(button.disabled).toBe(false);
+  });
+
+  it('stops handling clicks after destroy', () => {
+    const endTurn = vi.fn().mockResolvedValue(undefined);
+    cleanup = bindEndTurn({ button, endTurn });
+
+    cleanup.destroy();
+    cleanup = undefined;
+    button.click();
+
+    expect(endTurn).not.toHaveBeenCalled();
+  });
+});
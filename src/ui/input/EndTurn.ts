@@ -0,0 +1,49 @@
+export interface EndTurnDeps {
+  button: HTMLButtonElement;
+  /** Runs one turn; the button stays disabled until the returned promise settles */
+  endTurn: () => Promise<unknown>;
+  /** Optional handler for failed turns */
+  onError?: (error: unknown) => void;
+}
+
+export function bindEndTurn(deps: EndTurnDeps): { destroy(): void } {
+  const { button, endTurn, onError } = deps;
+
+  let destroyed = false;
+
+  // Function to handle button click
+  async function handleClick() {
+    if (button.disabled) {
+      return;
+    }
+
+    button.disabled = true;
+    button.setAttribute('aria-busy', 'true');
+
+    try {
+      await endTurn();
+    } catch (error) {
+      if (onError) {
+        onError(error);
+      } else {
+        console.error('Turn failed:', error);
+      }
+    } finally {
+      if (!destroyed) {
+        button.disabled = false;
+        button.removeAttribute('aria-busy');
+      }
+    }
+  }
+
+  // Add click handler
+  button.addEventListener('click', handleClick);
+
+  // Return destroy function
+  return {
+    destroy() {
+      destroyed = true;
+      button.removeEventListener('click', handleClick);
+    },
+  };
+}
@@ -1,11 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
+import type { GoodId } from '../../types/Goods';
+
 import { mountGoodsPicker } from './GoodsPicker';
 
 describe('GoodsPicker', () => {
   let container: HTMLElement;
 
-  let onChange: (good: 'fish' | 'wood' | 'ore') => void;
+  let onChange: (good: GoodId) => void;
   let destroy: { destroy(): void } | undefined;
 
   beforeEach(() => {
@@ -23,7 +25,7 @@ describe('GoodsPicker', () => {
   });
 
   it('renders the correct number of goods', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const buttons = container.querySelectorAll('.good-button');
@@ -35,7 +37,7 @@ describe('GoodsPicker', () => {
   });
 
   it('sets first good as active by default', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const buttons = container.querySelectorAll('.good-button');
@@ -45,7 +47,7 @@ describe('GoodsPicker', () => {
   });
 
   it('calls onChange when clicking a good', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const woodButton = container.querySelector('[data-good="wood"]') as HTMLButtonElement;
@@ -55,7 +57,7 @@ describe('GoodsPicker', () => {
   });
 
   it('updates active state when selecting a good', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const woodButton = container.querySelector('[data-good="wood"]') as HTMLButtonElement;
@@ -68,7 +70,7 @@ describe('GoodsPicker', () => {
   });
 
   it('navigates with arrow keys', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const firstButton = container.querySelector('.good-button') as HTMLButtonElement;
@@ -85,7 +87,7 @@ describe('GoodsPicker', () => {
   });
 
   it('wraps around at boundaries', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const firstButton = container.querySelector('.good-button') as HTMLButtonElement;
@@ -98,7 +100,7 @@ describe('GoodsPicker', () => {
   });
 
   it('selects good with Enter key', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const woodButton = container.querySelector('[data-good="wood"]') as HTMLButtonElement;
@@ -109,7 +111,7 @@ describe('GoodsPicker', () => {
   });
 
   it('selects good with Space key', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const oreButton = container.querySelector('[data-good="ore"]') as HTMLButtonElement;
@@ -120,7 +122,7 @@ describe('GoodsPicker', () => {
   });
 
   it('has proper ARIA attributes', () => {
-    const goods: ('fish' | 'wood' | 'ore')[] = ['fish', 'wood', 'ore'];
+    const goods: GoodId[] = ['fish', 'wood', 'ore'];
     destroy = mountGoodsPicker({ container, goods, onChange });
 
     const picker = container.querySelector('.goods-picker');
@@ -1,8 +1,8 @@
-export type GoodId = 'fish' | 'wood' | 'ore';
+import type { GoodId } from '../../types/Goods';
 
 export interface GoodsPickerOptions {
   container: HTMLElement;
-  goods: GoodId[];
+  goods: readonly GoodId[];
 
   onChange: (good: GoodId) => void;
 }
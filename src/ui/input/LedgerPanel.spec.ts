@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { GameState, LedgerEntry } from '@/types/GameState';
+
+import { mountLedgerPanel } from './LedgerPanel';
+
+describe('LedgerPanel', () => {
+  let container: HTMLElement;
+  let state: GameState;
+  let panel: { destroy(): void; update(): void };
+
+  const entry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+    turn: 1,
+    fromTownId: 'riverdale',
+    toTownId: 'forestburg',
+    goodId: 'wood',
+    quantity: 5,
+    unitPrice: 20,
+    side: 'buy',
+    initiator: { type: 'player' },
+    ...overrides,
+  });
+
+  const ledger: LedgerEntry[] = [
+    entry({ turn: 1 }),
+    entry({ turn: 2, goodId: 'fish', quantity: 3, unitPrice: 12, side: 'sell', via: 'order' }),
+    // Forestburg sold ore to the player town: the player bought it
+    entry({
+      turn: 3,
+      fromTownId: 'forestburg',
+      toTownId: 'riverdale',
+      goodId: 'ore',
+      quantity: 2,
+      unitPrice: 35,
+      side: 'sell',
+      initiator: { type: 'ai', profileId: 'greedy' },
+    }),
+    // Not involving the player town
+    entry({ turn: 3, fromTownId: 'forestburg', toTownId: 'ironforge', quantity: 9 }),
+  ];
+
+  const createState = (entries?: LedgerEntry[]): GameState => ({
+    turn: 3,
+    version: 1,
+    rngSeed: 'test-seed',
+    towns: ['riverdale', 'forestburg', 'ironforge'].map(id => ({
+      id,
+      name: id[0]!.toUpperCase() + id.slice(1),
+      resources: { fish: 100, wood: 50, ore: 25 },
+      treasury: 1000,
+      prices: { fish: 10, wood: 20, ore: 40 },
+      militaryRaw: 30,
+      prosperityRaw: 50,
+      revealed: {
+        militaryTier: 'militia' as const,
+        prosperityTier: 'struggling' as const,
+        lastUpdatedTurn: 0,
+      },
+    })),
+    goods: {
+      fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+      wood: { id: 'wood', name: 'Wood', effects: { prosperityDelta: 0, militaryDelta: 1 } },
+      ore: { id: 'ore', name: 'Ore', effects: { prosperityDelta: -1, militaryDelta: 2 } },
+    },
+    ...(entries && { ledger: entries }),
+  });
+
+  const rows = () =>
+    Array.from(container.querySelectorAll('.ledger-row')).map(row => row.textContent);
+  const summary = () => container.querySelector('.ledger-summary')!.textContent;
+  const choose = (className: string, value: string) => {
+    const select = container.querySelector<HTMLSelectElement>(`.${className}`)!;
+    select.value = value;
+    select.dispatchEvent(new Event('change'));
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    state = createState(ledger);
+    panel = mountLedgerPanel(container, {
+      getState: () => state,
+      goods: ['fish', 'wood', 'ore'],
+      playerTownId: 'riverdale',
+    });
+  });
+
+  it("lists the player town's trades newest first", () => {
+    expect(rows()).toEqual([
+      'Turn 3: Bought 2 ore from Forestburg at ₲35',
+      'Turn 2: Sold 3 fish to Forestburg at ₲12 (order)',
+      'Turn 1: Bought 5 wood from Forestburg at ₲20',
+    ]);
+    expect(summary()).toBe('Volume: 3 fish, 5 wood, 2 ore');
+  });
+
+  it('filters by good, side and period', () => {
+    choose('ledger-side-filter', 'buy');
+    expect(rows()).toHaveLength(2);
+    expect(summary()).toBe('Volume: 5 wood, 2 ore');
+
+    choose('ledger-good-filter', 'wood');
+    expect(rows()).toEqual(['Turn 1: Bought 5 wood from Forestburg at ₲20']);
+
+    choose('ledger-period-filter', '1');
+    expect(container.querySelector('.ledger-empty')?.textContent).toBe('No trades');
+    expect(summary()).toBe('');
+  });
+
+  it('shows new trades after an update and cleans up on destroy', () => {
+    state = createState();
+    panel.update();
+    expect(rows()).toEqual([]);
+
+    state = createState([...ledger, entry({ turn: 3, quantity: 1 })]);
+    panel.update();
+    expect(rows()[0]).toBe('Turn 3: Bought 1 wood from Forestburg at ₲20');
+
+    panel.destroy();
+    expect(container.querySelector('.ledger-panel')).toBeNull();
+  });
+});
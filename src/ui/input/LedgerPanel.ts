@@ -0,0 +1,150 @@
+import { queryLedger, sideFor, volumeByGood } from '@/core/ledger/TradeLedger';
+import type { LedgerQuery } from '@/core/ledger/TradeLedger';
+import type { GameState, LedgerEntry } from '@/types/GameState';
+import type { GoodId } from '@/types/Goods';
+
+export interface LedgerPanelDeps {
+  getState: () => GameState;
+  /** Goods offered in the good filter, in display order */
+  goods: readonly GoodId[];
+  playerTownId: string;
+}
+
+/** Periods offered in the period filter, in turns (0 means all turns) */
+export const LEDGER_PERIODS: readonly number[] = [0, 1, 5, 10];
+
+function createSelect(
+  className: string,
+  label: string,
+  options: ReadonlyArray<[value: string, text: string]>,
+): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.className = className;
+  select.setAttribute('aria-label', label);
+  for (const [value, text] of options) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = text;
+    select.appendChild(option);
+  }
+  return select;
+}
+
+function describeEntry(entry: LedgerEntry, state: GameState, playerTownId: string): string {
+  const counterpartyId = entry.fromTownId === playerTownId ? entry.toTownId : entry.fromTownId;
+  const town = state.towns.find(t => t.id === counterpartyId);
+  const name = town?.name ?? counterpartyId;
+  const bought = sideFor(entry, playerTownId) === 'buy';
+  const via = entry.via === 'order' ? ' (order)' : entry.via === 'barter' ? ' (barter)' : '';
+  return `Turn ${entry.turn}: ${bought ? 'Bought' : 'Sold'} ${entry.quantity} ${entry.goodId} ${
+    bought ? 'from' : 'to'
+  } ${name} at ₲${entry.unitPrice}${via}`;
+}
+
+/**
+ * Mounts a panel listing the player town's trade history from the game's ledger,
+ * newest first, including trades other towns started with it. Filters narrow the
+ * list by good, side (from the player's point of view) and recent turns, and a
+ * summary shows the volume traded per good for the filtered trades.
+ */
+export function mountLedgerPanel(
+  container: HTMLElement,
+  deps: LedgerPanelDeps,
+): { destroy(): void; update(): void } {
+  const { getState, goods, playerTownId } = deps;
+
+  const panel = document.createElement('div');
+  panel.className = 'ledger-panel';
+
+  const heading = document.createElement('h3');
+  heading.textContent = 'Trade History';
+  panel.appendChild(heading);
+
+  // Filters
+  const filters = document.createElement('div');
+  filters.className = 'ledger-filters';
+
+  const goodSelect = createSelect('ledger-good-filter', 'Filter by good', [
+    ['', 'All goods'],
+    ...goods.map((good): [string, string] => [good, good]),
+  ]);
+  const sideSelect = createSelect('ledger-side-filter', 'Filter by side', [
+    ['', 'Bought & sold'],
+    ['buy', 'Bought'],
+    ['sell', 'Sold'],
+  ]);
+  const periodSelect = createSelect(
+    'ledger-period-filter',
+    'Filter by period',
+    LEDGER_PERIODS.map((turns): [string, string] => [
+      String(turns),
+      turns === 0 ? 'All turns' : turns === 1 ? 'This turn' : `Last ${turns} turns`,
+    ]),
+  );
+
+  filters.append(goodSelect, sideSelect, periodSelect);
+  panel.appendChild(filters);
+
+  const summary = document.createElement('div');
+  summary.className = 'ledger-summary';
+  panel.appendChild(summary);
+
+  const list = document.createElement('ul');
+  list.className = 'ledger-list';
+  panel.appendChild(list);
+
+  container.appendChild(panel);
+
+  // The query the current filters describe
+  function currentQuery(): LedgerQuery {
+    const lastTurns = Number(periodSelect.value);
+    return {
+      townId: playerTownId,
+      ...(goodSelect.value && { goodId: goodSelect.value }),
+      ...((sideSelect.value === 'buy' || sideSelect.value === 'sell') && {
+        side: sideSelect.value,
+      }),
+      ...(lastTurns > 0 && { lastTurns }),
+    };
+  }
+
+  // Re-render the filtered history from the current state
+  function update(): void {
+    const state = getState();
+    const entries = queryLedger(state, currentQuery());
+
+    const volume = volumeByGood(entries);
+    const totals = goods
+      .filter(good => volume[good] !== undefined)
+      .map(good => `${volume[good]} ${good}`);
+    summary.textContent = totals.length > 0 ? `Volume: ${totals.join(', ')}` : '';
+
+    list.replaceChildren();
+    if (entries.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'ledger-empty';
+      empty.textContent = 'No trades';
+      list.appendChild(empty);
+      return;
+    }
+    [...entries].reverse().forEach(entry => {
+      const row = document.createElement('li');
+      row.className = 'ledger-row';
+      row.textContent = describeEntry(entry, state, playerTownId);
+      list.appendChild(row);
+    });
+  }
+
+  const selects = [goodSelect, sideSelect, periodSelect];
+  selects.forEach(select => select.addEventListener('change', update));
+
+  update();
+
+  return {
+    destroy() {
+      selects.forEach(select => select.removeEventListener('change', update));
+      container.removeChild(panel);
+    },
+    update,
+  };
+}
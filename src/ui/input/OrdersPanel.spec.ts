@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { PlayerActionQueue } from '@/core/turn/PlayerActionQueue';
+import type { GameState, LimitOrder } from '@/types/GameState';
+
+import { mountOrdersPanel } from './OrdersPanel';
+import { SelectionStore } from './SelectionStore';
+
+describe('OrdersPanel', () => {
+  let container: HTMLElement;
+  let store: SelectionStore;
+  let queue: PlayerActionQueue;
+  let state: GameState;
+  let onQueued: ReturnType<typeof vi.fn>;
+  let panel: { destroy(): void; update(): void };
+
+  const order: LimitOrder = {
+    id: 'order-1-0',
+    townId: 'riverdale',
+    counterpartyId: 'forestburg',
+    goodId: 'wood',
+    side: 'buy',
+    quantity: 10,
+    limitPrice: 15,
+    placedTurn: 1,
+    expiresTurn: 5,
+  };
+
+  const createState = (orders?: LimitOrder[]): GameState => ({
+    turn: 2,
+    version: 1,
+    rngSeed: 'test-seed',
+    towns: [
+      {
+        id: 'riverdale',
+        name: 'Riverdale',
+        resources: { fish: 100, wood: 50, ore: 25 },
+        treasury: 1000,
+        prices: { fish: 10, wood: 20, ore: 40 },
+        militaryRaw: 30,
+        prosperityRaw: 50,
+        revealed: { militaryTier: 'militia', prosperityTier: 'struggling', lastUpdatedTurn: 0 },
+      },
+      {
+        id: 'forestburg',
+        name: 'Forestburg',
+        resources: { fish: 30, wood: 200, ore: 15 },
+        treasury: 800,
+        prices: { fish: 15, wood: 15, ore: 35 },
+        militaryRaw: 40,
+        prosperityRaw: 60,
+        revealed: { militaryTier: 'militia', prosperityTier: 'struggling', lastUpdatedTurn: 0 },
+      },
+    ],
+    goods: {
+      fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+      wood: { id: 'wood', name: 'Wood', effects: { prosperityDelta: 0, militaryDelta: 1 } },
+      ore: { id: 'ore', name: 'Ore', effects: { prosperityDelta: -1, militaryDelta: 2 } },
+    },
+    ...(orders && { orders }),
+  });
+
+  const placeButton = () => container.querySelector<HTMLButtonElement>('.orders-place-button')!;
+  const limitInput = () => container.querySelector<HTMLInputElement>('.orders-limit-input')!;
+
+  const setLimit = (value: string) => {
+    limitInput().value = value;
+    limitInput().dispatchEvent(new Event('input'));
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    store = new SelectionStore();
+    queue = new PlayerActionQueue();
+    state = createState([order]);
+    onQueued = vi.fn();
+    panel = mountOrdersPanel(container, {
+      store,
+      getState: () => state,
+      getGood: () => 'wood',
+      getMode: () => 'buy',
+      getQty: () => 4,
+      playerTownId: 'riverdale',
+      queue,
+      onQueued,
+    });
+  });
+
+  describe('placing orders', () => {
+    it('is disabled until another town and a limit price are chosen', () => {
+      expect(placeButton().disabled).toBe(true);
+
+      store.setTown('riverdale');
+      setLimit('12');
+      expect(placeButton().disabled).toBe(true);
+      expect(placeButton().title).toBe('Select another town to trade with');
+
+      store.setTown('forestburg');
+      expect(placeButton().disabled).toBe(false);
+
+      setLimit('');
+      expect(placeButton().disabled).toBe(true);
+    });
+
+    it('queues a placeOrder action expiring after the chosen number of turns', () => {
+      store.setTown('forestburg');
+      setLimit('12');
+
+      placeButton().click();
+
+      expect(queue.dequeue()).toEqual({
+        type: 'placeOrder',
+        payload: {
+          townId: 'riverdale',
+          counterpartyId: 'forestburg',
+          goodId: 'wood',
+          side: 'buy',
+          quantity: 4,
+          limitPrice: 12,
+          // Placed on turn 3 and open for 5 turns
+          expiresTurn: 7,
+        },
+      });
+      expect(onQueued).toHaveBeenCalledTimes(1);
+      expect(container.querySelector('.orders-status')?.textContent).toBe(
+        'Queued: buy 4 wood at ₲12',
+      );
+    });
+  });
+
+  describe('open orders', () => {
+    it('lists the player orders', () => {
+      const rows = container.querySelectorAll('.orders-row');
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]!.getAttribute('data-order-id')).toBe('order-1-0');
+      expect(rows[0]!.querySelector('.orders-row-label')?.textContent).toBe(
+        'Buy up to 10 wood from Forestburg if price ≤ ₲15 (until turn 5)',
+      );
+    });
+
+    it('shows an empty message and hides other towns orders', () => {
+      state = createState([{ ...order, townId: 'forestburg', counterpartyId: 'riverdale' }]);
+      panel.update();
+
+      expect(container.querySelectorAll('.orders-row')).toHaveLength(0);
+      expect(container.querySelector('.orders-empty')?.textContent).toBe('No open orders');
+    });
+
+    it('queues changes to quantity and limit price', () => {
+      const row = container.querySelector('.orders-row')!;
+      row.querySelector<HTMLInputElement>('.orders-row-qty')!.value = '6';
+      row.querySelector<HTMLInputElement>('.orders-row-limit')!.value = '18';
+
+      row.querySelector<HTMLButtonElement>('.orders-row-save')!.click();
+
+      expect(queue.dequeue()).toEqual({
+        type: 'amendOrder',
+        payload: { orderId: 'order-1-0', changes: { quantity: 6, limitPrice: 18 } },
+      });
+      expect(onQueued).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not queue invalid changes', () => {
+      const row = container.querySelector('.orders-row')!;
+      row.querySelector<HTMLInputElement>('.orders-row-qty')!.value = '0';
+
+      row.querySelector<HTMLButtonElement>('.orders-row-save')!.click();
+
+      expect(queue.length).toBe(0);
+      expect(onQueued).not.toHaveBeenCalled();
+    });
+
+    it('queues a cancelOrder action', () => {
+      container.querySelector<HTMLButtonElement>('.orders-row-cancel')!.click();
+
+      expect(queue.dequeue()).toEqual({ type: 'cancelOrder', payload: { orderId: 'order-1-0' } });
+    });
+
+    it('re-renders from the current state on update', () => {
+      state = createState([{ ...order, quantity: 3 }]);
+
+      panel.update();
+
+      expect(container.querySelector<HTMLInputElement>('.orders-row-qty')!.value).toBe('3');
+    });
+  });
+
+  it('removes the panel on destroy', () => {
+    panel.destroy();
+
+    expect(container.querySelector('.orders-panel')).toBeNull();
+  });
+});
@@ -0,0 +1,230 @@
+import type { PlayerActionQueue } from '@/core/turn/PlayerActionQueue';
+import type { GameState, LimitOrder } from '@/types/GameState';
+import type { GoodId } from '@/types/Goods';
+
+import type { SelectionStore } from './SelectionStore';
+import type { TradeMode } from './TradeModeToggle';
+
+export interface OrdersPanelDeps {
+  store: SelectionStore;
+  getState: () => GameState;
+  getGood: () => GoodId | undefined;
+  getMode: () => TradeMode;
+  getQty: () => number;
+  playerTownId: string;
+  queue: PlayerActionQueue;
+  /** Called after an order action is queued (e.g. to refresh the turn status) */
+  onQueued?: () => void;
+}
+
+/** Default number of turns a new order stays open */
+const DEFAULT_EXPIRY_TURNS = 5;
+
+function describeOrder(order: LimitOrder, state: GameState): string {
+  const town = state.towns.find(t => t.id === order.counterpartyId);
+  const name = town?.name ?? order.counterpartyId;
+  return order.side === 'buy'
+    ? `Buy up to ${order.quantity} ${order.goodId} from ${name} if price ≤ ₲${order.limitPrice}`
+    : `Sell up to ${order.quantity} ${order.goodId} to ${name} if price ≥ ₲${order.limitPrice}`;
+}
+
+/**
+ * Mounts a panel for standing limit orders: places an order for the selected town,
+ * good, mode and quantity, and lists the player's open orders with controls to
+ * change their quantity and limit price or cancel them. Changes are queued as
+ * player actions and take effect when the turn is played.
+ */
+export function mountOrdersPanel(
+  container: HTMLElement,
+  deps: OrdersPanelDeps,
+): { destroy(): void; update(): void } {
+  const { store, getState, getGood, getMode, getQty, playerTownId, queue, onQueued } = deps;
+
+  const panel = document.createElement('div');
+  panel.className = 'orders-panel';
+
+  const heading = document.createElement('h3');
+  heading.textContent = 'Limit Orders';
+  panel.appendChild(heading);
+
+  // New order form
+  const form = document.createElement('div');
+  form.className = 'orders-form';
+
+  const priceInput = document.createElement('input');
+  priceInput.type = 'number';
+  priceInput.min = '0';
+  priceInput.className = 'orders-limit-input';
+  priceInput.setAttribute('aria-label', 'Limit price');
+
+  const expiryInput = document.createElement('input');
+  expiryInput.type = 'number';
+  expiryInput.min = '1';
+  expiryInput.value = String(DEFAULT_EXPIRY_TURNS);
+  expiryInput.className = 'orders-expiry-input';
+  expiryInput.setAttribute('aria-label', 'Expires in turns');
+
+  const placeButton = document.createElement('button');
+  placeButton.className = 'orders-place-button';
+  placeButton.textContent = 'Place Order';
+
+  form.append('Limit ₲', priceInput, 'Expires in', expiryInput, 'turns', placeButton);
+  panel.appendChild(form);
+
+  const status = document.createElement('div');
+  status.className = 'orders-status';
+  status.setAttribute('aria-live', 'polite');
+  panel.appendChild(status);
+
+  const list = document.createElement('ul');
+  list.className = 'orders-list';
+  panel.appendChild(list);
+
+  container.appendChild(panel);
+
+  function queued(message: string): void {
+    status.textContent = `Queued: ${message}`;
+    onQueued?.();
+  }
+
+  // Why a new order cannot be placed, if it cannot
+  function placeError(): string | null {
+    const selectedTownId = store.get().selectedTownId;
+    if (!selectedTownId || !getGood()) {
+      return 'Select a town & good';
+    }
+    if (selectedTownId === playerTownId) {
+      return 'Select another town to trade with';
+    }
+    if (!(getQty() > 0)) {
+      return 'Invalid quantity';
+    }
+    if (priceInput.value === '' || !(Number(priceInput.value) >= 0)) {
+      return 'Enter a limit price';
+    }
+    if (!Number.isInteger(Number(expiryInput.value)) || Number(expiryInput.value) < 1) {
+      return 'Enter how many turns the order stays open';
+    }
+    return null;
+  }
+
+  function updateForm(): void {
+    const error = placeError();
+    placeButton.disabled = error !== null;
+    placeButton.title = error ?? 'Place this order when the turn is played';
+  }
+
+  function handlePlace(): void {
+    const selectedTownId = store.get().selectedTownId;
+    const good = getGood();
+    if (placeError() !== null || !selectedTownId || !good) {
+      return;
+    }
+
+    // Orders are placed during the next turn, so count expiry from there
+    const nextTurn = getState().turn + 1;
+    const payload = {
+      townId: playerTownId,
+      counterpartyId: selectedTownId,
+      goodId: good,
+      side: getMode(),
+      quantity: getQty(),
+      limitPrice: Number(priceInput.value),
+      expiresTurn: nextTurn + Number(expiryInput.value) - 1,
+    };
+    queue.enqueue({ type: 'placeOrder', payload });
+    queued(`${payload.side} ${payload.quantity} ${good} at ₲${payload.limitPrice}`);
+  }
+
+  function renderOrderRow(order: LimitOrder, state: GameState): HTMLLIElement {
+    const row = document.createElement('li');
+    row.className = 'orders-row';
+    row.setAttribute('data-order-id', order.id);
+
+    const label = document.createElement('span');
+    label.className = 'orders-row-label';
+    label.textContent = `${describeOrder(order, state)} (until turn ${order.expiresTurn})`;
+
+    const qtyInput = document.createElement('input');
+    qtyInput.type = 'number';
+    qtyInput.min = '1';
+    qtyInput.value = String(order.quantity);
+    qtyInput.className = 'orders-row-qty';
+    qtyInput.setAttribute('aria-label', `Quantity for order ${order.id}`);
+
+    const limitInput = document.createElement('input');
+    limitInput.type = 'number';
+    limitInput.min = '0';
+    limitInput.value = String(order.limitPrice);
+    limitInput.className = 'orders-row-limit';
+    limitInput.setAttribute('aria-label', `Limit price for order ${order.id}`);
+
+    const saveButton = document.createElement('button');
+    saveButton.className = 'orders-row-save';
+    saveButton.textContent = 'Save';
+    saveButton.addEventListener('click', () => {
+      const quantity = Number(qtyInput.value);
+      const limitPrice = Number(limitInput.value);
+      if (!Number.isInteger(quantity) || quantity < 1 || !(limitPrice >= 0)) {
+        status.textContent = 'Enter a whole quantity and a nonnegative limit price';
+        return;
+      }
+      queue.enqueue({
+        type: 'amendOrder',
+        payload: { orderId: order.id, changes: { quantity, limitPrice } },
+      });
+      queued(`change ${order.id}`);
+    });
+
+    const cancelButton = document.createElement('button');
+    cancelButton.className = 'orders-row-cancel';
+    cancelButton.textContent = 'Cancel';
+    cancelButton.addEventListener('click', () => {
+      queue.enqueue({ type: 'cancelOrder', payload: { orderId: order.id } });
+      queued(`cancel ${order.id}`);
+    });
+
+    row.append(label, qtyInput, limitInput, saveButton, cancelButton);
+    return row;
+  }
+
+  // Re-render the open orders from the current state
+  function update(): void {
+    const state = getState();
+    const orders = (state.orders ?? []).filter(order => order.townId === playerTownId);
+
+    list.replaceChildren();
+    if (orders.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'orders-empty';
+      empty.textContent = 'No open orders';
+      list.appendChild(empty);
+    } else {
+      orders.forEach(order => list.appendChild(renderOrderRow(order, state)));
+    }
+
+    updateForm();
+  }
+
+  const unsubscribe = store.subscribe(updateForm);
+  placeButton.addEventListener('click', handlePlace);
+  priceInput.addEventListener('input', updateForm);
+  expiryInput.addEventListener('input', updateForm);
+
+  update();
+
+  return {
+    destroy() {
+      unsubscribe();
+      placeButton.removeEventListener('click', handlePlace);
+      priceInput.removeEventListener('input', updateForm);
+      expiryInput.removeEventListener('input', updateForm);
+      container.removeChild(panel);
+    },
+    // Re-render from the current state (e.g. after a turn), clearing the queued message
+    update() {
+      status.textContent = '';
+      update();
+    },
+  };
+}
@@ -1,8 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 
 import type { GameState } from '@/types/GameState';
+import type { GoodId } from '@/types/Goods';
 
-import type { GoodId } from './GoodsPicker';
 import { mountPriceReadout } from './PriceReadout';
 import { SelectionStore } from './SelectionStore';
 import type { TradeMode } from './TradeModeToggle';
@@ -102,6 +102,26 @@ describe('PriceReadout', () => {
     expect(container.querySelector('.price-readout')?.textContent).toBe('Will sell for ₲10');
   });
 
+  it("shows the town's ask when buying and its bid when selling with a spread", () => {
+    store.setTown('riverdale');
+
+    destroy = mountPriceReadout(
+      container,
+      store,
+      () => mockState,
+      () => selectedGood,
+      () => selectedMode,
+      { margin: 0.2 },
+    );
+
+    expect(container.querySelector('.price-readout')?.textContent).toBe('Will buy for ₲12');
+
+    selectedMode = 'sell';
+    store.setTown('riverdale'); // Trigger update
+
+    expect(container.querySelector('.price-readout')?.textContent).toBe('Will sell for ₲8');
+  });
+
   it('updates price when good changes', () => {
     store.setTown('riverdale');
 
@@ -207,6 +227,28 @@ describe('PriceReadout', () => {
     expect(readout?.classList.contains('price-readout')).toBe(true);
   });
 
+  it('re-renders from the latest state when update is called', () => {
+    store.setTown('riverdale');
+
+    const readout = mountPriceReadout(
+      container,
+      store,
+      () => mockState,
+      () => selectedGood,
+      () => selectedMode,
+    );
+    destroy = readout;
+
+    // Simulate a turn producing a new state with a different price
+    mockState = {
+      ...mockState,
+      towns: mockState.towns.map(town => ({ ...town, prices: { ...town.prices, fish: 12 } })),
+    };
+    readout.update();
+
+    expect(container.querySelector('.price-readout')?.textContent).toBe('Will buy for ₲12');
+  });
+
   it('updates immediately when mounted with existing selection', () => {
     store.setTown('riverdale');
 
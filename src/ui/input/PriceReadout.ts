@@ -1,16 +1,23 @@
+import { sidePrice } from '@/core/pricing/Spread';
+import type { SpreadConfig } from '@/core/pricing/Spread';
 import type { GameState } from '@/types/GameState';
+import type { GoodId } from '@/types/Goods';
 
-import type { GoodId } from './GoodsPicker';
 import type { SelectionStore } from './SelectionStore';
 import type { TradeMode } from './TradeModeToggle';
 
+/**
+ * Mounts the price the selected town trades the selected good at: its ask when the
+ * player buys, its bid when the player sells (the curve price without a spread).
+ */
 export function mountPriceReadout(
   container: HTMLElement,
   store: SelectionStore,
   getState: () => GameState,
   getGood: () => GoodId,
   getMode: () => TradeMode,
-): { destroy(): void } {
+  spread?: SpreadConfig,
+): { destroy(): void; update(): void } {
   // Create the price readout element
   const readout = document.createElement('div');
   readout.className = 'price-readout';
@@ -34,7 +41,7 @@ export function mountPriceReadout(
       return;
     }
 
-    const price = town.prices[good];
+    const price = sidePrice(town, good, mode, spread);
     if (price === undefined) {
       readout.textContent = `No price available for ${good}`;
       return;
@@ -67,5 +74,7 @@ export function mountPriceReadout(
       unsubscribe();
       container.removeChild(readout);
     },
+    // Re-render from the current state (e.g. after a turn)
+    update: updatePrice,
   };
 }
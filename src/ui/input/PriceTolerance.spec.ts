@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { mountPriceTolerance, PRICE_TOLERANCES } from './PriceTolerance';
+
+describe('PriceTolerance', () => {
+  let container: HTMLElement;
+  let onChange: ReturnType<typeof vi.fn>;
+
+  const select = () => container.querySelector<HTMLSelectElement>('.price-tolerance-select')!;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    onChange = vi.fn();
+  });
+
+  it('should offer every tolerance and start at 5%', () => {
+    const tolerance = mountPriceTolerance(container, onChange);
+
+    expect(tolerance.get()).toBe(0.05);
+    expect(select().options).toHaveLength(PRICE_TOLERANCES.length);
+    expect(select().options[0]!.textContent).toBe('Exact price');
+    expect(select().options[2]!.textContent).toBe('±5%');
+    expect(select().value).toBe('0.05');
+  });
+
+  it('should report the chosen tolerance', () => {
+    const tolerance = mountPriceTolerance(container, onChange);
+
+    select().value = '0.1';
+    select().dispatchEvent(new Event('change'));
+
+    expect(tolerance.get()).toBe(0.1);
+    expect(onChange).toHaveBeenCalledWith(0.1);
+  });
+
+  it('should remove the control on destroy', () => {
+    const tolerance = mountPriceTolerance(container, onChange, 0);
+
+    expect(tolerance.get()).toBe(0);
+    tolerance.destroy();
+
+    expect(container.querySelector('.price-tolerance')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+/** Tolerances offered to the player, as fractions of the previewed price */
+export const PRICE_TOLERANCES: readonly number[] = [0, 0.02, 0.05, 0.1, 0.25];
+
+export function mountPriceTolerance(
+  container: HTMLElement,
+  onChange: (tolerance: number) => void,
+  initial = 0.05,
+): { get(): number; destroy(): void } {
+  // State
+  let currentTolerance = initial;
+
+  // Create the tolerance container
+  const wrapper = document.createElement('label');
+  wrapper.className = 'price-tolerance';
+  wrapper.textContent = 'Price tolerance ';
+
+  // Create the select with one option per tolerance
+  const select = document.createElement('select');
+  select.className = 'price-tolerance-select';
+  select.setAttribute('aria-label', 'Accept price moves up to');
+  for (const tolerance of PRICE_TOLERANCES) {
+    const option = document.createElement('option');
+    option.value = String(tolerance);
+    option.textContent = tolerance === 0 ? 'Exact price' : `±${Math.round(tolerance * 100)}%`;
+    select.appendChild(option);
+  }
+  select.value = String(initial);
+
+  function handleChange() {
+    currentTolerance = Number(select.value);
+    onChange(currentTolerance);
+  }
+
+  select.addEventListener('change', handleChange);
+
+  // Assemble the component
+  wrapper.appendChild(select);
+  container.appendChild(wrapper);
+
+  // Return the public API
+  return {
+    get() {
+      return currentTolerance;
+    },
+    destroy() {
+      select.removeEventListener('change', handleChange);
+      container.removeChild(wrapper);
+    },
+  };
+}
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
+import { createTownGraph } from '@/core/map/TownGraph';
 import type { GameState } from '@/types/GameState';
+import type { GoodId } from '@/types/Goods';
 
-import type { GoodId } from './GoodsPicker';
 import { SelectionStore } from './SelectionStore';
 import type { TradeMode } from './TradeModeToggle';
 import { mountTradePreview } from './TradePreview';
@@ -184,6 +185,88 @@ describe('TradePreview', () => {
     expect(content?.textContent).toContain('₲60');
   });
 
+  describe('with a quote function', () => {
+    // 10 fish at 6, 7, 7, ... along the curve
+    const quote = vi.fn(() => ({
+      unitPrices: [6, 7, 7, 7, 7, 7, 7, 7, 7, 7],
+      totalCost: 69,
+      averagePrice: 6.9,
+    }));
+
+    it('should total the quote and show the average price', () => {
+      store.setTown('trade-town');
+
+      mountTradePreview(container, store, { ...mockDeps, quote });
+
+      const content = container.querySelector('.preview-content');
+      expect(quote).toHaveBeenCalledWith(mockGameState, {
+        toTownId: 'trade-town',
+        goodId: 'fish',
+        side: 'buy',
+        quantity: 10,
+      });
+      expect(content?.querySelector('.preview-average')?.textContent).toContain('₲6.9');
+      expect(content?.querySelector('.preview-total')?.textContent).toContain('₲69');
+    });
+
+    it('should omit the average row without a quote function', () => {
+      store.setTown('trade-town');
+
+      mountTradePreview(container, store, mockDeps);
+
+      expect(container.querySelector('.preview-average')).toBeNull();
+    });
+  });
+
+  describe('with a town graph', () => {
+    // 500 distance * 0.01 = 5 per unit
+    const graph = createTownGraph({
+      costPerUnitDistance: 0.01,
+      towns: { 'player-town': { x: 0, y: 0 }, 'trade-town': { x: 300, y: 400 } },
+    });
+
+    it('should add transport to the total when buying', () => {
+      store.setTown('trade-town');
+
+      mountTradePreview(container, store, { ...mockDeps, graph });
+
+      const content = container.querySelector('.preview-content');
+      expect(content?.classList.contains('preview-success')).toBe(true);
+      expect(content?.querySelector('.preview-transport')?.textContent).toContain('₲50');
+      expect(content?.querySelector('.preview-total')?.textContent).toContain('₲110');
+    });
+
+    it('should subtract transport from the total when selling', () => {
+      store.setTown('trade-town');
+      mockDeps.getMode.mockReturnValue('sell');
+
+      mountTradePreview(container, store, { ...mockDeps, graph });
+
+      const content = container.querySelector('.preview-content');
+      expect(content?.querySelector('.preview-transport')?.textContent).toContain('₲50');
+      expect(content?.querySelector('.preview-total')?.textContent).toContain('₲10');
+    });
+
+    it('should count transport against the treasury when buying', () => {
+      store.setTown('trade-town');
+      mockDeps.getQty.mockReturnValue(100); // 600 for goods + 500 transport
+
+      mountTradePreview(container, store, { ...mockDeps, graph });
+
+      const content = container.querySelector('.preview-content');
+      expect(content?.classList.contains('preview-error')).toBe(true);
+      expect(content?.textContent).toContain('need ₲1100');
+    });
+
+    it('should omit the transport row without a graph', () => {
+      store.setTown('trade-town');
+
+      mountTradePreview(container, store, mockDeps);
+
+      expect(container.querySelector('.preview-transport')).toBeNull();
+    });
+  });
+
   it('should show error for insufficient treasury when buying', () => {
     store.setTown('trade-town');
     mockDeps.getQty.mockReturnValue(200); // 200 * 6 = 1200, but player only has 1000
@@ -253,6 +336,20 @@ describe('TradePreview', () => {
     expect(content?.textContent).toContain('town has ₲300');
   });
 
+  it('should show an error when the town does not trade the good', () => {
+    store.setTown('trade-town');
+    mockDeps.getState.mockReturnValue({
+      ...mockGameState,
+      towns: [mockGameState.towns[0]!, { ...mockGameState.towns[1]!, prices: { wood: 4 } }],
+    });
+
+    mountTradePreview(container, store, mockDeps);
+
+    const content = container.querySelector('.preview-content');
+    expect(content?.classList.contains('preview-error')).toBe(true);
+    expect(content?.textContent).toBe('Trade Town does not trade fish');
+  });
+
   it('should update when store changes', () => {
     const preview = mountTradePreview(container, store, mockDeps);
 
@@ -1,6 +1,10 @@
+import type { TownGraph } from '@/core/map/TownGraph';
+import type { TradeQuoter } from '@/core/pricing/Slippage';
+import { sidePrice } from '@/core/pricing/Spread';
+import type { SpreadConfig } from '@/core/pricing/Spread';
 import type { GameState } from '@/types/GameState';
+import type { GoodId } from '@/types/Goods';
 
-import type { GoodId } from './GoodsPicker';
 import type { SelectionStore } from './SelectionStore';
 import type { TradeMode } from './TradeModeToggle';
 
@@ -9,6 +13,12 @@ export interface PreviewDeps {
   getGood: () => GoodId | undefined;
   getMode: () => TradeMode;
   getQty: () => number;
+  /** Optional town graph; when given, the preview includes the transport cost */
+  graph?: TownGraph;
+  /** Optional quote function; when given, the total is priced unit by unit along the curve */
+  quote?: TradeQuoter;
+  /** Optional bid/ask spread; the town's ask prices buys and its bid prices sells */
+  spread?: SpreadConfig;
 }
 
 export function mountTradePreview(
@@ -59,9 +69,26 @@ export function mountTradePreview(
       return;
     }
 
-    // Compute unit price from selected town
-    const unitPrice = selectedTown.prices[good];
-    const total = qty * unitPrice;
+    // Compute unit price from selected town on the player's side of the trade
+    const unitPrice = sidePrice(selectedTown, good, mode, deps.spread);
+    if (unitPrice === undefined) {
+      content.textContent = `${selectedTown.name} does not trade ${good}`;
+      content.className = 'preview-content preview-error';
+      return;
+    }
+    // Large trades move the town's price, so quote the whole quantity when we can
+    const quote = deps.quote?.(state, {
+      toTownId: selectedTown.id,
+      goodId: good,
+      side: mode,
+      quantity: qty,
+    });
+    const total = quote ? quote.totalCost : qty * unitPrice;
+
+    // The player initiates the trade, so the player pays transport either way
+    const transport = deps.graph?.transportCost(playerTown.id, selectedTown.id, qty) ?? 0;
+    // What the player pays when buying, or receives when selling, after transport
+    const net = mode === 'buy' ? total + transport : total - transport;
 
     // Validate based on mode
     let isValid = true;
@@ -69,26 +96,41 @@ export function mountTradePreview(
 
     if (mode === 'buy') {
       // Player buying from town: player needs treasury, town needs stock
-      if (playerTown.treasury < total) {
+      if (playerTown.treasury < net) {
         isValid = false;
-        errorMessage = `Not enough treasury (need ₲${total}, have ₲${playerTown.treasury})`;
-      } else if (selectedTown.resources[good] < qty) {
+        errorMessage = `Not enough treasury (need ₲${net}, have ₲${playerTown.treasury})`;
+      } else if ((selectedTown.resources[good] ?? 0) < qty) {
         isValid = false;
         errorMessage = `Not enough stock (need ${qty}, town has ${selectedTown.resources[good]})`;
       }
     } else if (mode === 'sell') {
       // Player selling to town: player needs stock, town needs treasury
-      if (playerTown.resources[good] < qty) {
+      if ((playerTown.resources[good] ?? 0) < qty) {
         isValid = false;
         errorMessage = `Not enough stock (need ${qty}, have ${playerTown.resources[good]})`;
       } else if (selectedTown.treasury < total) {
         isValid = false;
         errorMessage = `Town not enough treasury (need ₲${total}, town has ₲${selectedTown.treasury})`;
+      } else if (playerTown.treasury + net < 0) {
+        isValid = false;
+        errorMessage = `Not enough treasury for transport (need ₲${transport}, have ₲${playerTown.treasury + total})`;
       }
     }
 
     // Render the result
     if (isValid) {
+      const transportRow = deps.graph
+        ? `<div class="preview-row preview-transport">
+            <div class="preview-label">Transport:</div>
+            <div class="preview-value">₲${transport}</div>
+          </div>`
+        : '';
+      const averageRow = quote
+        ? `<div class="preview-row preview-average">
+            <div class="preview-label">Average Price:</div>
+            <div class="preview-value">₲${Number(quote.averagePrice.toFixed(2))}</div>
+          </div>`
+        : '';
       content.className = 'preview-content preview-success';
       content.innerHTML = `
         <div class="preview-summary">
@@ -100,9 +142,11 @@ export function mountTradePreview(
             <div class="preview-label">Unit Price:</div>
             <div class="preview-value">₲${unitPrice}</div>
           </div>
+          ${averageRow}
+          ${transportRow}
           <div class="preview-row preview-total">
             <div class="preview-label">Total:</div>
-            <div class="preview-value">₲${total}</div>
+            <div class="preview-value">₲${net}</div>
           </div>
         </div>
       `;
@@ -2,5 +2,9 @@ export { SelectionStore, type SelectionState, type TownId } from './SelectionSto
 export { bindTownHitTest } from './TownHitTest';
 export { bindTownKeyboardShortcuts } from './KeyboardTownSelect';
 export { mountQuantityInput } from './QuantityInput';
+export { mountPriceTolerance, PRICE_TOLERANCES } from './PriceTolerance';
 export { mountTradePreview, type PreviewDeps } from './TradePreview';
 export { bindConfirmTrade, type ConfirmDeps } from './ConfirmTrade';
+export { mountOrdersPanel, type OrdersPanelDeps } from './OrdersPanel';
+export { mountLedgerPanel, LEDGER_PERIODS, type LedgerPanelDeps } from './LedgerPanel';
+export { bindEndTurn, type EndTurnDeps } from './EndTurn';
@@ -1,6 +1,9 @@
+import type { SpreadConfig } from '../../core/pricing/Spread';
+import type { TradeSide } from '../../core/trade/TradeTypes';
 import type { GameState } from '../../types/GameState';
 import type { SelectionStore } from '../input/SelectionStore';
 
+import { renderCaravans } from './caravans';
 import { renderTowns } from './renderer';
 
 export interface TownViewMountOpts {
@@ -8,13 +11,23 @@ export interface TownViewMountOpts {
   getState: () => GameState;
   selection: SelectionStore;
   onSelectFocus?: boolean; // default true
+  /** Optional bid/ask spread for the price pills */
+  spread?: SpreadConfig;
+  /** Optional side the player trades on, choosing which price the pills show */
+  getSide?: () => TradeSide;
 }
 
 export function mountTownView(opts: TownViewMountOpts): { update(): void; destroy(): void } {
-  const { svg, getState, selection, onSelectFocus = true } = opts;
+  const { svg, getState, selection, onSelectFocus = true, spread, getSide } = opts;
 
-  // Initialize the town renderer
-  const renderer = renderTowns({ svg, getState });
+  // Initialize the town renderer, with caravans drawn beneath the towns
+  const renderer = renderTowns({
+    svg,
+    getState,
+    ...(spread && { spread }),
+    ...(getSide && { getSide }),
+  });
+  const caravans = renderCaravans({ svg, getState });
 
   // Track the currently selected town group for highlighting
   let currentSelectedGroup: SVGGElement | null = null;
@@ -56,6 +69,7 @@ export function mountTownView(opts: TownViewMountOpts): { update(): void; destro
    */
   function update(): void {
     renderer.update();
+    caravans.update();
   }
 
   /**
@@ -64,6 +78,7 @@ export function mountTownView(opts: TownViewMountOpts): { update(): void; destro
   function destroy(): void {
     unsubscribeSelection();
     renderer.destroy();
+    caravans.destroy();
 
     // Clean up selection state
     if (currentSelectedGroup) {
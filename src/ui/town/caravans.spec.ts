@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import type { Caravan, GameState } from '../../types/GameState';
+
+import { caravanPosition, caravanProgress, renderCaravans } from './caravans';
+import { getTownLayout } from './layout';
+
+const caravan: Caravan = {
+  id: 'caravan-1-0',
+  originId: 'forestburg',
+  destinationId: 'riverdale',
+  goodId: 'wood',
+  quantity: 5,
+  departedTurn: 1,
+  arrivalTurn: 3,
+};
+
+const createMockGameState = (caravans?: Caravan[]): GameState => ({
+  turn: 1,
+  version: 1,
+  rngSeed: 'test-seed',
+  towns: [
+    {
+      id: 'riverdale',
+      name: 'Riverdale',
+      resources: { fish: 100, wood: 50, ore: 25 },
+      prices: { fish: 15, wood: 20, ore: 30 },
+      militaryRaw: 5,
+      prosperityRaw: 3,
+      treasury: 1000,
+      revealed: { militaryTier: 'garrison', prosperityTier: 'modest', lastUpdatedTurn: 0 },
+    },
+  ],
+  goods: {
+    fish: { id: 'fish', name: 'Fish', effects: { prosperityDelta: 1, militaryDelta: 0 } },
+    wood: { id: 'wood', name: 'Wood', effects: { prosperityDelta: 0, militaryDelta: 1 } },
+    ore: { id: 'ore', name: 'Ore', effects: { prosperityDelta: 0, militaryDelta: 2 } },
+  },
+  ...(caravans && { caravans }),
+});
+
+describe('caravan rendering', () => {
+  describe('caravanProgress', () => {
+    it('moves caravans along the route turn by turn', () => {
+      expect(caravanProgress(caravan, 1)).toBe(0.25);
+      expect(caravanProgress(caravan, 2)).toBe(0.75);
+      expect(caravanProgress(caravan, 3)).toBe(1);
+      expect(caravanProgress(caravan, 0)).toBe(0);
+    });
+  });
+
+  describe('caravanPosition', () => {
+    it('interpolates between the town layouts', () => {
+      const from = getTownLayout('forestburg')!;
+      const to = getTownLayout('riverdale')!;
+
+      expect(caravanPosition(caravan, 1)).toEqual({
+        x: from.x + (to.x - from.x) * 0.25,
+        y: from.y + (to.y - from.y) * 0.25,
+      });
+    });
+
+    it('returns undefined for towns without a layout', () => {
+      expect(caravanPosition({ ...caravan, originId: 'ghost' }, 1)).toBeUndefined();
+    });
+  });
+
+  describe('renderCaravans', () => {
+    let svg: SVGSVGElement;
+    let state: GameState;
+
+    beforeEach(() => {
+      svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+      svg.appendChild(document.createElementNS('http://www.w3.org/2000/svg', 'g'));
+      state = createMockGameState([caravan]);
+    });
+
+    it('draws each caravan beneath the existing content', () => {
+      renderCaravans({ svg, getState: () => state });
+
+      const layer = svg.firstChild as SVGGElement;
+      expect(layer.classList.contains('caravan-layer')).toBe(true);
+
+      const group = layer.querySelector('[data-caravan-id="caravan-1-0"]')!;
+      expect(group.querySelector('.caravan-route')).toBeTruthy();
+      expect(group.querySelector('.caravan-marker title')?.textContent).toBe(
+        '5 wood to Riverdale, arriving turn 3',
+      );
+    });
+
+    it('redraws caravans from the current state on update', () => {
+      const view = renderCaravans({ svg, getState: () => state });
+
+      state = { ...createMockGameState([caravan]), turn: 2 };
+      view.update();
+      const marker = svg.querySelector('.caravan-marker')!;
+      const position = caravanPosition(caravan, 2)!;
+      expect(marker.getAttribute('cx')).toBe(position.x.toString());
+
+      state = createMockGameState([]);
+      view.update();
+      expect(svg.querySelectorAll('.caravan')).toHaveLength(0);
+    });
+
+    it('adds no layer until there are caravans', () => {
+      state = createMockGameState();
+      const view = renderCaravans({ svg, getState: () => state });
+      expect(svg.querySelector('.caravan-layer')).toBeNull();
+
+      state = createMockGameState([caravan]);
+      view.update();
+      expect(svg.firstChild).toBe(svg.querySelector('.caravan-layer'));
+    });
+
+    it('removes the layer on destroy', () => {
+      const view = renderCaravans({ svg, getState: () => state });
+
+      view.destroy();
+
+      expect(svg.querySelector('.caravan-layer')).toBeNull();
+    });
+  });
+});
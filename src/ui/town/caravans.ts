@@ -0,0 +1,150 @@
+import type { Caravan, GameState } from '../../types/GameState';
+
+import { getTownLayout } from './layout';
+import type { TownLayout } from './layout';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Options for configuring the caravan renderer.
+ */
+export interface CaravanRendererOptions {
+  /** The SVG element to render caravans into */
+  svg: SVGSVGElement;
+  /** Function to get the current game state */
+  getState: () => GameState;
+}
+
+/**
+ * Fraction of the journey a caravan has covered at the given turn (0 to 1).
+ * Caravans are drawn mid-way through the turn they are on the road, so a
+ * one-turn trip sits half-way between its towns.
+ *
+ * @param caravan - The caravan in transit
+ * @param turn - The current game turn
+ * @returns Progress from the origin (0) to the destination (1)
+ */
+export function caravanProgress(caravan: Caravan, turn: number): number {
+  const duration = caravan.arrivalTurn - caravan.departedTurn;
+  if (duration <= 0) {
+    return 1;
+  }
+  const progress = (turn - caravan.departedTurn + 0.5) / duration;
+  return Math.min(1, Math.max(0, progress));
+}
+
+/**
+ * Position of a caravan on the map, interpolated between its origin and destination.
+ *
+ * @returns The caravan position, or undefined if either town has no layout
+ */
+export function caravanPosition(caravan: Caravan, turn: number): TownLayout | undefined {
+  const from = getTownLayout(caravan.originId);
+  const to = getTownLayout(caravan.destinationId);
+  if (!from || !to) {
+    return undefined;
+  }
+
+  const t = caravanProgress(caravan, turn);
+  return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+}
+
+/**
+ * Renders caravans in transit as markers travelling along the route between
+ * their towns, in a layer beneath the town nodes.
+ *
+ * @param opts - Configuration options for the renderer
+ * @returns Object with update and destroy methods
+ */
+export function renderCaravans(opts: CaravanRendererOptions): {
+  update(): void;
+  destroy(): void;
+} {
+  const { svg, getState } = opts;
+
+  // Created with the first caravan so maps without caravans keep their DOM unchanged
+  let layer: SVGGElement | null = null;
+
+  /**
+   * Creates the visual elements for a single caravan.
+   */
+  function createCaravanElements(caravan: Caravan, state: GameState): SVGGElement | undefined {
+    const from = getTownLayout(caravan.originId);
+    const to = getTownLayout(caravan.destinationId);
+    const position = caravanPosition(caravan, state.turn);
+    if (!from || !to || !position) {
+      return undefined;
+    }
+
+    const group = document.createElementNS(SVG_NS, 'g');
+    group.setAttribute('data-caravan-id', caravan.id);
+    group.classList.add('caravan');
+
+    const route = document.createElementNS(SVG_NS, 'line');
+    route.setAttribute('x1', from.x.toString());
+    route.setAttribute('y1', from.y.toString());
+    route.setAttribute('x2', to.x.toString());
+    route.setAttribute('y2', to.y.toString());
+    route.classList.add('caravan-route');
+
+    const marker = document.createElementNS(SVG_NS, 'circle');
+    marker.setAttribute('cx', position.x.toString());
+    marker.setAttribute('cy', position.y.toString());
+    marker.setAttribute('r', '10');
+    marker.classList.add('caravan-marker');
+
+    // Native tooltip describing the cargo
+    const destination = state.towns.find(t => t.id === caravan.destinationId);
+    const title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = `${caravan.quantity} ${caravan.goodId} to ${
+      destination?.name ?? caravan.destinationId
+    }, arriving turn ${caravan.arrivalTurn}`;
+
+    marker.appendChild(title);
+    group.appendChild(route);
+    group.appendChild(marker);
+    return group;
+  }
+
+  /**
+   * Redraws every caravan from the current state.
+   */
+  function update(): void {
+    const state = getState();
+    const caravans = state.caravans ?? [];
+    if (!layer) {
+      if (caravans.length === 0) {
+        return;
+      }
+      layer = document.createElementNS(SVG_NS, 'g');
+      layer.classList.add('caravan-layer');
+      svg.insertBefore(layer, svg.firstChild);
+    }
+
+    const target = layer;
+    while (target.firstChild) {
+      target.removeChild(target.firstChild);
+    }
+    caravans.forEach(caravan => {
+      const group = createCaravanElements(caravan, state);
+      if (group) {
+        target.appendChild(group);
+      }
+    });
+  }
+
+  /**
+   * Removes the caravan layer from the SVG.
+   */
+  function destroy(): void {
+    if (layer?.parentNode) {
+      layer.parentNode.removeChild(layer);
+    }
+    layer = null;
+  }
+
+  // Perform initial render
+  update();
+
+  return { update, destroy };
+}
@@ -1,7 +1,8 @@
+import { loadGoodsRegistry } from '../../core/goods/GoodsRegistry';
 import type { GoodId } from '../../types/Goods';
 
 /**
  * Stable order for goods display and processing.
- * This ensures consistent ordering across the UI.
+ * This ensures consistent ordering across the UI and follows the goods catalog order.
  */
-export const GOOD_ORDER: GoodId[] = ['fish', 'wood', 'ore'];
+export const GOOD_ORDER: readonly GoodId[] = loadGoodsRegistry().ids;
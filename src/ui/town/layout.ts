@@ -1,3 +1,5 @@
+import { loadTownGraph } from '../../core/map/TownGraph';
+
 /**
  * Defines the layout positions for towns in the SVG canvas.
  * Uses a 1000x1000 viewBox coordinate system for simplicity and scalability.
@@ -11,16 +13,10 @@ export interface TownLayout {
 }
 
 /**
- * Hardcoded layout positions for the three towns.
- * - Player town: center (500, 580)
- * - AI town 1: top-left (250, 250)
- * - AI town 2: bottom-right (750, 750)
+ * Layout positions for every town, read from the map data (map.json) that also
+ * drives distances and transport costs.
  */
-const TOWN_LAYOUTS: Record<string, TownLayout> = {
-  riverdale: { x: 500, y: 580 }, // Player town - center
-  forestburg: { x: 250, y: 250 }, // AI town 1 - top-left
-  ironforge: { x: 750, y: 750 }, // AI town 2 - bottom-right
-};
+const TOWN_LAYOUTS: Record<string, TownLayout> = { ...loadTownGraph().positions };
 
 /**
  * Gets the layout position for a town by ID.
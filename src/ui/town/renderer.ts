@@ -1,3 +1,5 @@
+import type { SpreadConfig } from '../../core/pricing/Spread';
+import type { TradeSide } from '../../core/trade/TradeTypes';
 import type { GameState } from '../../types/GameState';
 
 import { ariaTownSummary } from './format';
@@ -12,6 +14,10 @@ export interface TownRendererOptions {
   svg: SVGSVGElement;
   /** Function to get the current game state */
   getState: () => GameState;
+  /** Optional bid/ask spread for the price pills */
+  spread?: SpreadConfig;
+  /** Optional side the player trades on; pills show asks for 'buy' and bids for 'sell' (default 'buy') */
+  getSide?: () => TradeSide;
 }
 
 /**
@@ -45,7 +51,7 @@ interface RenderedTown {
  * @returns Object with update and destroy methods
  */
 export function renderTowns(opts: TownRendererOptions): { update(): void; destroy(): void } {
-  const { svg, getState } = opts;
+  const { svg, getState, spread, getSide } = opts;
   const renderedTowns = new Map<string, RenderedTown>();
 
   /**
@@ -160,7 +166,10 @@ export function renderTowns(opts: TownRendererOptions): { update(): void; destro
   function updateTown(townId: string, rendered: RenderedTown): void {
     try {
       const state = getState();
-      const townVM = selectTownVM(state, townId);
+      const townVM = selectTownVM(state, townId, {
+        ...(spread && { spread }),
+        ...(getSide && { side: getSide() }),
+      });
 
       // Update town name
       rendered.name.textContent = townVM.name;
@@ -75,16 +75,22 @@ describe('selectors', () => {
         goodId: 'fish',
         value: 10,
         text: '₲10',
+        bid: 10,
+        ask: 10,
       });
       expect(result.prices[1]).toEqual({
         goodId: 'wood',
         value: 15,
         text: '₲15',
+        bid: 15,
+        ask: 15,
       });
       expect(result.prices[2]).toEqual({
         goodId: 'ore',
         value: 20,
         text: '₲20',
+        bid: 20,
+        ask: 20,
       });
 
       // Check tier information
@@ -98,6 +104,36 @@ describe('selectors', () => {
       });
     });
 
+    it('shows a dash without a price for goods the town does not trade', () => {
+      const unquoted = {
+        ...mockGameState,
+        towns: [{ ...mockGameState.towns[0]!, prices: { fish: 10, wood: 15 } }],
+      };
+
+      const result = selectTownVM(unquoted, 'town-1');
+
+      expect(result.prices[2]).toEqual({
+        goodId: 'ore',
+        value: null,
+        text: '—',
+        bid: null,
+        ask: null,
+      });
+    });
+
+    it('shows asks when buying and bids when selling with a spread', () => {
+      const spread = { margin: 0.1, tierMargins: { struggling: 0.25 } };
+
+      const buying = selectTownVM(mockGameState, 'town-1', { spread });
+      const selling = selectTownVM(mockGameState, 'town-1', { spread, side: 'sell' });
+      const struggling = selectTownVM(mockGameState, 'town-2', { spread, side: 'sell' });
+
+      expect(buying.prices[0]).toEqual({ goodId: 'fish', value: 11, text: '₲11', bid: 9, ask: 11 });
+      expect(selling.prices[0]).toMatchObject({ value: 9, text: '₲9' });
+      // Struggling towns use their own, wider margin
+      expect(struggling.prices[0]).toMatchObject({ value: 6, bid: 6, ask: 10 });
+    });
+
     it('handles different tier combinations correctly', () => {
       const result = selectTownVM(mockGameState, 'town-2');
 
@@ -1,3 +1,6 @@
+import { townBidAsk } from '../../core/pricing/Spread';
+import type { SpreadConfig } from '../../core/pricing/Spread';
+import type { TradeSide } from '../../core/trade/TradeTypes';
 import type { GameState } from '../../types/GameState';
 import type { GoodId } from '../../types/Goods';
 import type { MilitaryTier, ProsperityTier } from '../../types/Tiers';
@@ -11,10 +14,24 @@ import { formatCurrency, labelProsperity, labelMilitary } from './format';
 export interface PriceEntry {
   /** The good identifier */
   goodId: GoodId;
-  /** The price value as a number */
-  value: number;
-  /** The formatted price text */
+  /** The price on the selected side as a number (null if the town does not trade the good) */
+  value: number | null;
+  /** The formatted price text (a dash if the town does not trade the good) */
   text: string;
+  /** Price the town pays when the player sells (null if it does not trade the good) */
+  bid: number | null;
+  /** Price the town charges when the player buys (null if it does not trade the good) */
+  ask: number | null;
+}
+
+/**
+ * Options for selecting a town view model.
+ */
+export interface TownVMOptions {
+  /** Optional bid/ask spread; without one, both sides are the curve price */
+  spread?: SpreadConfig;
+  /** Which side the player trades on: 'buy' shows asks, 'sell' shows bids (default 'buy') */
+  side?: TradeSide;
 }
 
 /**
@@ -44,10 +61,16 @@ export interface TownViewModel {
  *
  * @param state - The current game state
  * @param townId - The ID of the town to select
+ * @param opts - Optional spread and trade side for the prices
  * @returns A TownViewModel for the specified town
  * @throws Error if the town ID is not found
  */
-export function selectTownVM(state: GameState, townId: string): TownViewModel {
+export function selectTownVM(
+  state: GameState,
+  townId: string,
+  opts: TownVMOptions = {},
+): TownViewModel {
+  const { spread, side = 'buy' } = opts;
   const town = state.towns.find(t => t.id === townId);
 
   if (!town) {
@@ -55,11 +78,15 @@ export function selectTownVM(state: GameState, townId: string): TownViewModel {
   }
 
   // Create price entries in stable order
-  const prices: PriceEntry[] = GOOD_ORDER.map(goodId => ({
-    goodId,
-    value: town.prices[goodId],
-    text: formatCurrency(town.prices[goodId]),
-  }));
+  const prices: PriceEntry[] = GOOD_ORDER.map(goodId => {
+    const quote = townBidAsk(town, goodId, spread);
+    if (!quote) {
+      return { goodId, value: null, text: '—', bid: null, ask: null };
+    }
+    const { bid, ask } = quote;
+    const value = side === 'buy' ? ask : bid;
+    return { goodId, value, text: formatCurrency(value), bid, ask };
+  });
 
   return {
     id: town.id,